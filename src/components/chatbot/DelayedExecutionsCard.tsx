@@ -0,0 +1,62 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Hourglass, Loader2, X } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { useDelayedFlowExecutions } from "@/hooks/useChatbotFlows";
+
+// Executions waiting on a delay node - resumed every minute by the flow scheduler
+export function DelayedExecutionsCard() {
+  const { executions, loadingExecutions, cancelExecution } = useDelayedFlowExecutions();
+
+  if (loadingExecutions || executions.length === 0) return null;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Hourglass className="w-5 h-5" />
+          Execuções agendadas
+        </CardTitle>
+        <CardDescription>
+          Conversas aguardando um bloco de espera para continuar o fluxo
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          {executions.map((execution) => (
+            <div
+              key={execution.id}
+              className="flex items-center justify-between gap-4 p-3 rounded-lg border"
+            >
+              <div className="min-w-0">
+                <p className="font-medium truncate">
+                  {execution.whatsapp_contacts?.name || execution.whatsapp_contacts?.phone || "Contato removido"}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {execution.chatbot_flows?.name || "Fluxo removido"}
+                  {execution.next_action_at &&
+                    ` · retoma em ${format(new Date(execution.next_action_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}`}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-destructive shrink-0"
+                disabled={cancelExecution.isPending && cancelExecution.variables === execution.id}
+                onClick={() => cancelExecution.mutate(execution.id)}
+              >
+                {cancelExecution.isPending && cancelExecution.variables === execution.id ? (
+                  <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                ) : (
+                  <X className="w-4 h-4 mr-1" />
+                )}
+                Cancelar
+              </Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,80 @@
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BarChart3, Loader2, X } from "lucide-react";
+import { ANALYTICS_PERIODS, type FlowAnalytics } from "@/lib/flowAnalytics";
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return `${Math.max(1, Math.round(ms / 1000))}s`;
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours}h ${minutes % 60}min` : `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
+
+interface FlowAnalyticsPanelProps {
+  period: string;
+  onPeriodChange: (period: string) => void;
+  analytics: FlowAnalytics | null;
+  loading: boolean;
+  onClose: () => void;
+}
+
+// Totals of the heatmap shown on the canvas
+export function FlowAnalyticsPanel({ period, onPeriodChange, analytics, loading, onClose }: FlowAnalyticsPanelProps) {
+  const stats = analytics && [
+    { label: "Execuções", value: String(analytics.executions) },
+    { label: "Concluídas", value: `${Math.round(analytics.completionRate * 100)}%` },
+    { label: "Transferidas", value: String(analytics.transferred) },
+    {
+      label: "Tempo médio até concluir",
+      value: analytics.averageCompletionMs === null ? "-" : formatDuration(analytics.averageCompletionMs),
+    },
+  ];
+
+  return (
+    <div className="w-72 rounded-lg bg-white/95 shadow-md p-3 space-y-3 text-slate-700">
+      <div className="flex items-center justify-between">
+        <p className="flex items-center gap-2 text-sm font-semibold">
+          <BarChart3 className="w-4 h-4" />
+          Análise do fluxo
+        </p>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose} title="Fechar análise">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <Select value={period} onValueChange={onPeriodChange}>
+        <SelectTrigger className="h-8">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {ANALYTICS_PERIODS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {loading || !stats ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            {stats.map((stat) => (
+              <div key={stat.label} className="rounded-md bg-slate-100 px-2 py-1.5">
+                <p className="text-base font-semibold">{stat.value}</p>
+                <p className="text-[11px] text-slate-500">{stat.label}</p>
+              </div>
+            ))}
+          </div>
+          <p className="text-[11px] text-slate-500">
+            Cada bloco mostra quantas execuções passaram por ele e quantas pararam ali.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
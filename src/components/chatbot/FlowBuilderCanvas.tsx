@@ -21,18 +21,18 @@ import { Button } from "@/components/ui/button";
 import { 
   ArrowLeft, 
   Plus, 
-  MessageSquare, 
-  HelpCircle, 
-  GitBranch, 
-  Clock, 
-  Pause,
-  Zap, 
-  UserCheck, 
-  Flag,
   Loader2,
   ZoomIn,
   ZoomOut,
   Maximize2,
+  History,
+  Upload,
+  AlertTriangle,
+  CheckCircle2,
+  ChevronDown,
+  ChevronUp,
+  FlaskConical,
+  BarChart3,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -41,47 +41,39 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { toast } from "sonner";
-import { useChatbotFlowEditor, useChatbotFlows, NodeType, ChatbotFlowNode } from "@/hooks/useChatbotFlows";
+import { useChatbotFlowEditor, useChatbotFlows, useFlowAnalytics, useFlowVersions, NodeType, ChatbotFlowNode } from "@/hooks/useChatbotFlows";
+import { getAddableNodeTypes, getAvailableFlowVariables, getDefaultNodeConfig, getFlowNodeDefinition } from "@/lib/flowNodes";
+import { FlowTriggerRule, getFlowTriggerRules } from "@/lib/flowTriggers";
+import { createFlowSnapshot, diffFlowSnapshots, hasFlowChanges } from "@/lib/flowVersions";
+import { FlowIssueSeverity, hasBlockingIssues, validateFlow } from "@/lib/flowValidation";
 import { SelectionContextMenu } from "./SelectionContextMenu";
-
-// Node components
-import StartNode from "./nodes/StartNode";
-import MessageNode from "./nodes/MessageNode";
-import QuestionNode from "./nodes/QuestionNode";
-import ConditionNode from "./nodes/ConditionNode";
-import DelayNode from "./nodes/DelayNode";
-import PauseNode from "./nodes/PauseNode";
-import ActionNode from "./nodes/ActionNode";
-import TransferNode from "./nodes/TransferNode";
-import EndNode from "./nodes/EndNode";
+import { FlowVersionsDialog } from "./FlowVersionsDialog";
+import { FlowValidationList } from "./FlowValidationList";
+import { FlowSimulatorPanel } from "./FlowSimulatorPanel";
+import { FlowAnalyticsPanel } from "./FlowAnalyticsPanel";
+import { flowNodeTypes } from "./nodes";
+import { nodeAppearance } from "./nodes/appearance";
 import CustomEdge from "./edges/CustomEdge";
 
-const nodeTypes = {
-  start: StartNode,
-  message: MessageNode,
-  question: QuestionNode,
-  condition: ConditionNode,
-  delay: DelayNode,
-  pause: PauseNode,
-  action: ActionNode,
-  transfer: TransferNode,
-  end: EndNode,
-};
-
 const edgeTypes = {
   custom: CustomEdge,
 };
 
-const nodeOptions: { type: NodeType; label: string; icon: React.ElementType; color: string }[] = [
-  { type: "message", label: "Mensagem", icon: MessageSquare, color: "text-blue-500" },
-  { type: "question", label: "Pergunta", icon: HelpCircle, color: "text-purple-500" },
-  { type: "condition", label: "Condição", icon: GitBranch, color: "text-amber-500" },
-  { type: "delay", label: "Delay", icon: Clock, color: "text-cyan-500" },
-  { type: "pause", label: "Pausa", icon: Pause, color: "text-orange-500" },
-  { type: "action", label: "Ação", icon: Zap, color: "text-violet-500" },
-  { type: "transfer", label: "Transferir", icon: UserCheck, color: "text-rose-500" },
-  { type: "end", label: "Fim", icon: Flag, color: "text-slate-500" },
-];
+// Full class names so Tailwind picks them up
+const issueClassNames: Record<FlowIssueSeverity, string> = {
+  error: "ring-2 ring-red-500 ring-offset-4 ring-offset-slate-900 rounded-2xl",
+  warning: "ring-2 ring-amber-400 ring-offset-4 ring-offset-slate-900 rounded-2xl",
+};
+
+// Node the test chat is on (wins over the validation highlight)
+const simulatorNodeClassName = "ring-4 ring-sky-400 ring-offset-4 ring-offset-slate-900 rounded-2xl";
+
+const nodeOptions = getAddableNodeTypes().map((type) => ({
+  type,
+  label: getFlowNodeDefinition(type)?.label || type,
+  icon: nodeAppearance[type].icon,
+  color: nodeAppearance[type].color,
+}));
 
 interface FlowBuilderCanvasProps {
   flowId: string;
@@ -92,6 +84,7 @@ interface FlowBuilderCanvasProps {
 function FlowBuilderCanvasInner({ flowId, flowName, onClose }: FlowBuilderCanvasProps) {
   const { nodes: dbNodes, edges: dbEdges, loadingNodes, loadingEdges, addNode, updateNode, deleteNode, addEdge: addDbEdge, deleteEdge, ensureStartNode } = useChatbotFlowEditor(flowId);
   const { flows, updateFlow } = useChatbotFlows();
+  const { versions, publishFlow, restoreVersion } = useFlowVersions(flowId);
   const { fitView, zoomIn, zoomOut, getViewport, screenToFlowPosition } = useReactFlow();
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
   const [selectedNodes, setSelectedNodes] = useState<Node[]>([]);
@@ -100,9 +93,50 @@ function FlowBuilderCanvasInner({ flowId, flowName, onClose }: FlowBuilderCanvas
   const hasEnsuredStartNode = useRef(false);
   const hasCenteredView = useRef(false);
   const wrapperRef = useRef<HTMLDivElement | null>(null);
+  const [showVersions, setShowVersions] = useState(false);
+  const [showIssues, setShowIssues] = useState(false);
+  const [showSimulator, setShowSimulator] = useState(false);
+  const [simulatorNodeId, setSimulatorNodeId] = useState<string | null>(null);
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [analyticsPeriod, setAnalyticsPeriod] = useState("7");
 
   // Get current flow data for trigger configuration
   const currentFlow = flows.find(f => f.id === flowId);
+  const startTriggerRules = useMemo(() => (currentFlow ? getFlowTriggerRules(currentFlow) : []), [currentFlow]);
+
+  // Draft (what the canvas edits) vs the version conversations run
+  const publishedVersion = versions.find((v) => v.id === currentFlow?.published_version_id) || null;
+  const draftSnapshot = useMemo(() => createFlowSnapshot(dbNodes, dbEdges), [dbNodes, dbEdges]);
+  const hasUnpublishedChanges = useMemo(
+    () => hasFlowChanges(diffFlowSnapshots(publishedVersion, draftSnapshot)),
+    [publishedVersion, draftSnapshot]
+  );
+
+  // Problems of the draft, highlighted on the nodes (errors win over warnings)
+  const validationIssues = useMemo(() => validateFlow(draftSnapshot), [draftSnapshot]);
+  const hasValidationErrors = hasBlockingIssues(validationIssues);
+  const nodeIssueSeverity = useMemo(() => {
+    const severities = new Map<string, FlowIssueSeverity>();
+    validationIssues.forEach((issue) => {
+      if (issue.nodeId && severities.get(issue.nodeId) !== "error") severities.set(issue.nodeId, issue.severity);
+    });
+    return severities;
+  }, [validationIssues]);
+
+  // Heatmap of the executions started in the period (days)
+  const analyticsRange = useMemo(() => {
+    if (!showAnalytics) return null;
+    const to = new Date();
+    return { from: new Date(to.getTime() - Number(analyticsPeriod) * 24 * 60 * 60 * 1000), to };
+  }, [showAnalytics, analyticsPeriod]);
+  const { analytics, loadingAnalytics } = useFlowAnalytics(flowId, analyticsRange);
+  const nodeAnalytics = useCallback(
+    (nodeId: string) =>
+      showAnalytics && analytics
+        ? analytics.nodes[nodeId] || { reached: 0, reachRate: 0, dropOffs: 0, waiting: 0, choices: {} }
+        : undefined,
+    [showAnalytics, analytics]
+  );
 
   // Stable refs
   const dbEdgesRef = useRef(dbEdges);
@@ -113,10 +147,12 @@ function FlowBuilderCanvasInner({ flowId, flowName, onClose }: FlowBuilderCanvas
   dbNodesRef.current = dbNodes;
 
   // Handle updating flow triggers from StartNode
-  const handleUpdateTriggers = useCallback((keywords: string[], isDefault: boolean) => {
+  const handleUpdateTriggers = useCallback((rules: FlowTriggerRule[], isDefault: boolean) => {
     updateFlow.mutate({
       id: flowId,
-      trigger_keywords: keywords,
+      trigger_rules: rules,
+      // Keyword list kept in sync for older consumers of the flow
+      trigger_keywords: rules.filter((r) => r.type === "keyword" && r.value).map((r) => r.value!.trim().toLowerCase()),
       is_active: isDefault ? true : undefined, // Default flows should be active
     });
     // Note: is_default is managed at flow level, but we store trigger config
@@ -218,7 +254,7 @@ function FlowBuilderCanvasInner({ flowId, flowName, onClose }: FlowBuilderCanvas
       node_type: nodeType,
       position_x: Math.round(position.x),
       position_y: Math.round(position.y),
-      config: {},
+      config: getDefaultNodeConfig(nodeType),
     });
 
     // Create edges: source -> new node -> target
@@ -277,7 +313,7 @@ function FlowBuilderCanvasInner({ flowId, flowName, onClose }: FlowBuilderCanvas
       node_type: nodeType,
       position_x: Math.round(x),
       position_y: Math.round(y),
-      config: {},
+      config: getDefaultNodeConfig(nodeType),
     });
 
     // Optimistic: render immediately in canvas state
@@ -372,21 +408,26 @@ function FlowBuilderCanvasInner({ flowId, flowName, onClose }: FlowBuilderCanvas
             y: Number.isFinite(y) ? y : 200,
           };
 
+          const severity = nodeIssueSeverity.get(node.id);
+
           return {
             id: node.id,
             type: node.node_type,
             position: safePos,
             selected: node.id === selectedNodeId,
+            className: node.id === simulatorNodeId ? simulatorNodeClassName : severity ? issueClassNames[severity] : undefined,
             data: {
               ...config,
               hasConnections: isStartNode ? startNodeHasConnections : undefined,
               // Pass trigger config to StartNode
-              triggerKeywords: isStartNode ? (currentFlow?.trigger_keywords || []) : undefined,
+              triggerRules: isStartNode ? startTriggerRules : undefined,
               isDefault: isStartNode ? (currentFlow?.is_default || false) : undefined,
               onUpdateTriggers: isStartNode ? handleUpdateTriggers : undefined,
               onUpdate: (newConfig: Record<string, unknown>) => handleUpdateNode(node.id, newConfig),
               onDelete: node.node_type !== "start" ? () => handleDeleteNode(node.id) : undefined,
               onAddNode: handleAddNodeFromHandle,
+              availableVariables: getAvailableFlowVariables(dbNodes, dbEdges, node.id),
+              analytics: nodeAnalytics(node.id),
             },
           };
         });
@@ -399,25 +440,29 @@ function FlowBuilderCanvasInner({ flowId, flowName, onClose }: FlowBuilderCanvas
         
         const config = dbNode.config as Record<string, unknown>;
         const isStartNode = dbNode.node_type === "start";
+        const severity = nodeIssueSeverity.get(dbNode.id);
         
         return {
           ...rfNode,
           selected: rfNode.id === selectedNodeId,
+          className: dbNode.id === simulatorNodeId ? simulatorNodeClassName : severity ? issueClassNames[severity] : undefined,
           data: {
             ...config,
             hasConnections: isStartNode ? startNodeHasConnections : undefined,
             // Pass trigger config to StartNode
-            triggerKeywords: isStartNode ? (currentFlow?.trigger_keywords || []) : undefined,
+            triggerRules: isStartNode ? startTriggerRules : undefined,
             isDefault: isStartNode ? (currentFlow?.is_default || false) : undefined,
             onUpdateTriggers: isStartNode ? handleUpdateTriggers : undefined,
             onUpdate: (newConfig: Record<string, unknown>) => handleUpdateNode(dbNode.id, newConfig),
             onDelete: dbNode.node_type !== "start" ? () => handleDeleteNode(dbNode.id) : undefined,
             onAddNode: handleAddNodeFromHandle,
+            availableVariables: getAvailableFlowVariables(dbNodes, dbEdges, dbNode.id),
+            analytics: nodeAnalytics(dbNode.id),
           },
         };
       });
     });
-  }, [dbNodes, selectedNodeId, setNodes, handleUpdateNode, handleDeleteNode, handleAddNodeFromHandle, startNodeHasConnections, currentFlow, handleUpdateTriggers]);
+  }, [dbNodes, dbEdges, selectedNodeId, setNodes, handleUpdateNode, handleDeleteNode, handleAddNodeFromHandle, startNodeHasConnections, currentFlow, startTriggerRules, handleUpdateTriggers, nodeIssueSeverity, simulatorNodeId, nodeAnalytics]);
 
   // Sync DB edges -> STATE (guarded)
   useEffect(() => {
@@ -667,7 +712,7 @@ function FlowBuilderCanvasInner({ flowId, flowName, onClose }: FlowBuilderCanvas
       node_type: type,
       position_x: x,
       position_y: y,
-      config: {},
+      config: getDefaultNodeConfig(type),
     });
 
     // Optimistic: render immediately
@@ -740,7 +785,7 @@ function FlowBuilderCanvasInner({ flowId, flowName, onClose }: FlowBuilderCanvas
   }
 
   return (
-    <div ref={wrapperRef} className="h-full w-full bg-slate-900">
+    <div ref={wrapperRef} className="relative h-full w-full bg-slate-900">
       <ReactFlow
         nodes={nodes}
         edges={edges}
@@ -751,7 +796,7 @@ function FlowBuilderCanvasInner({ flowId, flowName, onClose }: FlowBuilderCanvas
         onNodeClick={onNodeClick}
         onPaneClick={onPaneClick}
         onSelectionChange={onSelectionChange}
-        nodeTypes={nodeTypes}
+        nodeTypes={flowNodeTypes}
         edgeTypes={edgeTypes}
         defaultEdgeOptions={{
           type: "custom",
@@ -801,15 +846,58 @@ function FlowBuilderCanvasInner({ flowId, flowName, onClose }: FlowBuilderCanvas
           </Button>
           <div className="px-4 py-2 bg-white/10 backdrop-blur-sm rounded-lg">
             <h2 className="font-semibold text-white">{flowName}</h2>
+            <p className="text-xs text-white/70">
+              {!publishedVersion
+                ? "Rascunho · nunca publicado"
+                : hasUnpublishedChanges
+                  ? `Alterações não publicadas · em produção: v${publishedVersion.version_number}`
+                  : `Publicado · v${publishedVersion.version_number}`}
+            </p>
           </div>
+          <Button variant="secondary" size="sm" className="gap-2" onClick={() => setShowVersions(true)}>
+            <History className="w-4 h-4" />
+            Versões
+          </Button>
+          <Button
+            size="sm"
+            className="gap-2 bg-emerald-500 hover:bg-emerald-600"
+            disabled={publishFlow.isPending || hasValidationErrors || (!!publishedVersion && !hasUnpublishedChanges)}
+            title={hasValidationErrors ? "Corrija os erros do fluxo para publicar" : undefined}
+            onClick={() => publishFlow.mutate(undefined)}
+          >
+            {publishFlow.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            Publicar
+          </Button>
+          <Button variant="secondary" size="sm" className="gap-2" onClick={() => setShowSimulator(true)}>
+            <FlaskConical className="w-4 h-4" />
+            Testar
+          </Button>
+          <Button
+            variant={showAnalytics ? "default" : "secondary"}
+            size="sm"
+            className="gap-2"
+            onClick={() => setShowAnalytics(!showAnalytics)}
+          >
+            <BarChart3 className="w-4 h-4" />
+            Análise
+          </Button>
         </Panel>
 
         {/* DEBUG UX: Visible state counter */}
-        <Panel position="top-right" className="pointer-events-none">
-          <div className="px-3 py-2 rounded-lg bg-white/10 backdrop-blur-sm text-white text-xs">
+        <Panel position="top-right" className="flex flex-col items-end gap-2">
+          <div className="px-3 py-2 rounded-lg bg-white/10 backdrop-blur-sm text-white text-xs pointer-events-none">
             <div className="font-medium">Nodes no estado: {nodes.length}</div>
             <div className="text-white/70">Edges no estado: {edges.length}</div>
           </div>
+          {showAnalytics && (
+            <FlowAnalyticsPanel
+              period={analyticsPeriod}
+              onPeriodChange={setAnalyticsPeriod}
+              analytics={analytics}
+              loading={loadingAnalytics}
+              onClose={() => setShowAnalytics(false)}
+            />
+          )}
         </Panel>
 
         {/* Add Node Button */}
@@ -836,6 +924,36 @@ function FlowBuilderCanvasInner({ flowId, flowName, onClose }: FlowBuilderCanvas
           </DropdownMenu>
         </Panel>
 
+        {/* Validation */}
+        <Panel position="bottom-center" className="w-80">
+          <div className="rounded-lg bg-white/95 shadow-md">
+            <button
+              onClick={() => setShowIssues(!showIssues)}
+              className="w-full flex items-center justify-between gap-2 px-3 py-2 text-sm font-medium text-slate-700"
+            >
+              <span className="flex items-center gap-2">
+                {validationIssues.length === 0 ? (
+                  <CheckCircle2 className="w-4 h-4 text-emerald-500" />
+                ) : (
+                  <AlertTriangle className={`w-4 h-4 ${hasValidationErrors ? "text-red-500" : "text-amber-500"}`} />
+                )}
+                {validationIssues.length === 0
+                  ? "Fluxo sem problemas"
+                  : `${validationIssues.filter((i) => i.severity === "error").length} erro(s), ${validationIssues.filter((i) => i.severity === "warning").length} aviso(s)`}
+              </span>
+              {validationIssues.length > 0 && (showIssues ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />)}
+            </button>
+            {showIssues && validationIssues.length > 0 && (
+              <div className="max-h-60 overflow-y-auto px-2 pb-2">
+                <FlowValidationList
+                  issues={validationIssues}
+                  onSelectNode={(nodeId) => fitView({ nodes: [{ id: nodeId }], padding: 0.5, duration: 400, maxZoom: 1.2 })}
+                />
+              </div>
+            )}
+          </div>
+        </Panel>
+
         {/* Zoom Controls */}
         <Panel position="bottom-right" className="flex flex-col gap-2">
           <Button
@@ -874,6 +992,27 @@ function FlowBuilderCanvasInner({ flowId, flowName, onClose }: FlowBuilderCanvas
         />
       </ReactFlow>
 
+      {showSimulator && (
+        <FlowSimulatorPanel
+          flowId={flowId}
+          flow={draftSnapshot}
+          onActiveNodeChange={setSimulatorNodeId}
+          onClose={() => setShowSimulator(false)}
+        />
+      )}
+
+      <FlowVersionsDialog
+        open={showVersions}
+        onOpenChange={setShowVersions}
+        versions={versions}
+        publishedVersionId={currentFlow?.published_version_id || null}
+        draft={draftSnapshot}
+        onPublish={(notes) => publishFlow.mutateAsync(notes)}
+        onRestore={(version) => restoreVersion.mutateAsync(version)}
+        isPublishing={publishFlow.isPending}
+        isRestoring={restoreVersion.isPending}
+      />
+
       {/* Selection Context Menu */}
       {contextMenuPosition && selectedNodes.length > 0 && (
         <SelectionContextMenu
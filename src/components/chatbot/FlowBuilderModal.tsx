@@ -40,9 +40,11 @@ import {
   Workflow,
   X,
   Loader2,
+  ShieldCheck,
 } from "lucide-react";
 import { useChatbotFlows, ChatbotFlow } from "@/hooks/useChatbotFlows";
 import { FlowBuilderCanvas } from "./FlowBuilderCanvas";
+import { FlowValidationDialog } from "./FlowValidationDialog";
 import { formatDistanceToNow } from "date-fns";
 import { ptBR } from "date-fns/locale";
 
@@ -57,6 +59,7 @@ export function FlowBuilderModal({ isOpen, onClose }: FlowBuilderModalProps) {
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [newFlowName, setNewFlowName] = useState("");
   const [flowToDelete, setFlowToDelete] = useState<ChatbotFlow | null>(null);
+  const [flowToValidate, setFlowToValidate] = useState<ChatbotFlow | null>(null);
 
   const handleCreateFlow = async () => {
     if (!newFlowName.trim()) return;
@@ -172,7 +175,12 @@ export function FlowBuilderModal({ isOpen, onClose }: FlowBuilderModalProps) {
                               <Workflow className="w-5 h-5 text-primary" />
                             </div>
                             <div>
-                              <h4 className="font-medium">{flow.name}</h4>
+                              <h4 className="font-medium flex items-center gap-2">
+                                {flow.name}
+                                {!flow.published_version_id && (
+                                  <Badge variant="outline" className="text-xs">Não publicado</Badge>
+                                )}
+                              </h4>
                               <p className="text-xs text-muted-foreground">
                                 Criado {formatDistanceToNow(new Date(flow.created_at), { 
                                   addSuffix: true, 
@@ -216,6 +224,10 @@ export function FlowBuilderModal({ isOpen, onClose }: FlowBuilderModalProps) {
                                   <Edit className="w-4 h-4 mr-2" />
                                   Editar
                                 </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => setFlowToValidate(flow)}>
+                                  <ShieldCheck className="w-4 h-4 mr-2" />
+                                  Validar
+                                </DropdownMenuItem>
                                 <DropdownMenuItem 
                                   className="text-destructive"
                                   onClick={() => setFlowToDelete(flow)}
@@ -283,6 +295,8 @@ export function FlowBuilderModal({ isOpen, onClose }: FlowBuilderModalProps) {
         </DialogContent>
       </Dialog>
 
+      <FlowValidationDialog flow={flowToValidate} onClose={() => setFlowToValidate(null)} />
+
       {/* Delete Confirmation */}
       <AlertDialog open={!!flowToDelete} onOpenChange={() => setFlowToDelete(null)}>
         <AlertDialogContent>
@@ -0,0 +1,163 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowRight, Loader2, Upload } from "lucide-react";
+import { ChatbotFlow, useFlowTransfer } from "@/hooks/useChatbotFlows";
+import {
+  FlowExport,
+  FlowImportMapping,
+  getFlowStageIds,
+  getFlowTags,
+  suggestFlowImportMapping,
+} from "@/lib/flowTransfer";
+
+const NO_STAGE = "none";
+const TARGET_TAGS_LIST = "flow-import-tags";
+
+interface FlowImportDialogProps {
+  file: FlowExport | null;
+  onOpenChange: (open: boolean) => void;
+  onImported: (flow: ChatbotFlow) => void;
+}
+
+// Creates a flow from an exported file, mapping its stages and tags to the ones of this company
+export function FlowImportDialog({ file, onOpenChange, onImported }: FlowImportDialogProps) {
+  const { targetStages, targetTags, importFlow } = useFlowTransfer(!!file);
+  const [name, setName] = useState("");
+  // Choices of the user on top of the suggested mapping
+  const [overrides, setOverrides] = useState<FlowImportMapping>({ stages: {}, tags: {} });
+
+  const stageIds = useMemo(() => (file ? getFlowStageIds(file.nodes) : []), [file]);
+  const tags = useMemo(() => (file ? getFlowTags(file.nodes) : []), [file]);
+
+  const suggested = file ? suggestFlowImportMapping(file, targetStages, targetTags) : { stages: {}, tags: {} };
+  const mapping: FlowImportMapping = {
+    stages: { ...suggested.stages, ...overrides.stages },
+    tags: { ...suggested.tags, ...overrides.tags },
+  };
+
+  useEffect(() => {
+    if (!file) return;
+    setName(file.flow.name);
+    setOverrides({ stages: {}, tags: {} });
+  }, [file]);
+
+  const sourceStageLabel = (stageId: string) => {
+    const stage = file?.stages.find((s) => s.id === stageId);
+    if (!stage) return "Etapa desconhecida";
+    return stage.funnel_name ? `${stage.funnel_name} · ${stage.name}` : stage.name;
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    const flow = await importFlow.mutateAsync({ file, name, mapping });
+    onImported(flow);
+  };
+
+  return (
+    <Dialog open={!!file} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Importar fluxo</DialogTitle>
+          <DialogDescription>
+            O fluxo é criado pausado e como rascunho. Revise e publique antes de ativar.
+          </DialogDescription>
+        </DialogHeader>
+
+        {file && (
+          <div className="space-y-5 max-h-[60vh] overflow-y-auto pr-1">
+            <div className="space-y-2">
+              <Label>Nome do fluxo</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} />
+              <p className="text-xs text-muted-foreground">
+                {file.nodes.length} bloco(s) · {file.edges.length} conexão(ões)
+              </p>
+            </div>
+
+            {stageIds.length > 0 && (
+              <div className="space-y-2">
+                <Label>Etapas do funil</Label>
+                <p className="text-xs text-muted-foreground">
+                  Escolha a etapa desta empresa usada pelas ações "Mover para etapa".
+                </p>
+                {stageIds.map((stageId) => (
+                  <div key={stageId} className="flex items-center gap-2">
+                    <span className="flex-1 text-sm truncate" title={sourceStageLabel(stageId)}>
+                      {sourceStageLabel(stageId)}
+                    </span>
+                    <ArrowRight className="w-4 h-4 text-muted-foreground shrink-0" />
+                    <Select
+                      value={mapping.stages[stageId]?.id || NO_STAGE}
+                      onValueChange={(value) =>
+                        setOverrides({
+                          ...overrides,
+                          stages: { ...overrides.stages, [stageId]: targetStages.find((s) => s.id === value) || null },
+                        })
+                      }
+                    >
+                      <SelectTrigger className="w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_STAGE}>Definir depois</SelectItem>
+                        {targetStages.map((stage) => (
+                          <SelectItem key={stage.id} value={stage.id}>
+                            {stage.funnel_name ? `${stage.funnel_name} · ${stage.name}` : stage.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {tags.length > 0 && (
+              <div className="space-y-2">
+                <Label>Tags</Label>
+                <p className="text-xs text-muted-foreground">Tags novas são criadas no primeiro uso.</p>
+                <datalist id={TARGET_TAGS_LIST}>
+                  {targetTags.map((tag) => (
+                    <option key={tag} value={tag} />
+                  ))}
+                </datalist>
+                {tags.map((tag) => (
+                  <div key={tag} className="flex items-center gap-2">
+                    <span className="flex-1 text-sm truncate">{tag}</span>
+                    <ArrowRight className="w-4 h-4 text-muted-foreground shrink-0" />
+                    <Input
+                      className="w-56"
+                      list={TARGET_TAGS_LIST}
+                      value={mapping.tags[tag] ?? tag}
+                      onChange={(e) => setOverrides({ ...overrides, tags: { ...overrides.tags, [tag]: e.target.value } })}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleImport} disabled={importFlow.isPending || !name.trim()}>
+            {importFlow.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+            Importar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
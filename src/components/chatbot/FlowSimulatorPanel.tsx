@@ -0,0 +1,275 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { ExternalLink, FastForward, FlaskConical, List, RotateCcw, Send, X } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useBusinessHours } from "@/hooks/useBusinessHours";
+import { WAITING_FOR_BUSINESS_HOURS, getFlowNodeDefinition } from "@/lib/flowNodes";
+import { FlowSnapshot } from "@/lib/flowVersions";
+import { FlowSimulator, SimulatorState, SimulatorStatus, createFlowSimulator } from "@/lib/flowSimulator";
+
+const CONTACT_NAME = "Contato de teste";
+
+// Bookkeeping of the simulated execution, not actions of the flow
+const HIDDEN_WRITE_TABLES = ["chatbot_flow_executions", "whatsapp_messages"];
+
+const statusLabels: Record<SimulatorStatus, string> = {
+  idle: "Aguardando a primeira mensagem",
+  running: "Executando",
+  waiting_response: "Aguardando resposta",
+  paused: "Em espera",
+  completed: "Encerrado",
+  failed: "Erro",
+};
+
+interface FlowSimulatorPanelProps {
+  flowId: string;
+  flow: FlowSnapshot;
+  // Node to highlight on the canvas
+  onActiveNodeChange: (nodeId: string | null) => void;
+  onClose: () => void;
+}
+
+// Test chat: runs the draft against a fake contact without sending anything
+export function FlowSimulatorPanel({ flowId, flow, onActiveNodeChange, onClose }: FlowSimulatorPanelProps) {
+  const { profile } = useAuth();
+  const { hours, timezone } = useBusinessHours();
+  const [state, setState] = useState<SimulatorState | null>(null);
+  const [text, setText] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const simulatorRef = useRef<FlowSimulator | null>(null);
+  const bottomRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    onActiveNodeChange(state?.currentNodeId || null);
+  }, [state?.currentNodeId, onActiveNodeChange]);
+
+  useEffect(() => () => onActiveNodeChange(null), [onActiveNodeChange]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [state?.messages.length]);
+
+  const run = async (action: (simulator: FlowSimulator) => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      if (!simulatorRef.current) {
+        simulatorRef.current = createFlowSimulator({
+          flow,
+          flowId,
+          companyId: profile?.company_id || "",
+          timezone,
+          businessHours: hours,
+          contactName: CONTACT_NAME,
+          ownerFirstName: profile?.full_name?.split(" ")[0],
+          onChange: setState,
+        });
+      }
+      await action(simulatorRef.current);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSend = (message: string, buttonId?: string) => {
+    if (!message.trim() && !buttonId) return;
+    setText("");
+    run((simulator) =>
+      simulator.getState().status === "idle"
+        ? simulator.start(message)
+        : simulator.reply({ text: message, buttonId })
+    );
+  };
+
+  // A new run picks up the edits made to the draft since the last one
+  const handleRestart = () => {
+    simulatorRef.current = null;
+    setState(null);
+    setText("");
+  };
+
+  const status = state?.status || "idle";
+  const isFinished = status === "completed" || status === "failed";
+  const currentNode = state?.currentNodeId ? flow.nodes.find((node) => node.id === state.currentNodeId) : null;
+  const writes = (state?.writes || []).filter((write) => !HIDDEN_WRITE_TABLES.includes(write.table));
+  const lastBotMessageId = [...(state?.messages || [])].reverse().find((m) => m.from === "bot")?.id;
+
+  return (
+    <div className="absolute top-0 right-0 bottom-0 z-50 w-96 flex flex-col bg-background border-l shadow-xl">
+      <div className="flex items-center justify-between gap-2 px-4 py-3 border-b">
+        <div className="flex items-center gap-2">
+          <FlaskConical className="w-4 h-4 text-primary" />
+          <div>
+            <p className="font-semibold text-sm">Testar fluxo</p>
+            <p className="text-xs text-muted-foreground">Rascunho atual · nenhuma mensagem é enviada</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="icon" onClick={handleRestart} title="Reiniciar">
+            <RotateCcw className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="icon" onClick={onClose} title="Fechar">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-2 bg-muted/30">
+        {!state && (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            Envie uma mensagem como se fosse o contato para iniciar o fluxo.
+          </p>
+        )}
+        {state?.messages.map((message) =>
+          message.from === "system" ? (
+            <p key={message.id} className="text-center text-xs text-muted-foreground">
+              {message.text}
+            </p>
+          ) : (
+            <div key={message.id} className={`flex ${message.from === "contact" ? "justify-end" : "justify-start"}`}>
+              <div
+                className={`max-w-[80%] rounded-lg px-3 py-2 text-sm whitespace-pre-wrap ${
+                  message.from === "contact" ? "bg-emerald-100 text-emerald-950" : "bg-background border"
+                }`}
+              >
+                {message.mediaUrl && (
+                  <p className="text-xs text-muted-foreground mb-1 break-all">
+                    [{message.mediaType}] {message.mediaUrl}
+                  </p>
+                )}
+                {message.text}
+                {message.buttons && (
+                  <div className="mt-2 flex flex-col gap-1">
+                    {message.buttons.map((button) => (
+                      <Button
+                        key={button.id}
+                        variant="outline"
+                        size="sm"
+                        disabled={isBusy || status !== "waiting_response" || message.id !== lastBotMessageId}
+                        onClick={() => handleSend(button.title, button.id)}
+                      >
+                        {button.title}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+                {message.list && (
+                  <div className="mt-2 space-y-1">
+                    <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <List className="w-3 h-3" />
+                      {message.list.button}
+                    </p>
+                    {message.list.sections.map((section, idx) => (
+                      <div key={idx} className="flex flex-col gap-1">
+                        {section.title && <p className="text-xs font-semibold text-muted-foreground">{section.title}</p>}
+                        {section.rows.map((row) => (
+                          <Button
+                            key={row.id}
+                            variant="outline"
+                            size="sm"
+                            className="justify-start"
+                            disabled={isBusy || status !== "waiting_response" || message.id !== lastBotMessageId}
+                            onClick={() => handleSend(row.title, row.id)}
+                          >
+                            {row.title}
+                          </Button>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {message.link && (
+                  <a
+                    href={message.link.url}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="mt-2 flex items-center justify-center gap-1 rounded-md border px-3 py-1.5 text-xs font-medium text-primary hover:bg-accent"
+                  >
+                    <ExternalLink className="w-3 h-3" />
+                    {message.link.text}
+                  </a>
+                )}
+              </div>
+            </div>
+          )
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      {status === "paused" && (
+        <div className="px-4 py-2 border-t flex items-center justify-between gap-2 text-xs text-muted-foreground">
+          <span>
+            {state?.context.waiting_for === WAITING_FOR_BUSINESS_HOURS ? "Transferência aguardando o horário de atendimento" : "Fluxo em espera"}
+          </span>
+          <Button size="sm" variant="outline" disabled={isBusy} onClick={() => run((simulator) => simulator.skipWait())}>
+            <FastForward className="w-4 h-4 mr-1" />
+            Pular espera
+          </Button>
+        </div>
+      )}
+
+      <form
+        className="flex gap-2 p-3 border-t"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSend(text);
+        }}
+      >
+        <Input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={isFinished ? "Fluxo encerrado - reinicie para testar de novo" : "Mensagem do contato..."}
+          disabled={isBusy || isFinished}
+        />
+        <Button type="submit" size="icon" disabled={isBusy || isFinished || !text.trim()}>
+          <Send className="w-4 h-4" />
+        </Button>
+      </form>
+
+      <div className="max-h-64 overflow-y-auto border-t px-4 py-3 space-y-3 text-xs">
+        <div className="flex items-center justify-between gap-2">
+          <Badge variant={status === "failed" ? "destructive" : "secondary"}>{statusLabels[status]}</Badge>
+          {currentNode && (
+            <span className="text-muted-foreground truncate">
+              Bloco: {getFlowNodeDefinition(currentNode.node_type)?.label || currentNode.node_type}
+            </span>
+          )}
+        </div>
+
+        <div>
+          <p className="font-medium mb-1">Variáveis</p>
+          {Object.keys(state?.variables || {}).length === 0 ? (
+            <p className="text-muted-foreground">Nenhuma variável definida</p>
+          ) : (
+            Object.entries(state!.variables).map(([name, value]) => (
+              <p key={name} className="font-mono break-all">
+                {name} = {value}
+              </p>
+            ))
+          )}
+        </div>
+
+        {writes.length > 0 && (
+          <div>
+            <p className="font-medium mb-1">Ações simuladas</p>
+            {writes.map((write, index) => (
+              <p key={index} className="font-mono break-all text-muted-foreground">
+                {write.op} {write.table} {JSON.stringify(write.values)}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {state && (
+          <div>
+            <p className="font-medium mb-1">Contexto da execução</p>
+            <pre className="font-mono whitespace-pre-wrap break-all text-muted-foreground">
+              {JSON.stringify(state.context, null, 2)}
+            </pre>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
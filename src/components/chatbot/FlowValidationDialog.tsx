@@ -0,0 +1,43 @@
+import { useMemo } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Loader2 } from "lucide-react";
+import { useChatbotFlowEditor, ChatbotFlow } from "@/hooks/useChatbotFlows";
+import { createFlowSnapshot } from "@/lib/flowVersions";
+import { hasBlockingIssues, validateFlow } from "@/lib/flowValidation";
+import { FlowValidationList } from "./FlowValidationList";
+
+interface FlowValidationDialogProps {
+  flow: ChatbotFlow | null;
+  onClose: () => void;
+}
+
+// Checks the draft of a flow from the flow list, without opening the builder
+export function FlowValidationDialog({ flow, onClose }: FlowValidationDialogProps) {
+  const { nodes, edges, loadingNodes, loadingEdges } = useChatbotFlowEditor(flow?.id || null);
+  const issues = useMemo(() => validateFlow(createFlowSnapshot(nodes, edges)), [nodes, edges]);
+
+  return (
+    <Dialog open={!!flow} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Validação: {flow?.name}</DialogTitle>
+          <DialogDescription>
+            {hasBlockingIssues(issues)
+              ? "Corrija os erros para publicar e ativar o fluxo. Avisos não bloqueiam."
+              : "O rascunho pode ser publicado e ativado."}
+          </DialogDescription>
+        </DialogHeader>
+        {loadingNodes || loadingEdges ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[360px]">
+            <FlowValidationList issues={issues} />
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
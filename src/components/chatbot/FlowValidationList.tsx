@@ -0,0 +1,44 @@
+import { AlertTriangle, CheckCircle2, XCircle } from "lucide-react";
+import type { FlowValidationIssue } from "@/lib/flowValidation";
+
+interface FlowValidationListProps {
+  issues: FlowValidationIssue[];
+  // Called with the node of the clicked issue (e.g. to focus it on the canvas)
+  onSelectNode?: (nodeId: string) => void;
+}
+
+// Errors first, then warnings
+export function FlowValidationList({ issues, onSelectNode }: FlowValidationListProps) {
+  if (issues.length === 0) {
+    return (
+      <p className="flex items-center gap-2 text-sm text-emerald-600">
+        <CheckCircle2 className="w-4 h-4" />
+        Nenhum problema encontrado
+      </p>
+    );
+  }
+
+  const sorted = [...issues].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1));
+
+  return (
+    <div className="space-y-1">
+      {sorted.map((issue, index) => {
+        const Icon = issue.severity === "error" ? XCircle : AlertTriangle;
+        const clickable = !!onSelectNode && !!issue.nodeId;
+        return (
+          <button
+            key={`${issue.nodeId}-${index}`}
+            disabled={!clickable}
+            onClick={() => issue.nodeId && onSelectNode?.(issue.nodeId)}
+            className={`w-full flex items-start gap-2 text-left text-xs p-1.5 rounded-md ${
+              issue.severity === "error" ? "text-red-600" : "text-amber-600"
+            } ${clickable ? "hover:bg-muted cursor-pointer" : "cursor-default"}`}
+          >
+            <Icon className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+            <span>{issue.message}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Loader2, Minus, Pencil, Plus, RotateCcw, Upload } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { getFlowNodeDefinition } from "@/lib/flowNodes";
+import { FlowSnapshot, FlowSnapshotNode, FlowVersion, diffFlowSnapshots, hasFlowChanges } from "@/lib/flowVersions";
+
+const DRAFT = "draft";
+
+const nodeLabel = (node: FlowSnapshotNode) => {
+  const label = getFlowNodeDefinition(node.node_type)?.label || node.node_type;
+  const text = ["message", "question", "label"].map((key) => node.config?.[key]).find((value) => typeof value === "string" && value);
+  return text ? `${label}: ${String(text).slice(0, 60)}` : label;
+};
+
+// What changed between two snapshots, grouped like the canvas (blocks, connections, layout)
+function FlowDiffList({ before, after }: { before: FlowSnapshot | null; after: FlowSnapshot }) {
+  const diff = diffFlowSnapshots(before, after);
+
+  if (!hasFlowChanges(diff)) {
+    return <p className="text-sm text-muted-foreground">Nenhuma alteração.</p>;
+  }
+
+  return (
+    <div className="space-y-1.5 text-sm">
+      {diff.addedNodes.map((node) => (
+        <p key={`added-${node.id}`} className="flex items-center gap-2 text-emerald-600">
+          <Plus className="w-3.5 h-3.5 shrink-0" />
+          <span className="truncate">{nodeLabel(node)}</span>
+        </p>
+      ))}
+      {diff.removedNodes.map((node) => (
+        <p key={`removed-${node.id}`} className="flex items-center gap-2 text-destructive">
+          <Minus className="w-3.5 h-3.5 shrink-0" />
+          <span className="truncate">{nodeLabel(node)}</span>
+        </p>
+      ))}
+      {diff.changedNodes.map(({ after: node }) => (
+        <p key={`changed-${node.id}`} className="flex items-center gap-2 text-amber-600">
+          <Pencil className="w-3.5 h-3.5 shrink-0" />
+          <span className="truncate">{nodeLabel(node)}</span>
+        </p>
+      ))}
+      {(diff.addedEdges.length > 0 || diff.removedEdges.length > 0) && (
+        <p className="text-muted-foreground">
+          Conexões: {diff.addedEdges.length} adicionada(s), {diff.removedEdges.length} removida(s)
+        </p>
+      )}
+      {diff.movedNodes.length > 0 && (
+        <p className="text-muted-foreground">{diff.movedNodes.length} bloco(s) reposicionado(s)</p>
+      )}
+    </div>
+  );
+}
+
+interface FlowVersionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  versions: FlowVersion[];
+  publishedVersionId: string | null;
+  draft: FlowSnapshot;
+  onPublish: (notes: string) => Promise<unknown>;
+  onRestore: (version: FlowVersion) => Promise<unknown>;
+  isPublishing: boolean;
+  isRestoring: boolean;
+}
+
+// Version history of a flow: publish the draft, compare versions and roll back
+export function FlowVersionsDialog({
+  open,
+  onOpenChange,
+  versions,
+  publishedVersionId,
+  draft,
+  onPublish,
+  onRestore,
+  isPublishing,
+  isRestoring,
+}: FlowVersionsDialogProps) {
+  const [selectedId, setSelectedId] = useState<string>(DRAFT);
+  const [notes, setNotes] = useState("");
+
+  const publishedVersion = versions.find((v) => v.id === publishedVersionId) || null;
+  const draftHasChanges = hasFlowChanges(diffFlowSnapshots(publishedVersion, draft));
+  const selectedIndex = versions.findIndex((v) => v.id === selectedId);
+  const selected = selectedIndex >= 0 ? versions[selectedIndex] : null;
+
+  const handlePublish = async () => {
+    await onPublish(notes);
+    setNotes("");
+  };
+
+  const handleRestore = async (version: FlowVersion) => {
+    await onRestore(version);
+    setSelectedId(DRAFT);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Versões do fluxo</DialogTitle>
+          <DialogDescription>
+            Conversas em andamento continuam na versão em que começaram. Novas conversas usam a versão publicada.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[220px_1fr] gap-4 min-h-[320px]">
+          <ScrollArea className="h-[360px] pr-2">
+            <div className="space-y-1">
+              <button
+                onClick={() => setSelectedId(DRAFT)}
+                className={`w-full text-left p-2 rounded-lg border ${selectedId === DRAFT ? "border-primary bg-primary/5" : "border-transparent hover:bg-muted"}`}
+              >
+                <p className="text-sm font-medium">Rascunho</p>
+                <p className="text-xs text-muted-foreground">
+                  {draftHasChanges ? "Alterações não publicadas" : "Igual à versão publicada"}
+                </p>
+              </button>
+              {versions.map((version) => (
+                <button
+                  key={version.id}
+                  onClick={() => setSelectedId(version.id)}
+                  className={`w-full text-left p-2 rounded-lg border ${selectedId === version.id ? "border-primary bg-primary/5" : "border-transparent hover:bg-muted"}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium">Versão {version.version_number}</p>
+                    {version.id === publishedVersionId && (
+                      <Badge className="bg-emerald-500 text-[10px] px-1.5 py-0">Publicada</Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(version.created_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                  </p>
+                  {version.notes && <p className="text-xs text-muted-foreground truncate">{version.notes}</p>}
+                </button>
+              ))}
+            </div>
+          </ScrollArea>
+
+          <div className="space-y-4">
+            {selected ? (
+              <>
+                <div>
+                  <p className="font-medium">Versão {selected.version_number}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {selected.nodes.length} bloco(s) · alterações em relação à{" "}
+                    {versions[selectedIndex + 1] ? `versão ${versions[selectedIndex + 1].version_number}` : "versão vazia"}
+                  </p>
+                </div>
+                <FlowDiffList before={versions[selectedIndex + 1] || null} after={selected} />
+                <Button variant="outline" onClick={() => handleRestore(selected)} disabled={isRestoring}>
+                  {isRestoring ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RotateCcw className="w-4 h-4 mr-2" />}
+                  Restaurar esta versão
+                </Button>
+                <p className="text-xs text-muted-foreground">
+                  O rascunho é substituído por esta versão e publicado como uma nova versão.
+                </p>
+              </>
+            ) : (
+              <>
+                <div>
+                  <p className="font-medium">Rascunho</p>
+                  <p className="text-xs text-muted-foreground">
+                    {publishedVersion ? `Alterações em relação à versão ${publishedVersion.version_number}` : "O fluxo ainda não foi publicado"}
+                  </p>
+                </div>
+                <FlowDiffList before={publishedVersion} after={draft} />
+                <div className="flex gap-2">
+                  <Input
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="O que mudou? (opcional)"
+                  />
+                  <Button
+                    onClick={handlePublish}
+                    disabled={isPublishing || (!!publishedVersion && !draftHasChanges)}
+                    className="bg-emerald-500 hover:bg-emerald-600 shrink-0"
+                  >
+                    {isPublishing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+                    Publicar
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,102 @@
+import { useRef } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CalendarCheck, FileUp, HelpCircle, Loader2, Plus, UserCheck } from "lucide-react";
+import { toast } from "sonner";
+import { FLOW_TEMPLATES, FlowTemplate } from "@/lib/flowTemplates";
+import { FlowExport, parseFlowExport } from "@/lib/flowTransfer";
+
+const templateIcons: Record<string, typeof Plus> = {
+  "lead-qualification": UserCheck,
+  "appointment-booking": CalendarCheck,
+  faq: HelpCircle,
+};
+
+interface NewFlowDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreateBlank: () => void;
+  onSelectTemplate: (template: FlowTemplate) => void;
+  onImportFile: (file: FlowExport) => void;
+  isCreating: boolean;
+}
+
+// Start a flow from scratch, from a built-in template or from an exported file
+export function NewFlowDialog({ open, onOpenChange, onCreateBlank, onSelectTemplate, onImportFile, isCreating }: NewFlowDialogProps) {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      onImportFile(parseFlowExport(await file.text()));
+    } catch (error) {
+      toast.error("Não foi possível importar: " + (error as Error).message);
+    }
+  };
+
+  const optionClassName =
+    "flex items-start gap-3 p-4 rounded-xl border text-left hover:bg-accent/50 hover:border-primary/40 transition-colors disabled:opacity-50 disabled:pointer-events-none";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Novo fluxo</DialogTitle>
+          <DialogDescription>Comece do zero, a partir de um modelo ou de um arquivo exportado.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid sm:grid-cols-2 gap-3">
+          <button className={optionClassName} onClick={onCreateBlank} disabled={isCreating}>
+            <div className="p-2 rounded-lg bg-muted">
+              <Plus className="w-5 h-5" />
+            </div>
+            <div>
+              <p className="font-medium">Em branco</p>
+              <p className="text-sm text-muted-foreground">Apenas o bloco inicial</p>
+            </div>
+          </button>
+
+          {FLOW_TEMPLATES.map((template) => {
+            const Icon = templateIcons[template.id] || Plus;
+            return (
+              <button
+                key={template.id}
+                className={optionClassName}
+                onClick={() => onSelectTemplate(template)}
+                disabled={isCreating}
+              >
+                <div className="p-2 rounded-lg bg-emerald-500/10">
+                  <Icon className="w-5 h-5 text-emerald-500" />
+                </div>
+                <div>
+                  <p className="font-medium">{template.name}</p>
+                  <p className="text-sm text-muted-foreground">{template.description}</p>
+                </div>
+              </button>
+            );
+          })}
+
+          <button className={optionClassName} onClick={() => inputRef.current?.click()} disabled={isCreating}>
+            <div className="p-2 rounded-lg bg-blue-500/10">
+              <FileUp className="w-5 h-5 text-blue-500" />
+            </div>
+            <div>
+              <p className="font-medium">Importar arquivo</p>
+              <p className="text-sm text-muted-foreground">Fluxo exportado em JSON</p>
+            </div>
+          </button>
+          <input ref={inputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+        </div>
+
+        {isCreating && (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Criando fluxo...
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,92 +1,18 @@
 import { memo } from "react";
-import { 
-  MessageSquare, 
-  HelpCircle, 
-  GitBranch, 
-  Clock, 
-  Pause,
-  Zap, 
-  UserCheck, 
-  Flag,
-  ArrowRight
-} from "lucide-react";
+import { ArrowRight } from "lucide-react";
 import { NodeType } from "@/hooks/useChatbotFlows";
+import { getAddableNodeTypes, getFlowNodeDefinition } from "@/lib/flowNodes";
+import { nodeAppearance } from "../nodes/appearance";
 
-interface BlockOption {
-  type: NodeType;
-  label: string;
-  description: string;
-  icon: React.ElementType;
-  color: string;
-  bgColor: string;
-}
-
-const blockOptions: BlockOption[] = [
-  { 
-    type: "message", 
-    label: "Enviar Mensagem", 
-    description: "Envie texto, imagem ou botões",
-    icon: MessageSquare, 
-    color: "text-blue-500",
-    bgColor: "bg-blue-500/10 hover:bg-blue-500/20"
-  },
-  { 
-    type: "question", 
-    label: "Fazer Pergunta", 
-    description: "Aguarde resposta do usuário",
-    icon: HelpCircle, 
-    color: "text-purple-500",
-    bgColor: "bg-purple-500/10 hover:bg-purple-500/20"
-  },
-  { 
-    type: "condition", 
-    label: "Condição", 
-    description: "Crie ramificações com regras",
-    icon: GitBranch, 
-    color: "text-amber-500",
-    bgColor: "bg-amber-500/10 hover:bg-amber-500/20"
-  },
-  { 
-    type: "action", 
-    label: "Ação", 
-    description: "Tags, funis, webhooks",
-    icon: Zap, 
-    color: "text-violet-500",
-    bgColor: "bg-violet-500/10 hover:bg-violet-500/20"
-  },
-  { 
-    type: "delay", 
-    label: "Delay", 
-    description: "Aguarde antes de continuar",
-    icon: Clock, 
-    color: "text-cyan-500",
-    bgColor: "bg-cyan-500/10 hover:bg-cyan-500/20"
-  },
-  { 
-    type: "pause", 
-    label: "Pausa", 
-    description: "Aguarde mensagem do contato",
-    icon: Pause, 
-    color: "text-orange-500",
-    bgColor: "bg-orange-500/10 hover:bg-orange-500/20"
-  },
-  { 
-    type: "transfer", 
-    label: "Transferir", 
-    description: "Passe para atendente humano",
-    icon: UserCheck, 
-    color: "text-rose-500",
-    bgColor: "bg-rose-500/10 hover:bg-rose-500/20"
-  },
-  { 
-    type: "end", 
-    label: "Encerrar", 
-    description: "Finalize o fluxo",
-    icon: Flag, 
-    color: "text-slate-400",
-    bgColor: "bg-slate-500/10 hover:bg-slate-500/20"
-  },
-];
+const blockOptions = getAddableNodeTypes().map((type) => {
+  const definition = getFlowNodeDefinition(type);
+  return {
+    type,
+    label: definition?.menuLabel || type,
+    description: definition?.description || "",
+    ...nodeAppearance[type],
+  };
+});
 
 interface BlockSelectionMenuProps {
   onSelect: (type: NodeType) => void;
@@ -2,19 +2,23 @@ import { memo, useState, useEffect } from "react";
 import { Handle, Position, NodeProps } from "@xyflow/react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
+import { VariablePicker } from "@/components/ui/variable-picker";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { Zap, Trash2, Plus, Loader2 } from "lucide-react";
 import { BlockSelectionMenu } from "../menus/BlockSelectionMenu";
 import { NodeType } from "@/hooks/useChatbotFlows";
 import { useFunnels, useFunnelStages } from "@/hooks/useFunnels";
+import { getFlowPickerVariables } from "./flowVariables";
+import { LeadFieldSelect } from "./LeadFieldSelect";
 
 interface ActionNodeData {
   action_type?: string;
   action_value?: string;
   funnel_id?: string;
   stage_id?: string;
+  lead_field?: string;
+  availableVariables?: string[];
   onUpdate?: (config: Record<string, unknown>) => void;
   onDelete?: () => void;
   onAddNode?: (nodeType: NodeType, sourceNodeId: string) => void;
@@ -24,6 +28,7 @@ const actionTypes = [
   { value: "add_tag", label: "Adicionar tag" },
   { value: "remove_tag", label: "Remover tag" },
   { value: "set_variable", label: "Definir variável" },
+  { value: "update_lead", label: "Atualizar lead" },
   { value: "move_stage", label: "Mover para etapa" },
   { value: "notify_team", label: "Notificar equipe" },
 ];
@@ -37,6 +42,7 @@ function ActionNode({ id, data }: NodeProps) {
   const [actionValue, setActionValue] = useState(nodeData?.action_value || "");
   const [selectedFunnelId, setSelectedFunnelId] = useState(nodeData?.funnel_id || "");
   const [selectedStageId, setSelectedStageId] = useState(nodeData?.stage_id || "");
+  const [leadField, setLeadField] = useState(nodeData?.lead_field || "");
   const [showMenu, setShowMenu] = useState(false);
   const [isHovered, setIsHovered] = useState(false);
 
@@ -50,14 +56,17 @@ function ActionNode({ id, data }: NodeProps) {
     if (nodeData?.action_value) setActionValue(nodeData.action_value);
     if (nodeData?.funnel_id) setSelectedFunnelId(nodeData.funnel_id);
     if (nodeData?.stage_id) setSelectedStageId(nodeData.stage_id);
-  }, [nodeData?.action_type, nodeData?.action_value, nodeData?.funnel_id, nodeData?.stage_id]);
+    if (nodeData?.lead_field) setLeadField(nodeData.lead_field);
+  }, [nodeData?.action_type, nodeData?.action_value, nodeData?.funnel_id, nodeData?.stage_id, nodeData?.lead_field]);
 
-  const handleUpdate = () => {
+  const handleUpdate = (changes: { lead_field?: string } = {}) => {
     nodeData?.onUpdate?.({ 
       action_type: actionType, 
       action_value: actionValue,
       funnel_id: selectedFunnelId,
       stage_id: selectedStageId,
+      lead_field: leadField,
+      ...changes,
     });
   };
 
@@ -95,6 +104,8 @@ function ActionNode({ id, data }: NodeProps) {
         return "Nome da tag...";
       case "set_variable":
         return "variavel=valor";
+      case "update_lead":
+        return "Valor, ex: {{var.email}}";
       case "move_stage":
         return "Nome da etapa...";
       case "notify_team":
@@ -173,15 +184,28 @@ function ActionNode({ id, data }: NodeProps) {
   );
 
   const renderDefaultInput = () => (
-    <Input
+    <VariablePicker
+      useDoubleBraces
+      variables={getFlowPickerVariables(nodeData?.availableVariables)}
       value={actionValue}
-      onChange={(e) => setActionValue(e.target.value)}
-      onBlur={handleUpdate}
+      onChange={setActionValue}
+      onBlur={() => handleUpdate()}
       placeholder={getPlaceholder()}
       className="h-9 text-sm"
     />
   );
 
+  const renderUpdateLeadConfig = () => (
+    <div className="space-y-3">
+      <LeadFieldSelect
+        value={leadField}
+        onChange={setLeadField}
+        onCommit={(field) => handleUpdate({ lead_field: field })}
+      />
+      {renderDefaultInput()}
+    </div>
+  );
+
   return (
     <Card className="w-[280px] bg-white border shadow-lg rounded-2xl overflow-visible">
       <Handle
@@ -217,12 +241,14 @@ function ActionNode({ id, data }: NodeProps) {
             setActionValue("");
             setSelectedFunnelId("");
             setSelectedStageId("");
+            setLeadField("");
             setTimeout(() => {
               nodeData?.onUpdate?.({ 
                 action_type: v, 
                 action_value: "",
                 funnel_id: "",
                 stage_id: "",
+                lead_field: "",
               });
             }, 0);
           }}
@@ -242,7 +268,9 @@ function ActionNode({ id, data }: NodeProps) {
         {/* Render appropriate config based on action type - use both local state and nodeData */}
         {(actionType === "move_stage" || currentActionType === "move_stage") 
           ? renderMoveStageConfig() 
-          : renderDefaultInput()
+          : actionType === "update_lead"
+            ? renderUpdateLeadConfig()
+            : renderDefaultInput()
         }
       </CardContent>
 
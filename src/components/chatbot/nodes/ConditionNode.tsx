@@ -3,50 +3,287 @@ import { Handle, Position, NodeProps } from "@xyflow/react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { VariablePicker } from "@/components/ui/variable-picker";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { GitBranch, Trash2, Plus } from "lucide-react";
+import { GitBranch, Trash2, Plus, X } from "lucide-react";
 import { BlockSelectionMenu } from "../menus/BlockSelectionMenu";
 import { NodeType } from "@/hooks/useChatbotFlows";
+import {
+  CONDITION_ELSE_HANDLE,
+  CONDITION_OPERATORS,
+  CONDITION_SUBJECTS,
+  ConditionBranch,
+  ConditionRule,
+  conditionNeedsValue,
+  parseVariableReference,
+} from "@/lib/flowNodes";
+import { BUSINESS_HOURS_CLOSED, BUSINESS_HOURS_OPEN } from "@/lib/businessHours";
+import { getFlowPickerVariables } from "./flowVariables";
 
-interface ConditionNodeData {
-  variable?: string;
-  operator?: string;
-  value?: string;
+interface ConditionNodeData extends ConditionRule {
+  branches?: ConditionBranch[];
+  availableVariables?: string[];
   onUpdate?: (config: Record<string, unknown>) => void;
   onDelete?: () => void;
   onAddNode?: (nodeType: NodeType, sourceNodeId: string, sourceHandle?: string) => void;
 }
 
-const operators = [
-  { value: "equals", label: "é igual a" },
-  { value: "not_equals", label: "não é igual a" },
-  { value: "contains", label: "contém" },
-  { value: "not_contains", label: "não contém" },
-  { value: "starts_with", label: "começa com" },
-  { value: "ends_with", label: "termina com" },
-  { value: "is_empty", label: "está vazio" },
-  { value: "is_not_empty", label: "não está vazio" },
-];
+// Subject of the condition - free text subjects from older flows are the last message
+const LAST_MESSAGE = "last_message";
+const LEAD_CUSTOM = "lead.custom";
+const BUSINESS_HOURS = "time.business_hours";
+
+const getSubjectOption = (subject: string) => {
+  const variableName = parseVariableReference(subject);
+  if (variableName) return `var.${variableName}`;
+  if (subject.startsWith(`${LEAD_CUSTOM}.`)) return LEAD_CUSTOM;
+  return CONDITION_SUBJECTS.some((s) => s.value === subject) ? subject : LAST_MESSAGE;
+};
+
+const getValuePlaceholder = (rule: ConditionRule) => {
+  if (rule.operator === "matches_regex") return "Ex: ^\\S+@\\S+\\.\\S+$";
+  if (rule.variable === "time.hour") return rule.operator === "between" ? "08:00,18:00" : "18:00";
+  if (rule.variable === "time.weekday") return "1,2,3,4,5 (0 = domingo)";
+  if (rule.operator === "between") return "mínimo,máximo";
+  if (rule.operator === "in_list") return "valor1, valor2";
+  return "Valor esperado...";
+};
+
+const createBranch = (index: number): ConditionBranch => ({
+  id: `branch-${crypto.randomUUID().slice(0, 8)}`,
+  label: `Saída ${index + 1}`,
+  variable: LAST_MESSAGE,
+  operator: "contains",
+  value: "",
+});
+
+interface RuleEditorProps {
+  rule: ConditionRule;
+  availableVariables: string[];
+  onChange: (rule: ConditionRule) => void;
+  // Save - called on selects and when text inputs lose focus
+  onCommit: (rule: ConditionRule) => void;
+}
+
+function RuleEditor({ rule, availableVariables, onChange, onCommit }: RuleEditorProps) {
+  const subject = rule.variable || LAST_MESSAGE;
+  const subjectOption = getSubjectOption(subject);
+  const operator = rule.operator || "equals";
+
+  const variableOptions = [...availableVariables];
+  const selectedVariable = parseVariableReference(subject);
+  if (selectedVariable && !variableOptions.includes(selectedVariable)) variableOptions.push(selectedVariable);
+
+  const change = (changes: ConditionRule, commit: boolean) => {
+    const updated = { ...rule, ...changes };
+    onChange(updated);
+    if (commit) onCommit(updated);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Select
+        value={subjectOption}
+        onValueChange={(v) =>
+          change(
+            v === BUSINESS_HOURS
+              ? { variable: v, operator: "equals", value: BUSINESS_HOURS_OPEN }
+              : { variable: v === LEAD_CUSTOM ? `${LEAD_CUSTOM}.` : v },
+            true
+          )
+        }
+      >
+        <SelectTrigger className="h-9 text-sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {CONDITION_SUBJECTS.map((s) => (
+            <SelectItem key={s.value} value={s.value}>
+              {s.label}
+            </SelectItem>
+          ))}
+          {variableOptions.map((name) => (
+            <SelectItem key={name} value={`var.${name}`}>
+              {`{{var.${name}}}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {subjectOption === LEAD_CUSTOM && (
+        <Input
+          value={subject.slice(`${LEAD_CUSTOM}.`.length)}
+          onChange={(e) => change({ variable: `${LEAD_CUSTOM}.${e.target.value.trim()}` }, false)}
+          onBlur={() => onCommit(rule)}
+          placeholder="Chave do campo"
+          className="h-9 text-sm"
+        />
+      )}
+
+      {subject === BUSINESS_HOURS ? (
+        <Select value={rule.value || BUSINESS_HOURS_OPEN} onValueChange={(v) => change({ operator: "equals", value: v }, true)}>
+          <SelectTrigger className="h-9 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={BUSINESS_HOURS_OPEN}>Aberto</SelectItem>
+            <SelectItem value={BUSINESS_HOURS_CLOSED}>Fechado</SelectItem>
+          </SelectContent>
+        </Select>
+      ) : (
+        <>
+          <Select value={operator} onValueChange={(v) => change({ operator: v }, true)}>
+            <SelectTrigger className="h-9 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CONDITION_OPERATORS.map((op) => (
+                <SelectItem key={op.value} value={op.value}>
+                  {op.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {conditionNeedsValue(operator) && (
+            <VariablePicker
+              useDoubleBraces
+              variables={getFlowPickerVariables(availableVariables)}
+              value={rule.value || ""}
+              onChange={(value) => change({ value }, false)}
+              onBlur={() => onCommit(rule)}
+              placeholder={getValuePlaceholder(rule)}
+              className="h-9 text-sm"
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+// Full class names so Tailwind picks them up
+const outputColors = {
+  emerald: { handle: "!bg-emerald-500", button: "bg-emerald-500 hover:bg-emerald-600" },
+  rose: { handle: "!bg-rose-500", button: "bg-rose-500 hover:bg-rose-600" },
+  amber: { handle: "!bg-amber-500", button: "bg-amber-500 hover:bg-amber-600" },
+};
+
+interface OutputHandleProps {
+  handleId: string;
+  color: keyof typeof outputColors;
+  menuOpen: boolean;
+  hovered: boolean;
+  onToggleMenu: () => void;
+  onSelect: (type: NodeType) => void;
+  onCloseMenu: () => void;
+}
+
+function OutputHandle({ handleId, color, menuOpen, hovered, onToggleMenu, onSelect, onCloseMenu }: OutputHandleProps) {
+  return (
+    <>
+      <Handle
+        type="source"
+        position={Position.Right}
+        id={handleId}
+        className={`!w-4 !h-4 ${outputColors[color].handle} !border-2 !border-white transition-all`}
+        style={{ position: 'relative', transform: 'none' }}
+      />
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          onToggleMenu();
+        }}
+        className={`
+          absolute top-1/2 -translate-y-1/2 left-3
+          w-5 h-5 rounded-full ${outputColors[color].button}
+          flex items-center justify-center
+          text-white shadow-lg
+          transition-all duration-200
+          ${(hovered || menuOpen) ? 'opacity-100 scale-100' : 'opacity-0 scale-75'}
+          z-10
+        `}
+      >
+        <Plus className="w-3 h-3" />
+      </button>
+      {menuOpen && (
+        <div className="absolute top-1/2 -translate-y-1/2 left-10 z-50">
+          <BlockSelectionMenu onSelect={onSelect} onClose={onCloseMenu} />
+        </div>
+      )}
+    </>
+  );
+}
 
 function ConditionNode({ id, data }: NodeProps) {
   const nodeData = data as ConditionNodeData;
-  const [variable, setVariable] = useState(nodeData?.variable || "");
-  const [operator, setOperator] = useState(nodeData?.operator || "equals");
-  const [value, setValue] = useState(nodeData?.value || "");
-  const [showTrueMenu, setShowTrueMenu] = useState(false);
-  const [showFalseMenu, setShowFalseMenu] = useState(false);
+  const [rule, setRule] = useState<ConditionRule>({
+    variable: nodeData?.variable || LAST_MESSAGE,
+    operator: nodeData?.operator || "equals",
+    value: nodeData?.value || "",
+  });
+  const [branches, setBranches] = useState<ConditionBranch[]>(nodeData?.branches || []);
+  const [menuHandle, setMenuHandle] = useState<string | null>(null);
   const [hoveredHandle, setHoveredHandle] = useState<string | null>(null);
+  const availableVariables = nodeData?.availableVariables || [];
+  const isSwitch = branches.length > 0;
 
-  const handleUpdate = () => {
-    nodeData?.onUpdate?.({ variable, operator, value });
+  const saveToDb = (newRule: ConditionRule, newBranches: ConditionBranch[]) => {
+    nodeData?.onUpdate?.({ ...newRule, branches: newBranches });
+  };
+
+  const updateBranch = (index: number, changes: Partial<ConditionBranch>, commit: boolean) => {
+    const newBranches = branches.map((branch, i) => (i === index ? { ...branch, ...changes } : branch));
+    setBranches(newBranches);
+    if (commit) saveToDb(rule, newBranches);
+  };
+
+  const handleAddBranch = () => {
+    const newBranches = [...branches, createBranch(branches.length)];
+    setBranches(newBranches);
+    saveToDb(rule, newBranches);
+  };
+
+  const handleRemoveBranch = (index: number) => {
+    const newBranches = branches.filter((_, i) => i !== index);
+    setBranches(newBranches);
+    saveToDb(rule, newBranches);
+  };
+
+  // Switch mode starts with the current rule as its first output
+  const handleModeChange = (toSwitch: boolean) => {
+    const newBranches = toSwitch ? [{ ...createBranch(0), ...rule }] : [];
+    const newRule = !toSwitch && branches[0]
+      ? { variable: branches[0].variable, operator: branches[0].operator, value: branches[0].value }
+      : rule;
+    setBranches(newBranches);
+    setRule(newRule);
+    saveToDb(newRule, newBranches);
   };
 
   const handleSelectBlock = (type: NodeType, handleId: string) => {
     nodeData?.onAddNode?.(type, id, handleId);
-    setShowTrueMenu(false);
-    setShowFalseMenu(false);
+    setMenuHandle(null);
   };
 
+  const renderOutput = (handleId: string, color: keyof typeof outputColors) => (
+    <div
+      className="absolute right-0 top-1/2 -translate-y-1/2 translate-x-[calc(100%+8px)]"
+      onMouseEnter={() => setHoveredHandle(handleId)}
+      onMouseLeave={() => setHoveredHandle(null)}
+    >
+      <OutputHandle
+        handleId={handleId}
+        color={color}
+        menuOpen={menuHandle === handleId}
+        hovered={hoveredHandle === handleId}
+        onToggleMenu={() => setMenuHandle(menuHandle === handleId ? null : handleId)}
+        onSelect={(type) => handleSelectBlock(type, handleId)}
+        onCloseMenu={() => setMenuHandle(null)}
+      />
+    </div>
+  );
+
   return (
     <Card className="w-[320px] bg-white border shadow-lg rounded-2xl overflow-visible">
       <Handle
@@ -54,7 +291,7 @@ function ConditionNode({ id, data }: NodeProps) {
         position={Position.Left}
         className="!w-4 !h-4 !bg-slate-400 !border-2 !border-white"
       />
-      
+
       {/* Header */}
       <div className="flex items-center justify-between px-4 py-3 bg-gradient-to-r from-amber-500 to-orange-500">
         <div className="flex items-center gap-2">
@@ -62,9 +299,9 @@ function ConditionNode({ id, data }: NodeProps) {
           <span className="font-medium text-white text-sm">Condição</span>
         </div>
         {nodeData?.onDelete && (
-          <Button 
-            variant="ghost" 
-            size="icon" 
+          <Button
+            variant="ghost"
+            size="icon"
             className="h-6 w-6 text-white/70 hover:text-white hover:bg-white/20"
             onClick={() => nodeData?.onDelete?.()}
           >
@@ -74,138 +311,90 @@ function ConditionNode({ id, data }: NodeProps) {
       </div>
 
       <CardContent className="p-4 space-y-3">
-        <div className="space-y-2">
-          <label className="text-xs font-medium text-muted-foreground">Se a variável</label>
-          <Input
-            value={variable}
-            onChange={(e) => setVariable(e.target.value)}
-            onBlur={handleUpdate}
-            placeholder="resposta, nome, email..."
-            className="h-9 text-sm"
-          />
+        <div className="grid grid-cols-2 gap-1 p-1 bg-slate-100 rounded-lg">
+          <Button
+            variant={isSwitch ? "ghost" : "secondary"}
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => isSwitch && handleModeChange(false)}
+          >
+            Sim / Não
+          </Button>
+          <Button
+            variant={isSwitch ? "secondary" : "ghost"}
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => !isSwitch && handleModeChange(true)}
+          >
+            Várias saídas
+          </Button>
         </div>
 
-        <Select value={operator} onValueChange={(v) => { setOperator(v); handleUpdate(); }}>
-          <SelectTrigger className="h-9 text-sm">
-            <SelectValue />
-          </SelectTrigger>
-          <SelectContent>
-            {operators.map((op) => (
-              <SelectItem key={op.value} value={op.value}>
-                {op.label}
-              </SelectItem>
+        {isSwitch ? (
+          <>
+            {branches.map((branch, idx) => (
+              <div key={branch.id} className="relative space-y-2 p-2 border rounded-lg">
+                <div className="flex items-center gap-1">
+                  <Input
+                    value={branch.label || ""}
+                    onChange={(e) => updateBranch(idx, { label: e.target.value }, false)}
+                    onBlur={() => saveToDb(rule, branches)}
+                    placeholder={`Saída ${idx + 1}`}
+                    className="h-8 text-xs font-medium"
+                  />
+                  <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={() => handleRemoveBranch(idx)}>
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+                <RuleEditor
+                  rule={branch}
+                  availableVariables={availableVariables}
+                  onChange={(updated) => updateBranch(idx, updated, false)}
+                  onCommit={(updated) => updateBranch(idx, updated, true)}
+                />
+                {renderOutput(branch.id, "amber")}
+              </div>
             ))}
-          </SelectContent>
-        </Select>
 
-        {!["is_empty", "is_not_empty"].includes(operator) && (
-          <Input
-            value={value}
-            onChange={(e) => setValue(e.target.value)}
-            onBlur={handleUpdate}
-            placeholder="Valor esperado..."
-            className="h-9 text-sm"
-          />
-        )}
+            <Button variant="outline" size="sm" className="w-full border-dashed" onClick={handleAddBranch}>
+              <Plus className="w-3 h-3 mr-1" />
+              Adicionar saída
+            </Button>
 
-        {/* True/False labels */}
-        <div className="flex justify-between text-xs pt-2">
-          <div className="flex items-center gap-1">
-            <div className="w-2 h-2 rounded-full bg-emerald-500" />
-            <span className="text-emerald-600 font-medium">Verdadeiro</span>
-          </div>
-          <div className="flex items-center gap-1">
-            <span className="text-rose-600 font-medium">Falso</span>
-            <div className="w-2 h-2 rounded-full bg-rose-500" />
-          </div>
-        </div>
-      </CardContent>
+            <div className="relative flex items-center justify-end gap-1 text-xs pt-1">
+              <span className="text-rose-600 font-medium">Senão</span>
+              <div className="w-2 h-2 rounded-full bg-rose-500" />
+              {renderOutput(CONDITION_ELSE_HANDLE, "rose")}
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-muted-foreground">Se</label>
+              <RuleEditor
+                rule={rule}
+                availableVariables={availableVariables}
+                onChange={setRule}
+                onCommit={(updated) => saveToDb(updated, branches)}
+              />
+            </div>
 
-      {/* True output with + button */}
-      <div 
-        className="absolute right-0 translate-x-1/2"
-        style={{ top: '60%' }}
-        onMouseEnter={() => setHoveredHandle('true')}
-        onMouseLeave={() => {
-          setHoveredHandle(null);
-          if (!showTrueMenu) setShowTrueMenu(false);
-        }}
-      >
-        <Handle
-          type="source"
-          position={Position.Right}
-          id="true"
-          className="!w-4 !h-4 !bg-emerald-500 !border-2 !border-white transition-all"
-        />
-        <button
-          onClick={(e) => {
-            e.stopPropagation();
-            setShowTrueMenu(!showTrueMenu);
-          }}
-          className={`
-            absolute top-1/2 -translate-y-1/2 left-3
-            w-5 h-5 rounded-full bg-emerald-500 hover:bg-emerald-600
-            flex items-center justify-center
-            text-white shadow-lg
-            transition-all duration-200
-            ${(hoveredHandle === 'true' || showTrueMenu) ? 'opacity-100 scale-100' : 'opacity-0 scale-75'}
-            z-10
-          `}
-        >
-          <Plus className="w-3 h-3" />
-        </button>
-        {showTrueMenu && (
-          <div className="absolute top-1/2 -translate-y-1/2 left-10 z-50">
-            <BlockSelectionMenu 
-              onSelect={(type) => handleSelectBlock(type, 'true')} 
-              onClose={() => setShowTrueMenu(false)} 
-            />
-          </div>
+            {/* True/False outputs */}
+            <div className="space-y-2 pt-2 text-xs">
+              <div className="relative flex items-center justify-end gap-1">
+                <span className="text-emerald-600 font-medium">Verdadeiro</span>
+                <div className="w-2 h-2 rounded-full bg-emerald-500" />
+                {renderOutput("true", "emerald")}
+              </div>
+              <div className="relative flex items-center justify-end gap-1">
+                <span className="text-rose-600 font-medium">Falso</span>
+                <div className="w-2 h-2 rounded-full bg-rose-500" />
+                {renderOutput("false", "rose")}
+              </div>
+            </div>
+          </>
         )}
-      </div>
-      
-      {/* False output with + button */}
-      <div 
-        className="absolute right-0 translate-x-1/2"
-        style={{ top: '85%' }}
-        onMouseEnter={() => setHoveredHandle('false')}
-        onMouseLeave={() => {
-          setHoveredHandle(null);
-          if (!showFalseMenu) setShowFalseMenu(false);
-        }}
-      >
-        <Handle
-          type="source"
-          position={Position.Right}
-          id="false"
-          className="!w-4 !h-4 !bg-rose-500 !border-2 !border-white transition-all"
-        />
-        <button
-          onClick={(e) => {
-            e.stopPropagation();
-            setShowFalseMenu(!showFalseMenu);
-          }}
-          className={`
-            absolute top-1/2 -translate-y-1/2 left-3
-            w-5 h-5 rounded-full bg-rose-500 hover:bg-rose-600
-            flex items-center justify-center
-            text-white shadow-lg
-            transition-all duration-200
-            ${(hoveredHandle === 'false' || showFalseMenu) ? 'opacity-100 scale-100' : 'opacity-0 scale-75'}
-            z-10
-          `}
-        >
-          <Plus className="w-3 h-3" />
-        </button>
-        {showFalseMenu && (
-          <div className="absolute top-1/2 -translate-y-1/2 left-10 z-50">
-            <BlockSelectionMenu 
-              onSelect={(type) => handleSelectBlock(type, 'false')} 
-              onClose={() => setShowFalseMenu(false)} 
-            />
-          </div>
-        )}
-      </div>
+      </CardContent>
     </Card>
   );
 }
@@ -0,0 +1,57 @@
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LEAD_FIELD_TARGETS } from "@/lib/flowNodes";
+
+const NO_FIELD = "none";
+const CUSTOM_PREFIX = "custom.";
+
+interface LeadFieldSelectProps {
+  // "", "name", "email" or "custom.<key>"
+  value: string;
+  onChange: (value: string) => void;
+  // Called when the choice is done (select changed or custom key input blurred)
+  onCommit: (value: string) => void;
+  allowNone?: boolean;
+}
+
+// Lead field a flow value is written to
+export function LeadFieldSelect({ value, onChange, onCommit, allowNone = false }: LeadFieldSelectProps) {
+  const isCustom = value.startsWith(CUSTOM_PREFIX);
+
+  const handleSelect = (selected: string) => {
+    const newValue = selected === NO_FIELD ? "" : selected === "custom" ? CUSTOM_PREFIX : selected;
+    onChange(newValue);
+    onCommit(newValue);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Select
+        value={isCustom ? "custom" : value || NO_FIELD}
+        onValueChange={handleSelect}
+      >
+        <SelectTrigger className="h-9 text-sm">
+          <SelectValue placeholder="Campo do lead" />
+        </SelectTrigger>
+        <SelectContent>
+          {allowNone && <SelectItem value={NO_FIELD}>Não salvar no lead</SelectItem>}
+          {LEAD_FIELD_TARGETS.map((target) => (
+            <SelectItem key={target.value} value={target.value}>
+              {target.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {isCustom && (
+        <Input
+          value={value.slice(CUSTOM_PREFIX.length)}
+          onChange={(e) => onChange(`${CUSTOM_PREFIX}${e.target.value.trim()}`)}
+          onBlur={() => onCommit(value)}
+          placeholder="Chave do campo"
+          className="h-9 text-sm"
+        />
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,8 @@ import { memo, useState, useCallback, useRef } from "react";
 import { Handle, Position, NodeProps } from "@xyflow/react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { VariablePicker } from "@/components/ui/variable-picker";
 import { 
   MessageSquare, 
   Trash2, 
@@ -12,7 +14,8 @@ import {
   Video, 
   FileText, 
   X, 
-  Loader2 
+  Loader2,
+  Link2
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -24,12 +27,20 @@ import { BlockSelectionMenu } from "../menus/BlockSelectionMenu";
 import { NodeType } from "@/hooks/useChatbotFlows";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import { getFlowPickerVariables } from "./flowVariables";
+import { WindowTemplateConfig, WindowTemplateFields } from "./WindowTemplateFields";
 
 interface MessageNodeData {
   message?: string;
   mediaType?: "text" | "image" | "audio" | "video" | "document";
   mediaUrl?: string;
   mediaFilename?: string;
+  cta_text?: string;
+  cta_url?: string;
+  window_template?: string;
+  window_template_language?: string;
+  window_template_params?: string[];
+  availableVariables?: string[];
   onUpdate?: (config: Record<string, unknown>) => void;
   onDelete?: () => void;
   onAddNode?: (nodeType: NodeType, sourceNodeId: string) => void;
@@ -55,19 +66,44 @@ function MessageNode({ id, data }: NodeProps) {
   );
   const [mediaUrl, setMediaUrl] = useState(nodeData?.mediaUrl || "");
   const [mediaFilename, setMediaFilename] = useState(nodeData?.mediaFilename || "");
+  // CTA URL button (text messages only)
+  const [showCta, setShowCta] = useState(!!(nodeData?.cta_text || nodeData?.cta_url));
+  const [ctaText, setCtaText] = useState(nodeData?.cta_text || "");
+  const [ctaUrl, setCtaUrl] = useState(nodeData?.cta_url || "");
+  // Template sent instead when the contact is outside the 24h window (Cloud API)
+  const [windowTemplate, setWindowTemplate] = useState<WindowTemplateConfig>({
+    window_template: nodeData?.window_template || "",
+    window_template_language: nodeData?.window_template_language || "pt_BR",
+    window_template_params: nodeData?.window_template_params || [],
+  });
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const currentTypeRef = useRef<"image" | "audio" | "video" | "document">("image");
 
-  const handleBlur = useCallback(() => {
-    setEditing(false);
+  const saveToDb = useCallback((overrides: Record<string, unknown> = {}) => {
     nodeData?.onUpdate?.({ 
       message: localMessage,
       mediaType,
       mediaUrl,
-      mediaFilename
+      mediaFilename,
+      cta_text: ctaText,
+      cta_url: ctaUrl,
+      ...windowTemplate,
+      ...overrides,
     });
-  }, [localMessage, mediaType, mediaUrl, mediaFilename, nodeData]);
+  }, [localMessage, mediaType, mediaUrl, mediaFilename, ctaText, ctaUrl, windowTemplate, nodeData]);
+
+  const handleBlur = useCallback(() => {
+    setEditing(false);
+    saveToDb();
+  }, [saveToDb]);
+
+  const handleRemoveCta = () => {
+    setShowCta(false);
+    setCtaText("");
+    setCtaUrl("");
+    saveToDb({ cta_text: "", cta_url: "" });
+  };
 
   const handleSelectBlock = (type: NodeType) => {
     nodeData?.onAddNode?.(type, id);
@@ -114,11 +150,10 @@ function MessageNode({ id, data }: NodeProps) {
       setMediaUrl(publicUrl.publicUrl);
       setMediaFilename(file.name);
       
-      nodeData?.onUpdate?.({ 
-        message: localMessage,
+      saveToDb({
         mediaType: currentTypeRef.current,
         mediaUrl: publicUrl.publicUrl,
-        mediaFilename: file.name
+        mediaFilename: file.name,
       });
 
       toast.success("Mídia enviada com sucesso!");
@@ -139,12 +174,7 @@ function MessageNode({ id, data }: NodeProps) {
     setMediaType("text");
     setMediaUrl("");
     setMediaFilename("");
-    nodeData?.onUpdate?.({ 
-      message: localMessage,
-      mediaType: "text",
-      mediaUrl: "",
-      mediaFilename: ""
-    });
+    saveToDb({ mediaType: "text", mediaUrl: "", mediaFilename: "" });
   };
 
   const renderMediaPreview = () => {
@@ -265,12 +295,15 @@ function MessageNode({ id, data }: NodeProps) {
             onClick={() => setEditing(true)}
           >
             {editing ? (
-              <textarea
+              <VariablePicker
                 autoFocus
-                className="w-full bg-transparent border-none outline-none resize-none text-sm font-medium text-slate-800"
+                multiline
+                useDoubleBraces
+                variables={getFlowPickerVariables(nodeData?.availableVariables)}
+                className="min-h-0 p-0 bg-transparent border-none shadow-none focus-visible:ring-0 focus-visible:ring-offset-0 resize-none text-sm font-medium text-slate-800"
                 placeholder={mediaType !== "text" ? "Legenda (opcional)..." : "Digite a mensagem do bot..."}
                 value={localMessage}
-                onChange={(e) => setLocalMessage(e.target.value)}
+                onChange={setLocalMessage}
                 onBlur={handleBlur}
                 rows={2}
               />
@@ -285,6 +318,46 @@ function MessageNode({ id, data }: NodeProps) {
             )}
           </div>
         </div>
+
+        {/* CTA URL button - sent as text with the link on QR code connections */}
+        {mediaType === "text" && (
+          showCta ? (
+            <div className="mt-3 space-y-2 rounded-xl border border-dashed border-blue-300 p-2">
+              <div className="flex items-center justify-between text-xs font-semibold text-slate-600">
+                <span className="flex items-center gap-1">
+                  <Link2 className="w-3 h-3" />
+                  Botão de link
+                </span>
+                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={handleRemoveCta}>
+                  <X className="w-3 h-3" />
+                </Button>
+              </div>
+              <Input
+                value={ctaText}
+                maxLength={20}
+                onChange={(e) => setCtaText(e.target.value)}
+                onBlur={() => saveToDb()}
+                placeholder="Texto do botão"
+                className="h-8 text-sm"
+              />
+              <Input
+                value={ctaUrl}
+                onChange={(e) => setCtaUrl(e.target.value)}
+                onBlur={() => saveToDb()}
+                placeholder="https://..."
+                className="h-8 text-sm"
+              />
+            </div>
+          ) : (
+            <Button variant="outline" size="sm" className="mt-3 w-full border-dashed" onClick={() => setShowCta(true)}>
+              <Link2 className="w-3 h-3 mr-1" />
+              Adicionar botão de link
+            </Button>
+          )
+        )}
+
+        {/* Fallback template for follow-ups that arrive after the 24h window (Cloud API only) */}
+        <WindowTemplateFields value={windowTemplate} onChange={setWindowTemplate} onCommit={(value) => saveToDb(value)} />
       </CardContent>
 
       {/* Output handle with + button */}
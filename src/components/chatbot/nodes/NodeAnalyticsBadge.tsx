@@ -0,0 +1,45 @@
+import { ConditionBranch, QUESTION_INVALID_HANDLE } from "@/lib/flowNodes";
+import type { NodeAnalytics } from "@/lib/flowAnalytics";
+
+// Heatmap color by the share of executions that reached the node
+const heatClassName = (reachRate: number) => {
+  if (reachRate >= 0.8) return "bg-red-500 text-white";
+  if (reachRate >= 0.5) return "bg-orange-500 text-white";
+  if (reachRate >= 0.25) return "bg-amber-400 text-slate-900";
+  if (reachRate > 0) return "bg-yellow-200 text-slate-900";
+  return "bg-slate-600 text-white";
+};
+
+const choiceLabel = (handle: string, data: Record<string, unknown>) => {
+  if (handle === QUESTION_INVALID_HANDLE) return "Inválida";
+  if (handle === "default") return "Resposta";
+  if (handle.startsWith("option-")) {
+    const options = (data.options as string[]) || [];
+    return options[Number(handle.slice("option-".length))] || handle;
+  }
+  return ((data.branches as ConditionBranch[]) || []).find((branch) => branch.id === handle)?.label || handle;
+};
+
+// Analytics overlay shown above a node on the canvas
+export function NodeAnalyticsBadge({ analytics, data }: { analytics: NodeAnalytics; data: Record<string, unknown> }) {
+  const choices = Object.entries(analytics.choices).sort(([, a], [, b]) => b - a);
+
+  return (
+    <div className="absolute bottom-full left-0 mb-2 flex flex-col items-start gap-1 pointer-events-none">
+      {choices.length > 0 && (
+        <div className="px-2 py-1 rounded-md bg-slate-800/90 text-[11px] text-white space-y-0.5">
+          {choices.map(([handle, count]) => (
+            <p key={handle}>
+              {choiceLabel(handle, data)}: <span className="font-semibold">{count}</span>
+            </p>
+          ))}
+        </div>
+      )}
+      <div className={`px-2 py-1 rounded-md text-xs font-medium shadow-md ${heatClassName(analytics.reachRate)}`}>
+        {analytics.reached} ({Math.round(analytics.reachRate * 100)}%)
+        {analytics.dropOffs > 0 && ` · ${analytics.dropOffs} abandonaram`}
+        {analytics.waiting > 0 && ` · ${analytics.waiting} aguardando`}
+      </div>
+    </div>
+  );
+}
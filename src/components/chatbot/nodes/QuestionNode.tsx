@@ -3,19 +3,53 @@ import { Handle, Position, NodeProps } from "@xyflow/react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { HelpCircle, Trash2, Plus, X } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { VariablePicker } from "@/components/ui/variable-picker";
+import { HelpCircle, Trash2, Plus, X, Heading } from "lucide-react";
 import { BlockSelectionMenu } from "../menus/BlockSelectionMenu";
 import { NodeType } from "@/hooks/useChatbotFlows";
+import {
+  ANSWER_VALIDATION_TYPES,
+  DEFAULT_MAX_RETRIES,
+  MAX_LIST_OPTIONS,
+  QUESTION_INVALID_HANDLE,
+  QuestionListSection,
+  getDefaultValidationMessage,
+  normalizeVariableName,
+} from "@/lib/flowNodes";
+import { getFlowPickerVariables } from "./flowVariables";
+import { LeadFieldSelect } from "./LeadFieldSelect";
+import { WindowTemplateConfig, WindowTemplateFields } from "./WindowTemplateFields";
 
 interface QuestionNodeData {
   question?: string;
   options?: string[];
+  display?: "buttons" | "list";
+  list_button?: string;
+  list_sections?: QuestionListSection[];
   variable?: string;
+  save_to_variable?: string;
+  save_to_lead_field?: string;
+  validation?: string;
+  validation_min?: number;
+  validation_max?: number;
+  validation_message?: string;
+  max_retries?: number;
+  window_template?: string;
+  window_template_language?: string;
+  window_template_params?: string[];
+  availableVariables?: string[];
   onUpdate?: (config: Record<string, unknown>) => void;
   onDelete?: () => void;
   onAddNode?: (nodeType: NodeType, sourceNodeId: string, sourceHandle?: string) => void;
 }
 
+// Section headings after option `removed` was deleted: the heading moves to the next option
+const removeOptionFromSections = (sections: QuestionListSection[], removed: number, optionCount: number) =>
+  sections
+    .map((section) => (section.start > removed ? { ...section, start: section.start - 1 } : section))
+    .filter((section, idx, all) => section.start < optionCount && all.findIndex((s) => s.start === section.start) === idx);
+
 function QuestionNode({ id, data }: NodeProps) {
   const nodeData = data as QuestionNodeData;
   const [editing, setEditing] = useState(false);
@@ -26,6 +60,30 @@ function QuestionNode({ id, data }: NodeProps) {
   const [hoveredOption, setHoveredOption] = useState<number | null>(null);
   const [showOptionMenu, setShowOptionMenu] = useState<number | null>(null);
   const [editingOptionIdx, setEditingOptionIdx] = useState<number | null>(null);
+  const [saveToVariable, setSaveToVariable] = useState(nodeData?.save_to_variable || "");
+  const [saveToLeadField, setSaveToLeadField] = useState(nodeData?.save_to_lead_field || "");
+  const [validation, setValidation] = useState(nodeData?.validation || "none");
+  const [validationMin, setValidationMin] = useState(nodeData?.validation_min?.toString() || "");
+  const [validationMax, setValidationMax] = useState(nodeData?.validation_max?.toString() || "");
+  const [validationMessage, setValidationMessage] = useState(nodeData?.validation_message || "");
+  const [maxRetries, setMaxRetries] = useState(nodeData?.max_retries ?? DEFAULT_MAX_RETRIES);
+  const [showInvalidMenu, setShowInvalidMenu] = useState(false);
+  const [display, setDisplay] = useState(nodeData?.display || "buttons");
+  const [listButton, setListButton] = useState(nodeData?.list_button || "");
+  const [listSections, setListSections] = useState<QuestionListSection[]>(nodeData?.list_sections || []);
+  // Template sent before the question when the contact is outside the 24h window (Cloud API)
+  const [windowTemplate, setWindowTemplate] = useState<WindowTemplateConfig>({
+    window_template: nodeData?.window_template || "",
+    window_template_language: nodeData?.window_template_language || "pt_BR",
+    window_template_params: nodeData?.window_template_params || [],
+  });
+  const isList = display === "list" && localOptions.length > 0;
+
+  const hasValidation = validation !== "none";
+  // Questions with options can only check the answer against them
+  const validationTypes = ANSWER_VALIDATION_TYPES.filter((t) =>
+    localOptions.length > 0 ? ["none", "option"].includes(t.value) : t.value !== "option"
+  );
 
   // Sync from props when not editing
   useEffect(() => {
@@ -40,29 +98,79 @@ function QuestionNode({ id, data }: NodeProps) {
     }
   }, [nodeData?.question, editing]);
 
-  const saveToDb = useCallback((question: string, options: string[]) => {
+  const saveToDb = useCallback((
+    question: string,
+    options: string[],
+    overrides: Record<string, unknown> = {}
+  ) => {
+    const toNumber = (value: string) => (value.trim() === "" ? undefined : Number(value));
     nodeData?.onUpdate?.({ 
       question, 
       options,
-      variable: nodeData?.variable 
+      variable: nodeData?.variable,
+      save_to_variable: saveToVariable,
+      save_to_lead_field: saveToLeadField,
+      validation,
+      validation_min: toNumber(validationMin),
+      validation_max: toNumber(validationMax),
+      validation_message: validationMessage,
+      max_retries: maxRetries,
+      display,
+      list_button: listButton,
+      list_sections: listSections,
+      ...windowTemplate,
+      ...overrides,
     });
-  }, [nodeData]);
+  }, [nodeData, saveToVariable, saveToLeadField, validation, validationMin, validationMax, validationMessage, maxRetries, display, listButton, listSections, windowTemplate]);
+
+  const handleDisplayChange = (value: "buttons" | "list") => {
+    setDisplay(value);
+    saveToDb(localQuestion, localOptions, { display: value });
+  };
+
+  const updateSections = (sections: QuestionListSection[]) => {
+    setListSections(sections);
+    saveToDb(localQuestion, localOptions, { list_sections: sections });
+  };
+
+  const sectionAt = (index: number) => listSections.find((section) => section.start === index);
+
+  const handleValidationChange = (value: string) => {
+    setValidation(value);
+    saveToDb(localQuestion, localOptions, { validation: value });
+  };
+
+  const handleVariableBlur = () => {
+    const name = normalizeVariableName(saveToVariable);
+    setSaveToVariable(name);
+    saveToDb(localQuestion, localOptions, { save_to_variable: name });
+  };
 
   const handleBlur = useCallback(() => {
     setEditing(false);
     saveToDb(localQuestion, localOptions);
   }, [localQuestion, localOptions, saveToDb]);
 
+  // Validation types depend on the question having options or not
+  const keepValidation = (options: string[]) => {
+    const allowed = options.length > 0 ? ["none", "option"] : ANSWER_VALIDATION_TYPES.map((t) => t.value).filter((v) => v !== "option");
+    const value = allowed.includes(validation) ? validation : "none";
+    setValidation(value);
+    return value;
+  };
+
   const handleAddOption = () => {
     const newOptions = [...localOptions, `Opção ${localOptions.length + 1}`];
     setLocalOptions(newOptions);
-    saveToDb(localQuestion, newOptions);
+    saveToDb(localQuestion, newOptions, { validation: keepValidation(newOptions) });
   };
 
   const handleRemoveOption = (index: number) => {
     const newOptions = localOptions.filter((_, i) => i !== index);
+    const sections = removeOptionFromSections(listSections, index, newOptions.length);
     setLocalOptions(newOptions);
-    saveToDb(localQuestion, newOptions);
+    setListSections(sections);
+    saveToDb(localQuestion, newOptions, { validation: keepValidation(newOptions), list_sections: sections });
   };
 
   const handleOptionChange = (index: number, value: string) => {
@@ -115,12 +223,15 @@ function QuestionNode({ id, data }: NodeProps) {
           onClick={() => setEditing(true)}
         >
           {editing ? (
-            <textarea
+            <VariablePicker
               autoFocus
-              className="w-full bg-transparent border-none outline-none resize-none text-sm font-medium text-slate-800"
+              multiline
+              useDoubleBraces
+              variables={getFlowPickerVariables(nodeData?.availableVariables)}
+              className="min-h-0 p-0 bg-transparent border-none shadow-none focus-visible:ring-0 focus-visible:ring-offset-0 resize-none text-sm font-medium text-slate-800"
               placeholder="Digite sua pergunta..."
               value={localQuestion}
-              onChange={(e) => setLocalQuestion(e.target.value)}
+              onChange={setLocalQuestion}
               onBlur={handleBlur}
               rows={2}
             />
@@ -134,69 +245,126 @@ function QuestionNode({ id, data }: NodeProps) {
         {/* Options with individual handles */}
         <div className="space-y-2">
           <p className="text-xs font-semibold text-slate-600">Opções de resposta:</p>
+          {localOptions.length > 0 && (
+            <div className="flex items-center gap-2">
+              <Select value={display} onValueChange={handleDisplayChange}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="buttons">Botões (até 3)</SelectItem>
+                  <SelectItem value="list">Lista (até {MAX_LIST_OPTIONS})</SelectItem>
+                </SelectContent>
+              </Select>
+              {isList && (
+                <Input
+                  value={listButton}
+                  maxLength={20}
+                  onChange={(e) => setListButton(e.target.value)}
+                  onBlur={() => saveToDb(localQuestion, localOptions)}
+                  placeholder="Ver opções"
+                  className="h-8 text-xs"
+                />
+              )}
+            </div>
+          )}
           {localOptions.map((opt, idx) => (
-            <div 
-              key={idx} 
-              className="relative flex items-center gap-2"
-              onMouseEnter={() => setHoveredOption(idx)}
-              onMouseLeave={() => {
-                setHoveredOption(null);
-                if (showOptionMenu !== idx) setShowOptionMenu(null);
-              }}
-            >
-              <Input
-                value={opt}
-                onChange={(e) => handleOptionChange(idx, e.target.value)}
-                onFocus={() => setEditingOptionIdx(idx)}
-                onBlur={() => handleOptionBlur(idx)}
-                className="flex-1 h-9 text-sm font-medium text-slate-800 pr-16 bg-slate-100 border-slate-300"
-                placeholder={`Opção ${idx + 1}`}
-              />
-              <Button 
-                variant="ghost" 
-                size="icon" 
-                className="h-8 w-8 shrink-0" 
-                onClick={() => handleRemoveOption(idx)}
-              >
-                <X className="w-3 h-3" />
-              </Button>
-              
-              {/* Option-specific output handle with + button */}
+            <div key={idx} className="space-y-2">
+              {isList && sectionAt(idx) && (
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={sectionAt(idx)!.title}
+                    maxLength={24}
+                    onChange={(e) =>
+                      setListSections(listSections.map((s) => (s.start === idx ? { ...s, title: e.target.value } : s)))
+                    }
+                    onBlur={() => saveToDb(localQuestion, localOptions)}
+                    placeholder="Título da seção"
+                    className="h-7 text-xs font-semibold uppercase tracking-wide"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0"
+                    onClick={() => updateSections(listSections.filter((s) => s.start !== idx))}
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+              )}
               <div 
-                className="absolute right-0 top-1/2 -translate-y-1/2 translate-x-[calc(100%+8px)]"
+                className="relative flex items-center gap-2"
+                onMouseEnter={() => setHoveredOption(idx)}
+                onMouseLeave={() => {
+                  setHoveredOption(null);
+                  if (showOptionMenu !== idx) setShowOptionMenu(null);
+                }}
               >
-                <Handle
-                  type="source"
-                  position={Position.Right}
-                  id={`option-${idx}`}
-                  className="!w-3 !h-3 !bg-purple-400 !border-2 !border-white transition-all"
-                  style={{ position: 'relative', transform: 'none' }}
+                <Input
+                  value={opt}
+                  onChange={(e) => handleOptionChange(idx, e.target.value)}
+                  onFocus={() => setEditingOptionIdx(idx)}
+                  onBlur={() => handleOptionBlur(idx)}
+                  className="flex-1 h-9 text-sm font-medium text-slate-800 pr-16 bg-slate-100 border-slate-300"
+                  placeholder={`Opção ${idx + 1}`}
                 />
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    setShowOptionMenu(showOptionMenu === idx ? null : idx);
-                  }}
-                  className={`
-                    absolute top-1/2 -translate-y-1/2 left-2
-                    w-5 h-5 rounded-full bg-purple-500 hover:bg-purple-600
-                    flex items-center justify-center
-                    text-white shadow-lg
-                    transition-all duration-200
-                    ${(hoveredOption === idx || showOptionMenu === idx) ? 'opacity-100 scale-100' : 'opacity-0 scale-75'}
-                    z-10
-                  `}
-                >
-                  <Plus className="w-3 h-3" />
-                </button>
-                {showOptionMenu === idx && (
-                  <div className="absolute top-1/2 -translate-y-1/2 left-9 z-50">
-                    <BlockSelectionMenu 
-                      onSelect={(type) => handleSelectBlock(type, `option-${idx}`)} 
-                      onClose={() => setShowOptionMenu(null)} 
-                    />
-                  </div>
+                {isList && !sectionAt(idx) && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    title="Iniciar seção nesta opção"
+                    onClick={() => updateSections([...listSections, { title: "", start: idx }])}
+                  >
+                    <Heading className="w-3 h-3" />
+                  </Button>
                 )}
+                <Button 
+                  variant="ghost" 
+                  size="icon" 
+                  className="h-8 w-8 shrink-0" 
+                  onClick={() => handleRemoveOption(idx)}
+                >
+                  <X className="w-3 h-3" />
+                </Button>
+              
+                {/* Option-specific output handle with + button */}
+                <div 
+                  className="absolute right-0 top-1/2 -translate-y-1/2 translate-x-[calc(100%+8px)]"
+                >
+                  <Handle
+                    type="source"
+                    position={Position.Right}
+                    id={`option-${idx}`}
+                    className="!w-3 !h-3 !bg-purple-400 !border-2 !border-white transition-all"
+                    style={{ position: 'relative', transform: 'none' }}
+                  />
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setShowOptionMenu(showOptionMenu === idx ? null : idx);
+                    }}
+                    className={`
+                      absolute top-1/2 -translate-y-1/2 left-2
+                      w-5 h-5 rounded-full bg-purple-500 hover:bg-purple-600
+                      flex items-center justify-center
+                      text-white shadow-lg
+                      transition-all duration-200
+                      ${(hoveredOption === idx || showOptionMenu === idx) ? 'opacity-100 scale-100' : 'opacity-0 scale-75'}
+                      z-10
+                    `}
+                  >
+                    <Plus className="w-3 h-3" />
+                  </button>
+                  {showOptionMenu === idx && (
+                    <div className="absolute top-1/2 -translate-y-1/2 left-9 z-50">
+                      <BlockSelectionMenu 
+                        onSelect={(type) => handleSelectBlock(type, `option-${idx}`)} 
+                        onClose={() => setShowOptionMenu(null)} 
+                      />
+                    </div>
+                  )}
+                </div>
               </div>
             </div>
           ))}
@@ -210,6 +378,130 @@ function QuestionNode({ id, data }: NodeProps) {
             Adicionar opção
           </Button>
         </div>
+
+        {/* Answer validation */}
+        <div className="space-y-2 pt-1">
+          <p className="text-xs font-semibold text-slate-600">Validar resposta:</p>
+          <Select value={validation} onValueChange={handleValidationChange}>
+            <SelectTrigger className="h-9 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {validationTypes.map((type) => (
+                <SelectItem key={type.value} value={type.value}>
+                  {type.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {(validation === "text" || validation === "number") && (
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                value={validationMin}
+                onChange={(e) => setValidationMin(e.target.value)}
+                onBlur={() => saveToDb(localQuestion, localOptions)}
+                placeholder={validation === "text" ? "Mín. de caracteres" : "Mínimo"}
+                className="h-9 text-sm"
+              />
+              {validation === "number" && (
+                <Input
+                  type="number"
+                  value={validationMax}
+                  onChange={(e) => setValidationMax(e.target.value)}
+                  onBlur={() => saveToDb(localQuestion, localOptions)}
+                  placeholder="Máximo"
+                  className="h-9 text-sm"
+                />
+              )}
+            </div>
+          )}
+
+          {hasValidation && (
+            <>
+              <Input
+                value={validationMessage}
+                onChange={(e) => setValidationMessage(e.target.value)}
+                onBlur={() => saveToDb(localQuestion, localOptions)}
+                placeholder={getDefaultValidationMessage(validation)}
+                className="h-9 text-sm"
+              />
+              <div className="flex items-center gap-2 text-xs text-slate-600">
+                <Input
+                  type="number"
+                  min={0}
+                  value={maxRetries}
+                  onChange={(e) => setMaxRetries(Math.max(0, parseInt(e.target.value) || 0))}
+                  onBlur={() => saveToDb(localQuestion, localOptions)}
+                  className="h-9 w-16 text-sm"
+                />
+                tentativa(s) antes da saída "Resposta inválida"
+              </div>
+
+              {/* Fallback output when the retries run out */}
+              <div className="relative flex items-center justify-end h-8 pr-1 text-xs font-medium text-red-500">
+                Resposta inválida
+                <div className="absolute right-0 top-1/2 -translate-y-1/2 translate-x-[calc(100%+8px)]">
+                  <Handle
+                    type="source"
+                    position={Position.Right}
+                    id={QUESTION_INVALID_HANDLE}
+                    className="!w-3 !h-3 !bg-red-400 !border-2 !border-white transition-all"
+                    style={{ position: 'relative', transform: 'none' }}
+                  />
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setShowInvalidMenu(!showInvalidMenu);
+                    }}
+                    className="absolute top-1/2 -translate-y-1/2 left-2 w-5 h-5 rounded-full bg-red-500 hover:bg-red-600 flex items-center justify-center text-white shadow-lg z-10"
+                  >
+                    <Plus className="w-3 h-3" />
+                  </button>
+                  {showInvalidMenu && (
+                    <div className="absolute top-1/2 -translate-y-1/2 left-9 z-50">
+                      <BlockSelectionMenu 
+                        onSelect={(type) => {
+                          handleSelectBlock(type, QUESTION_INVALID_HANDLE);
+                          setShowInvalidMenu(false);
+                        }} 
+                        onClose={() => setShowInvalidMenu(false)} 
+                      />
+                    </div>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Where the answer is kept */}
+        <div className="space-y-2 pt-1">
+          <p className="text-xs font-semibold text-slate-600">Salvar resposta:</p>
+          <div className="flex items-center gap-1">
+            <span className="text-xs font-mono text-muted-foreground">var.</span>
+            <Input
+              value={saveToVariable}
+              onChange={(e) => setSaveToVariable(e.target.value)}
+              onBlur={handleVariableBlur}
+              placeholder="nome_da_variavel"
+              className="h-9 text-sm"
+            />
+          </div>
+          <LeadFieldSelect
+            allowNone
+            value={saveToLeadField}
+            onChange={setSaveToLeadField}
+            onCommit={(field) => saveToDb(localQuestion, localOptions, { save_to_lead_field: field })}
+          />
+        </div>
+
+        <WindowTemplateFields
+          value={windowTemplate}
+          onChange={setWindowTemplate}
+          onCommit={(value) => saveToDb(localQuestion, localOptions, value)}
+        />
       </CardContent>
 
       {/* Default output (free text) - only if no options */}
@@ -1,20 +1,20 @@
 import { memo, useState, useEffect } from "react";
 import { Handle, Position, NodeProps } from "@xyflow/react";
 import { Card } from "@/components/ui/card";
-import { Input } from "@/components/ui/input";
-import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
-import { MessageCircle, Plus, Zap, X, Sparkles } from "lucide-react";
+import { MessageCircle, Plus, Zap, Sparkles } from "lucide-react";
 import { BlockSelectionMenu } from "../menus/BlockSelectionMenu";
 import { NodeType } from "@/hooks/useChatbotFlows";
+import { FlowTriggerRule } from "@/lib/flowTriggers";
+import { TriggerRulesEditor } from "./TriggerRulesEditor";
 
 interface StartNodeData {
   label?: string;
   hasConnections?: boolean;
-  triggerKeywords?: string[];
+  triggerRules?: FlowTriggerRule[];
   isDefault?: boolean;
   onAddNode?: (nodeType: NodeType, sourceNodeId: string) => void;
-  onUpdateTriggers?: (keywords: string[], isDefault: boolean) => void;
+  onUpdateTriggers?: (rules: FlowTriggerRule[], isDefault: boolean) => void;
 }
 
 function StartNode({ id, data }: NodeProps) {
@@ -22,41 +22,29 @@ function StartNode({ id, data }: NodeProps) {
   const [showMenu, setShowMenu] = useState(false);
   const [isHovered, setIsHovered] = useState(false);
   const [showTriggerConfig, setShowTriggerConfig] = useState(false);
-  const [keywords, setKeywords] = useState<string[]>(nodeData.triggerKeywords || []);
-  const [newKeyword, setNewKeyword] = useState("");
+  const [rules, setRules] = useState<FlowTriggerRule[]>(nodeData.triggerRules || []);
   const [isDefault, setIsDefault] = useState(nodeData.isDefault || false);
   
   const isHighlighted = !nodeData.hasConnections;
 
   // Sync from props when they change
   useEffect(() => {
-    setKeywords(nodeData.triggerKeywords || []);
+    setRules(nodeData.triggerRules || []);
     setIsDefault(nodeData.isDefault || false);
-  }, [nodeData.triggerKeywords, nodeData.isDefault]);
+  }, [nodeData.triggerRules, nodeData.isDefault]);
 
   const handleSelectBlock = (type: NodeType) => {
     nodeData.onAddNode?.(type, id);
     setShowMenu(false);
   };
 
-  const handleAddKeyword = () => {
-    if (newKeyword.trim() && !keywords.includes(newKeyword.trim().toLowerCase())) {
-      const updated = [...keywords, newKeyword.trim().toLowerCase()];
-      setKeywords(updated);
-      setNewKeyword("");
-      nodeData.onUpdateTriggers?.(updated, isDefault);
-    }
-  };
-
-  const handleRemoveKeyword = (keyword: string) => {
-    const updated = keywords.filter(k => k !== keyword);
-    setKeywords(updated);
+  const handleCommitRules = (updated: FlowTriggerRule[]) => {
     nodeData.onUpdateTriggers?.(updated, isDefault);
   };
 
   const handleToggleDefault = (checked: boolean) => {
     setIsDefault(checked);
-    nodeData.onUpdateTriggers?.(keywords, checked);
+    nodeData.onUpdateTriggers?.(rules, checked);
   };
 
   return (
@@ -74,8 +62,8 @@ function StartNode({ id, data }: NodeProps) {
           <p className="text-sm text-white/80">
             {isDefault 
               ? "Responde a qualquer mensagem" 
-              : keywords.length > 0 
-                ? `${keywords.length} gatilho(s)` 
+              : rules.length > 0 
+                ? `${rules.length} gatilho(s)` 
                 : "Clique para configurar gatilhos"}
           </p>
         </div>
@@ -102,58 +90,11 @@ function StartNode({ id, data }: NodeProps) {
           
           {isDefault && (
             <p className="text-xs text-slate-500 bg-emerald-50 p-2 rounded-lg">
-              ✓ Este fluxo será ativado para qualquer mensagem que não corresponda a outros gatilhos.
+              ✓ Este fluxo responde saudações que não correspondam aos gatilhos de outros fluxos.
             </p>
           )}
 
-          {/* Keywords section */}
-          {!isDefault && (
-            <>
-              <div>
-                <p className="text-xs font-semibold text-slate-600 mb-2">Palavras-chave de gatilho:</p>
-                <div className="flex gap-2">
-                  <Input
-                    value={newKeyword}
-                    onChange={(e) => setNewKeyword(e.target.value)}
-                    onKeyDown={(e) => e.key === "Enter" && handleAddKeyword()}
-                    placeholder="Ex: oi, olá, preço..."
-                    className="h-9 text-sm bg-white border-slate-300"
-                  />
-                  <button
-                    onClick={handleAddKeyword}
-                    className="px-3 h-9 bg-emerald-500 text-white rounded-md hover:bg-emerald-600 transition-colors text-sm font-medium"
-                  >
-                    Adicionar
-                  </button>
-                </div>
-              </div>
-
-              {/* Keywords list */}
-              {keywords.length > 0 ? (
-                <div className="flex flex-wrap gap-2">
-                  {keywords.map((keyword) => (
-                    <Badge 
-                      key={keyword} 
-                      variant="secondary"
-                      className="bg-emerald-100 text-emerald-700 hover:bg-emerald-200 gap-1 pr-1"
-                    >
-                      {keyword}
-                      <button
-                        onClick={() => handleRemoveKeyword(keyword)}
-                        className="ml-1 hover:bg-emerald-300 rounded-full p-0.5"
-                      >
-                        <X className="w-3 h-3" />
-                      </button>
-                    </Badge>
-                  ))}
-                </div>
-              ) : (
-                <p className="text-xs text-slate-400 italic">
-                  Nenhuma palavra-chave configurada. O fluxo não será ativado automaticamente.
-                </p>
-              )}
-            </>
-          )}
+          <TriggerRulesEditor rules={rules} onChange={setRules} onCommit={handleCommitRules} />
         </div>
       )}
       
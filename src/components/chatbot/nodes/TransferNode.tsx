@@ -3,10 +3,16 @@ import { Handle, Position, NodeProps } from "@xyflow/react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { UserCheck, Trash2 } from "lucide-react";
+import { useChatQueues } from "@/hooks/useChatQueues";
+
+const NO_QUEUE = "none";
 
 interface TransferNodeData {
   message?: string;
+  out_of_hours_message?: string;
+  queue_id?: string;
   onUpdate?: (config: Record<string, unknown>) => void;
   onDelete?: () => void;
 }
@@ -14,9 +20,25 @@ interface TransferNodeData {
 function TransferNode({ data }: NodeProps) {
   const nodeData = data as TransferNodeData;
   const [message, setMessage] = useState(nodeData?.message || "Transferindo para atendente humano...");
+  const [outOfHoursMessage, setOutOfHoursMessage] = useState(nodeData?.out_of_hours_message || "");
+  const [queueId, setQueueId] = useState(nodeData?.queue_id || "");
+  const { queues } = useChatQueues();
+
+  const saveToDb = (overrides: { queue_id?: string } = {}) => {
+    nodeData?.onUpdate?.({
+      message,
+      out_of_hours_message: outOfHoursMessage,
+      queue_id: queueId,
+      ...overrides,
+    });
+  };
+
+  const handleUpdate = () => saveToDb();
 
-  const handleUpdate = () => {
-    nodeData?.onUpdate?.({ message });
+  const handleQueueChange = (value: string) => {
+    const nextQueueId = value === NO_QUEUE ? "" : value;
+    setQueueId(nextQueueId);
+    saveToDb({ queue_id: nextQueueId });
   };
 
   return (
@@ -46,6 +68,20 @@ function TransferNode({ data }: NodeProps) {
       </div>
 
       <CardContent className="p-4 space-y-3">
+        <p className="text-xs text-muted-foreground">Fila de atendimento:</p>
+        <Select value={queueId || NO_QUEUE} onValueChange={handleQueueChange}>
+          <SelectTrigger className="h-9 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_QUEUE}>Sem fila (não atribuir)</SelectItem>
+            {queues.map((queue) => (
+              <SelectItem key={queue.id} value={queue.id}>
+                {queue.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
         <p className="text-xs text-muted-foreground">Mensagem ao transferir:</p>
         <Input
           value={message}
@@ -54,6 +90,14 @@ function TransferNode({ data }: NodeProps) {
           placeholder="Mensagem de transferência..."
           className="h-9 text-sm"
         />
+        <p className="text-xs text-muted-foreground">Fora do horário de atendimento:</p>
+        <Input
+          value={outOfHoursMessage}
+          onChange={(e) => setOutOfHoursMessage(e.target.value)}
+          onBlur={handleUpdate}
+          placeholder="Ex: Estamos fechados, retornamos às 9h"
+          className="h-9 text-sm"
+        />
         <p className="text-xs text-rose-600 bg-rose-50 rounded-lg p-2">
           ⚠️ O bot será pausado e um humano assumirá o chat.
         </p>
@@ -0,0 +1,172 @@
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, X } from "lucide-react";
+import {
+  FLOW_TRIGGER_TYPES,
+  KEYWORD_MATCH_MODES,
+  FlowTriggerRule,
+  FlowTriggerType,
+  KeywordMatchMode,
+  validateTriggerRule,
+} from "@/lib/flowTriggers";
+
+const createRule = (type: FlowTriggerType = "keyword"): FlowTriggerRule => ({
+  id: crypto.randomUUID(),
+  type,
+  match: type === "keyword" ? "contains" : undefined,
+  days: type === "inactivity" ? 7 : undefined,
+  priority: 0,
+});
+
+interface TriggerRulesEditorProps {
+  rules: FlowTriggerRule[];
+  onChange: (rules: FlowTriggerRule[]) => void;
+  // Called when an edit is done (select changed, input blurred, rule added or removed)
+  onCommit: (rules: FlowTriggerRule[]) => void;
+}
+
+// Trigger rules of a flow, edited in the Start node
+export function TriggerRulesEditor({ rules, onChange, onCommit }: TriggerRulesEditorProps) {
+  const updateRule = (index: number, updates: Partial<FlowTriggerRule>, commit = false) => {
+    const updated = rules.map((rule, i) => (i === index ? { ...rule, ...updates } : rule));
+    onChange(updated);
+    if (commit) onCommit(updated);
+  };
+
+  const changeType = (index: number, type: FlowTriggerType) => {
+    const updated = rules.map((rule, i) =>
+      i === index ? { ...createRule(type), id: rule.id, priority: rule.priority } : rule
+    );
+    onChange(updated);
+    onCommit(updated);
+  };
+
+  const addRule = () => {
+    const updated = [...rules, createRule()];
+    onChange(updated);
+    onCommit(updated);
+  };
+
+  const removeRule = (index: number) => {
+    const updated = rules.filter((_, i) => i !== index);
+    onChange(updated);
+    onCommit(updated);
+  };
+
+  const commit = () => onCommit(rules);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-semibold text-slate-600">Gatilhos:</p>
+
+      {rules.length === 0 && (
+        <p className="text-xs text-slate-400 italic">
+          Nenhum gatilho configurado. O fluxo não será ativado automaticamente.
+        </p>
+      )}
+
+      {rules.map((rule, index) => {
+        const errors = validateTriggerRule(rule);
+        return (
+          <div key={rule.id} className="p-2 rounded-lg border border-slate-200 bg-slate-50 space-y-2">
+            <div className="flex items-center gap-1.5">
+              <Select value={rule.type} onValueChange={(v) => changeType(index, v as FlowTriggerType)}>
+                <SelectTrigger className="h-8 text-xs flex-1 bg-white border-slate-300">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FLOW_TRIGGER_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value} className="text-xs">
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                value={rule.priority ?? 0}
+                onChange={(e) => updateRule(index, { priority: parseInt(e.target.value) || 0 })}
+                onBlur={commit}
+                title="Prioridade (maior vence)"
+                className="h-8 w-14 text-xs bg-white border-slate-300"
+              />
+              <button
+                onClick={() => removeRule(index)}
+                className="p-1 rounded-md text-slate-400 hover:text-red-500 hover:bg-red-50"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+
+            {rule.type === "keyword" && (
+              <div className="flex items-center gap-1.5">
+                <Select
+                  value={rule.match || "contains"}
+                  onValueChange={(v) => updateRule(index, { match: v as KeywordMatchMode }, true)}
+                >
+                  <SelectTrigger className="h-8 text-xs w-28 bg-white border-slate-300">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {KEYWORD_MATCH_MODES.map((mode) => (
+                      <SelectItem key={mode.value} value={mode.value} className="text-xs">
+                        {mode.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={rule.value || ""}
+                  onChange={(e) => updateRule(index, { value: e.target.value })}
+                  onBlur={commit}
+                  placeholder={rule.match === "regex" ? "^(preço|valor)" : "Ex: preço"}
+                  className="h-8 text-xs flex-1 bg-white border-slate-300"
+                />
+              </div>
+            )}
+
+            {rule.type === "inactivity" && (
+              <div className="flex items-center gap-1.5 text-xs text-slate-600">
+                <Input
+                  type="number"
+                  min={1}
+                  value={rule.days ?? ""}
+                  onChange={(e) => updateRule(index, { days: parseInt(e.target.value) || 0 })}
+                  onBlur={commit}
+                  className="h-8 w-16 text-xs bg-white border-slate-300"
+                />
+                dias sem mensagens do contato
+              </div>
+            )}
+
+            {(rule.type === "button" || rule.type === "ad_referral") && (
+              <Input
+                value={rule.value || ""}
+                onChange={(e) => updateRule(index, { value: e.target.value })}
+                onBlur={commit}
+                placeholder={rule.type === "button" ? "ID (payload) do botão" : "ID do anúncio (vazio = qualquer)"}
+                className="h-8 text-xs bg-white border-slate-300"
+              />
+            )}
+
+            {errors.length > 0 && <p className="text-[11px] text-red-500">{errors[0]}</p>}
+          </div>
+        );
+      })}
+
+      <button
+        onClick={addRule}
+        className="w-full flex items-center justify-center gap-1 h-8 rounded-md border border-dashed border-emerald-400 text-emerald-600 hover:bg-emerald-50 text-xs font-medium"
+      >
+        <Plus className="w-3.5 h-3.5" />
+        Adicionar gatilho
+      </button>
+
+      {rules.length > 0 && (
+        <p className="text-[11px] text-slate-400">
+          Quando vários fluxos correspondem, vence o gatilho de maior prioridade.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Clock, Plus, X } from "lucide-react";
+
+// Type alias (not an interface) so it can be passed as a node config record
+export type WindowTemplateConfig = {
+  window_template: string;
+  window_template_language: string;
+  window_template_params: string[];
+};
+
+interface WindowTemplateFieldsProps {
+  value: WindowTemplateConfig;
+  onChange: (value: WindowTemplateConfig) => void;
+  // Called when the edit is done (input blurred, variable added or removed, template removed)
+  onCommit: (value: WindowTemplateConfig) => void;
+}
+
+// Template sent when the node is reached after the contact's 24h window (Cloud API only)
+export function WindowTemplateFields({ value, onChange, onCommit }: WindowTemplateFieldsProps) {
+  const [show, setShow] = useState(!!value.window_template);
+  const params = value.window_template_params;
+
+  const update = (changes: Partial<WindowTemplateConfig>, commit = false) => {
+    const next = { ...value, ...changes };
+    onChange(next);
+    if (commit) onCommit(next);
+  };
+
+  const handleRemove = () => {
+    setShow(false);
+    update({ window_template: "", window_template_params: [] }, true);
+  };
+
+  if (!show) {
+    return (
+      <Button variant="outline" size="sm" className="mt-2 w-full border-dashed" onClick={() => setShow(true)}>
+        <Clock className="w-3 h-3 mr-1" />
+        Template fora da janela de 24h
+      </Button>
+    );
+  }
+
+  return (
+    <div className="mt-3 space-y-2 rounded-xl border border-dashed border-amber-300 p-2">
+      <div className="flex items-center justify-between text-xs font-semibold text-slate-600">
+        <span className="flex items-center gap-1">
+          <Clock className="w-3 h-3" />
+          Fora da janela de 24h
+        </span>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={handleRemove}>
+          <X className="w-3 h-3" />
+        </Button>
+      </div>
+      <div className="flex gap-2">
+        <Input
+          value={value.window_template}
+          onChange={(e) => update({ window_template: e.target.value })}
+          onBlur={() => onCommit(value)}
+          placeholder="Nome do template aprovado"
+          className="h-8 text-sm flex-1"
+        />
+        <Input
+          value={value.window_template_language}
+          onChange={(e) => update({ window_template_language: e.target.value })}
+          onBlur={() => onCommit(value)}
+          placeholder="pt_BR"
+          className="h-8 text-sm w-20"
+        />
+      </div>
+      {params.map((param, index) => (
+        <div key={index} className="flex items-center gap-1">
+          <span className="text-xs text-slate-500 w-9 shrink-0">{`{{${index + 1}}}`}</span>
+          <Input
+            value={param}
+            onChange={(e) => update({ window_template_params: params.map((p, i) => (i === index ? e.target.value : p)) })}
+            onBlur={() => onCommit(value)}
+            placeholder="{{nome}}"
+            className="h-8 text-sm"
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 shrink-0"
+            onClick={() => update({ window_template_params: params.filter((_, i) => i !== index) }, true)}
+          >
+            <X className="w-3 h-3" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 w-full text-xs"
+        onClick={() => update({ window_template_params: [...params, ""] }, true)}
+      >
+        <Plus className="w-3 h-3 mr-1" />
+        Variável do template
+      </Button>
+    </div>
+  );
+}
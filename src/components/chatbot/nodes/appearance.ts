@@ -0,0 +1,25 @@
+import {
+  MessageSquare,
+  HelpCircle,
+  GitBranch,
+  Clock,
+  Pause,
+  Zap,
+  UserCheck,
+  Flag,
+  Play,
+} from "lucide-react";
+import { FlowNodeType } from "@/lib/flowNodes";
+
+// Icon and colors of each node type in the block menus
+export const nodeAppearance: Record<FlowNodeType, { icon: React.ElementType; color: string; bgColor: string }> = {
+  start: { icon: Play, color: "text-green-500", bgColor: "bg-green-500/10 hover:bg-green-500/20" },
+  message: { icon: MessageSquare, color: "text-blue-500", bgColor: "bg-blue-500/10 hover:bg-blue-500/20" },
+  question: { icon: HelpCircle, color: "text-purple-500", bgColor: "bg-purple-500/10 hover:bg-purple-500/20" },
+  condition: { icon: GitBranch, color: "text-amber-500", bgColor: "bg-amber-500/10 hover:bg-amber-500/20" },
+  action: { icon: Zap, color: "text-violet-500", bgColor: "bg-violet-500/10 hover:bg-violet-500/20" },
+  delay: { icon: Clock, color: "text-cyan-500", bgColor: "bg-cyan-500/10 hover:bg-cyan-500/20" },
+  pause: { icon: Pause, color: "text-orange-500", bgColor: "bg-orange-500/10 hover:bg-orange-500/20" },
+  transfer: { icon: UserCheck, color: "text-rose-500", bgColor: "bg-rose-500/10 hover:bg-rose-500/20" },
+  end: { icon: Flag, color: "text-slate-400", bgColor: "bg-slate-500/10 hover:bg-slate-500/20" },
+};
@@ -0,0 +1,26 @@
+import { createElement } from "react";
+import { Braces, User, UserCheck } from "lucide-react";
+import type { Variable } from "@/components/ui/variable-picker";
+import { BUILTIN_FLOW_VARIABLES } from "@/lib/flowNodes";
+
+const builtinIcons: Record<string, typeof User> = {
+  cliente: User,
+  nome: UserCheck,
+};
+
+// Variables offered by the picker of a node: contact/owner names plus the
+// flow variables set before the node ({{var.name}})
+export function getFlowPickerVariables(availableVariables: string[] = []): Variable[] {
+  return [
+    ...BUILTIN_FLOW_VARIABLES.map((variable) => ({
+      ...variable,
+      icon: createElement(builtinIcons[variable.key] || User, { className: "w-4 h-4" }),
+    })),
+    ...availableVariables.map((name) => ({
+      key: `var.${name}`,
+      label: name,
+      description: "Variável salva no fluxo",
+      icon: createElement(Braces, { className: "w-4 h-4" }),
+    })),
+  ];
+}
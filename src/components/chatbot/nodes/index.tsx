@@ -0,0 +1,59 @@
+import { ComponentType, memo } from "react";
+import { NodeProps } from "@xyflow/react";
+import { AlertTriangle } from "lucide-react";
+import { FlowNodeType, validateNodeConfig } from "@/lib/flowNodes";
+import StartNode from "./StartNode";
+import MessageNode from "./MessageNode";
+import QuestionNode from "./QuestionNode";
+import ConditionNode from "./ConditionNode";
+import DelayNode from "./DelayNode";
+import PauseNode from "./PauseNode";
+import ActionNode from "./ActionNode";
+import TransferNode from "./TransferNode";
+import EndNode from "./EndNode";
+import { NodeAnalyticsBadge } from "./NodeAnalyticsBadge";
+import type { NodeAnalytics } from "@/lib/flowAnalytics";
+
+// Canvas component of each registered node type (label, schema and executor live in the registry)
+const nodeComponents: Record<FlowNodeType, ComponentType<NodeProps>> = {
+  start: StartNode,
+  message: MessageNode,
+  question: QuestionNode,
+  condition: ConditionNode,
+  delay: DelayNode,
+  pause: PauseNode,
+  action: ActionNode,
+  transfer: TransferNode,
+  end: EndNode,
+};
+
+// Wrap a node component with a warning badge listing its config problems
+// (and the analytics overlay when the canvas shows the heatmap)
+function withValidation(nodeType: FlowNodeType, Component: ComponentType<NodeProps>) {
+  function ValidatedNode(props: NodeProps) {
+    const errors = validateNodeConfig(nodeType, props.data as Record<string, unknown>);
+    const analytics = props.data.analytics as NodeAnalytics | undefined;
+
+    return (
+      <div className="relative">
+        {analytics && <NodeAnalyticsBadge analytics={analytics} data={props.data as Record<string, unknown>} />}
+        <Component {...props} />
+        {errors.length > 0 && (
+          <div
+            className="absolute -top-2 -right-2 w-6 h-6 rounded-full bg-amber-500 flex items-center justify-center shadow-md"
+            title={errors.join("\n")}
+          >
+            <AlertTriangle className="w-3.5 h-3.5 text-white" />
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return memo(ValidatedNode);
+}
+
+// React Flow nodeTypes for the flow builder canvas
+export const flowNodeTypes: Record<string, ComponentType<NodeProps>> = Object.fromEntries(
+  (Object.keys(nodeComponents) as FlowNodeType[]).map((type) => [type, withValidation(type, nodeComponents[type])])
+);
@@ -0,0 +1,269 @@
+import { useEffect } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import {
+  ArrowRight,
+  Tag,
+  Bell,
+  MessageSquare,
+  FileText,
+  Bot
+} from "lucide-react";
+import { ActionType } from "@/hooks/useFunnelAutomations";
+import { FunnelStage } from "@/hooks/useFunnels";
+import { useWhatsAppTemplates } from "@/hooks/useWhatsAppTemplates";
+import { useChatbotFlows } from "@/hooks/useChatbotFlows";
+import { LEAD_TEMPLATE_VARIABLES } from "@/lib/automationEngine";
+import { getTemplateParamCount } from "@/lib/whatsappTemplates";
+
+const actionOptions: { value: ActionType; label: string; icon: React.ReactNode }[] = [
+  { value: "move_to_stage", label: "Mover para etapa", icon: <ArrowRight className="w-4 h-4" /> },
+  { value: "add_tag", label: "Adicionar tag", icon: <Tag className="w-4 h-4" /> },
+  { value: "remove_tag", label: "Remover tag", icon: <Tag className="w-4 h-4" /> },
+  { value: "send_notification", label: "Enviar notificação", icon: <Bell className="w-4 h-4" /> },
+  { value: "send_whatsapp_message", label: "Enviar mensagem WhatsApp", icon: <MessageSquare className="w-4 h-4" /> },
+  { value: "send_whatsapp_template", label: "Enviar template WhatsApp", icon: <FileText className="w-4 h-4" /> },
+  { value: "start_chatbot_flow", label: "Iniciar fluxo do chatbot", icon: <Bot className="w-4 h-4" /> },
+];
+
+interface AutomationActionConfigProps {
+  actionType: ActionType;
+  actionConfig: Record<string, unknown>;
+  onChange: (actionType: ActionType, actionConfig: Record<string, unknown>) => void;
+  stages: FunnelStage[];
+}
+
+export function AutomationActionConfig({ actionType, actionConfig, onChange, stages }: AutomationActionConfigProps) {
+  const { flows } = useChatbotFlows();
+
+  const setActionConfig = (config: Record<string, unknown>) => onChange(actionType, config);
+
+  const appendVariable = (variable: string) => {
+    setActionConfig({ ...actionConfig, message: `${(actionConfig.message as string) || ""}${variable}` });
+  };
+
+  const renderVariableHints = () => (
+    <div className="flex flex-wrap gap-1">
+      {LEAD_TEMPLATE_VARIABLES.map((variable) => (
+        <Badge
+          key={variable.key}
+          variant="outline"
+          className="cursor-pointer font-normal"
+          title={variable.label}
+          onClick={() => appendVariable(variable.key)}
+        >
+          {variable.key}
+        </Badge>
+      ))}
+    </div>
+  );
+
+  const renderActionConfig = () => {
+    switch (actionType) {
+      case "move_to_stage":
+        return (
+          <div className="space-y-2">
+            <Label>Etapa destino</Label>
+            <Select
+              value={(actionConfig.target_stage_id as string) || ""}
+              onValueChange={(v) => setActionConfig({ ...actionConfig, target_stage_id: v })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione a etapa" />
+              </SelectTrigger>
+              <SelectContent>
+                {stages.map((stage) => (
+                  <SelectItem key={stage.id} value={stage.id}>
+                    {stage.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        );
+
+      case "add_tag":
+      case "remove_tag":
+        return (
+          <div className="space-y-2">
+            <Label>Tag</Label>
+            <Input
+              value={(actionConfig.tag as string) || ""}
+              onChange={(e) => setActionConfig({ ...actionConfig, tag: e.target.value })}
+              placeholder="Nome da tag"
+            />
+          </div>
+        );
+
+      case "send_notification":
+        return (
+          <div className="space-y-2">
+            <Label>Mensagem</Label>
+            <Textarea
+              value={(actionConfig.message as string) || ""}
+              onChange={(e) => setActionConfig({ ...actionConfig, message: e.target.value })}
+              placeholder="Mensagem da notificação"
+            />
+            {renderVariableHints()}
+          </div>
+        );
+
+      case "send_whatsapp_message":
+        return (
+          <div className="space-y-2">
+            <Label>Mensagem</Label>
+            <Textarea
+              value={(actionConfig.message as string) || ""}
+              onChange={(e) => setActionConfig({ ...actionConfig, message: e.target.value })}
+              placeholder="Olá {lead_first_name}, tudo bem?"
+              rows={4}
+            />
+            {renderVariableHints()}
+            <p className="text-xs text-muted-foreground">
+              Enviada pela API oficial do WhatsApp para o telefone do lead.
+            </p>
+          </div>
+        );
+
+      case "send_whatsapp_template":
+        return <TemplateActionConfig actionConfig={actionConfig} onChange={setActionConfig} />;
+
+      case "start_chatbot_flow":
+        return (
+          <div className="space-y-2">
+            <Label>Fluxo</Label>
+            <Select
+              value={(actionConfig.flow_id as string) || ""}
+              onValueChange={(v) => setActionConfig({ ...actionConfig, flow_id: v })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione o fluxo" />
+              </SelectTrigger>
+              <SelectContent>
+                {flows.map((flow) => (
+                  <SelectItem key={flow.id} value={flow.id}>
+                    {flow.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Não inicia se o contato estiver em atendimento humano ou já tiver um fluxo em andamento.
+            </p>
+          </div>
+        );
+
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Tipo de ação</Label>
+        <Select value={actionType} onValueChange={(v) => onChange(v as ActionType, {})}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {actionOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                <div className="flex items-center gap-2">
+                  {option.icon}
+                  {option.label}
+                </div>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {renderActionConfig()}
+    </div>
+  );
+}
+
+interface TemplateActionConfigProps {
+  actionConfig: Record<string, unknown>;
+  onChange: (actionConfig: Record<string, unknown>) => void;
+}
+
+function TemplateActionConfig({ actionConfig, onChange }: TemplateActionConfigProps) {
+  const { templates, loading: loadingTemplates, fetchTemplates } = useWhatsAppTemplates();
+
+  useEffect(() => {
+    fetchTemplates("APPROVED");
+  }, [fetchTemplates]);
+
+  const selectedTemplate = templates.find(
+    (t) => t.name === actionConfig.template_name && t.language === actionConfig.template_language
+  );
+  const bodyParams = (actionConfig.body_params as string[]) || [];
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Template aprovado</Label>
+        <Select
+          value={actionConfig.template_name ? `${actionConfig.template_name}|${actionConfig.template_language}` : ""}
+          onValueChange={(v) => {
+            const template = templates.find((t) => `${t.name}|${t.language}` === v);
+            if (!template) return;
+            onChange({
+              template_name: template.name,
+              template_language: template.language,
+              body_params: Array(getTemplateParamCount(template.components.find((c) => c.type === "BODY")?.text)).fill(""),
+            });
+          }}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder={loadingTemplates ? "Carregando..." : "Selecione o template"} />
+          </SelectTrigger>
+          <SelectContent>
+            {templates.map((template) => (
+              <SelectItem key={`${template.name}|${template.language}`} value={`${template.name}|${template.language}`}>
+                {template.name} ({template.language})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {selectedTemplate && (
+        <p className="text-xs text-muted-foreground whitespace-pre-wrap p-3 bg-muted/50 rounded-lg">
+          {selectedTemplate.components.find((c) => c.type === "BODY")?.text}
+        </p>
+      )}
+
+      {bodyParams.map((param, index) => (
+        <div key={index} className="space-y-2">
+          <Label>Variável {`{{${index + 1}}}`}</Label>
+          <Input
+            value={param}
+            onChange={(e) => {
+              const newParams = [...bodyParams];
+              newParams[index] = e.target.value;
+              onChange({ ...actionConfig, body_params: newParams });
+            }}
+            placeholder="Ex: {lead_first_name}"
+          />
+        </div>
+      ))}
+
+      {bodyParams.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Use {LEAD_TEMPLATE_VARIABLES.map((v) => v.key).join(", ")} para preencher com dados do lead.
+        </p>
+      )}
+    </div>
+  );
+}
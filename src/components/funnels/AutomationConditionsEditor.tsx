@@ -0,0 +1,306 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2, FolderPlus } from "lucide-react";
+import type {
+  AutomationCondition,
+  AutomationConditionGroup,
+  AutomationConditionNode,
+  ConditionOperator,
+} from "@/lib/automationEngine";
+import { isConditionGroup } from "@/lib/automationEngine";
+import { CUSTOM_FIELD, conditionFields, getFieldKind, operatorLabels, operatorsByKind } from "@/lib/automationEditor";
+
+const MAX_GROUP_DEPTH = 2;
+
+interface AutomationConditionsEditorProps {
+  conditions: AutomationConditionNode[];
+  onChange: (conditions: AutomationConditionNode[]) => void;
+  customFieldKeys: string[];
+}
+
+// Editor for the automation conditions - top level conditions are combined with AND,
+// nested groups can use AND or OR
+export function AutomationConditionsEditor({
+  conditions,
+  onChange,
+  customFieldKeys,
+}: AutomationConditionsEditorProps) {
+  return (
+    <>
+      <ConditionList
+        nodes={conditions}
+        onChange={onChange}
+        depth={0}
+        customFieldKeys={customFieldKeys}
+      />
+      <AddButtons
+        depth={0}
+        onAdd={(node) => onChange([...conditions, node])}
+      />
+      <datalist id="automation-custom-fields">
+        {customFieldKeys.map((key) => (
+          <option key={key} value={key} />
+        ))}
+      </datalist>
+    </>
+  );
+}
+
+function AddButtons({ depth, onAdd }: { depth: number; onAdd: (node: AutomationConditionNode) => void }) {
+  return (
+    <div className="flex items-center gap-2">
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onAdd({ field: "name", operator: "equals", value: "" })}
+      >
+        <Plus className="w-4 h-4 mr-1" />
+        Condição
+      </Button>
+      {depth < MAX_GROUP_DEPTH && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onAdd({ logic: "or", conditions: [{ field: "name", operator: "equals", value: "" }] })}
+        >
+          <FolderPlus className="w-4 h-4 mr-1" />
+          Grupo
+        </Button>
+      )}
+    </div>
+  );
+}
+
+interface ConditionListProps {
+  nodes: AutomationConditionNode[];
+  onChange: (nodes: AutomationConditionNode[]) => void;
+  depth: number;
+  customFieldKeys: string[];
+}
+
+function ConditionList({ nodes, onChange, depth, customFieldKeys }: ConditionListProps) {
+  const updateNode = (index: number, node: AutomationConditionNode) => {
+    const newNodes = [...nodes];
+    newNodes[index] = node;
+    onChange(newNodes);
+  };
+
+  const removeNode = (index: number) => {
+    onChange(nodes.filter((_, i) => i !== index));
+  };
+
+  if (nodes.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      {nodes.map((node, index) =>
+        isConditionGroup(node) ? (
+          <ConditionGroupEditor
+            key={index}
+            group={node}
+            onChange={(group) => updateNode(index, group)}
+            onRemove={() => removeNode(index)}
+            depth={depth + 1}
+            customFieldKeys={customFieldKeys}
+          />
+        ) : (
+          <ConditionRow
+            key={index}
+            condition={node}
+            onChange={(condition) => updateNode(index, condition)}
+            onRemove={() => removeNode(index)}
+          />
+        )
+      )}
+    </div>
+  );
+}
+
+interface ConditionGroupEditorProps {
+  group: AutomationConditionGroup;
+  onChange: (group: AutomationConditionGroup) => void;
+  onRemove: () => void;
+  depth: number;
+  customFieldKeys: string[];
+}
+
+function ConditionGroupEditor({ group, onChange, onRemove, depth, customFieldKeys }: ConditionGroupEditorProps) {
+  return (
+    <div className="space-y-3 p-3 border border-dashed rounded-lg">
+      <div className="flex items-center justify-between gap-2">
+        <Select
+          value={group.logic}
+          onValueChange={(v) => onChange({ ...group, logic: v as AutomationConditionGroup["logic"] })}
+        >
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="and">Todas as condições (E)</SelectItem>
+            <SelectItem value="or">Qualquer condição (OU)</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button type="button" variant="ghost" size="icon" onClick={onRemove} className="text-destructive">
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <ConditionList
+        nodes={group.conditions}
+        onChange={(conditions) => onChange({ ...group, conditions })}
+        depth={depth}
+        customFieldKeys={customFieldKeys}
+      />
+      <AddButtons
+        depth={depth}
+        onAdd={(node) => onChange({ ...group, conditions: [...group.conditions, node] })}
+      />
+    </div>
+  );
+}
+
+interface ConditionRowProps {
+  condition: AutomationCondition;
+  onChange: (condition: AutomationCondition) => void;
+  onRemove: () => void;
+}
+
+function ConditionRow({ condition, onChange, onRemove }: ConditionRowProps) {
+  const kind = getFieldKind(condition.field);
+  const isCustom = kind === "custom";
+  const operators = operatorsByKind[kind];
+  const needsValue = !["is_empty", "is_not_empty"].includes(condition.operator);
+
+  const handleFieldChange = (field: string) => {
+    const newField = field === CUSTOM_FIELD ? `${CUSTOM_FIELD}.` : field;
+    const newKind = getFieldKind(newField);
+    const keepOperator = operatorsByKind[newKind].includes(condition.operator);
+    onChange({
+      field: newField,
+      operator: keepOperator ? condition.operator : operatorsByKind[newKind][0],
+      value: newKind === "boolean" ? "true" : keepOperator ? condition.value : "",
+    });
+  };
+
+  const renderValueInput = () => {
+    if (kind === "boolean") {
+      return (
+        <Select value={condition.value || "true"} onValueChange={(v) => onChange({ ...condition, value: v })}>
+          <SelectTrigger className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="true">Sim</SelectItem>
+            <SelectItem value="false">Não</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    switch (condition.operator) {
+      case "older_than_days":
+      case "newer_than_days":
+        return (
+          <Input
+            type="number"
+            min={0}
+            value={condition.value}
+            onChange={(e) => onChange({ ...condition, value: e.target.value })}
+            placeholder="Dias"
+            className="flex-1"
+          />
+        );
+      case "before_date":
+      case "after_date":
+        return (
+          <Input
+            type="date"
+            value={condition.value}
+            onChange={(e) => onChange({ ...condition, value: e.target.value })}
+            className="flex-1"
+          />
+        );
+      case "has_any_of":
+      case "has_all_of":
+        return (
+          <Input
+            value={condition.value}
+            onChange={(e) => onChange({ ...condition, value: e.target.value })}
+            placeholder="tag1, tag2"
+            className="flex-1"
+          />
+        );
+      default:
+        return (
+          <Input
+            value={condition.value}
+            onChange={(e) => onChange({ ...condition, value: e.target.value })}
+            placeholder="Valor"
+            className="flex-1"
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-2 p-3 bg-muted/50 rounded-lg">
+      <div className="flex items-center gap-2">
+        <Select value={isCustom ? CUSTOM_FIELD : condition.field} onValueChange={handleFieldChange}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {conditionFields.map((field) => (
+              <SelectItem key={field.value} value={field.value}>
+                {field.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {isCustom && (
+          <Input
+            value={condition.field.slice(`${CUSTOM_FIELD}.`.length)}
+            onChange={(e) => onChange({ ...condition, field: `${CUSTOM_FIELD}.${e.target.value.trim()}` })}
+            placeholder="Chave do campo"
+            list="automation-custom-fields"
+            className="flex-1"
+          />
+        )}
+
+        <Button type="button" variant="ghost" size="icon" onClick={onRemove} className="text-destructive ml-auto">
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Select
+          value={condition.operator}
+          onValueChange={(v) => onChange({ ...condition, operator: v as ConditionOperator })}
+        >
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {operators.map((op) => (
+              <SelectItem key={op} value={op}>
+                {operatorLabels[op]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {needsValue && renderValueInput()}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { CheckCircle2, History, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { AutomationLog, AutomationRun, FunnelAutomation, useAutomationRuns } from "@/hooks/useFunnelAutomations";
+
+interface AutomationHistoryDialogProps {
+  automation: FunnelAutomation | null;
+  onOpenChange: (open: boolean) => void;
+  getStepLabel: (automation: FunnelAutomation, stepId: string | null) => string;
+}
+
+const runStatusLabels: Record<AutomationRun["status"], { label: string; className: string }> = {
+  running: { label: "Executando", className: "bg-blue-500/10 text-blue-600 border-blue-500/20" },
+  waiting: { label: "Aguardando", className: "bg-amber-500/10 text-amber-600 border-amber-500/20" },
+  completed: { label: "Concluída", className: "bg-green-500/10 text-green-600 border-green-500/20" },
+  failed: { label: "Falhou", className: "bg-destructive/10 text-destructive border-destructive/20" },
+  cancelled: { label: "Cancelada", className: "bg-muted text-muted-foreground" },
+  skipped: { label: "Ignorada", className: "bg-muted text-muted-foreground" },
+};
+
+const formatDate = (date: string) => format(new Date(date), "dd/MM/yyyy HH:mm", { locale: ptBR });
+
+// Extra information shown next to a step log
+const getLogDetail = (log: AutomationLog) => {
+  const details = log.details;
+  if (details.skipped) return String(details.message || details.reason);
+  if (details.error) return String(details.error);
+  if (details.step_type === "condition") return details.matched ? "Sim" : "Não";
+  if (details.step_type === "delay" && details.resume_at) return `até ${formatDate(String(details.resume_at))}`;
+  if (!log.success) return "Nada a fazer";
+  return null;
+};
+
+export function AutomationHistoryDialog({ automation, onOpenChange, getStepLabel }: AutomationHistoryDialogProps) {
+  const { runs, loadingRuns } = useAutomationRuns(automation?.id || null);
+
+  return (
+    <Dialog open={!!automation} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5 text-primary" />
+            Histórico - {automation?.name}
+          </DialogTitle>
+        </DialogHeader>
+
+        <ScrollArea className="h-[450px] pr-4">
+          {loadingRuns ? (
+            <div className="flex items-center justify-center py-8 text-muted-foreground">
+              Carregando...
+            </div>
+          ) : runs.length === 0 ? (
+            <div className="flex items-center justify-center py-12 text-muted-foreground">
+              Nenhuma execução registrada
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {runs.map((run) => (
+                <div key={run.id} className="p-4 rounded-lg border space-y-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{run.lead_name || "Lead removido"}</p>
+                      <p className="text-xs text-muted-foreground">{formatDate(run.started_at)}</p>
+                    </div>
+                    <Badge variant="outline" className={runStatusLabels[run.status].className}>
+                      {runStatusLabels[run.status].label}
+                    </Badge>
+                  </div>
+
+                  <div className="space-y-1.5">
+                    {run.logs.map((log) => {
+                      const detail = getLogDetail(log);
+                      return (
+                        <div key={log.id} className="flex items-start gap-2 text-sm">
+                          {log.success || !log.details.error ? (
+                            <CheckCircle2 className="w-4 h-4 mt-0.5 text-green-500 shrink-0" />
+                          ) : (
+                            <XCircle className="w-4 h-4 mt-0.5 text-destructive shrink-0" />
+                          )}
+                          <span className="flex-1">
+                            {log.details.skipped
+                              ? "Execução ignorada"
+                              : automation && getStepLabel(automation, log.step_id)}
+                            {detail && <span className="text-muted-foreground"> — {detail}</span>}
+                          </span>
+                        </div>
+                      );
+                    })}
+
+                    {run.status === "waiting" && run.current_step_id && automation && (
+                      <p className="text-xs text-muted-foreground pl-6">
+                        Próxima: {getStepLabel(automation, run.current_step_id)}
+                        {run.resume_at && ` em ${formatDate(run.resume_at)}`}
+                      </p>
+                    )}
+
+                    {run.error && !run.logs.some((log) => log.details.error || log.details.skipped) && (
+                      <p className="text-xs text-destructive pl-6">{run.error}</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
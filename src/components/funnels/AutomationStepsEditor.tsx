@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Clock, GitBranch, Trash2, Zap } from "lucide-react";
+import type { AutomationDelayStep, AutomationStep } from "@/lib/automationEngine";
+import { FunnelStage } from "@/hooks/useFunnels";
+import { createActionStep, createConditionStep, createDelayStep } from "@/lib/automationEditor";
+import { AutomationActionConfig } from "./AutomationActionConfig";
+import { AutomationConditionsEditor } from "./AutomationConditionsEditor";
+
+const MAX_BRANCH_DEPTH = 2;
+
+const delayUnits = [
+  { value: 1, label: "minutos" },
+  { value: 60, label: "horas" },
+  { value: 1440, label: "dias" },
+];
+
+const getDelayUnit = (minutes: number) => {
+  if (minutes > 0 && minutes % 1440 === 0) return 1440;
+  if (minutes > 0 && minutes % 60 === 0) return 60;
+  return 1;
+};
+
+interface AutomationStepsEditorProps {
+  steps: AutomationStep[];
+  onChange: (steps: AutomationStep[]) => void;
+  stages: FunnelStage[];
+  customFieldKeys: string[];
+  depth?: number;
+}
+
+export function AutomationStepsEditor({
+  steps,
+  onChange,
+  stages,
+  customFieldKeys,
+  depth = 0,
+}: AutomationStepsEditorProps) {
+  const updateStep = (index: number, step: AutomationStep) => {
+    const newSteps = [...steps];
+    newSteps[index] = step;
+    onChange(newSteps);
+  };
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= steps.length) return;
+    const newSteps = [...steps];
+    [newSteps[index], newSteps[target]] = [newSteps[target], newSteps[index]];
+    onChange(newSteps);
+  };
+
+  const removeStep = (index: number) => {
+    onChange(steps.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      {steps.map((step, index) => (
+        <div key={step.id} className="space-y-3 p-3 border rounded-lg">
+          <div className="flex items-center gap-2">
+            <span className="flex items-center gap-2 text-sm font-medium">
+              {step.type === "action" && <Zap className="w-4 h-4 text-primary" />}
+              {step.type === "delay" && <Clock className="w-4 h-4 text-amber-500" />}
+              {step.type === "condition" && <GitBranch className="w-4 h-4 text-blue-500" />}
+              {index + 1}. {step.type === "action" ? "Ação" : step.type === "delay" ? "Aguardar" : "Condição"}
+            </span>
+            <div className="flex items-center ml-auto">
+              <Button type="button" variant="ghost" size="icon" onClick={() => moveStep(index, -1)} disabled={index === 0}>
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => moveStep(index, 1)}
+                disabled={index === steps.length - 1}
+              >
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="icon" onClick={() => removeStep(index)} className="text-destructive">
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+
+          {step.type === "action" && (
+            <AutomationActionConfig
+              actionType={step.action_type}
+              actionConfig={step.action_config}
+              onChange={(actionType, actionConfig) =>
+                updateStep(index, { ...step, action_type: actionType, action_config: actionConfig })
+              }
+              stages={stages}
+            />
+          )}
+
+          {step.type === "delay" && (
+            <DelayStepEditor step={step} onChange={(updated) => updateStep(index, updated)} />
+          )}
+
+          {step.type === "condition" && (
+            <div className="space-y-4">
+              <AutomationConditionsEditor
+                conditions={step.conditions}
+                onChange={(conditions) => updateStep(index, { ...step, conditions })}
+                customFieldKeys={customFieldKeys}
+              />
+              <div className="space-y-2 pl-3 border-l-2 border-green-500/50">
+                <Label className="text-green-600">Se sim</Label>
+                <AutomationStepsEditor
+                  steps={step.then_steps}
+                  onChange={(thenSteps) => updateStep(index, { ...step, then_steps: thenSteps })}
+                  stages={stages}
+                  customFieldKeys={customFieldKeys}
+                  depth={depth + 1}
+                />
+              </div>
+              <div className="space-y-2 pl-3 border-l-2 border-red-500/50">
+                <Label className="text-red-600">Se não</Label>
+                <AutomationStepsEditor
+                  steps={step.else_steps}
+                  onChange={(elseSteps) => updateStep(index, { ...step, else_steps: elseSteps })}
+                  stages={stages}
+                  customFieldKeys={customFieldKeys}
+                  depth={depth + 1}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => onChange([...steps, createActionStep()])}>
+          <Zap className="w-4 h-4 mr-1" />
+          Ação
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={() => onChange([...steps, createDelayStep()])}>
+          <Clock className="w-4 h-4 mr-1" />
+          Aguardar
+        </Button>
+        {depth < MAX_BRANCH_DEPTH && (
+          <Button type="button" variant="outline" size="sm" onClick={() => onChange([...steps, createConditionStep()])}>
+            <GitBranch className="w-4 h-4 mr-1" />
+            Condição
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function DelayStepEditor({ step, onChange }: { step: AutomationDelayStep; onChange: (step: AutomationDelayStep) => void }) {
+  const [unit, setUnit] = useState(() => getDelayUnit(step.delay_minutes));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Input
+          type="number"
+          min={1}
+          value={step.delay_minutes ? step.delay_minutes / unit : ""}
+          onChange={(e) => onChange({ ...step, delay_minutes: Math.round((parseFloat(e.target.value) || 0) * unit) })}
+          className="w-28"
+        />
+        <Select
+          value={String(unit)}
+          onValueChange={(v) => {
+            const newUnit = Number(v);
+            onChange({ ...step, delay_minutes: Math.round((step.delay_minutes / unit) * newUnit) });
+            setUnit(newUnit);
+          }}
+        >
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {delayUnits.map((delayUnit) => (
+              <SelectItem key={delayUnit.value} value={String(delayUnit.value)}>
+                {delayUnit.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        As próximas etapas são retomadas pelo agendador, verificado a cada 5 minutos.
+      </p>
+    </div>
+  );
+}
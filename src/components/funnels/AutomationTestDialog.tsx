@@ -0,0 +1,421 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CheckCircle2, FlaskConical, XCircle } from "lucide-react";
+import { FunnelAutomation } from "@/hooks/useFunnelAutomations";
+import { FunnelLead, FunnelStage, useFunnelLeads } from "@/hooks/useFunnels";
+import {
+  AutomationLead,
+  ConditionTrace,
+  buildDryRunContext,
+  evaluateConditions,
+  isConditionGroup,
+  matchesTrigger,
+  previewSteps,
+  traceConditions,
+} from "@/lib/automationEngine";
+import { conditionFields, operatorLabels } from "@/lib/automationEditor";
+
+interface AutomationTestDialogProps {
+  automation: FunnelAutomation | null;
+  onOpenChange: (open: boolean) => void;
+  stages: FunnelStage[];
+  getStepLabel: (automation: FunnelAutomation, stepId: string | null) => string;
+}
+
+// Editable copy of a lead - everything the rules can look at
+interface SampleLead extends AutomationLead {
+  custom_fields: Record<string, unknown> | null;
+}
+
+const SAMPLE_LEAD_ID = "sample";
+
+const emptySample = (stageId: string): SampleLead => ({
+  id: SAMPLE_LEAD_ID,
+  stage_id: stageId,
+  name: "Lead de teste",
+  email: null,
+  phone: null,
+  value: 0,
+  source: null,
+  tags: [],
+  custom_fields: {},
+  is_reentry: false,
+  is_business_hours: true,
+  created_at: new Date().toISOString(),
+  last_contact_at: null,
+  stage_entered_at: new Date().toISOString(),
+});
+
+const toSample = (lead: FunnelLead): SampleLead => ({
+  id: lead.id,
+  stage_id: lead.stage_id,
+  name: lead.name,
+  email: lead.email,
+  phone: lead.phone,
+  value: lead.value,
+  source: lead.source,
+  tags: lead.tags || [],
+  custom_fields: lead.custom_fields || {},
+  is_reentry: lead.is_reentry,
+  created_at: lead.created_at,
+  last_contact_at: lead.last_contact_at,
+  stage_entered_at: lead.stage_entered_at,
+});
+
+// ISO date <-> value of a datetime-local input
+const toLocalInput = (iso: string | null | undefined) => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : null);
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "vazio";
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "vazio";
+  return String(value);
+};
+
+const getFieldLabel = (field: string) =>
+  field.startsWith("custom.")
+    ? field.slice("custom.".length)
+    : conditionFields.find((f) => f.value === field)?.label || field;
+
+function ConditionTraceView({ trace, depth = 0 }: { trace: ConditionTrace; depth?: number }) {
+  const icon = trace.passed
+    ? <CheckCircle2 className="w-4 h-4 mt-0.5 text-green-500 shrink-0" />
+    : <XCircle className="w-4 h-4 mt-0.5 text-destructive shrink-0" />;
+
+  if (isConditionGroup(trace.node)) {
+    return (
+      <div className={depth > 0 ? "space-y-1.5 pl-3 border-l" : "space-y-1.5"}>
+        {depth > 0 && (
+          <div className="flex items-start gap-2 text-sm">
+            {icon}
+            <span className="text-muted-foreground">
+              {trace.node.logic === "or" ? "Qualquer condição (OU)" : "Todas as condições (E)"}
+            </span>
+          </div>
+        )}
+        {(trace.children || []).map((child, index) => (
+          <ConditionTraceView key={index} trace={child} depth={depth + 1} />
+        ))}
+      </div>
+    );
+  }
+
+  const condition = trace.node;
+  return (
+    <div className="flex items-start gap-2 text-sm">
+      {icon}
+      <span>
+        {getFieldLabel(condition.field)} {operatorLabels[condition.operator]}{" "}
+        {!["is_empty", "is_not_empty"].includes(condition.operator) && <strong>{condition.value}</strong>}
+        <span className="text-muted-foreground"> — atual: {formatValue(trace.actual)}</span>
+      </span>
+    </div>
+  );
+}
+
+// Dry run of an automation: evaluates trigger, conditions and steps without writing anything
+export function AutomationTestDialog({ automation, onOpenChange, stages, getStepLabel }: AutomationTestDialogProps) {
+  const { leads } = useFunnelLeads(stages.map((s) => s.id));
+  const [selectedLeadId, setSelectedLeadId] = useState<string>(SAMPLE_LEAD_ID);
+  const [sample, setSample] = useState<SampleLead>(() => emptySample(stages[0]?.id || ""));
+  const [customFieldsText, setCustomFieldsText] = useState("{}");
+  const [customFieldsError, setCustomFieldsError] = useState(false);
+
+  const automationId = automation?.id;
+  const defaultStageId = stages[0]?.id || "";
+
+  const loadSample = useCallback((lead: SampleLead) => {
+    setSample(lead);
+    setCustomFieldsText(JSON.stringify(lead.custom_fields || {}, null, 2));
+    setCustomFieldsError(false);
+  }, []);
+
+  // Start from an empty sample lead each time another automation is opened
+  useEffect(() => {
+    if (!automationId) return;
+    setSelectedLeadId(SAMPLE_LEAD_ID);
+    loadSample(emptySample(defaultStageId));
+  }, [automationId, defaultStageId, loadSample]);
+
+  const handleSelectLead = (leadId: string) => {
+    setSelectedLeadId(leadId);
+    const lead = leads.find((l) => l.id === leadId);
+    loadSample(lead ? toSample(lead) : emptySample(stages[0]?.id || ""));
+  };
+
+  const handleCustomFieldsChange = (text: string) => {
+    setCustomFieldsText(text);
+    try {
+      const parsed = text.trim() ? JSON.parse(text) : {};
+      setSample({ ...sample, custom_fields: parsed });
+      setCustomFieldsError(false);
+    } catch {
+      setCustomFieldsError(true);
+    }
+  };
+
+  const result = useMemo(() => {
+    if (!automation) return null;
+    const now = new Date();
+    const triggerMatched = matchesTrigger(automation, buildDryRunContext(automation, sample, now));
+    const trace = traceConditions(automation, sample, now);
+    return {
+      triggerMatched,
+      trace,
+      steps: triggerMatched && trace.passed ? previewSteps(automation, sample, now) : [],
+    };
+  }, [automation, sample]);
+
+  // Leads of the funnel that would trigger the automation right now
+  const matchingLeads = useMemo(() => {
+    if (!automation) return [];
+    const now = new Date();
+    return leads.filter((lead) => {
+      const candidate = toSample(lead);
+      return matchesTrigger(automation, buildDryRunContext(automation, candidate, now)) &&
+        evaluateConditions(automation, candidate, now);
+    });
+  }, [automation, leads]);
+
+  const getStageName = (stageId: string) => stages.find((s) => s.id === stageId)?.name || "Etapa desconhecida";
+
+  return (
+    <Dialog open={!!automation} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FlaskConical className="w-5 h-5 text-primary" />
+            Testar - {automation?.name}
+          </DialogTitle>
+        </DialogHeader>
+
+        <p className="text-xs text-muted-foreground">
+          Simulação: nada é gravado e nenhuma mensagem é enviada.
+        </p>
+
+        <Tabs defaultValue="lead">
+          <TabsList>
+            <TabsTrigger value="lead">Testar com um lead</TabsTrigger>
+            <TabsTrigger value="funnel">Leads do funil ({matchingLeads.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="lead">
+            <ScrollArea className="h-[480px] pr-4">
+              <div className="grid grid-cols-2 gap-6">
+                {/* Sample lead */}
+                <div className="space-y-3">
+                  <div className="space-y-2">
+                    <Label>Lead</Label>
+                    <Select value={selectedLeadId} onValueChange={handleSelectLead}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={SAMPLE_LEAD_ID}>Lead de exemplo</SelectItem>
+                        {leads.map((lead) => (
+                          <SelectItem key={lead.id} value={lead.id}>
+                            {lead.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Etapa</Label>
+                    <Select value={sample.stage_id} onValueChange={(v) => setSample({ ...sample, stage_id: v })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecione a etapa" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {stages.map((stage) => (
+                          <SelectItem key={stage.id} value={stage.id}>
+                            {stage.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1">
+                      <Label className="text-xs">Nome</Label>
+                      <Input value={sample.name} onChange={(e) => setSample({ ...sample, name: e.target.value })} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Valor</Label>
+                      <Input
+                        type="number"
+                        value={sample.value ?? ""}
+                        onChange={(e) => setSample({ ...sample, value: e.target.value === "" ? null : Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Email</Label>
+                      <Input value={sample.email || ""} onChange={(e) => setSample({ ...sample, email: e.target.value || null })} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Telefone</Label>
+                      <Input value={sample.phone || ""} onChange={(e) => setSample({ ...sample, phone: e.target.value || null })} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Origem</Label>
+                      <Input value={sample.source || ""} onChange={(e) => setSample({ ...sample, source: e.target.value || null })} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Tags</Label>
+                      <Input
+                        value={(sample.tags || []).join(", ")}
+                        onChange={(e) =>
+                          setSample({ ...sample, tags: e.target.value.split(",").map((t) => t.trim()).filter(Boolean) })
+                        }
+                        placeholder="tag1, tag2"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Entrada na etapa</Label>
+                      <Input
+                        type="datetime-local"
+                        value={toLocalInput(sample.stage_entered_at)}
+                        onChange={(e) => setSample({ ...sample, stage_entered_at: fromLocalInput(e.target.value) })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Último contato</Label>
+                      <Input
+                        type="datetime-local"
+                        value={toLocalInput(sample.last_contact_at)}
+                        onChange={(e) => setSample({ ...sample, last_contact_at: fromLocalInput(e.target.value) })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Criado em</Label>
+                      <Input
+                        type="datetime-local"
+                        value={toLocalInput(sample.created_at)}
+                        onChange={(e) => setSample({ ...sample, created_at: fromLocalInput(e.target.value) })}
+                      />
+                    </div>
+                    <div className="flex items-center gap-2 pt-5">
+                      <Switch
+                        checked={!!sample.is_reentry}
+                        onCheckedChange={(checked) => setSample({ ...sample, is_reentry: checked })}
+                      />
+                      <Label className="text-xs">Reentrada</Label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={sample.is_business_hours !== false}
+                        onCheckedChange={(checked) => setSample({ ...sample, is_business_hours: checked })}
+                      />
+                      <Label className="text-xs">Dentro do horário de atendimento</Label>
+                    </div>
+                  </div>
+
+                  <div className="space-y-1">
+                    <Label className="text-xs">Campos personalizados (JSON)</Label>
+                    <Textarea
+                      value={customFieldsText}
+                      onChange={(e) => handleCustomFieldsChange(e.target.value)}
+                      rows={4}
+                      className="font-mono text-xs"
+                    />
+                    {customFieldsError && <p className="text-xs text-destructive">JSON inválido</p>}
+                  </div>
+                </div>
+
+                {/* Result */}
+                {result && automation && (
+                  <div className="space-y-4">
+                    <div className="space-y-2">
+                      <h4 className="font-medium text-sm">Gatilho</h4>
+                      <div className="flex items-center gap-2 text-sm">
+                        {result.triggerMatched ? (
+                          <CheckCircle2 className="w-4 h-4 text-green-500" />
+                        ) : (
+                          <XCircle className="w-4 h-4 text-destructive" />
+                        )}
+                        {result.triggerMatched ? "Dispararia para este lead" : "Não dispararia para este lead"}
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <h4 className="font-medium text-sm">Condições</h4>
+                      {automation.conditions.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Sem condições</p>
+                      ) : (
+                        <ConditionTraceView trace={result.trace} />
+                      )}
+                    </div>
+
+                    <div className="space-y-2">
+                      <h4 className="font-medium text-sm">Etapas que seriam executadas</h4>
+                      {result.steps.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Nenhuma - a automação não seria executada</p>
+                      ) : (
+                        <div className="space-y-1.5">
+                          {result.steps.map(({ step, matched }) => (
+                            <div key={step.id} className="text-sm">
+                              {getStepLabel(automation, step.id)}
+                              {matched !== undefined && (
+                                <Badge variant="outline" className="ml-2 text-xs">
+                                  {matched ? "Se sim" : "Se não"}
+                                </Badge>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="funnel">
+            <ScrollArea className="h-[480px] pr-4">
+              {matchingLeads.length === 0 ? (
+                <div className="flex items-center justify-center py-12 text-muted-foreground">
+                  Nenhum lead do funil dispararia esta automação agora
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {matchingLeads.map((lead) => (
+                    <div key={lead.id} className="flex items-center justify-between p-3 rounded-lg border text-sm">
+                      <span className="font-medium">{lead.name}</span>
+                      <Badge variant="secondary">{getStageName(lead.stage_id)}</Badge>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -19,10 +19,19 @@ import {
   Tag,
   Bell,
   UserPlus,
-  RefreshCw
+  RefreshCw,
+  MessageSquare,
+  FileText,
+  Bot,
+  History,
+  FlaskConical
 } from "lucide-react";
 import { useFunnelAutomations, FunnelAutomation, TriggerType, ActionType } from "@/hooks/useFunnelAutomations";
+import { useChatbotFlows } from "@/hooks/useChatbotFlows";
+import { flattenSteps, getAutomationSteps } from "@/lib/automationEngine";
 import { CreateAutomationDialog } from "./CreateAutomationDialog";
+import { AutomationHistoryDialog } from "./AutomationHistoryDialog";
+import { AutomationTestDialog } from "./AutomationTestDialog";
 import { FunnelStage } from "@/hooks/useFunnels";
 import {
   AlertDialog,
@@ -56,6 +65,9 @@ const actionLabels: Record<ActionType, { label: string; icon: React.ReactNode }>
   add_tag: { label: "Adicionar tag", icon: <Tag className="w-4 h-4" /> },
   remove_tag: { label: "Remover tag", icon: <Tag className="w-4 h-4" /> },
   send_notification: { label: "Enviar notificação", icon: <Bell className="w-4 h-4" /> },
+  send_whatsapp_message: { label: "Enviar WhatsApp", icon: <MessageSquare className="w-4 h-4" /> },
+  send_whatsapp_template: { label: "Enviar template", icon: <FileText className="w-4 h-4" /> },
+  start_chatbot_flow: { label: "Iniciar fluxo", icon: <Bot className="w-4 h-4" /> },
 };
 
 export function AutomationsDialog({
@@ -68,8 +80,11 @@ export function AutomationsDialog({
   const [showCreate, setShowCreate] = useState(false);
   const [automationToEdit, setAutomationToEdit] = useState<FunnelAutomation | null>(null);
   const [automationToDelete, setAutomationToDelete] = useState<string | null>(null);
+  const [automationHistory, setAutomationHistory] = useState<FunnelAutomation | null>(null);
+  const [automationToTest, setAutomationToTest] = useState<FunnelAutomation | null>(null);
   
   const { automations, loadingAutomations, toggleAutomation, deleteAutomation } = useFunnelAutomations(funnelId);
+  const { flows } = useChatbotFlows();
 
   const handleToggle = (automation: FunnelAutomation) => {
     toggleAutomation.mutate({ id: automation.id, is_active: !automation.is_active });
@@ -86,9 +101,8 @@ export function AutomationsDialog({
     return stage?.name || "Etapa desconhecida";
   };
 
-  const getActionDescription = (automation: FunnelAutomation) => {
-    const config = automation.action_config;
-    switch (automation.action_type) {
+  const getActionDescription = (actionType: ActionType, config: Record<string, unknown>) => {
+    switch (actionType) {
       case "move_to_stage":
         return `→ ${getStageName(config.target_stage_id as string)}`;
       case "add_tag":
@@ -96,12 +110,40 @@ export function AutomationsDialog({
       case "remove_tag":
         return `- ${config.tag as string}`;
       case "send_notification":
+      case "send_whatsapp_message":
         return config.message as string;
+      case "send_whatsapp_template":
+        return config.template_name as string;
+      case "start_chatbot_flow":
+        return flows.find((f) => f.id === config.flow_id)?.name || "Fluxo removido";
       default:
         return "";
     }
   };
 
+  const formatDelay = (minutes: number) => {
+    if (minutes % 1440 === 0) return `${minutes / 1440} dia(s)`;
+    if (minutes % 60 === 0) return `${minutes / 60}h`;
+    return `${minutes} min`;
+  };
+
+  // "2. Adicionar tag + vip" - numbered in execution order, including branch steps
+  const getStepLabel = (automation: FunnelAutomation, stepId: string | null) => {
+    const steps = flattenSteps(getAutomationSteps(automation));
+    const index = steps.findIndex((step) => step.id === stepId);
+    const step = steps[index];
+    if (!step) return "Etapa removida";
+
+    switch (step.type) {
+      case "action":
+        return `${index + 1}. ${actionLabels[step.action_type].label} ${getActionDescription(step.action_type, step.action_config)}`;
+      case "delay":
+        return `${index + 1}. Aguardar ${formatDelay(step.delay_minutes)}`;
+      case "condition":
+        return `${index + 1}. Condição`;
+    }
+  };
+
   const getTriggerDescription = (automation: FunnelAutomation) => {
     const config = automation.trigger_config;
     switch (automation.trigger_type) {
@@ -201,9 +243,15 @@ export function AutomationsDialog({
                             {actionLabels[automation.action_type].icon}
                             {actionLabels[automation.action_type].label}
                             <span className="text-primary font-medium ml-1">
-                              {getActionDescription(automation)}
+                              {getActionDescription(automation.action_type, automation.action_config)}
                             </span>
                           </Badge>
+
+                          {flattenSteps(automation.steps).length > 1 && (
+                            <Badge variant="secondary" className="text-xs">
+                              {flattenSteps(automation.steps).length} etapas
+                            </Badge>
+                          )}
                         </div>
 
                         {automation.conditions && automation.conditions.length > 0 && (
@@ -218,6 +266,22 @@ export function AutomationsDialog({
                           checked={automation.is_active}
                           onCheckedChange={() => handleToggle(automation)}
                         />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Testar"
+                          onClick={() => setAutomationToTest(automation)}
+                        >
+                          <FlaskConical className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Histórico"
+                          onClick={() => setAutomationHistory(automation)}
+                        >
+                          <History className="w-4 h-4" />
+                        </Button>
                         <Button
                           variant="ghost"
                           size="icon"
@@ -257,6 +321,21 @@ export function AutomationsDialog({
         automationToEdit={automationToEdit}
       />
 
+      {/* Run History */}
+      <AutomationHistoryDialog
+        automation={automationHistory}
+        onOpenChange={(open) => !open && setAutomationHistory(null)}
+        getStepLabel={getStepLabel}
+      />
+
+      {/* Dry Run */}
+      <AutomationTestDialog
+        automation={automationToTest}
+        onOpenChange={(open) => !open && setAutomationToTest(null)}
+        stages={stages}
+        getStepLabel={getStepLabel}
+      />
+
       {/* Delete Confirmation */}
       <AlertDialog open={!!automationToDelete} onOpenChange={(open) => !open && setAutomationToDelete(null)}>
         <AlertDialogContent>
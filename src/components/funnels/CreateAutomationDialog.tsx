@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import {
   Dialog,
   DialogContent,
@@ -18,24 +18,33 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
+import { Checkbox } from "@/components/ui/checkbox";
 import { 
-  ArrowRight,
+  AlertTriangle,
   Clock,
   Tag,
-  Bell,
   UserPlus,
-  RefreshCw,
-  Plus,
-  Trash2
+  RefreshCw
 } from "lucide-react";
 import { 
   useFunnelAutomations, 
   FunnelAutomation, 
   TriggerType, 
-  ActionType,
-  AutomationCondition 
+  AutomationConditionNode,
+  AutomationStep
 } from "@/hooks/useFunnelAutomations";
-import { FunnelStage } from "@/hooks/useFunnels";
+import { FunnelStage, useFunnelLeads } from "@/hooks/useFunnels";
+import { areStepsValid, createActionStep } from "@/lib/automationEditor";
+import { AutomationConditionsEditor } from "./AutomationConditionsEditor";
+import { AutomationStepsEditor } from "./AutomationStepsEditor";
+import {
+  AutomationActionStep,
+  DEFAULT_COOLDOWN_MINUTES,
+  MAX_CHAIN_DEPTH,
+  findAutomationCycle,
+  flattenSteps,
+  getAutomationSteps,
+} from "@/lib/automationEngine";
 
 interface CreateAutomationDialogProps {
   open: boolean;
@@ -53,32 +62,6 @@ const triggerOptions: { value: TriggerType; label: string; icon: React.ReactNode
   { value: "tag_added", label: "Tag adicionada", icon: <Tag className="w-4 h-4" /> },
 ];
 
-const actionOptions: { value: ActionType; label: string; icon: React.ReactNode }[] = [
-  { value: "move_to_stage", label: "Mover para etapa", icon: <ArrowRight className="w-4 h-4" /> },
-  { value: "add_tag", label: "Adicionar tag", icon: <Tag className="w-4 h-4" /> },
-  { value: "remove_tag", label: "Remover tag", icon: <Tag className="w-4 h-4" /> },
-  { value: "send_notification", label: "Enviar notificação", icon: <Bell className="w-4 h-4" /> },
-];
-
-const conditionOperators = [
-  { value: "equals", label: "é igual a" },
-  { value: "not_equals", label: "não é igual a" },
-  { value: "contains", label: "contém" },
-  { value: "greater_than", label: "é maior que" },
-  { value: "less_than", label: "é menor que" },
-  { value: "is_empty", label: "está vazio" },
-  { value: "is_not_empty", label: "não está vazio" },
-];
-
-const conditionFields = [
-  { value: "name", label: "Nome" },
-  { value: "email", label: "Email" },
-  { value: "phone", label: "Telefone" },
-  { value: "value", label: "Valor" },
-  { value: "source", label: "Origem" },
-  { value: "tags", label: "Tags" },
-];
-
 export function CreateAutomationDialog({
   open,
   onOpenChange,
@@ -90,22 +73,32 @@ export function CreateAutomationDialog({
   const [description, setDescription] = useState("");
   const [triggerType, setTriggerType] = useState<TriggerType>("lead_created");
   const [triggerConfig, setTriggerConfig] = useState<Record<string, unknown>>({});
-  const [actionType, setActionType] = useState<ActionType>("move_to_stage");
-  const [actionConfig, setActionConfig] = useState<Record<string, unknown>>({});
-  const [conditions, setConditions] = useState<AutomationCondition[]>([]);
+  const [steps, setSteps] = useState<AutomationStep[]>([createActionStep()]);
+  const [conditions, setConditions] = useState<AutomationConditionNode[]>([]);
+  const [cooldownMinutes, setCooldownMinutes] = useState(DEFAULT_COOLDOWN_MINUTES);
+  const [acceptCycle, setAcceptCycle] = useState(false);
 
-  const { createAutomation, updateAutomation } = useFunnelAutomations(funnelId);
+  const { automations, createAutomation, updateAutomation } = useFunnelAutomations(funnelId);
+  const { leads } = useFunnelLeads(stages.map((s) => s.id), funnelId);
   const isEditing = !!automationToEdit;
 
+  // Custom field keys already used by the funnel's leads, suggested in the conditions editor
+  const customFieldKeys = useMemo(() => {
+    const keys = new Set<string>();
+    leads.forEach((lead) => Object.keys(lead.custom_fields || {}).forEach((key) => keys.add(key)));
+    return Array.from(keys).sort();
+  }, [leads]);
+
   useEffect(() => {
     if (automationToEdit) {
       setName(automationToEdit.name);
       setDescription(automationToEdit.description || "");
       setTriggerType(automationToEdit.trigger_type);
       setTriggerConfig(automationToEdit.trigger_config);
-      setActionType(automationToEdit.action_type);
-      setActionConfig(automationToEdit.action_config);
+      setSteps(getAutomationSteps(automationToEdit));
       setConditions(automationToEdit.conditions || []);
+      setCooldownMinutes(automationToEdit.cooldown_minutes);
+      setAcceptCycle(false);
     } else {
       resetForm();
     }
@@ -116,13 +109,38 @@ export function CreateAutomationDialog({
     setDescription("");
     setTriggerType("lead_created");
     setTriggerConfig({});
-    setActionType("move_to_stage");
-    setActionConfig({});
+    setSteps([createActionStep()]);
     setConditions([]);
+    setCooldownMinutes(DEFAULT_COOLDOWN_MINUTES);
+    setAcceptCycle(false);
   };
 
+  // First action mirrored into action_type/action_config (required columns, used in summaries)
+  const firstAction = flattenSteps(steps).find((step): step is AutomationActionStep => step.type === "action");
+
+  // Active automations of the funnel that could keep triggering each other together with this one
+  const candidateId = automationToEdit?.id || "new";
+  const cycleIds = useMemo(() => {
+    // Only the trigger, conditions and steps matter - typing the name doesn't run the detection again
+    const action = flattenSteps(steps).find((step): step is AutomationActionStep => step.type === "action");
+    return findAutomationCycle(automations.filter((a) => a.is_active), {
+      id: candidateId,
+      name: "",
+      trigger_type: triggerType,
+      trigger_config: triggerConfig,
+      conditions,
+      action_type: action?.action_type || "move_to_stage",
+      action_config: action?.action_config || {},
+      steps,
+    });
+  }, [automations, candidateId, triggerType, triggerConfig, conditions, steps]);
+  const cycle = cycleIds?.map((id) =>
+    id === candidateId ? name || "Esta automação" : automations.find((a) => a.id === id)?.name || id
+  ) || null;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!firstAction) return;
     
     if (isEditing) {
       await updateAutomation.mutateAsync({
@@ -131,9 +149,11 @@ export function CreateAutomationDialog({
         description: description || null,
         trigger_type: triggerType,
         trigger_config: triggerConfig,
-        action_type: actionType,
-        action_config: actionConfig,
+        action_type: firstAction.action_type,
+        action_config: firstAction.action_config,
+        steps,
         conditions,
+        cooldown_minutes: cooldownMinutes,
       });
     } else {
       await createAutomation.mutateAsync({
@@ -141,9 +161,11 @@ export function CreateAutomationDialog({
         description,
         trigger_type: triggerType,
         trigger_config: triggerConfig,
-        action_type: actionType,
-        action_config: actionConfig,
+        action_type: firstAction.action_type,
+        action_config: firstAction.action_config,
+        steps,
         conditions,
+        cooldown_minutes: cooldownMinutes,
       });
     }
     
@@ -151,20 +173,6 @@ export function CreateAutomationDialog({
     resetForm();
   };
 
-  const addCondition = () => {
-    setConditions([...conditions, { field: "name", operator: "equals", value: "" }]);
-  };
-
-  const updateCondition = (index: number, updates: Partial<AutomationCondition>) => {
-    const newConditions = [...conditions];
-    newConditions[index] = { ...newConditions[index], ...updates };
-    setConditions(newConditions);
-  };
-
-  const removeCondition = (index: number) => {
-    setConditions(conditions.filter((_, i) => i !== index));
-  };
-
   const renderTriggerConfig = () => {
     switch (triggerType) {
       case "lead_created":
@@ -220,6 +228,9 @@ export function CreateAutomationDialog({
                 onChange={(e) => setTriggerConfig({ ...triggerConfig, hours: parseInt(e.target.value) || 0 })}
                 placeholder="Ex: 24"
               />
+              <p className="text-xs text-muted-foreground">
+                Verificado a cada 5 minutos. Cada lead dispara no máximo uma vez por passagem na etapa.
+              </p>
             </div>
           </div>
         );
@@ -241,76 +252,14 @@ export function CreateAutomationDialog({
     }
   };
 
-  const renderActionConfig = () => {
-    switch (actionType) {
-      case "move_to_stage":
-        return (
-          <div className="space-y-2">
-            <Label>Etapa destino</Label>
-            <Select 
-              value={(actionConfig.target_stage_id as string) || ""} 
-              onValueChange={(v) => setActionConfig({ ...actionConfig, target_stage_id: v })}
-            >
-              <SelectTrigger>
-                <SelectValue placeholder="Selecione a etapa" />
-              </SelectTrigger>
-              <SelectContent>
-                {stages.map((stage) => (
-                  <SelectItem key={stage.id} value={stage.id}>
-                    {stage.name}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
-        );
-
-      case "add_tag":
-      case "remove_tag":
-        return (
-          <div className="space-y-2">
-            <Label>Tag</Label>
-            <Input
-              value={(actionConfig.tag as string) || ""}
-              onChange={(e) => setActionConfig({ ...actionConfig, tag: e.target.value })}
-              placeholder="Nome da tag"
-            />
-          </div>
-        );
-
-      case "send_notification":
-        return (
-          <div className="space-y-2">
-            <Label>Mensagem</Label>
-            <Textarea
-              value={(actionConfig.message as string) || ""}
-              onChange={(e) => setActionConfig({ ...actionConfig, message: e.target.value })}
-              placeholder="Mensagem da notificação"
-            />
-          </div>
-        );
-
-      default:
-        return null;
-    }
-  };
-
   const isValid = () => {
     if (!name.trim()) return false;
     
-    // Validate action config
-    switch (actionType) {
-      case "move_to_stage":
-        if (!actionConfig.target_stage_id) return false;
-        break;
-      case "add_tag":
-      case "remove_tag":
-        if (!actionConfig.tag) return false;
-        break;
-      case "send_notification":
-        if (!actionConfig.message) return false;
-        break;
-    }
+    // Validate steps
+    if (!firstAction || !areStepsValid(steps)) return false;
+
+    // Possible loops must be acknowledged
+    if (cycle && !acceptCycle) return false;
 
     // Validate trigger config for specific triggers
     switch (triggerType) {
@@ -327,7 +276,7 @@ export function CreateAutomationDialog({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>
             {isEditing ? "Editar Automação" : "Nova Automação"}
@@ -385,109 +334,82 @@ export function CreateAutomationDialog({
               </Select>
             </div>
             {renderTriggerConfig()}
+            <div className="space-y-2">
+              <Label>Intervalo mínimo por lead (minutos)</Label>
+              <Input
+                type="number"
+                min={0}
+                value={cooldownMinutes}
+                onChange={(e) => setCooldownMinutes(Math.max(0, parseInt(e.target.value) || 0))}
+                className="w-28"
+              />
+              <p className="text-xs text-muted-foreground">
+                Disparos para o mesmo lead dentro desse intervalo são ignorados. Use 0 para não limitar.
+              </p>
+            </div>
           </div>
 
           <Separator />
 
           {/* Conditions */}
           <div className="space-y-4">
-            <div className="flex items-center justify-between">
+            <div className="space-y-1">
               <h4 className="font-medium">Condições (opcional)</h4>
-              <Button type="button" variant="outline" size="sm" onClick={addCondition}>
-                <Plus className="w-4 h-4 mr-1" />
-                Adicionar
-              </Button>
+              <p className="text-xs text-muted-foreground">
+                Todas as condições precisam ser verdadeiras. Use grupos para combinar condições com OU.
+              </p>
             </div>
-            
-            {conditions.length > 0 && (
-              <div className="space-y-3">
-                {conditions.map((condition, index) => (
-                  <div key={index} className="flex items-center gap-2 p-3 bg-muted/50 rounded-lg">
-                    <Select
-                      value={condition.field}
-                      onValueChange={(v) => updateCondition(index, { field: v })}
-                    >
-                      <SelectTrigger className="w-28">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {conditionFields.map((field) => (
-                          <SelectItem key={field.value} value={field.value}>
-                            {field.label}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-
-                    <Select
-                      value={condition.operator}
-                      onValueChange={(v) => updateCondition(index, { operator: v as AutomationCondition["operator"] })}
-                    >
-                      <SelectTrigger className="w-36">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {conditionOperators.map((op) => (
-                          <SelectItem key={op.value} value={op.value}>
-                            {op.label}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-
-                    {!["is_empty", "is_not_empty"].includes(condition.operator) && (
-                      <Input
-                        value={condition.value}
-                        onChange={(e) => updateCondition(index, { value: e.target.value })}
-                        placeholder="Valor"
-                        className="flex-1"
-                      />
-                    )}
-
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => removeCondition(index)}
-                      className="text-destructive"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
-                  </div>
-                ))}
-              </div>
-            )}
+            <AutomationConditionsEditor
+              conditions={conditions}
+              onChange={setConditions}
+              customFieldKeys={customFieldKeys}
+            />
           </div>
 
           <Separator />
 
-          {/* Action */}
+          {/* Steps */}
           <div className="space-y-4">
-            <h4 className="font-medium">Então (Ação)</h4>
-            <div className="space-y-2">
-              <Label>Tipo de ação</Label>
-              <Select value={actionType} onValueChange={(v) => {
-                setActionType(v as ActionType);
-                setActionConfig({});
-              }}>
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  {actionOptions.map((option) => (
-                    <SelectItem key={option.value} value={option.value}>
-                      <div className="flex items-center gap-2">
-                        {option.icon}
-                        {option.label}
-                      </div>
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+            <div className="space-y-1">
+              <h4 className="font-medium">Então (Etapas)</h4>
+              <p className="text-xs text-muted-foreground">
+                As etapas são executadas em ordem. Use "Aguardar" para pausar e "Condição" para seguir caminhos diferentes.
+              </p>
             </div>
-            {renderActionConfig()}
+            <AutomationStepsEditor
+              steps={steps}
+              onChange={setSteps}
+              stages={stages}
+              customFieldKeys={customFieldKeys}
+            />
           </div>
 
+          {cycle && (
+            <div className="space-y-3 p-3 rounded-lg border border-amber-500/30 bg-amber-500/10">
+              <div className="flex items-start gap-2 text-sm">
+                <AlertTriangle className="w-4 h-4 mt-0.5 text-amber-600 shrink-0" />
+                <div className="space-y-1">
+                  <p className="font-medium">Possível loop entre automações</p>
+                  <p className="text-muted-foreground">{cycle.join(" → ")}</p>
+                  <p className="text-xs text-muted-foreground">
+                    As etapas desta automação podem disparar outras automações que voltam a dispará-la.
+                    Cada cadeia é interrompida após {MAX_CHAIN_DEPTH} automações.
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="accept-cycle"
+                  checked={acceptCycle}
+                  onCheckedChange={(checked) => setAcceptCycle(checked === true)}
+                />
+                <Label htmlFor="accept-cycle" className="text-sm font-normal">
+                  Entendo o risco e quero salvar mesmo assim
+                </Label>
+              </div>
+            </div>
+          )}
+
           <DialogFooter>
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
               Cancelar
@@ -37,6 +37,7 @@ import {
   ClipboardList,
 } from "lucide-react";
 import { FunnelLead, useFunnelLeads } from "@/hooks/useFunnels";
+import { useAgents } from "@/hooks/useAgents";
 import { cn } from "@/lib/utils";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
@@ -86,6 +87,7 @@ export function LeadDetailsDialog({
   const [newNote, setNewNote] = useState("");
   const [newTag, setNewTag] = useState("");
   const whatsAppChoice = useWhatsAppChoice();
+  const { agents, getAgentName } = useAgents();
 
   // Form state
   const [formData, setFormData] = useState({
@@ -94,6 +96,7 @@ export function LeadDetailsDialog({
     phone: "",
     value: "",
     source: "",
+    assigned_to: "",
     notes: "",
     tags: [] as string[],
   });
@@ -107,6 +110,7 @@ export function LeadDetailsDialog({
         phone: lead.phone || "",
         value: lead.value?.toString() || "",
         source: lead.source || "",
+        assigned_to: lead.assigned_to || "",
         notes: lead.notes || "",
         tags: lead.tags || [],
       });
@@ -119,12 +123,12 @@ export function LeadDetailsDialog({
   const handleSave = async () => {
     await updateLead.mutateAsync({
       id: lead.id,
-      previousLead: lead, // Pass previous lead for automation comparison
       name: formData.name,
       email: formData.email || null,
       phone: formData.phone || null,
       value: formData.value ? parseFloat(formData.value) : 0,
       source: formData.source || null,
+      assigned_to: formData.assigned_to || null,
       notes: formData.notes || null,
       tags: formData.tags,
       last_contact_at: new Date().toISOString(),
@@ -158,7 +162,6 @@ export function LeadDetailsDialog({
     
     await updateLead.mutateAsync({
       id: lead.id,
-      previousLead: lead, // Pass previous lead for automation comparison
       notes: updatedNotes,
       last_contact_at: new Date().toISOString(),
     });
@@ -396,6 +399,32 @@ export function LeadDetailsDialog({
                   )}
                 </div>
 
+                <div className="space-y-2">
+                  <Label>Responsável</Label>
+                  {isEditing ? (
+                    <Select
+                      value={formData.assigned_to || "none"}
+                      onValueChange={(value) =>
+                        setFormData((prev) => ({ ...prev, assigned_to: value === "none" ? "" : value }))
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Sem responsável</SelectItem>
+                        {agents.map((agent) => (
+                          <SelectItem key={agent.user_id} value={agent.user_id}>
+                            {agent.full_name || agent.email || "Sem nome"}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <p className="text-sm py-2">{getAgentName(formData.assigned_to) || "-"}</p>
+                  )}
+                </div>
+
                 {/* Tags */}
                 <div className="space-y-2">
                   <Label>Tags</Label>
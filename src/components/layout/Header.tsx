@@ -1,9 +1,10 @@
-import { Bell, Search, User, LogOut, Settings, CreditCard, MessageCircle, UserPlus } from "lucide-react";
+import { Bell, Search, User, LogOut, Settings, CreditCard, MessageCircle, UserPlus, Zap } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuLabel,
@@ -13,6 +14,7 @@ import {
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { useAuth } from "@/hooks/useAuth";
 import { useNotifications } from "@/hooks/useNotifications";
+import { useAgentPresence } from "@/hooks/useAgents";
 import { formatDistanceToNow } from "date-fns";
 import { ptBR } from "date-fns/locale";
 
@@ -25,6 +27,7 @@ interface HeaderProps {
 export function Header({ title, subtitle, onNewLead }: HeaderProps) {
   const { user, profile, company, signOut } = useAuth();
   const { unreadCount, notifications, unreadWhatsApp, recentLeadsCount, markAllAsRead } = useNotifications();
+  const { isAvailable, setAvailable } = useAgentPresence();
   const navigate = useNavigate();
 
   const handleSignOut = async () => {
@@ -48,7 +51,7 @@ export function Header({ title, subtitle, onNewLead }: HeaderProps) {
   };
 
   const handleNotificationClick = (notification: typeof notifications[0]) => {
-    if (notification.type === "new_lead") {
+    if (notification.type === "new_lead" || notification.type === "automation") {
       navigate("/leads");
     } else if (notification.type === "whatsapp_message") {
       navigate("/whatsapp");
@@ -168,10 +171,14 @@ export function Header({ title, subtitle, onNewLead }: HeaderProps) {
                     <div className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 ${
                       notification.type === "new_lead" 
                         ? "bg-blue-100 dark:bg-blue-900/30" 
+                        : notification.type === "automation"
+                        ? "bg-amber-100 dark:bg-amber-900/30"
                         : "bg-green-100 dark:bg-green-900/30"
                     }`}>
                       {notification.type === "new_lead" ? (
                         <UserPlus className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+                      ) : notification.type === "automation" ? (
+                        <Zap className="w-4 h-4 text-amber-600 dark:text-amber-400" />
                       ) : (
                         <MessageCircle className="w-4 h-4 text-green-600 dark:text-green-400" />
                       )}
@@ -193,12 +200,17 @@ export function Header({ title, subtitle, onNewLead }: HeaderProps) {
         {/* User Menu */}
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
-            <Button variant="ghost" className="gap-2 px-2">
+            <Button variant="ghost" className="relative gap-2 px-2">
               <Avatar className="w-8 h-8">
                 <AvatarFallback className="bg-primary text-primary-foreground text-sm font-medium">
                   {getInitials()}
                 </AvatarFallback>
               </Avatar>
+              <span
+                className={`absolute bottom-1 right-1.5 w-2.5 h-2.5 rounded-full border-2 border-card ${
+                  isAvailable ? "bg-green-500" : "bg-muted-foreground"
+                }`}
+              />
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent align="end" className="w-56 bg-popover">
@@ -212,6 +224,13 @@ export function Header({ title, subtitle, onNewLead }: HeaderProps) {
               </div>
             </DropdownMenuLabel>
             <DropdownMenuSeparator />
+            <DropdownMenuCheckboxItem
+              checked={isAvailable}
+              onCheckedChange={(checked) => setAvailable.mutate(checked === true)}
+            >
+              Disponível para atendimento
+            </DropdownMenuCheckboxItem>
+            <DropdownMenuSeparator />
             <DropdownMenuItem onClick={() => navigate("/settings")}>
               <User className="w-4 h-4 mr-2" />
               Meu Perfil
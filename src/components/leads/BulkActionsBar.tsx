@@ -22,6 +22,7 @@ import {
   ArrowRight,
   Tags,
   Mail,
+  MessageCircle,
   Trash2,
   X,
   Plus,
@@ -40,6 +41,7 @@ interface BulkActionsBarProps {
   onRemoveTags: (tags: string[]) => Promise<void>;
   onDelete: () => Promise<void>;
   onSendEmail: () => void;
+  onSendWhatsApp: () => void;
   isProcessing: boolean;
 }
 
@@ -53,6 +55,7 @@ export function BulkActionsBar({
   onRemoveTags,
   onDelete,
   onSendEmail,
+  onSendWhatsApp,
   isProcessing,
 }: BulkActionsBarProps) {
   const [showTagDialog, setShowTagDialog] = useState(false);
@@ -165,6 +168,12 @@ export function BulkActionsBar({
           Enviar e-mail
         </Button>
 
+        {/* Send WhatsApp template */}
+        <Button variant="outline" size="sm" onClick={onSendWhatsApp} disabled={isProcessing}>
+          <MessageCircle className="w-4 h-4 mr-2" />
+          Enviar WhatsApp
+        </Button>
+
         <div className="flex-1" />
 
         {/* Cancel */}
@@ -0,0 +1,298 @@
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { AlertCircle, Braces, Loader2, MessageCircle, Send, Users } from "lucide-react";
+import { useWhatsAppTemplates, WhatsAppTemplate } from "@/hooks/useWhatsAppTemplates";
+import { useWhatsAppBroadcasts } from "@/hooks/useWhatsAppBroadcasts";
+import { LEAD_TEMPLATE_VARIABLES, renderLeadTemplate } from "@/lib/automationEngine";
+import { buildBroadcastComponents } from "@/lib/whatsappBroadcasts";
+import {
+  getTemplateFields,
+  renderTemplatePreview,
+  suggestTemplateParamField,
+  TemplateParamField,
+  TemplateParams,
+} from "@/lib/whatsappTemplates";
+import type { FunnelLead } from "@/hooks/useFunnels";
+
+// Lead placeholder that fills each suggested field
+const FIELD_PLACEHOLDERS: Record<TemplateParamField, string> = {
+  name: "{lead_name}",
+  first_name: "{lead_first_name}",
+  phone: "{lead_phone}",
+  email: "{lead_email}",
+  value: "{lead_value}",
+};
+
+const HEADER_LABELS = { IMAGE: "Imagem", VIDEO: "Vídeo", DOCUMENT: "Documento" };
+
+interface BulkWhatsAppDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  leads: FunnelLead[];
+}
+
+export function BulkWhatsAppDialog({ open, onOpenChange, leads }: BulkWhatsAppDialogProps) {
+  const { templates, loading: loadingTemplates, fetchTemplates } = useWhatsAppTemplates();
+  const { createBroadcast } = useWhatsAppBroadcasts();
+  const [name, setName] = useState("");
+  const [template, setTemplate] = useState<WhatsAppTemplate | null>(null);
+  const [params, setParams] = useState<TemplateParams>({ body: [] });
+  const [schedule, setSchedule] = useState(false);
+  const [scheduledAt, setScheduledAt] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    fetchTemplates("APPROVED");
+    setName(`Campanha ${format(new Date(), "dd/MM/yyyy HH:mm")}`);
+    setTemplate(null);
+    setParams({ body: [] });
+    setSchedule(false);
+    setScheduledAt("");
+  }, [open, fetchTemplates]);
+
+  const leadsWithPhone = useMemo(() => leads.filter((lead) => lead.phone), [leads]);
+  const fields = template ? getTemplateFields(template.components) : null;
+
+  // Leads whose data can't fill the variables (they are reported as failed)
+  const leadsMissingData = useMemo(
+    () =>
+      template
+        ? leadsWithPhone.filter((lead) => buildBroadcastComponents(template.components, params, lead).errors.length > 0)
+        : [],
+    [template, params, leadsWithPhone]
+  );
+
+  const sampleLead = leadsWithPhone[0];
+  const preview =
+    template && sampleLead
+      ? renderTemplatePreview(template.components, {
+          header: renderLeadTemplate(params.header || "", sampleLead),
+          body: params.body.map((param) => renderLeadTemplate(param, sampleLead)),
+        })
+      : null;
+
+  const handleSelectTemplate = (value: string) => {
+    const selected = templates.find((t) => `${t.name}|${t.language}` === value) || null;
+    setTemplate(selected);
+    if (!selected) return;
+
+    const selectedFields = getTemplateFields(selected.components);
+    setParams({
+      body: Array.from({ length: selectedFields.bodyParamCount }, (_, i) => {
+        const field = suggestTemplateParamField(selectedFields.bodyExamples[i], i);
+        return field ? FIELD_PLACEHOLDERS[field] : "";
+      }),
+    });
+  };
+
+  const setBodyParam = (index: number, value: string) => {
+    setParams((prev) => ({ ...prev, body: prev.body.map((param, i) => (i === index ? value : param)) }));
+  };
+
+  const scheduledDate = schedule && scheduledAt ? new Date(scheduledAt) : null;
+  const canSend =
+    !!name.trim() &&
+    !!template &&
+    leadsWithPhone.length > leadsMissingData.length &&
+    (!schedule || (!!scheduledDate && scheduledDate.getTime() > Date.now()));
+
+  const handleSend = () => {
+    if (!template || !canSend) return;
+
+    createBroadcast.mutate(
+      {
+        name,
+        template,
+        params,
+        leadIds: leadsWithPhone.map((lead) => lead.id),
+        scheduledAt: scheduledDate,
+      },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  const mediaHeader = fields?.headerFormat && fields.headerFormat !== "TEXT" ? fields.headerFormat : null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MessageCircle className="w-5 h-5" />
+            Disparo de WhatsApp
+          </DialogTitle>
+          <DialogDescription>
+            Envie um template aprovado para os leads. O envio é feito em lotes, dentro do limite diário do seu número.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {/* Recipients Info */}
+          <div className="flex items-center gap-2 p-3 bg-muted rounded-lg">
+            <Users className="w-4 h-4 text-muted-foreground" />
+            <span className="text-sm">
+              <span className="font-medium">{leadsWithPhone.length}</span> de{" "}
+              <span className="font-medium">{leads.length}</span> leads possuem telefone
+            </span>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="broadcast-name">Nome da campanha *</Label>
+            <Input id="broadcast-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Template aprovado *</Label>
+            <Select value={template ? `${template.name}|${template.language}` : ""} onValueChange={handleSelectTemplate}>
+              <SelectTrigger>
+                <SelectValue placeholder={loadingTemplates ? "Carregando..." : "Selecione o template"} />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map((t) => (
+                  <SelectItem key={`${t.name}|${t.language}`} value={`${t.name}|${t.language}`}>
+                    {t.name} ({t.language})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {fields && (
+            <div className="space-y-3">
+              {mediaHeader && (
+                <div className="space-y-2">
+                  <Label>{HEADER_LABELS[mediaHeader]} do cabeçalho</Label>
+                  <Input
+                    value={params.header || ""}
+                    onChange={(e) => setParams((prev) => ({ ...prev, header: e.target.value }))}
+                    placeholder="https://..."
+                  />
+                </div>
+              )}
+
+              {fields.headerHasParam && (
+                <div className="space-y-2">
+                  <Label>Variável do cabeçalho</Label>
+                  <Input
+                    value={params.header || ""}
+                    onChange={(e) => setParams((prev) => ({ ...prev, header: e.target.value }))}
+                    placeholder="Ex: {lead_first_name}"
+                  />
+                </div>
+              )}
+
+              {params.body.map((param, index) => (
+                <div key={index} className="space-y-2">
+                  <Label>Variável {`{{${index + 1}}}`}</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      value={param}
+                      onChange={(e) => setBodyParam(index, e.target.value)}
+                      placeholder={fields.bodyExamples[index] ? `Ex: ${fields.bodyExamples[index]}` : ""}
+                    />
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="outline" size="icon" className="shrink-0" title="Inserir dado do lead">
+                          <Braces className="w-4 h-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {LEAD_TEMPLATE_VARIABLES.map((variable) => (
+                          <DropdownMenuItem key={variable.key} onClick={() => setBodyParam(index, param + variable.key)}>
+                            {variable.label}
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                </div>
+              ))}
+
+              {fields.urlButtons.map((button) => (
+                <div key={button.index} className="space-y-2">
+                  <Label>Link do botão "{button.text}"</Label>
+                  <Input
+                    value={params.buttons?.[button.index] || ""}
+                    onChange={(e) =>
+                      setParams((prev) => ({ ...prev, buttons: { ...prev.buttons, [button.index]: e.target.value } }))
+                    }
+                    placeholder={button.url.replace(/\{\{1\}\}/, "...")}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {preview && (
+            <div className="space-y-2">
+              <Label>Prévia para {sampleLead.name}</Label>
+              <div className="rounded-xl bg-[#efeae2] p-3">
+                <div className="max-w-[320px] rounded-lg rounded-tl-none bg-white shadow-sm px-3 py-2 space-y-1">
+                  {preview.headerFormat === "TEXT" && <p className="text-sm font-semibold">{preview.header}</p>}
+                  {mediaHeader && <p className="text-xs text-slate-500">[{HEADER_LABELS[mediaHeader]}]</p>}
+                  <p className="text-sm whitespace-pre-wrap">{preview.body}</p>
+                  {preview.footer && <p className="text-xs text-slate-500">{preview.footer}</p>}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {leadsMissingData.length > 0 && (
+            <p className="flex items-start gap-1 text-xs text-amber-700">
+              <AlertCircle className="w-3 h-3 mt-0.5 shrink-0" />
+              {leadsMissingData.length} lead(s) sem os dados das variáveis serão marcados como falha.
+            </p>
+          )}
+
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <div>
+              <p className="text-sm font-medium">Agendar envio</p>
+              <p className="text-xs text-muted-foreground">Sem agendamento, o envio começa no próximo minuto.</p>
+            </div>
+            <Switch checked={schedule} onCheckedChange={setSchedule} />
+          </div>
+          {schedule && (
+            <Input
+              type="datetime-local"
+              value={scheduledAt}
+              min={format(new Date(), "yyyy-MM-dd'T'HH:mm")}
+              onChange={(e) => setScheduledAt(e.target.value)}
+            />
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSend} disabled={!canSend || createBroadcast.isPending}>
+            {createBroadcast.isPending ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Send className="w-4 h-4 mr-2" />
+            )}
+            {schedule ? "Agendar" : "Enviar"} para {leadsWithPhone.length} leads
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,143 @@
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Loader2, Megaphone, Pause, Play, X } from "lucide-react";
+import { useWhatsAppBroadcasts, WhatsAppBroadcast } from "@/hooks/useWhatsAppBroadcasts";
+import type { BroadcastStatus } from "@/lib/whatsappBroadcasts";
+
+const STATUS_LABELS: Record<BroadcastStatus, { label: string; className: string }> = {
+  draft: { label: "Rascunho", className: "bg-slate-100 text-slate-500" },
+  scheduled: { label: "Agendada", className: "bg-sky-100 text-sky-700" },
+  sending: { label: "Enviando", className: "bg-amber-100 text-amber-700" },
+  paused: { label: "Pausada", className: "bg-slate-100 text-slate-700" },
+  completed: { label: "Concluída", className: "bg-emerald-100 text-emerald-700" },
+  cancelled: { label: "Cancelada", className: "bg-red-100 text-red-700" },
+};
+
+interface WhatsAppBroadcastsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function WhatsAppBroadcastsDialog({ open, onOpenChange }: WhatsAppBroadcastsDialogProps) {
+  const { broadcasts, isLoading, setBroadcastStatus } = useWhatsAppBroadcasts();
+
+  // A campaign paused before its first batch goes back to the schedule
+  const resume = (broadcast: WhatsAppBroadcast) =>
+    setBroadcastStatus.mutate({ id: broadcast.id, status: broadcast.started_at ? "sending" : "scheduled" });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Megaphone className="w-5 h-5" />
+            Campanhas de WhatsApp
+          </DialogTitle>
+          <DialogDescription>Acompanhe os disparos de templates e seus resultados.</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : broadcasts.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">Nenhuma campanha criada ainda.</p>
+        ) : (
+          <ScrollArea className="max-h-[480px] pr-3">
+            <div className="space-y-3">
+              {broadcasts.map((broadcast) => {
+                const { stats } = broadcast;
+                const processed = stats.total - stats.pending;
+                const status = STATUS_LABELS[broadcast.status];
+                const active = broadcast.status === "scheduled" || broadcast.status === "sending";
+
+                return (
+                  <div key={broadcast.id} className="rounded-lg border p-3 space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{broadcast.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {broadcast.template_name} ·{" "}
+                          {broadcast.status === "scheduled" ? "agendada para " : ""}
+                          {format(new Date(broadcast.scheduled_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <Badge variant="secondary" className={status.className}>
+                          {status.label}
+                        </Badge>
+                        {active && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            title="Pausar"
+                            onClick={() => setBroadcastStatus.mutate({ id: broadcast.id, status: "paused" })}
+                          >
+                            <Pause className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {broadcast.status === "paused" && (
+                          <Button variant="ghost" size="icon" className="h-7 w-7" title="Retomar" onClick={() => resume(broadcast)}>
+                            <Play className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {(active || broadcast.status === "paused" || broadcast.status === "draft") && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 text-destructive"
+                            title="Cancelar"
+                            onClick={() => setBroadcastStatus.mutate({ id: broadcast.id, status: "cancelled" })}
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+
+                    <Progress value={stats.total > 0 ? (processed / stats.total) * 100 : 0} className="h-2" />
+
+                    <div className="grid grid-cols-5 gap-2 text-center text-xs">
+                      <div>
+                        <p className="font-semibold">{stats.total}</p>
+                        <p className="text-muted-foreground">Leads</p>
+                      </div>
+                      <div>
+                        <p className="font-semibold">{stats.sent}</p>
+                        <p className="text-muted-foreground">Enviadas</p>
+                      </div>
+                      <div>
+                        <p className="font-semibold">{stats.delivered}</p>
+                        <p className="text-muted-foreground">Entregues</p>
+                      </div>
+                      <div>
+                        <p className="font-semibold">{stats.read}</p>
+                        <p className="text-muted-foreground">Lidas</p>
+                      </div>
+                      <div>
+                        <p className="font-semibold text-destructive">{stats.failed}</p>
+                        <p className="text-muted-foreground">Falhas</p>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,228 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarOff, Clock, Loader2, Plus, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { useBusinessHours } from "@/hooks/useBusinessHours";
+import {
+  BusinessDay,
+  BusinessHoliday,
+  BusinessHours,
+  WEEKDAY_LABELS,
+  getNextOpeningTime,
+  isWithinBusinessHours,
+  validateBusinessHours,
+} from "@/lib/businessHours";
+
+const TIMEZONES = [
+  { value: "America/Sao_Paulo", label: "Brasília (GMT-3)" },
+  { value: "America/Manaus", label: "Manaus (GMT-4)" },
+  { value: "America/Cuiaba", label: "Cuiabá (GMT-4)" },
+  { value: "America/Rio_Branco", label: "Rio Branco (GMT-5)" },
+  { value: "America/Noronha", label: "Fernando de Noronha (GMT-2)" },
+  { value: "America/Fortaleza", label: "Fortaleza (GMT-3)" },
+  { value: "America/Belem", label: "Belém (GMT-3)" },
+  { value: "Europe/Lisbon", label: "Lisboa" },
+];
+
+// Weekly schedule, holidays and timezone used by the chatbot and the automations
+export function BusinessHoursSettings() {
+  const { hours, timezone, isLoading, saveBusinessHours } = useBusinessHours();
+  const [draft, setDraft] = useState<BusinessHours>(hours);
+  const [draftTimezone, setDraftTimezone] = useState(timezone);
+
+  useEffect(() => {
+    setDraft(hours);
+    setDraftTimezone(timezone);
+  }, [hours, timezone]);
+
+  const errors = validateBusinessHours(draft);
+
+  const updateDay = (weekday: number, changes: Partial<BusinessDay>) => {
+    setDraft({ ...draft, days: draft.days.map((day, i) => (i === weekday ? { ...day, ...changes } : day)) });
+  };
+
+  const updateHoliday = (index: number, changes: Partial<BusinessHoliday>) => {
+    setDraft({ ...draft, holidays: draft.holidays.map((h, i) => (i === index ? { ...h, ...changes } : h)) });
+  };
+
+  const addHoliday = () => {
+    setDraft({ ...draft, holidays: [...draft.holidays, { date: format(new Date(), "yyyy-MM-dd"), name: "", recurring: false }] });
+  };
+
+  const removeHoliday = (index: number) => {
+    setDraft({ ...draft, holidays: draft.holidays.filter((_, i) => i !== index) });
+  };
+
+  const renderStatus = () => {
+    if (!draft.enabled) return <Badge variant="secondary">Sempre aberto</Badge>;
+    if (isWithinBusinessHours(draft, draftTimezone)) {
+      return <Badge className="bg-success/10 text-success border-success/20">Aberto agora</Badge>;
+    }
+    const opensAt = getNextOpeningTime(draft, draftTimezone);
+    return (
+      <Badge variant="outline">
+        Fechado{opensAt && ` · abre ${format(opensAt, "EEEE, dd/MM 'às' HH:mm", { locale: ptBR })}`}
+      </Badge>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="w-5 h-5" />
+              Horário de Atendimento
+            </CardTitle>
+            <CardDescription>
+              Fora do horário, transferências do chatbot aguardam a abertura. Use "Horário de atendimento"
+              nas condições dos fluxos e automações.
+            </CardDescription>
+          </div>
+          {renderStatus()}
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-col sm:flex-row sm:items-center gap-4 sm:justify-between">
+            <div className="flex items-center gap-3">
+              <Switch checked={draft.enabled} onCheckedChange={(enabled) => setDraft({ ...draft, enabled })} />
+              <Label>Usar horário de atendimento</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Label className="shrink-0">Fuso horário</Label>
+              <Select value={draftTimezone} onValueChange={setDraftTimezone}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIMEZONES.map((tz) => (
+                    <SelectItem key={tz.value} value={tz.value}>
+                      {tz.label}
+                    </SelectItem>
+                  ))}
+                  {!TIMEZONES.some((tz) => tz.value === draftTimezone) && (
+                    <SelectItem value={draftTimezone}>{draftTimezone}</SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className={`space-y-2 ${draft.enabled ? "" : "opacity-50 pointer-events-none"}`}>
+            {draft.days.map((day, weekday) => (
+              <div key={weekday} className="flex items-center gap-3 p-3 rounded-lg border">
+                <Switch checked={day.enabled} onCheckedChange={(enabled) => updateDay(weekday, { enabled })} />
+                <span className="w-20 text-sm font-medium">{WEEKDAY_LABELS[weekday]}</span>
+                {day.enabled ? (
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="time"
+                      value={day.start}
+                      onChange={(e) => updateDay(weekday, { start: e.target.value })}
+                      className="w-28"
+                    />
+                    <span className="text-sm text-muted-foreground">até</span>
+                    <Input
+                      type="time"
+                      value={day.end}
+                      onChange={(e) => updateDay(weekday, { end: e.target.value })}
+                      className="w-28"
+                    />
+                  </div>
+                ) : (
+                  <span className="text-sm text-muted-foreground">Fechado</span>
+                )}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className={draft.enabled ? "" : "opacity-50 pointer-events-none"}>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarOff className="w-5 h-5" />
+              Feriados
+            </CardTitle>
+            <CardDescription>Dias em que a empresa fica fechada</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={addHoliday}>
+            <Plus className="w-4 h-4 mr-1" />
+            Feriado
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {draft.holidays.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhum feriado cadastrado</p>
+          ) : (
+            draft.holidays.map((holiday, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-3 p-3 rounded-lg border">
+                <Input
+                  type="date"
+                  value={holiday.date}
+                  onChange={(e) => updateHoliday(index, { date: e.target.value })}
+                  className="w-40"
+                />
+                <Input
+                  value={holiday.name || ""}
+                  onChange={(e) => updateHoliday(index, { name: e.target.value })}
+                  placeholder="Ex: Natal"
+                  className="flex-1 min-w-[140px]"
+                />
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={!!holiday.recurring}
+                    onCheckedChange={(recurring) => updateHoliday(index, { recurring })}
+                  />
+                  <Label className="text-xs">Todo ano</Label>
+                </div>
+                <Button variant="ghost" size="icon" className="text-destructive" onClick={() => removeHoliday(index)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {errors.length > 0 && (
+        <div className="text-sm text-destructive space-y-1">
+          {errors.map((error) => (
+            <p key={error}>{error}</p>
+          ))}
+        </div>
+      )}
+
+      <Button
+        className="gradient-primary text-primary-foreground"
+        onClick={() => saveBusinessHours.mutate({ hours: draft, timezone: draftTimezone })}
+        disabled={saveBusinessHours.isPending || errors.length > 0}
+      >
+        {saveBusinessHours.isPending ? (
+          <>
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Salvando...
+          </>
+        ) : (
+          "Salvar"
+        )}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { ASSIGNMENT_STRATEGIES, AssignmentStrategy } from "@/lib/conversationAssignment";
+import type { Agent } from "@/hooks/useAgents";
+import type { ChatQueue, ChatQueueInput } from "@/hooks/useChatQueues";
+
+interface QueueDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  queue: ChatQueue | null;
+  agents: Agent[];
+  saving: boolean;
+  onSave: (input: ChatQueueInput) => void;
+}
+
+export function QueueDialog({ open, onOpenChange, queue, agents, saving, onSave }: QueueDialogProps) {
+  const [name, setName] = useState("");
+  const [distribution, setDistribution] = useState<AssignmentStrategy>("round_robin");
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(queue?.name || "");
+    setDistribution(queue?.distribution || "round_robin");
+    setMemberIds(queue?.member_ids || []);
+  }, [open, queue]);
+
+  const toggleMember = (userId: string, checked: boolean) => {
+    setMemberIds((current) => (checked ? [...current, userId] : current.filter((id) => id !== userId)));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{queue ? "Editar fila" : "Nova fila"}</DialogTitle>
+          <DialogDescription>
+            As conversas transferidas pelo chatbot para esta fila são distribuídas entre os atendentes online.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="queue-name">Nome</Label>
+            <Input
+              id="queue-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Ex: Vendas, Suporte"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Distribuição</Label>
+            <Select value={distribution} onValueChange={(value) => setDistribution(value as AssignmentStrategy)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ASSIGNMENT_STRATEGIES.map((strategy) => (
+                  <SelectItem key={strategy.value} value={strategy.value}>
+                    {strategy.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Atendentes</Label>
+            <div className="max-h-56 overflow-y-auto space-y-2 rounded-md border border-border p-3">
+              {agents.map((agent) => (
+                <label key={agent.user_id} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={memberIds.includes(agent.user_id)}
+                    onCheckedChange={(checked) => toggleMember(agent.user_id, checked === true)}
+                  />
+                  {agent.full_name || agent.email || "Sem nome"}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={() => onSave({ name, distribution, member_ids: memberIds })}
+            disabled={saving || !name.trim()}
+          >
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Salvar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Inbox, Plus, Pencil, Trash2 } from "lucide-react";
+import { useChatQueues } from "@/hooks/useChatQueues";
+import type { ChatQueue, ChatQueueInput } from "@/hooks/useChatQueues";
+import { useAgents } from "@/hooks/useAgents";
+import { useAuth } from "@/hooks/useAuth";
+import { ASSIGNMENT_STRATEGIES } from "@/lib/conversationAssignment";
+import { QueueDialog } from "./QueueDialog";
+
+// Department queues used by the chatbot transfer block
+export function QueueManagement() {
+  const { profile } = useAuth();
+  const isAdmin = profile?.role === "admin" || profile?.role === "owner";
+  const { queues, createQueue, updateQueue, deleteQueue } = useChatQueues();
+  const { agents, getAgentName } = useAgents();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [selectedQueue, setSelectedQueue] = useState<ChatQueue | null>(null);
+  const [queueToDelete, setQueueToDelete] = useState<ChatQueue | null>(null);
+
+  const openDialog = (queue: ChatQueue | null) => {
+    setSelectedQueue(queue);
+    setDialogOpen(true);
+  };
+
+  const handleSave = (input: ChatQueueInput) => {
+    const options = { onSuccess: () => setDialogOpen(false) };
+    if (selectedQueue) updateQueue.mutate({ id: selectedQueue.id, ...input }, options);
+    else createQueue.mutate(input, options);
+  };
+
+  const handleDelete = () => {
+    if (queueToDelete) deleteQueue.mutate(queueToDelete.id);
+    setQueueToDelete(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Inbox className="w-5 h-5" />
+            Filas de Atendimento
+          </CardTitle>
+          <CardDescription>
+            Departamentos que recebem as conversas transferidas pelo chatbot
+          </CardDescription>
+        </div>
+        {isAdmin && (
+          <Button variant="outline" onClick={() => openDialog(null)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Nova Fila
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {queues.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhuma fila criada</p>
+        ) : (
+          <div className="space-y-4">
+            {queues.map((queue) => (
+              <div
+                key={queue.id}
+                className="flex items-center justify-between py-3 border-b border-border last:border-0"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium text-foreground">{queue.name}</p>
+                    <Badge variant="outline">
+                      {ASSIGNMENT_STRATEGIES.find((strategy) => strategy.value === queue.distribution)?.label}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground truncate">
+                    {queue.member_ids.length === 0
+                      ? "Sem atendentes"
+                      : queue.member_ids.map((userId) => getAgentName(userId) || "Sem nome").join(", ")}
+                  </p>
+                </div>
+                {isAdmin && (
+                  <div className="flex items-center gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => openDialog(queue)} title="Editar fila">
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => setQueueToDelete(queue)} title="Remover fila">
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <QueueDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        queue={selectedQueue}
+        agents={agents}
+        saving={createQueue.isPending || updateQueue.isPending}
+        onSave={handleSave}
+      />
+
+      <AlertDialog open={!!queueToDelete} onOpenChange={(open) => !open && setQueueToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remover fila?</AlertDialogTitle>
+            <AlertDialogDescription>
+              As conversas da fila "{queueToDelete?.name}" continuam com seus responsáveis. Blocos de transferência
+              que usam esta fila deixam de distribuir as conversas.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Remover
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
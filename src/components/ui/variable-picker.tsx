@@ -63,6 +63,8 @@ interface VariablePickerProps {
   className?: string;
   useDoubleBraces?: boolean; // For Meta templates: {{1}} vs {nome}
   maxLength?: number;
+  onBlur?: () => void;
+  autoFocus?: boolean;
 }
 
 export function VariablePicker({
@@ -75,6 +77,8 @@ export function VariablePicker({
   className,
   useDoubleBraces = false,
   maxLength,
+  onBlur,
+  autoFocus,
 }: VariablePickerProps) {
   const [showPicker, setShowPicker] = useState(false);
   const [pickerPosition, setPickerPosition] = useState({ top: 0, left: 0 });
@@ -225,6 +229,8 @@ export function VariablePicker({
         className={className}
         rows={multiline ? rows : undefined}
         maxLength={maxLength}
+        onBlur={onBlur}
+        autoFocus={autoFocus}
       />
       
       {showPicker && filteredVariables.length > 0 && (
@@ -246,6 +252,8 @@ export function VariablePicker({
                     ? "bg-accent text-accent-foreground" 
                     : "hover:bg-muted"
                 )}
+                // Keep the focus in the input so onBlur doesn't fire before the insert
+                onMouseDown={(e) => e.preventDefault()}
                 onClick={() => insertVariable(variable)}
                 onMouseEnter={() => setSelectedIndex(index)}
                 type="button"
@@ -10,9 +10,11 @@ import {
   SheetTitle,
   SheetTrigger,
 } from "@/components/ui/sheet";
-import { Headphones, MessageSquare, X, User } from "lucide-react";
+import { Headphones, MessageSquare, X, User, UserCheck } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useAgents } from "@/hooks/useAgents";
+import { useChatQueues } from "@/hooks/useChatQueues";
 import { formatLocalPhone } from "@/lib/phoneNormalizer";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
@@ -24,6 +26,8 @@ interface ContactInService {
   profile_picture: string | null;
   tags: string[];
   last_message_at: string | null;
+  assigned_to: string | null;
+  queue_id: string | null;
 }
 
 interface HumanTakeoverPanelProps {
@@ -32,6 +36,8 @@ interface HumanTakeoverPanelProps {
 
 export function HumanTakeoverPanel({ onSelectContact }: HumanTakeoverPanelProps) {
   const { profile } = useAuth();
+  const { getAgentName } = useAgents();
+  const { queues } = useChatQueues();
   const [contacts, setContacts] = useState<ContactInService[]>([]);
   const [loading, setLoading] = useState(true);
   const [open, setOpen] = useState(false);
@@ -42,7 +48,7 @@ export function HumanTakeoverPanel({ onSelectContact }: HumanTakeoverPanelProps)
     try {
       const { data, error } = await supabase
         .from("whatsapp_contacts")
-        .select("id, phone, name, profile_picture, tags, last_message_at")
+        .select("id, phone, name, profile_picture, tags, last_message_at, assigned_to, queue_id")
         .eq("company_id", profile.company_id)
         .contains("tags", ["em_atendimento"])
         .order("last_message_at", { ascending: false, nullsFirst: false });
@@ -112,6 +118,32 @@ export function HumanTakeoverPanel({ onSelectContact }: HumanTakeoverPanelProps)
     }
   };
 
+  const handleAssignToMe = async (contactId: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!profile?.user_id) return;
+
+    try {
+      const { error } = await supabase
+        .from("whatsapp_contacts")
+        .update({ assigned_to: profile.user_id, assigned_at: new Date().toISOString() })
+        .eq("id", contactId);
+
+      if (error) throw error;
+
+      toast.success("Conversa atribuída a você");
+      fetchContactsInService();
+    } catch (err) {
+      console.error("Erro ao assumir conversa:", err);
+      toast.error("Erro ao assumir conversa");
+    }
+  };
+
+  const getAssigneeLabel = (contact: ContactInService) => {
+    if (!contact.assigned_to) return "Aguardando atendente";
+    if (contact.assigned_to === profile?.user_id) return "Você";
+    return getAgentName(contact.assigned_to) || "Atendente";
+  };
+
   const handleSelectContact = (contact: ContactInService) => {
     if (onSelectContact) {
       onSelectContact(contact.id, contact.phone, contact.name);
@@ -211,11 +243,28 @@ export function HumanTakeoverPanel({ onSelectContact }: HumanTakeoverPanelProps)
                         </p>
                         <Badge variant="outline" className="text-xs bg-amber-500/10 text-amber-700 border-amber-500/30 shrink-0">
                           <Headphones className="w-3 h-3 mr-1" />
-                          Atendente
+                          {getAssigneeLabel(contact)}
                         </Badge>
                       </div>
+                      {contact.queue_id && (
+                        <p className="text-xs text-muted-foreground mt-1 truncate">
+                          Fila: {queues.find((queue) => queue.id === contact.queue_id)?.name || "-"}
+                        </p>
+                      )}
                     </div>
 
+                    {contact.assigned_to !== profile?.user_id && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={(e) => handleAssignToMe(contact.id, e)}
+                        className="shrink-0 h-8 w-8 text-muted-foreground hover:text-amber-700 hover:bg-amber-500/10"
+                        title="Assumir conversa"
+                      >
+                        <UserCheck className="w-4 h-4" />
+                      </Button>
+                    )}
+
                     <Button
                       variant="ghost"
                       size="icon"
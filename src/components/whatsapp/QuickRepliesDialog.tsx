@@ -0,0 +1,274 @@
+import { useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Loader2, Paperclip, Pencil, Plus, Star, Trash2, X, Zap } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { normalizeShortcut, QUICK_REPLY_VARIABLES } from "@/lib/quickReplies";
+import { QuickReply, QuickReplyInput, QuickReplyMediaType, useQuickReplies } from "@/hooks/useQuickReplies";
+
+const EMPTY_FORM: QuickReplyInput = {
+  shortcut: "",
+  title: "",
+  content: "",
+  media_url: null,
+  media_type: null,
+  media_filename: null,
+};
+
+const getMediaType = (mimeType: string): QuickReplyMediaType => {
+  if (mimeType.startsWith("image/")) return "image";
+  if (mimeType.startsWith("video/")) return "video";
+  if (mimeType.startsWith("audio/")) return "audio";
+  return "document";
+};
+
+interface QuickRepliesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function QuickRepliesDialog({ open, onOpenChange }: QuickRepliesDialogProps) {
+  const { quickReplies, createQuickReply, updateQuickReply, deleteQuickReply, toggleFavorite } = useQuickReplies();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<QuickReplyInput>(EMPTY_FORM);
+  const [showForm, setShowForm] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const contentRef = useRef<HTMLTextAreaElement>(null);
+
+  const saving = createQuickReply.isPending || updateQuickReply.isPending;
+  const canSave = !!normalizeShortcut(form.shortcut) && !!form.title.trim() && (!!form.content.trim() || !!form.media_url);
+
+  const openForm = (reply: QuickReply | null) => {
+    setEditingId(reply?.id || null);
+    setForm(
+      reply
+        ? {
+            shortcut: reply.shortcut,
+            title: reply.title,
+            content: reply.content,
+            media_url: reply.media_url,
+            media_type: reply.media_type,
+            media_filename: reply.media_filename,
+          }
+        : EMPTY_FORM
+    );
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+  };
+
+  const handleSave = () => {
+    const options = { onSuccess: closeForm };
+    if (editingId) updateQuickReply.mutate({ id: editingId, ...form }, options);
+    else createQuickReply.mutate(form, options);
+  };
+
+  const insertVariable = (key: string) => {
+    const textarea = contentRef.current;
+    const start = textarea?.selectionStart ?? form.content.length;
+    const end = textarea?.selectionEnd ?? form.content.length;
+    setForm((prev) => ({ ...prev, content: prev.content.slice(0, start) + key + prev.content.slice(end) }));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (file.size > 16 * 1024 * 1024) {
+      toast.error("Arquivo muito grande", { description: "O tamanho máximo permitido é 16MB." });
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const fileExt = file.name.split(".").pop();
+      const filePath = `quick-replies/${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
+      const { data, error } = await supabase.storage.from("whatsapp-media").upload(filePath, file);
+      if (error) throw error;
+
+      const { data: publicUrl } = supabase.storage.from("whatsapp-media").getPublicUrl(data.path);
+      setForm((prev) => ({
+        ...prev,
+        media_url: publicUrl.publicUrl,
+        media_type: getMediaType(file.type),
+        media_filename: file.name,
+      }));
+    } catch (error) {
+      console.error("Upload error:", error);
+      toast.error("Erro ao fazer upload", { description: "Não foi possível enviar o arquivo." });
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Zap className="w-5 h-5 text-amber-500" />
+            Respostas rápidas
+          </DialogTitle>
+          <DialogDescription>
+            Digite / no chat e o atalho para inserir a resposta. As variáveis são preenchidas com os dados do contato e
+            do lead.
+          </DialogDescription>
+        </DialogHeader>
+
+        {showForm ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="quick-reply-shortcut">Atalho</Label>
+                <div className="relative">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">/</span>
+                  <Input
+                    id="quick-reply-shortcut"
+                    value={form.shortcut}
+                    onChange={(e) => setForm((prev) => ({ ...prev, shortcut: e.target.value }))}
+                    onBlur={() => setForm((prev) => ({ ...prev, shortcut: normalizeShortcut(prev.shortcut) }))}
+                    placeholder="boas-vindas"
+                    className="pl-6"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="quick-reply-title">Título</Label>
+                <Input
+                  id="quick-reply-title"
+                  value={form.title}
+                  onChange={(e) => setForm((prev) => ({ ...prev, title: e.target.value }))}
+                  placeholder="Boas-vindas"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="quick-reply-content">Mensagem</Label>
+              <Textarea
+                id="quick-reply-content"
+                ref={contentRef}
+                value={form.content}
+                onChange={(e) => setForm((prev) => ({ ...prev, content: e.target.value }))}
+                placeholder="Olá {{primeiro_nome}}, tudo bem?"
+                rows={4}
+              />
+              <div className="flex flex-wrap gap-1">
+                {QUICK_REPLY_VARIABLES.map((variable) => (
+                  <Badge
+                    key={variable.key}
+                    variant="outline"
+                    className="cursor-pointer text-xs hover:bg-muted"
+                    title={variable.label}
+                    onClick={() => insertVariable(variable.key)}
+                  >
+                    {variable.key}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Anexo (opcional)</Label>
+              <input type="file" ref={fileInputRef} className="hidden" onChange={handleFileChange} />
+              {form.media_url ? (
+                <div className="flex items-center gap-2 rounded-md border border-border px-3 py-2 text-sm">
+                  <Paperclip className="w-4 h-4 text-muted-foreground shrink-0" />
+                  <span className="flex-1 truncate">{form.media_filename || form.media_url}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => setForm((prev) => ({ ...prev, media_url: null, media_type: null, media_filename: null }))}
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+              ) : (
+                <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={uploading}>
+                  {uploading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Paperclip className="w-4 h-4 mr-2" />}
+                  Anexar arquivo
+                </Button>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={closeForm}>
+                Cancelar
+              </Button>
+              <Button onClick={handleSave} disabled={saving || uploading || !canSave}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Salvar
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <Button variant="outline" className="w-full" onClick={() => openForm(null)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Nova resposta rápida
+            </Button>
+            <ScrollArea className="max-h-[360px]">
+              {quickReplies.length === 0 ? (
+                <p className="py-6 text-center text-sm text-muted-foreground">Nenhuma resposta rápida criada</p>
+              ) : (
+                <div className="space-y-1 pr-2">
+                  {quickReplies.map((reply) => (
+                    <div key={reply.id} className="flex items-start gap-2 rounded-lg p-2 hover:bg-muted/50">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 shrink-0"
+                        onClick={() => toggleFavorite.mutate(reply)}
+                        title={reply.is_favorite ? "Remover dos favoritos" : "Favoritar"}
+                      >
+                        <Star className={cn("w-4 h-4", reply.is_favorite ? "fill-amber-400 text-amber-400" : "text-muted-foreground")} />
+                      </Button>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-sm">/{reply.shortcut}</span>
+                          <span className="text-xs text-muted-foreground truncate">{reply.title}</span>
+                          {reply.media_url && <Paperclip className="w-3 h-3 text-muted-foreground shrink-0" />}
+                        </div>
+                        <p className="text-xs text-muted-foreground truncate">{reply.content}</p>
+                      </div>
+                      <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={() => openForm(reply)}>
+                        <Pencil className="w-3.5 h-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 shrink-0"
+                        onClick={() => deleteQuickReply.mutate(reply.id)}
+                      >
+                        <Trash2 className="w-3.5 h-3.5 text-destructive" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
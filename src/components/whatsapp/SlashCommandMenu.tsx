@@ -1,26 +1,40 @@
-import { useEffect, useState, useRef } from "react";
+import { useCallback, useEffect, useMemo, useState, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { FileText, Loader2, Search } from "lucide-react";
+import { FileText, Loader2, Paperclip, Search, Settings2, Star, Zap } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { cn } from "@/lib/utils";
 import { useWhatsAppTemplates, WhatsAppTemplate } from "@/hooks/useWhatsAppTemplates";
+import { QuickReply, useQuickReplies } from "@/hooks/useQuickReplies";
+import { searchQuickReplies } from "@/lib/quickReplies";
+
+type MenuItem =
+  | { kind: "quick_reply"; reply: QuickReply }
+  | { kind: "template"; template: WhatsAppTemplate };
 
 interface SlashCommandMenuProps {
   isOpen: boolean;
   onClose: () => void;
   onSelectTemplate: (template: WhatsAppTemplate) => void;
+  onSelectQuickReply: (reply: QuickReply) => void;
+  onManageQuickReplies: () => void;
   inputRef: React.RefObject<HTMLTextAreaElement>;
+  // Outside the 24h service window only approved templates can be sent
+  templatesOnly?: boolean;
 }
 
 export function SlashCommandMenu({
   isOpen,
   onClose,
   onSelectTemplate,
+  onSelectQuickReply,
+  onManageQuickReplies,
   inputRef,
+  templatesOnly = false,
 }: SlashCommandMenuProps) {
   const { templates, loading: loadingTemplates, fetchTemplates } = useWhatsAppTemplates();
+  const { quickReplies, isLoading: loadingQuickReplies } = useQuickReplies();
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedIndex, setSelectedIndex] = useState(0);
   const menuRef = useRef<HTMLDivElement>(null);
@@ -39,9 +53,31 @@ export function SlashCommandMenu({
     }
   }, [isOpen, fetchTemplates]);
 
-  // Filter by search query
-  const filteredTemplates = templates.filter(t =>
-    t.name.toLowerCase().includes(searchQuery.toLowerCase())
+  // Quick replies first (favorites on top), then the approved templates
+  const filteredQuickReplies = useMemo(
+    () => (templatesOnly ? [] : searchQuickReplies(quickReplies, searchQuery)),
+    [templatesOnly, quickReplies, searchQuery]
+  );
+  const filteredTemplates = useMemo(
+    () => templates.filter((t) => t.name.toLowerCase().includes(searchQuery.replace(/^\//, "").toLowerCase())),
+    [templates, searchQuery]
+  );
+  const items = useMemo<MenuItem[]>(
+    () => [
+      ...filteredQuickReplies.map((reply) => ({ kind: "quick_reply" as const, reply })),
+      ...filteredTemplates.map((template) => ({ kind: "template" as const, template })),
+    ],
+    [filteredQuickReplies, filteredTemplates]
+  );
+  const loading = loadingTemplates || loadingQuickReplies;
+
+  const selectItem = useCallback(
+    (item: MenuItem) => {
+      if (item.kind === "quick_reply") onSelectQuickReply(item.reply);
+      else onSelectTemplate(item.template);
+      onClose();
+    },
+    [onSelectQuickReply, onSelectTemplate, onClose]
   );
 
   // Keyboard navigation
@@ -52,7 +88,7 @@ export function SlashCommandMenu({
       switch (e.key) {
         case "ArrowDown":
           e.preventDefault();
-          setSelectedIndex(prev => Math.min(prev + 1, filteredTemplates.length - 1));
+          setSelectedIndex(prev => Math.min(prev + 1, items.length - 1));
           break;
         case "ArrowUp":
           e.preventDefault();
@@ -60,9 +96,8 @@ export function SlashCommandMenu({
           break;
         case "Enter":
           e.preventDefault();
-          if (filteredTemplates[selectedIndex]) {
-            onSelectTemplate(filteredTemplates[selectedIndex]);
-            onClose();
+          if (items[selectedIndex]) {
+            selectItem(items[selectedIndex]);
           }
           break;
         case "Escape":
@@ -75,7 +110,7 @@ export function SlashCommandMenu({
 
     document.addEventListener("keydown", handleKeyDown);
     return () => document.removeEventListener("keydown", handleKeyDown);
-  }, [isOpen, selectedIndex, filteredTemplates, onClose, inputRef, onSelectTemplate]);
+  }, [isOpen, selectedIndex, items, onClose, inputRef, selectItem]);
 
   // Close on click outside
   useEffect(() => {
@@ -110,16 +145,33 @@ export function SlashCommandMenu({
           {/* Header */}
           <div className="p-3 border-b border-border bg-muted/30">
             <div className="flex items-center gap-2 mb-2">
-              <span className="text-sm font-medium text-foreground">Atalhos rápidos</span>
-              <Badge variant="secondary" className="text-xs">
-                / para abrir
-              </Badge>
+              <span className="text-sm font-medium text-foreground">
+                {templatesOnly ? "Templates aprovados" : "Atalhos rápidos"}
+              </span>
+              {!templatesOnly && (
+                <Badge variant="secondary" className="text-xs">
+                  / para abrir
+                </Badge>
+              )}
+              {!templatesOnly && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    onClose();
+                    onManageQuickReplies();
+                  }}
+                  className="ml-auto flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                >
+                  <Settings2 className="w-3.5 h-3.5" />
+                  Gerenciar respostas
+                </button>
+              )}
             </div>
             <div className="relative">
               <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
               <Input
                 ref={searchInputRef}
-                placeholder="Buscar templates..."
+                placeholder={templatesOnly ? "Buscar templates..." : "Buscar respostas rápidas e templates..."}
                 value={searchQuery}
                 onChange={(e) => {
                   setSearchQuery(e.target.value);
@@ -132,32 +184,64 @@ export function SlashCommandMenu({
 
           {/* Content */}
           <ScrollArea className="max-h-[300px]">
-            {loadingTemplates ? (
+            {loading ? (
               <div className="flex items-center justify-center p-8">
                 <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
               </div>
-            ) : filteredTemplates.length === 0 ? (
+            ) : items.length === 0 ? (
               <div className="p-8 text-center text-muted-foreground text-sm">
-                {searchQuery ? "Nenhum resultado encontrado" : "Nenhum template disponível"}
+                {searchQuery ? "Nenhum resultado encontrado" : "Nenhuma resposta rápida ou template disponível"}
               </div>
             ) : (
               <div className="p-1">
-                <div className="px-3 py-2 text-xs font-semibold text-muted-foreground uppercase tracking-wider">
-                  Templates Aprovados
-                </div>
-                {filteredTemplates.map((template, index) => (
+                {filteredQuickReplies.length > 0 && (
+                  <div className="px-3 py-2 text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                    Respostas Rápidas
+                  </div>
+                )}
+                {filteredQuickReplies.map((reply, index) => (
                   <button
-                    key={`template-${template.name}`}
-                    onClick={() => {
-                      onSelectTemplate(template);
-                      onClose();
-                    }}
+                    key={`quick-reply-${reply.id}`}
+                    onClick={() => selectItem({ kind: "quick_reply", reply })}
                     className={cn(
                       "w-full flex items-start gap-3 p-3 rounded-lg text-left transition-colors",
                       index === selectedIndex
                         ? "bg-primary/10 text-primary"
                         : "hover:bg-muted/50"
                     )}
+                  >
+                    <div className="shrink-0 w-8 h-8 rounded-lg bg-amber-500/10 flex items-center justify-center">
+                      <Zap className="w-4 h-4 text-amber-500" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-sm truncate">/{reply.shortcut}</span>
+                        <span className="text-xs text-muted-foreground truncate">{reply.title}</span>
+                        {reply.is_favorite && <Star className="w-3 h-3 fill-amber-400 text-amber-400 shrink-0" />}
+                        {reply.media_url && <Paperclip className="w-3 h-3 text-muted-foreground shrink-0" />}
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate mt-0.5">
+                        {reply.content || reply.media_filename}
+                      </p>
+                    </div>
+                  </button>
+                ))}
+
+                {filteredTemplates.length > 0 && (
+                  <div className="px-3 py-2 text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                    Templates Aprovados
+                  </div>
+                )}
+                {filteredTemplates.map((template, templateIndex) => (
+                  <button
+                    key={`template-${template.name}`}
+                    onClick={() => selectItem({ kind: "template", template })}
+                    className={cn(
+                      "w-full flex items-start gap-3 p-3 rounded-lg text-left transition-colors",
+                      filteredQuickReplies.length + templateIndex === selectedIndex
+                        ? "bg-primary/10 text-primary"
+                        : "hover:bg-muted/50"
+                    )}
                   >
                     <div className="shrink-0 w-8 h-8 rounded-lg bg-emerald-500/10 flex items-center justify-center">
                       <FileText className="w-4 h-4 text-emerald-500" />
@@ -0,0 +1,314 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AlertCircle, ExternalLink, FileText, Loader2, Send, Upload, Video, Wand2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { useWhatsAppTemplates, WhatsAppTemplate } from "@/hooks/useWhatsAppTemplates";
+import { useQuickReplies } from "@/hooks/useQuickReplies";
+import { QUICK_REPLY_VARIABLES, QuickReplyValues, renderQuickReply } from "@/lib/quickReplies";
+import {
+  buildTemplateComponents,
+  getTemplateFields,
+  renderTemplatePreview,
+  suggestTemplateParamField,
+  TemplateParamField,
+  TemplateParams,
+  validateTemplateComponents,
+} from "@/lib/whatsappTemplates";
+
+// Quick reply variable that resolves each suggested field
+const FIELD_VARIABLES: Record<TemplateParamField, string> = {
+  name: "{{cliente}}",
+  first_name: "{{primeiro_nome}}",
+  phone: "{{telefone}}",
+  email: "{{email}}",
+  value: "{{valor}}",
+};
+
+const HEADER_ACCEPT = {
+  IMAGE: "image/jpeg,image/png",
+  VIDEO: "video/mp4,video/3gpp",
+  DOCUMENT: "application/pdf",
+};
+
+const HEADER_LABELS = { IMAGE: "Imagem", VIDEO: "Vídeo", DOCUMENT: "Documento" };
+
+interface TemplateSendDialogProps {
+  template: WhatsAppTemplate | null;
+  contact: { id: string; name: string | null; phone: string } | null;
+  onOpenChange: (open: boolean) => void;
+  onSent?: () => void;
+}
+
+export function TemplateSendDialog({ template, contact, onOpenChange, onSent }: TemplateSendDialogProps) {
+  const { sendTemplate } = useWhatsAppTemplates();
+  const { getContactValues } = useQuickReplies();
+  const [values, setValues] = useState<QuickReplyValues>({});
+  const [params, setParams] = useState<TemplateParams>({ body: [] });
+  const [loadingValues, setLoadingValues] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [sending, setSending] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const components = template?.components || [];
+  const fields = useMemo(() => getTemplateFields(template?.components || []), [template]);
+  const sendComponents = buildTemplateComponents(components, params);
+  const errors = validateTemplateComponents(components, sendComponents);
+  const preview = renderTemplatePreview(components, params);
+
+  // Fill the variables from the contact and its lead each time a template is picked
+  useEffect(() => {
+    if (!template || !contact) return;
+    let cancelled = false;
+
+    setParams({ body: Array(fields.bodyParamCount).fill("") });
+    setLoadingValues(true);
+    getContactValues(contact)
+      .then((contactValues) => {
+        if (cancelled) return;
+        setValues(contactValues);
+        setParams({
+          body: Array.from({ length: fields.bodyParamCount }, (_, i) => {
+            const field = suggestTemplateParamField(fields.bodyExamples[i], i);
+            return field ? renderQuickReply(FIELD_VARIABLES[field], contactValues) : "";
+          }),
+        });
+      })
+      .finally(() => !cancelled && setLoadingValues(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [template, contact, fields, getContactValues]);
+
+  const setBodyParam = (index: number, value: string) => {
+    setParams((prev) => ({ ...prev, body: prev.body.map((param, i) => (i === index ? value : param)) }));
+  };
+
+  const setButtonParam = (index: number, value: string) => {
+    setParams((prev) => ({ ...prev, buttons: { ...prev.buttons, [index]: value } }));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (file.size > 16 * 1024 * 1024) {
+      toast.error("Arquivo muito grande", { description: "O tamanho máximo permitido é 16MB." });
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const fileExt = file.name.split(".").pop();
+      const filePath = `templates/${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
+      const { data, error } = await supabase.storage.from("whatsapp-media").upload(filePath, file);
+      if (error) throw error;
+
+      const { data: publicUrl } = supabase.storage.from("whatsapp-media").getPublicUrl(data.path);
+      setParams((prev) => ({ ...prev, header: publicUrl.publicUrl, headerFilename: file.name }));
+    } catch (error) {
+      console.error("Upload error:", error);
+      toast.error("Erro ao fazer upload", { description: "Não foi possível enviar o arquivo." });
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleSend = async () => {
+    if (!template || !contact || errors.length > 0) return;
+
+    setSending(true);
+    try {
+      const sent = await sendTemplate(contact.id, template.name, template.language, sendComponents);
+      if (sent) {
+        onSent?.();
+        onOpenChange(false);
+      }
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const mediaHeader = fields.headerFormat && fields.headerFormat !== "TEXT" ? fields.headerFormat : null;
+
+  return (
+    <Dialog open={!!template} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="w-5 h-5 text-emerald-600" />
+            {template?.name}
+          </DialogTitle>
+          <DialogDescription>
+            Preencha as variáveis do template. Os valores sugeridos vêm do contato e do lead.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <ScrollArea className="max-h-[420px] pr-3">
+            <div className="space-y-4">
+              {mediaHeader && (
+                <div className="space-y-2">
+                  <Label>{HEADER_LABELS[mediaHeader]} do cabeçalho</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      value={params.header || ""}
+                      onChange={(e) => setParams((prev) => ({ ...prev, header: e.target.value, headerFilename: undefined }))}
+                      placeholder="https://..."
+                    />
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      className="hidden"
+                      accept={HEADER_ACCEPT[mediaHeader]}
+                      onChange={handleFileChange}
+                    />
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      className="shrink-0"
+                      onClick={() => fileInputRef.current?.click()}
+                      disabled={uploading}
+                      title="Enviar arquivo"
+                    >
+                      {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {fields.headerHasParam && (
+                <div className="space-y-2">
+                  <Label>Variável do cabeçalho</Label>
+                  <Input
+                    value={params.header || ""}
+                    onChange={(e) => setParams((prev) => ({ ...prev, header: e.target.value }))}
+                  />
+                </div>
+              )}
+
+              {params.body.map((param, index) => (
+                <div key={index} className="space-y-2">
+                  <Label>Variável {`{{${index + 1}}}`}</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      value={param}
+                      onChange={(e) => setBodyParam(index, e.target.value)}
+                      placeholder={fields.bodyExamples[index] ? `Ex: ${fields.bodyExamples[index]}` : ""}
+                      disabled={loadingValues}
+                    />
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="outline" size="icon" className="shrink-0" title="Preencher com dados do contato">
+                          <Wand2 className="w-4 h-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {QUICK_REPLY_VARIABLES.map((variable) => (
+                          <DropdownMenuItem
+                            key={variable.key}
+                            onClick={() => setBodyParam(index, renderQuickReply(variable.key, values))}
+                          >
+                            {variable.label}
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                </div>
+              ))}
+
+              {fields.urlButtons.map((button) => (
+                <div key={button.index} className="space-y-2">
+                  <Label>Link do botão "{button.text}"</Label>
+                  <Input
+                    value={params.buttons?.[button.index] || ""}
+                    onChange={(e) => setButtonParam(button.index, e.target.value)}
+                    placeholder={button.url.replace(/\{\{1\}\}/, "...")}
+                  />
+                </div>
+              ))}
+
+              {!mediaHeader && !fields.headerHasParam && params.body.length === 0 && fields.urlButtons.length === 0 && (
+                <p className="text-sm text-muted-foreground">Este template não tem variáveis.</p>
+              )}
+            </div>
+          </ScrollArea>
+
+          {/* WhatsApp-style preview */}
+          <div className="rounded-xl bg-[#efeae2] p-4">
+            <div className="max-w-[280px] rounded-lg rounded-tl-none bg-white shadow-sm overflow-hidden">
+              {preview.headerFormat === "IMAGE" && preview.header && (
+                <img src={preview.header} alt="" className="w-full max-h-40 object-cover" />
+              )}
+              {(preview.headerFormat === "VIDEO" || preview.headerFormat === "DOCUMENT") && (
+                <div className="flex items-center gap-2 bg-slate-100 px-3 py-4 text-xs text-slate-600">
+                  {preview.headerFormat === "VIDEO" ? <Video className="w-4 h-4" /> : <FileText className="w-4 h-4" />}
+                  <span className="truncate">{params.headerFilename || preview.header || HEADER_LABELS[preview.headerFormat]}</span>
+                </div>
+              )}
+              <div className="px-3 py-2 space-y-1">
+                {preview.headerFormat === "TEXT" && <p className="text-sm font-semibold">{preview.header}</p>}
+                <p className="text-sm whitespace-pre-wrap">{preview.body}</p>
+                {preview.footer && <p className="text-xs text-slate-500">{preview.footer}</p>}
+              </div>
+              {preview.buttons.map((text, index) => (
+                <div
+                  key={index}
+                  className="flex items-center justify-center gap-1 border-t px-3 py-2 text-sm text-sky-600"
+                >
+                  {fields.urlButtons.some((button) => button.index === index) && <ExternalLink className="w-3 h-3" />}
+                  {text}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {errors.length > 0 && !loadingValues && (
+          <div className="space-y-1 rounded-lg bg-destructive/10 p-3 text-xs text-destructive">
+            {errors.map((error) => (
+              <p key={error} className="flex items-center gap-1">
+                <AlertCircle className="w-3 h-3 shrink-0" />
+                {error}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button
+            className="bg-emerald-500 hover:bg-emerald-600"
+            onClick={handleSend}
+            disabled={sending || loadingValues || errors.length > 0}
+          >
+            {sending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+            Enviar template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
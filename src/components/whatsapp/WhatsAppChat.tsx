@@ -6,6 +6,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -33,6 +35,8 @@ import {
   RotateCcw,
   Loader2,
   Bot,
+  Paperclip,
+  X,
 } from "lucide-react";
 import { FlowBuilderModal } from "@/components/chatbot/FlowBuilderModal";
 import { ChatBotStatus } from "@/components/chatbot/ChatBotStatus";
@@ -48,8 +52,13 @@ import { AudioRecordButton } from "./AudioRecordButton";
 import { AudioPlayer } from "./AudioPlayer";
 import { TextImproveMenu } from "./TextImproveMenu";
 import { SlashCommandMenu } from "./SlashCommandMenu";
+import { QuickRepliesDialog } from "./QuickRepliesDialog";
+import { TemplateSendDialog } from "./TemplateSendDialog";
 import { processAndSendAudioAsync } from "@/lib/audioProcessor";
-import { useWhatsAppTemplates, WhatsAppTemplate } from "@/hooks/useWhatsAppTemplates";
+import { WhatsAppTemplate } from "@/hooks/useWhatsAppTemplates";
+import { useAgents } from "@/hooks/useAgents";
+import { QuickReply, useQuickReplies } from "@/hooks/useQuickReplies";
+import { getServiceWindowRemainingMs } from "@/lib/serviceWindow";
 
 
 interface Contact {
@@ -61,6 +70,18 @@ interface Contact {
   last_message_at: string | null;
 }
 
+type InboxFilter = "mine" | "unassigned" | "all";
+
+const UNASSIGNED = "none";
+
+// Refresh rate of the 24h window countdown
+const WINDOW_TICK_MS = 30 * 1000;
+
+const formatWindowRemaining = (ms: number) => {
+  const minutes = Math.ceil(ms / 60000);
+  return minutes < 60 ? `${minutes}min` : `${Math.floor(minutes / 60)}h ${minutes % 60}min`;
+};
+
 interface Message {
   id: string;
   contact_id: string;
@@ -80,11 +101,13 @@ interface WhatsAppChatProps {
 export function WhatsAppChat({ initialPhone, initialName }: WhatsAppChatProps = {}) {
   const { profile } = useAuth();
   const navigate = useNavigate();
-  const { contacts, isConnected, sendMessage, fetchMessages, markAsRead, loading, refetch } = useWhatsApp();
+  const { contacts, isConnected, whatsappMode, sendMessage, fetchMessages, markAsRead, assignContact, loading, refetch } = useWhatsApp();
+  const { agents } = useAgents();
   const [selectedContact, setSelectedContact] = useState<Contact | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [messageInput, setMessageInput] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
+  const [inboxFilter, setInboxFilter] = useState<InboxFilter>("all");
   const [sending, setSending] = useState(false);
   const sendLockRef = useRef(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -109,7 +132,15 @@ export function WhatsAppChat({ initialPhone, initialName }: WhatsAppChatProps =
   // Slash command menu state
   const [slashMenuOpen, setSlashMenuOpen] = useState(false);
   const [flowBuilderOpen, setFlowBuilderOpen] = useState(false);
-  const { sendTemplate } = useWhatsAppTemplates();
+  const [templateToSend, setTemplateToSend] = useState<WhatsAppTemplate | null>(null);
+  const { renderForContact } = useQuickReplies();
+  const [quickRepliesOpen, setQuickRepliesOpen] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  // Attachment of the quick reply inserted in the input, sent along with the text
+  const [quickReplyMedia, setQuickReplyMedia] = useState<Pick<
+    QuickReply,
+    "media_url" | "media_type" | "media_filename"
+  > | null>(null);
   
   // Estado para indicador de "digitando..."
   const [contactTyping, setContactTyping] = useState<{
@@ -185,6 +216,12 @@ export function WhatsAppChat({ initialPhone, initialName }: WhatsAppChatProps =
     }
   }, [messageInput]);
 
+  // Tick the 24h window countdown
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), WINDOW_TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
   // Load messages when contact changes
   useEffect(() => {
     if (selectedContact) {
@@ -321,7 +358,7 @@ export function WhatsAppChat({ initialPhone, initialName }: WhatsAppChatProps =
   }, [profile?.company_id, selectedContact?.id]);
 
   const handleSend = async () => {
-    if (!messageInput.trim() || !selectedContact) return;
+    if ((!messageInput.trim() && !quickReplyMedia) || !selectedContact) return;
 
     if (sendLockRef.current) return;
     sendLockRef.current = true;
@@ -330,6 +367,26 @@ export function WhatsAppChat({ initialPhone, initialName }: WhatsAppChatProps =
     setMessageInput("");
     setSending(true);
 
+    if (quickReplyMedia) {
+      const media = quickReplyMedia;
+      setQuickReplyMedia(null);
+      try {
+        // Audio has no caption, so its text goes as a separate message
+        const caption = media.media_type === "audio" ? undefined : content || undefined;
+        await sendMessage(selectedContact.id, caption || `[${media.media_type!.toUpperCase()}]`, {
+          messageType: media.media_type!,
+          mediaUrl: media.media_url!,
+          mediaFilename: media.media_filename || undefined,
+          mediaCaption: caption,
+        });
+        if (content && !caption) await sendMessage(selectedContact.id, content);
+      } finally {
+        setSending(false);
+        sendLockRef.current = false;
+      }
+      return;
+    }
+
     pendingContentRef.current = content;
     setPendingMessage({
       content,
@@ -403,7 +460,13 @@ export function WhatsAppChat({ initialPhone, initialName }: WhatsAppChatProps =
   // Handle template selection from slash menu
   const handleSelectTemplate = (template: WhatsAppTemplate) => {
     if (!selectedContact) return;
-    
+
+    // With the Cloud API the template is sent as is, after filling its variables
+    if (whatsappMode === "cloud_api") {
+      setTemplateToSend(template);
+      return;
+    }
+
     // Extract the BODY text from the template components
     const bodyComponent = template.components.find(c => c.type === "BODY");
     const templateText = bodyComponent?.text || "";
@@ -418,9 +481,34 @@ export function WhatsAppChat({ initialPhone, initialName }: WhatsAppChatProps =
     
     toast.info(`Template "${template.name}" carregado`);
   };
-  const filteredContacts = contacts.filter((c) =>
+  const handleSelectQuickReply = async (reply: QuickReply) => {
+    if (!selectedContact) return;
+
+    setMessageInput(await renderForContact(reply, selectedContact));
+    setQuickReplyMedia(reply.media_url ? reply : null);
+
+    setTimeout(() => {
+      textareaRef.current?.focus();
+    }, 100);
+  };
+
+  const inboxContacts = {
+    mine: contacts.filter((c) => !!profile?.user_id && c.assigned_to === profile.user_id),
+    unassigned: contacts.filter((c) => !c.assigned_to),
+    all: contacts,
+  };
+  const filteredContacts = inboxContacts[inboxFilter].filter((c) =>
     (c.name || c.phone).toLowerCase().includes(searchQuery.toLowerCase())
   );
+  // selectedContact is a snapshot; the assignee and the window come from the live (realtime) list
+  const liveSelectedContact = contacts.find((c) => c.id === selectedContact?.id);
+  const selectedAssignee = liveSelectedContact?.assigned_to || null;
+  // The 24h customer service window only applies to the Cloud API
+  const windowRemainingMs =
+    whatsappMode === "cloud_api" && liveSelectedContact
+      ? getServiceWindowRemainingMs(liveSelectedContact.last_inbound_at, new Date(now))
+      : null;
+  const serviceWindowClosed = windowRemainingMs === 0;
 
   const handleCreateConversation = async () => {
     if (!newPhoneNumber.trim() || !profile?.company_id) return;
@@ -627,6 +715,13 @@ export function WhatsAppChat({ initialPhone, initialName }: WhatsAppChatProps =
               </DialogContent>
             </Dialog>
           </div>
+          <Tabs value={inboxFilter} onValueChange={(value) => setInboxFilter(value as InboxFilter)} className="mt-2">
+            <TabsList className="grid w-full grid-cols-3 h-8">
+              <TabsTrigger value="mine" className="text-xs">Minhas ({inboxContacts.mine.length})</TabsTrigger>
+              <TabsTrigger value="unassigned" className="text-xs">Não atribuídas ({inboxContacts.unassigned.length})</TabsTrigger>
+              <TabsTrigger value="all" className="text-xs">Todas</TabsTrigger>
+            </TabsList>
+          </Tabs>
         </div>
 
         {/* Status indicator - Compact */}
@@ -716,6 +811,36 @@ export function WhatsAppChat({ initialPhone, initialName }: WhatsAppChatProps =
                 </div>
               </div>
               <div className="flex items-center gap-1">
+                {windowRemainingMs !== null && (
+                  <Badge
+                    variant="outline"
+                    className={cn(
+                      "gap-1 text-xs font-normal",
+                      serviceWindowClosed ? "border-red-200 text-red-600" : "border-emerald-200 text-emerald-700"
+                    )}
+                    title="Mensagens livres só podem ser enviadas até 24h após a última mensagem do contato"
+                  >
+                    <Clock className="w-3 h-3" />
+                    {serviceWindowClosed ? "Janela encerrada" : `Janela: ${formatWindowRemaining(windowRemainingMs)}`}
+                  </Badge>
+                )}
+                <Select
+                  value={selectedAssignee || UNASSIGNED}
+                  onValueChange={(value) => assignContact(selectedContact.id, value === UNASSIGNED ? null : value)}
+                >
+                  <SelectTrigger className="h-8 w-44 text-xs" title="Responsável pela conversa">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNASSIGNED}>Sem responsável</SelectItem>
+                    {agents.map((agent) => (
+                      <SelectItem key={agent.user_id} value={agent.user_id}>
+                        {agent.user_id === profile?.user_id ? "Eu" : agent.full_name || agent.email || "Sem nome"}
+                        {agent.online ? " • online" : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                 <Button variant="ghost" size="icon" className="h-8 w-8">
                   <Phone className="w-4 h-4 text-muted-foreground" />
                 </Button>
@@ -866,101 +991,139 @@ export function WhatsAppChat({ initialPhone, initialName }: WhatsAppChatProps =
 
             {/* Input Area - Enhanced with AI */}
             <div className="p-3 border-t border-border bg-white">
-              <div className="flex items-end gap-2 max-w-4xl mx-auto">
-                <Button variant="ghost" size="icon" className="h-9 w-9 shrink-0 mb-0.5">
-                  <Smile className="w-5 h-5 text-muted-foreground" />
-                </Button>
-                <MediaUploadButton
-                  disabled={sending}
-                  onMediaSelected={async (media) => {
-                    if (!selectedContact) return;
-                    setSending(true);
-                    try {
-                      await sendMessage(selectedContact.id, media.caption || `[${media.type.toUpperCase()}]`, {
-                        messageType: media.type,
-                        mediaUrl: media.url,
-                        mediaFilename: media.filename,
-                        mediaCaption: media.caption,
-                      });
-                    } finally {
-                      setSending(false);
-                    }
-                  }}
-                />
-                <TextImproveMenu 
-                  text={messageInput}
-                  onTextImproved={setMessageInput}
-                  disabled={sending}
-                />
-                <div className="flex-1 relative">
-                  {/* Slash Command Menu */}
+              {quickReplyMedia && (
+                <div className="flex items-center gap-2 max-w-4xl mx-auto mb-2 px-3 py-1.5 rounded-full bg-slate-100 text-sm w-fit">
+                  <Paperclip className="w-4 h-4 text-emerald-600 shrink-0" />
+                  <span className="truncate max-w-[240px]">{quickReplyMedia.media_filename || quickReplyMedia.media_url}</span>
+                  <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setQuickReplyMedia(null)}>
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+              )}
+              {serviceWindowClosed ? (
+                <div className="relative flex items-center gap-3 max-w-4xl mx-auto rounded-2xl bg-amber-50 border border-amber-200 px-4 py-2.5">
                   <SlashCommandMenu
                     isOpen={slashMenuOpen}
                     onClose={() => setSlashMenuOpen(false)}
                     onSelectTemplate={handleSelectTemplate}
+                    onSelectQuickReply={handleSelectQuickReply}
+                    onManageQuickReplies={() => setQuickRepliesOpen(true)}
                     inputRef={textareaRef as React.RefObject<HTMLTextAreaElement>}
+                    templatesOnly
                   />
-                  <Textarea
-                    ref={textareaRef}
-                    placeholder="Digite / para atalhos..."
-                    value={messageInput}
-                    onChange={(e) => {
-                      setMessageInput(e.target.value);
-                      // Close menu if user clears input
-                      if (e.target.value === "" && slashMenuOpen) {
-                        setSlashMenuOpen(false);
-                      }
-                    }}
-                    onKeyDown={handleKeyDown}
-                    className="min-h-[36px] max-h-[120px] py-2 px-3 resize-none rounded-2xl bg-slate-100 border-0 focus-visible:ring-emerald-500 text-sm"
-                    disabled={sending}
-                    rows={1}
-                  />
-                </div>
-                {messageInput.trim() ? (
+                  <Clock className="w-4 h-4 text-amber-600 shrink-0" />
+                  <p className="flex-1 text-xs text-amber-800">
+                    A janela de 24h está encerrada. Só templates aprovados podem ser enviados até o contato responder.
+                  </p>
                   <Button
-                    size="icon"
-                    className="h-9 w-9 rounded-full bg-emerald-500 hover:bg-emerald-600 shrink-0 mb-0.5"
-                    onClick={handleSend}
+                    size="sm"
+                    className="bg-emerald-500 hover:bg-emerald-600 shrink-0"
+                    onClick={() => setSlashMenuOpen(true)}
                     disabled={sending}
                   >
-                    <Send className="w-4 h-4" />
+                    <FileText className="w-4 h-4 mr-1" />
+                    Enviar template
                   </Button>
-                ) : (
-                  <div className="flex items-center gap-1 mb-0.5">
-                    <AudioRecordButton
-                      disabled={sending}
-                      onRecordingComplete={(data) => {
-                        if (!selectedContact || !profile?.company_id) return;
-                        
-                        setPendingMessage({
-                          content: "[AUDIO]",
-                          timestamp: new Date().toISOString(),
-                          type: "audio",
-                          isProcessing: true,
-                        });
-                        setAudioProcessingCount(prev => prev + 1);
-                        
-                        processAndSendAudioAsync({
-                          blob: data.blob,
-                          mimeType: data.mimeType,
-                          duration: data.duration,
-                          contactId: selectedContact.id,
-                          companyId: profile.company_id,
-                          tempMessageId: `temp-audio-${Date.now()}`,
-                        }).finally(() => {
-                          setAudioProcessingCount(prev => Math.max(0, prev - 1));
+                </div>
+              ) : (
+                <div className="flex items-end gap-2 max-w-4xl mx-auto">
+                  <Button variant="ghost" size="icon" className="h-9 w-9 shrink-0 mb-0.5">
+                    <Smile className="w-5 h-5 text-muted-foreground" />
+                  </Button>
+                  <MediaUploadButton
+                    disabled={sending}
+                    onMediaSelected={async (media) => {
+                      if (!selectedContact) return;
+                      setSending(true);
+                      try {
+                        await sendMessage(selectedContact.id, media.caption || `[${media.type.toUpperCase()}]`, {
+                          messageType: media.type,
+                          mediaUrl: media.url,
+                          mediaFilename: media.filename,
+                          mediaCaption: media.caption,
                         });
+                      } finally {
+                        setSending(false);
+                      }
+                    }}
+                  />
+                  <TextImproveMenu 
+                    text={messageInput}
+                    onTextImproved={setMessageInput}
+                    disabled={sending}
+                  />
+                  <div className="flex-1 relative">
+                    {/* Slash Command Menu */}
+                    <SlashCommandMenu
+                      isOpen={slashMenuOpen}
+                      onClose={() => setSlashMenuOpen(false)}
+                      onSelectTemplate={handleSelectTemplate}
+                      onSelectQuickReply={handleSelectQuickReply}
+                      onManageQuickReplies={() => setQuickRepliesOpen(true)}
+                      inputRef={textareaRef as React.RefObject<HTMLTextAreaElement>}
+                    />
+                    <Textarea
+                      ref={textareaRef}
+                      placeholder="Digite / para atalhos..."
+                      value={messageInput}
+                      onChange={(e) => {
+                        setMessageInput(e.target.value);
+                        // Close menu if user clears input
+                        if (e.target.value === "" && slashMenuOpen) {
+                          setSlashMenuOpen(false);
+                        }
                       }}
+                      onKeyDown={handleKeyDown}
+                      className="min-h-[36px] max-h-[120px] py-2 px-3 resize-none rounded-2xl bg-slate-100 border-0 focus-visible:ring-emerald-500 text-sm"
+                      disabled={sending}
+                      rows={1}
                     />
-                    {audioProcessingCount > 0 && (
-                      <div className="flex items-center gap-1 text-xs text-emerald-600">
-                        <Loader2 className="w-3 h-3 animate-spin" />
-                      </div>
-                    )}
                   </div>
-                )}
-              </div>
+                  {messageInput.trim() || quickReplyMedia ? (
+                    <Button
+                      size="icon"
+                      className="h-9 w-9 rounded-full bg-emerald-500 hover:bg-emerald-600 shrink-0 mb-0.5"
+                      onClick={handleSend}
+                      disabled={sending}
+                    >
+                      <Send className="w-4 h-4" />
+                    </Button>
+                  ) : (
+                    <div className="flex items-center gap-1 mb-0.5">
+                      <AudioRecordButton
+                        disabled={sending}
+                        onRecordingComplete={(data) => {
+                          if (!selectedContact || !profile?.company_id) return;
+                        
+                          setPendingMessage({
+                            content: "[AUDIO]",
+                            timestamp: new Date().toISOString(),
+                            type: "audio",
+                            isProcessing: true,
+                          });
+                          setAudioProcessingCount(prev => prev + 1);
+                        
+                          processAndSendAudioAsync({
+                            blob: data.blob,
+                            mimeType: data.mimeType,
+                            duration: data.duration,
+                            contactId: selectedContact.id,
+                            companyId: profile.company_id,
+                            tempMessageId: `temp-audio-${Date.now()}`,
+                          }).finally(() => {
+                            setAudioProcessingCount(prev => Math.max(0, prev - 1));
+                          });
+                        }}
+                      />
+                      {audioProcessingCount > 0 && (
+                        <div className="flex items-center gap-1 text-xs text-emerald-600">
+                          <Loader2 className="w-3 h-3 animate-spin" />
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           </>
         ) : (
@@ -976,6 +1139,13 @@ export function WhatsAppChat({ initialPhone, initialName }: WhatsAppChatProps =
           </div>
         )}
       </div>
+
+      <QuickRepliesDialog open={quickRepliesOpen} onOpenChange={setQuickRepliesOpen} />
+      <TemplateSendDialog
+        template={templateToSend}
+        contact={selectedContact}
+        onOpenChange={(open) => !open && setTemplateToSend(null)}
+      />
     </div>
   );
 }
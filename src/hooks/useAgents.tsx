@@ -0,0 +1,104 @@
+import { useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "./useAuth";
+import { toast } from "sonner";
+import { isAgentOnline } from "@/lib/conversationAssignment";
+
+export interface Agent {
+  user_id: string;
+  full_name: string | null;
+  email: string | null;
+  is_available: boolean;
+  last_seen_at: string | null;
+  online: boolean;
+}
+
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+// Team members that can be assigned to conversations and leads
+export function useAgents() {
+  const { profile } = useAuth();
+  const companyId = profile?.company_id;
+
+  const { data: agents = [], isLoading } = useQuery({
+    queryKey: ["agents", companyId],
+    queryFn: async (): Promise<Agent[]> => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("user_id, full_name, email, is_available, last_seen_at")
+        .eq("company_id", companyId!)
+        .order("full_name");
+      if (error) throw error;
+      return (data || []).map((agent) => ({ ...agent, online: isAgentOnline(agent) }));
+    },
+    enabled: !!companyId,
+    refetchInterval: HEARTBEAT_INTERVAL_MS,
+  });
+
+  const getAgentName = (userId: string | null | undefined) => {
+    if (!userId) return null;
+    const agent = agents.find((item) => item.user_id === userId);
+    return agent ? agent.full_name || agent.email || "Sem nome" : null;
+  };
+
+  return { agents, isLoading, getAgentName };
+}
+
+// Heartbeat that keeps the signed-in user online for the conversation distribution
+export function useAgentPresence() {
+  const { profile } = useAuth();
+  const queryClient = useQueryClient();
+  const userId = profile?.user_id;
+
+  const { data: isAvailable = true } = useQuery({
+    queryKey: ["agent-availability", userId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("is_available")
+        .eq("user_id", userId!)
+        .single();
+      if (error) throw error;
+      return data.is_available;
+    },
+    enabled: !!userId,
+  });
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const beat = async () => {
+      const { error } = await supabase
+        .from("profiles")
+        .update({ last_seen_at: new Date().toISOString() })
+        .eq("user_id", userId);
+      if (error) console.error("Erro ao atualizar presença:", error);
+    };
+
+    beat();
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [userId]);
+
+  const setAvailable = useMutation({
+    mutationFn: async (available: boolean) => {
+      const { error } = await supabase
+        .from("profiles")
+        .update({ is_available: available, last_seen_at: new Date().toISOString() })
+        .eq("user_id", userId!);
+      if (error) throw error;
+    },
+    onSuccess: (_, available) => {
+      queryClient.invalidateQueries({ queryKey: ["agent-availability"] });
+      queryClient.invalidateQueries({ queryKey: ["agents"] });
+      toast.success(available ? "Você está disponível para atendimento" : "Você está ausente");
+    },
+    onError: (error) => {
+      console.error("Erro ao alterar disponibilidade:", error);
+      toast.error("Erro ao alterar disponibilidade");
+    },
+  });
+
+  return { isAvailable, setAvailable };
+}
@@ -0,0 +1,57 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "./useAuth";
+import { toast } from "sonner";
+import { Json } from "@/integrations/supabase/types";
+import { DEFAULT_BUSINESS_HOURS, DEFAULT_TIMEZONE, BusinessHours } from "@/lib/businessHours";
+
+export type { BusinessHours };
+
+// Company business hours and timezone (used by the chatbot and the funnel automations)
+export function useBusinessHours() {
+  const { profile } = useAuth();
+  const queryClient = useQueryClient();
+  const companyId = profile?.company_id;
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["business-hours", companyId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("companies")
+        .select("business_hours, timezone")
+        .eq("id", companyId!)
+        .single();
+      if (error) throw error;
+      return {
+        hours: (data.business_hours as unknown as BusinessHours | null) || DEFAULT_BUSINESS_HOURS,
+        timezone: data.timezone || DEFAULT_TIMEZONE,
+      };
+    },
+    enabled: !!companyId,
+  });
+
+  const saveBusinessHours = useMutation({
+    mutationFn: async ({ hours, timezone }: { hours: BusinessHours; timezone: string }) => {
+      const { error } = await supabase
+        .from("companies")
+        .update({ business_hours: hours as unknown as Json, timezone })
+        .eq("id", companyId!);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["business-hours"] });
+      toast.success("Horário de atendimento salvo!");
+    },
+    onError: (error) => {
+      console.error("Erro ao salvar horário de atendimento:", error);
+      toast.error("Erro ao salvar horário de atendimento");
+    },
+  });
+
+  return {
+    hours: data?.hours || DEFAULT_BUSINESS_HOURS,
+    timezone: data?.timezone || DEFAULT_TIMEZONE,
+    isLoading,
+    saveBusinessHours,
+  };
+}
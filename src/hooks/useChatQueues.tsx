@@ -0,0 +1,139 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "./useAuth";
+import { toast } from "sonner";
+import type { AssignmentStrategy } from "@/lib/conversationAssignment";
+
+export interface ChatQueue {
+  id: string;
+  name: string;
+  distribution: AssignmentStrategy;
+  last_assigned_user_id: string | null;
+  // user_ids in distribution order
+  member_ids: string[];
+  created_at: string;
+}
+
+export interface ChatQueueInput {
+  name: string;
+  distribution: AssignmentStrategy;
+  member_ids: string[];
+}
+
+// Department queues that receive the conversations transferred by the chatbot
+export function useChatQueues() {
+  const { profile } = useAuth();
+  const queryClient = useQueryClient();
+  const companyId = profile?.company_id;
+
+  const { data: queues = [], isLoading } = useQuery({
+    queryKey: ["chat-queues", companyId],
+    queryFn: async (): Promise<ChatQueue[]> => {
+      const [{ data: queueRows, error }, { data: memberRows, error: membersError }] = await Promise.all([
+        supabase
+          .from("chat_queues")
+          .select("id, name, distribution, last_assigned_user_id, created_at")
+          .eq("company_id", companyId!)
+          .order("name"),
+        supabase
+          .from("chat_queue_members")
+          .select("queue_id, user_id")
+          .eq("company_id", companyId!)
+          .order("created_at", { ascending: true }),
+      ]);
+      if (error) throw error;
+      if (membersError) throw membersError;
+
+      return (queueRows || []).map((queue) => ({
+        ...queue,
+        distribution: queue.distribution as AssignmentStrategy,
+        member_ids: (memberRows || []).filter((member) => member.queue_id === queue.id).map((member) => member.user_id),
+      }));
+    },
+    enabled: !!companyId,
+  });
+
+  // Members are replaced as a whole; the ones kept stay in their original order
+  const saveMembers = async (queueId: string, memberIds: string[]) => {
+    const current = queues.find((queue) => queue.id === queueId)?.member_ids || [];
+    const removed = current.filter((userId) => !memberIds.includes(userId));
+    const added = memberIds.filter((userId) => !current.includes(userId));
+
+    if (removed.length > 0) {
+      const { error } = await supabase
+        .from("chat_queue_members")
+        .delete()
+        .eq("queue_id", queueId)
+        .in("user_id", removed);
+      if (error) throw error;
+    }
+    if (added.length > 0) {
+      const { error } = await supabase
+        .from("chat_queue_members")
+        .insert(added.map((userId) => ({ queue_id: queueId, company_id: companyId!, user_id: userId })));
+      if (error) throw error;
+    }
+  };
+
+  const createQueue = useMutation({
+    mutationFn: async (input: ChatQueueInput) => {
+      const { data, error } = await supabase
+        .from("chat_queues")
+        .insert({ company_id: companyId!, name: input.name.trim(), distribution: input.distribution })
+        .select("id")
+        .single();
+      if (error) throw error;
+      await saveMembers(data.id, input.member_ids);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["chat-queues"] });
+      toast.success("Fila criada!");
+    },
+    onError: (error) => {
+      console.error("Erro ao criar fila:", error);
+      toast.error("Erro ao criar fila");
+    },
+  });
+
+  const updateQueue = useMutation({
+    mutationFn: async ({ id, ...input }: ChatQueueInput & { id: string }) => {
+      const { error } = await supabase
+        .from("chat_queues")
+        .update({ name: input.name.trim(), distribution: input.distribution })
+        .eq("id", id);
+      if (error) throw error;
+      await saveMembers(id, input.member_ids);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["chat-queues"] });
+      toast.success("Fila atualizada!");
+    },
+    onError: (error) => {
+      console.error("Erro ao atualizar fila:", error);
+      toast.error("Erro ao atualizar fila");
+    },
+  });
+
+  const deleteQueue = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("chat_queues").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["chat-queues"] });
+      toast.success("Fila removida!");
+    },
+    onError: (error) => {
+      console.error("Erro ao remover fila:", error);
+      toast.error("Erro ao remover fila");
+    },
+  });
+
+  return {
+    queues,
+    isLoading,
+    createQueue,
+    updateQueue,
+    deleteQueue,
+  };
+}
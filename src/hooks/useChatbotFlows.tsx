@@ -4,8 +4,23 @@ import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { toast } from "sonner";
 
+import type { FlowNodeType } from "@/lib/flowNodes";
+import type { FlowTriggerRule } from "@/lib/flowTriggers";
+import { createFlowSnapshot, FlowSnapshot, FlowVersion } from "@/lib/flowVersions";
+import { validateFlow } from "@/lib/flowValidation";
+import { computeFlowAnalytics, FlowAnalyticsExecution, FlowAnalyticsLog } from "@/lib/flowAnalytics";
+import {
+  createFlowExport,
+  FlowExport,
+  FlowExportStage,
+  FlowImportMapping,
+  FlowImportStage,
+  getFlowStageIds,
+  remapFlowImport,
+} from "@/lib/flowTransfer";
+
 // Types
-export type NodeType = "start" | "message" | "question" | "condition" | "delay" | "pause" | "action" | "transfer" | "end";
+export type NodeType = FlowNodeType;
 
 export interface ChatbotFlow {
   id: string;
@@ -15,6 +30,9 @@ export interface ChatbotFlow {
   is_active: boolean;
   is_default: boolean;
   trigger_keywords: string[];
+  trigger_rules: FlowTriggerRule[];
+  // Version new executions run (null until the flow is published)
+  published_version_id: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -47,21 +65,38 @@ export interface ChatbotFlowExecution {
   company_id: string;
   contact_id: string | null;
   lead_id: string | null;
+  flow_version_id: string | null;
   current_node_id: string | null;
-  status: "running" | "waiting_response" | "paused" | "completed" | "failed";
+  status: "running" | "waiting_response" | "paused" | "completed" | "failed" | "cancelled";
   context: Record<string, unknown>;
   is_human_takeover: boolean;
   next_action_at: string | null;
   started_at: string;
+  resumed_at: string | null;
   completed_at: string | null;
 }
 
+// Execution waiting for a long delay, with the flow and contact for display
+export interface DelayedFlowExecution extends ChatbotFlowExecution {
+  chatbot_flows: { name: string } | null;
+  whatsapp_contacts: { name: string | null; phone: string } | null;
+}
+
 // Helper to make raw SQL-like queries via RPC or direct fetch
 // Note: Tables are new and types aren't regenerated yet, using 'any' casting
 const getFlowsTable = () => (supabase as any).from("chatbot_flows");
 const getNodesTable = () => (supabase as any).from("chatbot_flow_nodes");
 const getEdgesTable = () => (supabase as any).from("chatbot_flow_edges");
 const getExecutionsTable = () => (supabase as any).from("chatbot_flow_executions");
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const getVersionsTable = () => (supabase as any).from("chatbot_flow_versions");
+
+// Publishing and activation are blocked while the flow has errors (warnings don't block)
+function assertRunnableFlow(flow: FlowSnapshot) {
+  const errors = validateFlow(flow).filter((issue) => issue.severity === "error");
+  if (errors.length === 0) return;
+  throw new Error(errors.length > 1 ? `${errors[0].message} (+${errors.length - 1} erro(s))` : errors[0].message);
+}
 
 // Hook for managing flows
 export function useChatbotFlows() {
@@ -128,7 +163,7 @@ export function useChatbotFlows() {
   });
 
   const updateFlow = useMutation({
-    mutationFn: async (input: { id: string; name?: string; description?: string; is_active?: boolean; trigger_keywords?: string[] }) => {
+    mutationFn: async (input: { id: string; name?: string; description?: string; is_active?: boolean; trigger_keywords?: string[]; trigger_rules?: FlowTriggerRule[] }) => {
       const { id, ...updates } = input;
       const { error } = await getFlowsTable()
         .update(updates)
@@ -155,6 +190,17 @@ export function useChatbotFlows() {
 
   const toggleFlow = useMutation({
     mutationFn: async ({ id, is_active }: { id: string; is_active: boolean }) => {
+      // Only a published version without errors can be activated
+      if (is_active) {
+        const { data: flow, error: flowError } = await getFlowsTable()
+          .select("published_version_id, chatbot_flow_versions!chatbot_flows_published_version_id_fkey(nodes, edges)")
+          .eq("id", id)
+          .single();
+        if (flowError) throw flowError;
+        if (!flow?.chatbot_flow_versions) throw new Error("Publique o fluxo antes de ativá-lo");
+        assertRunnableFlow(flow.chatbot_flow_versions);
+      }
+
       const { error } = await getFlowsTable()
         .update({ is_active })
         .eq("id", id);
@@ -164,6 +210,9 @@ export function useChatbotFlows() {
       queryClient.invalidateQueries({ queryKey: ["chatbot-flows"] });
       toast.success(variables.is_active ? "Fluxo ativado!" : "Fluxo pausado!");
     },
+    onError: (error: Error) => {
+      toast.error("Não foi possível ativar o fluxo: " + error.message);
+    },
   });
 
   return {
@@ -358,6 +407,332 @@ export function useChatbotFlowEditor(flowId: string | null) {
   };
 }
 
+// Hook for the published versions of a flow (publish the draft, restore an older version)
+export function useFlowVersions(flowId: string | null) {
+  const { profile, user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: versions = [], isLoading: loadingVersions } = useQuery({
+    queryKey: ["chatbot-flow-versions", flowId],
+    queryFn: async () => {
+      if (!flowId) return [];
+      const { data, error } = await getVersionsTable()
+        .select("*")
+        .eq("flow_id", flowId)
+        .order("version_number", { ascending: false });
+      if (error) throw error;
+      return data as FlowVersion[];
+    },
+    enabled: !!flowId,
+  });
+
+  // Snapshot of the draft as it is in the database (not the canvas state)
+  const publishDraft = async (notes?: string) => {
+    if (!flowId || !profile?.company_id) throw new Error("Missing flow or company");
+
+    const [{ data: nodes, error: nodesError }, { data: edges, error: edgesError }, { data: latest }] = await Promise.all([
+      getNodesTable().select("*").eq("flow_id", flowId).order("created_at", { ascending: true }),
+      getEdgesTable().select("*").eq("flow_id", flowId).order("created_at", { ascending: true }),
+      getVersionsTable().select("version_number").eq("flow_id", flowId).order("version_number", { ascending: false }).limit(1).maybeSingle(),
+    ]);
+    if (nodesError) throw nodesError;
+    if (edgesError) throw edgesError;
+
+    const snapshot = createFlowSnapshot(nodes || [], edges || []);
+    assertRunnableFlow(snapshot);
+
+    const { data: version, error } = await getVersionsTable()
+      .insert({
+        flow_id: flowId,
+        company_id: profile.company_id,
+        version_number: (latest?.version_number || 0) + 1,
+        ...snapshot,
+        notes: notes?.trim() || null,
+        published_by: user?.id || null,
+      })
+      .select()
+      .single();
+    if (error) throw error;
+
+    const { error: flowError } = await getFlowsTable()
+      .update({ published_version_id: version.id })
+      .eq("id", flowId);
+    if (flowError) throw flowError;
+
+    return version as FlowVersion;
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["chatbot-flow-versions", flowId] });
+    queryClient.invalidateQueries({ queryKey: ["chatbot-flows"] });
+  };
+
+  const publishFlow = useMutation({
+    mutationFn: (notes?: string) => publishDraft(notes),
+    onSuccess: (version) => {
+      invalidate();
+      toast.success(`Versão ${version.version_number} publicada!`);
+    },
+    onError: (err: Error) => {
+      console.error(err);
+      toast.error("Erro ao publicar fluxo: " + err.message);
+    },
+  });
+
+  // Replaces the draft with the version and publishes it again (running executions keep their version)
+  const restoreVersion = useMutation({
+    mutationFn: async (version: FlowVersion) => {
+      if (!flowId || !profile?.company_id) throw new Error("Missing flow or company");
+      assertRunnableFlow(version);
+
+      // Edges are removed with their nodes
+      const { error: deleteError } = await getNodesTable().delete().eq("flow_id", flowId);
+      if (deleteError) throw deleteError;
+
+      if (version.nodes.length > 0) {
+        const { error } = await getNodesTable().insert(
+          version.nodes.map((node) => ({ ...node, flow_id: flowId, company_id: profile.company_id }))
+        );
+        if (error) throw error;
+      }
+
+      if (version.edges.length > 0) {
+        const { error } = await getEdgesTable().insert(
+          version.edges.map((edge) => ({ ...edge, flow_id: flowId, company_id: profile.company_id }))
+        );
+        if (error) throw error;
+      }
+
+      return publishDraft(`Restaurada da versão ${version.version_number}`);
+    },
+    onSuccess: (version) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["chatbot-flow-nodes", flowId] });
+      queryClient.invalidateQueries({ queryKey: ["chatbot-flow-edges", flowId] });
+      toast.success(`Versão restaurada e publicada como versão ${version.version_number}`);
+    },
+    onError: (err: Error) => {
+      console.error(err);
+      toast.error("Erro ao restaurar versão: " + err.message);
+    },
+  });
+
+  return { versions, loadingVersions, publishFlow, restoreVersion };
+}
+
+// Hook for exporting a flow to a file and importing files/templates as new flows
+export function useFlowTransfer(loadTargets = false) {
+  const { profile } = useAuth();
+  const queryClient = useQueryClient();
+
+  // Stages and tags of the company, to map the references of an imported flow
+  const { data: targetStages = [] } = useQuery({
+    queryKey: ["chatbot-flow-import-stages", profile?.company_id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("funnel_stages")
+        .select("id, name, funnel_id, funnels(name)")
+        .eq("company_id", profile!.company_id!)
+        .order("position", { ascending: true });
+      if (error) throw error;
+      return (data || []).map(({ funnels, ...stage }) => ({ ...stage, funnel_name: funnels?.name || null })) as FlowImportStage[];
+    },
+    enabled: loadTargets && !!profile?.company_id,
+  });
+
+  const { data: targetTags = [] } = useQuery({
+    queryKey: ["chatbot-flow-import-tags", profile?.company_id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("funnel_leads")
+        .select("tags")
+        .eq("company_id", profile!.company_id!)
+        .not("tags", "is", null)
+        .limit(1000);
+      if (error) throw error;
+      return [...new Set((data || []).flatMap((lead) => lead.tags || []))].sort();
+    },
+    enabled: loadTargets && !!profile?.company_id,
+  });
+
+  const exportFlow = useMutation({
+    mutationFn: async (flowId: string) => {
+      const [{ data: flow, error: flowError }, { data: nodes, error: nodesError }, { data: edges, error: edgesError }] = await Promise.all([
+        getFlowsTable().select("*").eq("id", flowId).single(),
+        getNodesTable().select("*").eq("flow_id", flowId).order("created_at", { ascending: true }),
+        getEdgesTable().select("*").eq("flow_id", flowId).order("created_at", { ascending: true }),
+      ]);
+      if (flowError) throw flowError;
+      if (nodesError) throw nodesError;
+      if (edgesError) throw edgesError;
+
+      const snapshot = createFlowSnapshot(nodes || [], edges || []);
+      const stageIds = getFlowStageIds(snapshot.nodes);
+      let stages: FlowExportStage[] = [];
+      if (stageIds.length > 0) {
+        const { data, error } = await supabase.from("funnel_stages").select("id, name, funnels(name)").in("id", stageIds);
+        if (error) throw error;
+        stages = (data || []).map((stage) => ({ id: stage.id, name: stage.name, funnel_name: stage.funnels?.name || null }));
+      }
+
+      return createFlowExport(flow as ChatbotFlow, snapshot, stages);
+    },
+    onError: (err: Error) => {
+      console.error(err);
+      toast.error("Erro ao exportar fluxo: " + err.message);
+    },
+  });
+
+  // New inactive flow with the nodes of the file (new ids, stages/tags of this company)
+  const importFlow = useMutation({
+    mutationFn: async (input: { file: FlowExport; name: string; mapping: FlowImportMapping }) => {
+      if (!profile?.company_id) throw new Error("No company");
+      const { nodes, edges } = remapFlowImport(input.file, input.mapping);
+
+      const { data: flow, error: flowError } = await getFlowsTable()
+        .insert({
+          company_id: profile.company_id,
+          name: input.name.trim() || input.file.flow.name,
+          description: input.file.flow.description,
+          trigger_keywords: input.file.flow.trigger_keywords,
+          trigger_rules: input.file.flow.trigger_rules,
+          is_default: false,
+          is_active: false,
+        })
+        .select()
+        .single();
+      if (flowError) throw flowError;
+
+      const { error: nodesError } = await getNodesTable().insert(
+        nodes.map((node) => ({ ...node, flow_id: flow.id, company_id: profile.company_id }))
+      );
+      if (nodesError) throw nodesError;
+
+      if (edges.length > 0) {
+        const { error: edgesError } = await getEdgesTable().insert(
+          edges.map((edge) => ({ ...edge, flow_id: flow.id, company_id: profile.company_id }))
+        );
+        if (edgesError) throw edgesError;
+      }
+
+      return flow as ChatbotFlow;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["chatbot-flows"] });
+      toast.success("Fluxo criado!");
+    },
+    onError: (err: Error) => {
+      console.error(err);
+      toast.error("Erro ao importar fluxo: " + err.message);
+    },
+  });
+
+  return { targetStages, targetTags, exportFlow, importFlow };
+}
+
+const ANALYTICS_PAGE_SIZE = 1000;
+const ANALYTICS_EXECUTIONS_CHUNK = 200;
+
+// PostgREST caps each response, so analytics read every page
+async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += ANALYTICS_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + ANALYTICS_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < ANALYTICS_PAGE_SIZE) return rows;
+  }
+}
+
+// Hook for the per-node analytics of a flow (executions started in the period)
+export function useFlowAnalytics(flowId: string | null, range: { from: Date; to: Date } | null) {
+  const { data: analytics = null, isLoading: loadingAnalytics } = useQuery({
+    queryKey: ["chatbot-flow-analytics", flowId, range?.from.toISOString(), range?.to.toISOString()],
+    queryFn: async () => {
+      const executions = await fetchAllRows<FlowAnalyticsExecution>((from, to) =>
+        getExecutionsTable()
+          .select("id, status, started_at, completed_at")
+          .eq("flow_id", flowId)
+          .gte("started_at", range!.from.toISOString())
+          .lte("started_at", range!.to.toISOString())
+          .order("started_at", { ascending: true })
+          .range(from, to)
+      );
+
+      const logs: FlowAnalyticsLog[] = [];
+      for (let i = 0; i < executions.length; i += ANALYTICS_EXECUTIONS_CHUNK) {
+        const ids = executions.slice(i, i + ANALYTICS_EXECUTIONS_CHUNK).map((execution) => execution.id);
+        const chunk = await fetchAllRows((from, to) =>
+          supabase
+            .from("chatbot_flow_logs")
+            .select("execution_id, node_id, node_type, action, details, created_at")
+            .in("execution_id", ids)
+            .order("created_at", { ascending: true })
+            .range(from, to)
+        );
+        logs.push(...(chunk as FlowAnalyticsLog[]));
+      }
+
+      return computeFlowAnalytics(executions, logs);
+    },
+    enabled: !!flowId && !!range,
+  });
+
+  return { analytics, loadingAnalytics };
+}
+
+// Hook for executions paused by long delays (resumed by the scheduler)
+export function useDelayedFlowExecutions() {
+  const { profile } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: executions = [], isLoading: loadingExecutions } = useQuery({
+    queryKey: ["chatbot-delayed-executions", profile?.company_id],
+    queryFn: async () => {
+      if (!profile?.company_id) return [];
+      const { data, error } = await getExecutionsTable()
+        .select("*, chatbot_flows(name), whatsapp_contacts(name, phone)")
+        .eq("company_id", profile.company_id)
+        .eq("status", "paused")
+        .eq("is_human_takeover", false)
+        .not("next_action_at", "is", null)
+        .order("next_action_at", { ascending: true })
+        .limit(100);
+      if (error) throw error;
+      return data as DelayedFlowExecution[];
+    },
+    enabled: !!profile?.company_id,
+    refetchInterval: 30000,
+  });
+
+  const cancelExecution = useMutation({
+    mutationFn: async (executionId: string) => {
+      // Only while still paused - the scheduler may have just claimed it
+      const { data, error } = await getExecutionsTable()
+        .update({ status: "cancelled", next_action_at: null, completed_at: new Date().toISOString() })
+        .eq("id", executionId)
+        .eq("status", "paused")
+        .select("id");
+      if (error) throw error;
+      if (!data || data.length === 0) throw new Error("Execution already resumed");
+    },
+    onSuccess: () => {
+      toast.success("Execução cancelada");
+    },
+    onError: (err) => {
+      console.error(err);
+      toast.error("Não foi possível cancelar - a execução já pode ter sido retomada");
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["chatbot-delayed-executions"] });
+    },
+  });
+
+  return { executions, loadingExecutions, cancelExecution };
+}
+
 // Helper to get contacts table
 const getContactsTable = () => (supabase as any).from("whatsapp_contacts");
 
@@ -3,25 +3,23 @@ import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "./useAuth";
 import { toast } from "sonner";
 import { Json } from "@/integrations/supabase/types";
+import type {
+  TriggerType,
+  ActionType,
+  AutomationCondition,
+  AutomationConditionGroup,
+  AutomationConditionNode,
+  AutomationStep,
+} from "@/lib/automationEngine";
 
-export type TriggerType = 
-  | "lead_created" 
-  | "lead_updated" 
-  | "time_in_stage" 
-  | "value_changed" 
-  | "tag_added";
-
-export type ActionType = 
-  | "move_to_stage" 
-  | "add_tag" 
-  | "remove_tag" 
-  | "send_notification";
-
-export interface AutomationCondition {
-  field: string;
-  operator: "equals" | "not_equals" | "contains" | "greater_than" | "less_than" | "is_empty" | "is_not_empty";
-  value: string;
-}
+export type {
+  TriggerType,
+  ActionType,
+  AutomationCondition,
+  AutomationConditionGroup,
+  AutomationConditionNode,
+  AutomationStep,
+};
 
 export interface FunnelAutomation {
   id: string;
@@ -32,9 +30,11 @@ export interface FunnelAutomation {
   is_active: boolean;
   trigger_type: TriggerType;
   trigger_config: Record<string, unknown>;
-  conditions: AutomationCondition[];
+  conditions: AutomationConditionNode[];
   action_type: ActionType;
   action_config: Record<string, unknown>;
+  steps: AutomationStep[];
+  cooldown_minutes: number;
   created_at: string;
   updated_at: string;
 }
@@ -44,11 +44,28 @@ export interface AutomationLog {
   automation_id: string;
   lead_id: string;
   company_id: string;
+  run_id: string | null;
+  step_id: string | null;
   triggered_at: string;
   success: boolean;
   details: Record<string, unknown>;
 }
 
+export interface AutomationRun {
+  id: string;
+  automation_id: string;
+  lead_id: string;
+  lead_name: string | null;
+  status: "running" | "waiting" | "completed" | "failed" | "cancelled" | "skipped";
+  trigger_event: string;
+  current_step_id: string | null;
+  resume_at: string | null;
+  error: string | null;
+  started_at: string;
+  completed_at: string | null;
+  logs: AutomationLog[];
+}
+
 // Helper function to convert DB row to FunnelAutomation
 function mapDbToAutomation(row: {
   id: string;
@@ -62,6 +79,8 @@ function mapDbToAutomation(row: {
   conditions: Json;
   action_type: string;
   action_config: Json;
+  steps: Json;
+  cooldown_minutes: number;
   created_at: string;
   updated_at: string;
 }): FunnelAutomation {
@@ -69,9 +88,10 @@ function mapDbToAutomation(row: {
     ...row,
     trigger_type: row.trigger_type as TriggerType,
     trigger_config: (row.trigger_config || {}) as Record<string, unknown>,
-    conditions: (Array.isArray(row.conditions) ? row.conditions : []) as unknown as AutomationCondition[],
+    conditions: (Array.isArray(row.conditions) ? row.conditions : []) as unknown as AutomationConditionNode[],
     action_type: row.action_type as ActionType,
     action_config: (row.action_config || {}) as Record<string, unknown>,
+    steps: (Array.isArray(row.steps) ? row.steps : []) as unknown as AutomationStep[],
   };
 }
 
@@ -102,9 +122,11 @@ export function useFunnelAutomations(funnelId: string | null) {
       description?: string;
       trigger_type: TriggerType;
       trigger_config?: Record<string, unknown>;
-      conditions?: AutomationCondition[];
+      conditions?: AutomationConditionNode[];
       action_type: ActionType;
       action_config: Record<string, unknown>;
+      steps?: AutomationStep[];
+      cooldown_minutes?: number;
     }) => {
       if (!profile?.company_id || !funnelId) throw new Error("Sem empresa ou funil");
 
@@ -120,6 +142,8 @@ export function useFunnelAutomations(funnelId: string | null) {
           conditions: (automation.conditions || []) as unknown as Json,
           action_type: automation.action_type,
           action_config: automation.action_config as Json,
+          steps: (automation.steps || []) as unknown as Json,
+          cooldown_minutes: automation.cooldown_minutes,
         })
         .select()
         .single();
@@ -147,6 +171,8 @@ export function useFunnelAutomations(funnelId: string | null) {
       if (updates.conditions !== undefined) dbUpdates.conditions = updates.conditions as unknown as Json;
       if (updates.action_type !== undefined) dbUpdates.action_type = updates.action_type;
       if (updates.action_config !== undefined) dbUpdates.action_config = updates.action_config as Json;
+      if (updates.steps !== undefined) dbUpdates.steps = updates.steps as unknown as Json;
+      if (updates.cooldown_minutes !== undefined) dbUpdates.cooldown_minutes = updates.cooldown_minutes;
 
       const { data, error } = await supabase
         .from("funnel_automations")
@@ -205,3 +231,52 @@ export function useFunnelAutomations(funnelId: string | null) {
     toggleAutomation,
   };
 }
+
+// Recent runs of an automation with the log of each step
+export function useAutomationRuns(automationId: string | null) {
+  const { data: runs = [], isLoading: loadingRuns } = useQuery({
+    queryKey: ["automation-runs", automationId],
+    queryFn: async () => {
+      if (!automationId) return [];
+
+      const { data: runRows, error } = await supabase
+        .from("automation_runs")
+        .select("*, funnel_leads(name)")
+        .eq("automation_id", automationId)
+        .order("started_at", { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      if (!runRows || runRows.length === 0) return [];
+
+      const { data: logRows, error: logsError } = await supabase
+        .from("automation_logs")
+        .select("*")
+        .in("run_id", runRows.map((run) => run.id))
+        .order("triggered_at", { ascending: true });
+
+      if (logsError) throw logsError;
+
+      return runRows.map((run): AutomationRun => ({
+        id: run.id,
+        automation_id: run.automation_id,
+        lead_id: run.lead_id,
+        lead_name: run.funnel_leads?.name || null,
+        status: run.status as AutomationRun["status"],
+        trigger_event: run.trigger_event,
+        current_step_id: run.current_step_id,
+        resume_at: run.resume_at,
+        error: run.error,
+        started_at: run.started_at,
+        completed_at: run.completed_at,
+        logs: (logRows || [])
+          .filter((log) => log.run_id === run.id)
+          .map((log) => ({ ...log, details: (log.details || {}) as Record<string, unknown> })),
+      }));
+    },
+    enabled: !!automationId,
+    refetchInterval: 30000,
+  });
+
+  return { runs, loadingRuns };
+}
@@ -2,7 +2,6 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "./useAuth";
 import { toast } from "sonner";
-import { runAutomations, detectChanges } from "@/lib/automationEngine";
 
 export interface Funnel {
   id: string;
@@ -41,6 +40,10 @@ export interface FunnelLead {
   position: number;
   last_contact_at: string | null;
   custom_fields: Record<string, string | number | boolean | null> | null;
+  is_reentry: boolean | null;
+  // Team member (user_id) responsible for the lead
+  assigned_to: string | null;
+  stage_entered_at: string;
   created_at: string;
   updated_at: string;
 }
@@ -316,20 +319,10 @@ export function useFunnelLeads(stageIds: string[], funnelId?: string | null) {
       if (error) throw error;
       return data as FunnelLead;
     },
-    onSuccess: async (newLead) => {
+    onSuccess: () => {
+      // Automations run server-side (funnel-automations) on every lead change
       queryClient.invalidateQueries({ queryKey: ["funnel-leads"] });
       toast.success("Lead adicionado!");
-      
-      // Run automations for lead_created event
-      if (profile?.company_id && funnelId) {
-        await runAutomations(
-          { event: "lead_created", lead: newLead },
-          profile.company_id,
-          funnelId
-        );
-        // Refresh leads after automation may have moved them
-        queryClient.invalidateQueries({ queryKey: ["funnel-leads"] });
-      }
     },
     onError: (error) => {
       toast.error("Erro ao criar lead: " + error.message);
@@ -338,7 +331,7 @@ export function useFunnelLeads(stageIds: string[], funnelId?: string | null) {
 
   // Atualizar lead
   const updateLead = useMutation({
-    mutationFn: async ({ id, previousLead, ...updates }: Partial<FunnelLead> & { id: string; previousLead?: FunnelLead }) => {
+    mutationFn: async ({ id, ...updates }: Partial<FunnelLead> & { id: string }) => {
       const { data, error } = await supabase
         .from("funnel_leads")
         .update(updates)
@@ -347,43 +340,10 @@ export function useFunnelLeads(stageIds: string[], funnelId?: string | null) {
         .single();
       
       if (error) throw error;
-      return { updatedLead: data as FunnelLead, previousLead };
+      return data as FunnelLead;
     },
-    onSuccess: async ({ updatedLead, previousLead }) => {
+    onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["funnel-leads"] });
-      
-      // Run automations for lead_updated event
-      if (profile?.company_id && funnelId) {
-        const changes = detectChanges(updatedLead, previousLead);
-        
-        // Run general update automation
-        await runAutomations(
-          { event: "lead_updated", lead: updatedLead, previousLead },
-          profile.company_id,
-          funnelId
-        );
-        
-        // Run tag_added automations for each new tag
-        for (const tag of changes.tagsAdded) {
-          await runAutomations(
-            { event: "tag_added", lead: updatedLead, addedTag: tag },
-            profile.company_id,
-            funnelId
-          );
-        }
-        
-        // Run value_changed automation
-        if (changes.valueChanged) {
-          await runAutomations(
-            { event: "value_changed", lead: updatedLead, previousLead },
-            profile.company_id,
-            funnelId
-          );
-        }
-        
-        // Refresh leads after automations
-        queryClient.invalidateQueries({ queryKey: ["funnel-leads"] });
-      }
     },
     onError: (error) => {
       toast.error("Erro ao atualizar lead: " + error.message);
@@ -13,7 +13,7 @@ interface NotificationSettings {
 
 export interface AppNotification {
   id: string;
-  type: "new_lead" | "whatsapp_message";
+  type: "new_lead" | "whatsapp_message" | "automation";
   title: string;
   message: string;
   createdAt: Date;
@@ -98,6 +98,29 @@ export function useNotifications() {
     refetchInterval: 30000, // Refetch every 30 seconds
   });
 
+  // Fetch notifications produced by funnel automations (send_notification action)
+  const { data: automationNotifications = [] } = useQuery({
+    queryKey: ["automation-notifications", company?.id, lastSeen.toISOString()],
+    queryFn: async () => {
+      if (!company?.id) return [];
+
+      const { data, error } = await supabase
+        .from("automation_logs")
+        .select("id, lead_id, details, triggered_at")
+        .eq("company_id", company.id)
+        .eq("success", true)
+        .eq("details->>action", "send_notification")
+        .gte("triggered_at", lastSeen.toISOString())
+        .order("triggered_at", { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!company?.id,
+    refetchInterval: 30000,
+  });
+
   // Fetch unread WhatsApp messages count
   const { data: unreadWhatsApp = 0 } = useQuery({
     queryKey: ["unread-whatsapp-count", company?.id],
@@ -134,13 +157,27 @@ export function useNotifications() {
       });
     });
 
+    // Add automation notifications
+    automationNotifications.forEach((log) => {
+      const details = (log.details || {}) as Record<string, unknown>;
+      items.push({
+        id: `automation-${log.id}`,
+        type: "automation",
+        title: "Automação",
+        message: (details.notification as string) || "",
+        createdAt: new Date(log.triggered_at),
+        read: false,
+        data: { leadId: log.lead_id },
+      });
+    });
+
     return items.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-  }, [recentLeads]);
+  }, [recentLeads, automationNotifications]);
 
   // Total unread count
   const unreadCount = useMemo(() => {
-    return recentLeads.length + unreadWhatsApp;
-  }, [recentLeads.length, unreadWhatsApp]);
+    return recentLeads.length + automationNotifications.length + unreadWhatsApp;
+  }, [recentLeads.length, automationNotifications.length, unreadWhatsApp]);
 
   // Mark all as read
   const markAllAsRead = useCallback(() => {
@@ -148,6 +185,7 @@ export function useNotifications() {
     setLastSeen(now);
     setLastSeenTimestamp(now);
     queryClient.invalidateQueries({ queryKey: ["recent-leads-notifications"] });
+    queryClient.invalidateQueries({ queryKey: ["automation-notifications"] });
   }, [queryClient]);
 
   // Verificar permissão de notificação
@@ -0,0 +1,159 @@
+import { useCallback } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "./useAuth";
+import { toast } from "sonner";
+import { normalizePhone } from "@/lib/phoneNormalizer";
+import { normalizeShortcut, QuickReply, QuickReplyMediaType, QuickReplyValues, renderQuickReply } from "@/lib/quickReplies";
+
+export type { QuickReply, QuickReplyMediaType };
+
+export type QuickReplyInput = Omit<QuickReply, "id" | "is_favorite">;
+
+// Company quick replies, flagged with the favorites of the signed-in user
+export function useQuickReplies() {
+  const { profile } = useAuth();
+  const queryClient = useQueryClient();
+  const companyId = profile?.company_id;
+  const userId = profile?.user_id;
+
+  const { data: quickReplies = [], isLoading } = useQuery({
+    queryKey: ["quick-replies", companyId, userId],
+    queryFn: async (): Promise<QuickReply[]> => {
+      const [{ data, error }, { data: favorites, error: favoritesError }] = await Promise.all([
+        supabase
+          .from("quick_replies")
+          .select("id, shortcut, title, content, media_url, media_type, media_filename")
+          .eq("company_id", companyId!)
+          .order("shortcut"),
+        supabase.from("quick_reply_favorites").select("quick_reply_id").eq("user_id", userId!),
+      ]);
+      if (error) throw error;
+      if (favoritesError) throw favoritesError;
+
+      const favoriteIds = new Set((favorites || []).map((favorite) => favorite.quick_reply_id));
+      return (data || []).map((reply) => ({
+        ...reply,
+        media_type: reply.media_type as QuickReplyMediaType | null,
+        is_favorite: favoriteIds.has(reply.id),
+      }));
+    },
+    enabled: !!companyId && !!userId,
+  });
+
+  const toRow = (input: QuickReplyInput) => ({
+    shortcut: normalizeShortcut(input.shortcut),
+    title: input.title.trim(),
+    content: input.content,
+    media_url: input.media_url || null,
+    media_type: input.media_url ? input.media_type : null,
+    media_filename: input.media_url ? input.media_filename : null,
+  });
+
+  const duplicateShortcutMessage = (error: { code?: string }) =>
+    error.code === "23505" ? "Já existe uma resposta rápida com esse atalho" : "Erro ao salvar resposta rápida";
+
+  const createQuickReply = useMutation({
+    mutationFn: async (input: QuickReplyInput) => {
+      const { error } = await supabase
+        .from("quick_replies")
+        .insert({ ...toRow(input), company_id: companyId!, created_by: userId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["quick-replies"] });
+      toast.success("Resposta rápida criada!");
+    },
+    onError: (error: { code?: string }) => {
+      console.error("Erro ao criar resposta rápida:", error);
+      toast.error(duplicateShortcutMessage(error));
+    },
+  });
+
+  const updateQuickReply = useMutation({
+    mutationFn: async ({ id, ...input }: QuickReplyInput & { id: string }) => {
+      const { error } = await supabase.from("quick_replies").update(toRow(input)).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["quick-replies"] });
+      toast.success("Resposta rápida atualizada!");
+    },
+    onError: (error: { code?: string }) => {
+      console.error("Erro ao atualizar resposta rápida:", error);
+      toast.error(duplicateShortcutMessage(error));
+    },
+  });
+
+  const deleteQuickReply = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("quick_replies").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["quick-replies"] });
+      toast.success("Resposta rápida removida!");
+    },
+    onError: (error) => {
+      console.error("Erro ao remover resposta rápida:", error);
+      toast.error("Erro ao remover resposta rápida");
+    },
+  });
+
+  const toggleFavorite = useMutation({
+    mutationFn: async (reply: QuickReply) => {
+      const { error } = reply.is_favorite
+        ? await supabase
+            .from("quick_reply_favorites")
+            .delete()
+            .eq("quick_reply_id", reply.id)
+            .eq("user_id", userId!)
+        : await supabase
+            .from("quick_reply_favorites")
+            .insert({ quick_reply_id: reply.id, user_id: userId!, company_id: companyId! });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["quick-replies"] });
+    },
+    onError: (error) => {
+      console.error("Erro ao favoritar resposta rápida:", error);
+      toast.error("Erro ao favoritar resposta rápida");
+    },
+  });
+
+  // Variable values of the contact and its lead (matched by phone, like the chatbot does)
+  const getContactValues = useCallback(async (contact: { name: string | null; phone: string }): Promise<QuickReplyValues> => {
+    const phone = normalizePhone(contact.phone) || contact.phone;
+    const { data: leads } = await supabase
+      .from("funnel_leads")
+      .select("name, email, value, funnel_stages(name)")
+      .eq("company_id", companyId!)
+      .or(`phone.eq.${phone},phone.ilike.%${phone.slice(-9)}%`)
+      .limit(1);
+    const lead = leads?.[0];
+
+    return {
+      contactName: contact.name || lead?.name,
+      phone: contact.phone,
+      email: lead?.email,
+      stageName: lead?.funnel_stages?.name,
+      leadValue: lead?.value,
+      agentName: profile?.full_name,
+    };
+  }, [companyId, profile?.full_name]);
+
+  const renderForContact = async (reply: QuickReply, contact: { name: string | null; phone: string }) =>
+    renderQuickReply(reply.content, await getContactValues(contact));
+
+  return {
+    quickReplies,
+    isLoading,
+    createQuickReply,
+    updateQuickReply,
+    deleteQuickReply,
+    toggleFavorite,
+    renderForContact,
+    getContactValues,
+  };
+}
@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "./useAuth";
 import { useToast } from "./use-toast";
+import { SERVICE_WINDOW_CLOSED } from "@/lib/serviceWindow";
 
 export interface WhatsAppSession {
   id: string;
@@ -23,6 +24,13 @@ export interface WhatsAppContact {
   is_group: boolean;
   last_message_at: string | null;
   unread_count: number;
+  tags: string[] | null;
+  // Team member (user_id) handling the conversation and the queue it came from
+  assigned_to: string | null;
+  assigned_at: string | null;
+  queue_id: string | null;
+  // Last message from the contact - opens the 24h customer service window (Cloud API)
+  last_inbound_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -314,7 +322,19 @@ export function useWhatsApp() {
         body: payload,
       });
 
-      if (error) throw error;
+      if (error) {
+        // The edge function explains rejected sends in the JSON body of the response
+        const body = await (error as { context?: Response }).context?.json?.().catch(() => null);
+        if (body?.code === SERVICE_WINDOW_CLOSED) {
+          toast({
+            title: "Janela de 24h encerrada",
+            description: "O contato não responde há mais de 24 horas. Envie um template aprovado para retomar a conversa.",
+            variant: "destructive",
+          });
+          return false;
+        }
+        throw error;
+      }
       return data?.message_id || true;
     } catch (err) {
       console.error("Erro ao enviar mensagem:", err);
@@ -338,6 +358,29 @@ export function useWhatsApp() {
     }
   }, []);
 
+  const assignContact = useCallback(async (contactId: string, userId: string | null) => {
+    try {
+      const { error } = await supabase
+        .from("whatsapp_contacts")
+        .update({ assigned_to: userId, assigned_at: userId ? new Date().toISOString() : null })
+        .eq("id", contactId);
+      if (error) throw error;
+
+      setContacts((prev) =>
+        prev.map((c) => (c.id === contactId ? { ...c, assigned_to: userId } : c))
+      );
+      return true;
+    } catch (err) {
+      console.error("Erro ao atribuir conversa:", err);
+      toast({
+        title: "Erro",
+        description: "Não foi possível atribuir a conversa.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  }, [toast]);
+
   const refetch = useCallback(async () => {
     setSyncing(true);
     try {
@@ -455,6 +498,7 @@ export function useWhatsApp() {
     fetchMessages,
     fetchQrCode,
     markAsRead,
+    assignContact,
     refetch,
   };
 }
@@ -0,0 +1,166 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "./useAuth";
+import { toast } from "sonner";
+import type { Json } from "@/integrations/supabase/types";
+import type { BroadcastStatus } from "@/lib/whatsappBroadcasts";
+import type { TemplateParams } from "@/lib/whatsappTemplates";
+import type { WhatsAppTemplate } from "./useWhatsAppTemplates";
+
+export interface BroadcastStats {
+  total: number;
+  pending: number;
+  sent: number;
+  delivered: number;
+  read: number;
+  failed: number;
+}
+
+export interface WhatsAppBroadcast {
+  id: string;
+  name: string;
+  template_name: string;
+  template_language: string;
+  status: BroadcastStatus;
+  scheduled_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  stats: BroadcastStats;
+}
+
+export interface WhatsAppBroadcastInput {
+  name: string;
+  template: WhatsAppTemplate;
+  params: TemplateParams;
+  leadIds: string[];
+  // null sends on the next scheduler tick
+  scheduledAt: Date | null;
+}
+
+const EMPTY_STATS: BroadcastStats = { total: 0, pending: 0, sent: 0, delivered: 0, read: 0, failed: 0 };
+
+// Recipients are inserted in chunks to keep each request small
+const RECIPIENTS_CHUNK = 500;
+
+// Bulk template campaigns and their delivery counters
+export function useWhatsAppBroadcasts() {
+  const { profile } = useAuth();
+  const queryClient = useQueryClient();
+  const companyId = profile?.company_id;
+
+  const { data: broadcasts = [], isLoading } = useQuery({
+    queryKey: ["whatsapp-broadcasts", companyId],
+    queryFn: async (): Promise<WhatsAppBroadcast[]> => {
+      const { data: rows, error } = await supabase
+        .from("whatsapp_broadcasts")
+        .select("id, name, template_name, template_language, status, scheduled_at, started_at, completed_at, created_at")
+        .eq("company_id", companyId!)
+        .order("created_at", { ascending: false })
+        .limit(50);
+      if (error) throw error;
+      if (!rows || rows.length === 0) return [];
+
+      const { data: stats, error: statsError } = await supabase.rpc("get_whatsapp_broadcast_stats", {
+        p_broadcast_ids: rows.map((row) => row.id),
+      });
+      if (statsError) throw statsError;
+
+      return rows.map((row) => {
+        const rowStats = (stats || []).find((stat) => stat.broadcast_id === row.id);
+        return {
+          ...row,
+          status: row.status as BroadcastStatus,
+          stats: rowStats
+            ? {
+                total: Number(rowStats.total),
+                pending: Number(rowStats.pending),
+                sent: Number(rowStats.sent),
+                delivered: Number(rowStats.delivered),
+                read: Number(rowStats.read),
+                failed: Number(rowStats.failed),
+              }
+            : EMPTY_STATS,
+        };
+      });
+    },
+    enabled: !!companyId,
+    // Counters move while campaigns are being sent and delivered
+    refetchInterval: 30000,
+  });
+
+  const createBroadcast = useMutation({
+    mutationFn: async (input: WhatsAppBroadcastInput) => {
+      const { data, error } = await supabase
+        .from("whatsapp_broadcasts")
+        .insert({
+          company_id: companyId!,
+          name: input.name.trim(),
+          template_name: input.template.name,
+          template_language: input.template.language,
+          template_components: input.template.components as unknown as Json,
+          params: input.params as unknown as Json,
+          // Only scheduled once every recipient is queued, so a scheduler tick can't pick it up half empty
+          status: "draft",
+          scheduled_at: (input.scheduledAt || new Date()).toISOString(),
+          created_by: profile?.user_id,
+        })
+        .select("id")
+        .single();
+      if (error) throw error;
+
+      try {
+        for (let i = 0; i < input.leadIds.length; i += RECIPIENTS_CHUNK) {
+          const { error: recipientsError } = await supabase.from("whatsapp_broadcast_recipients").insert(
+            input.leadIds.slice(i, i + RECIPIENTS_CHUNK).map((leadId) => ({
+              broadcast_id: data.id,
+              company_id: companyId!,
+              lead_id: leadId,
+            }))
+          );
+          if (recipientsError) throw recipientsError;
+        }
+
+        const { error: scheduleError } = await supabase
+          .from("whatsapp_broadcasts")
+          .update({ status: "scheduled" })
+          .eq("id", data.id);
+        if (scheduleError) throw scheduleError;
+      } catch (error) {
+        // A partial queue must not go out - the draft goes away with its recipients
+        await supabase.from("whatsapp_broadcasts").delete().eq("id", data.id).eq("status", "draft");
+        throw error;
+      }
+    },
+    onSuccess: (_, input) => {
+      queryClient.invalidateQueries({ queryKey: ["whatsapp-broadcasts"] });
+      toast.success(input.scheduledAt ? "Campanha agendada!" : "Campanha criada! O envio começa em instantes.");
+    },
+    onError: (error) => {
+      console.error("Erro ao criar campanha:", error);
+      toast.error("Erro ao criar campanha");
+    },
+  });
+
+  // Pause, resume ("sending") or cancel a campaign
+  const setBroadcastStatus = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: BroadcastStatus }) => {
+      const { error } = await supabase.from("whatsapp_broadcasts").update({ status }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["whatsapp-broadcasts"] });
+    },
+    onError: (error) => {
+      console.error("Erro ao atualizar campanha:", error);
+      toast.error("Erro ao atualizar campanha");
+    },
+  });
+
+  return {
+    broadcasts,
+    isLoading,
+    createBroadcast,
+    setBroadcastStatus,
+  };
+}
@@ -1,6 +1,7 @@
 import { useState, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "./use-toast";
+import type { TemplateSendComponent } from "@/lib/whatsappTemplates";
 
 export interface TemplateComponent {
   type: "HEADER" | "BODY" | "FOOTER" | "BUTTONS";
@@ -156,18 +157,7 @@ export function useWhatsAppTemplates() {
     contactId: string,
     templateName: string,
     templateLanguage: string,
-    components?: Array<{
-      type: "header" | "body" | "button";
-      parameters?: Array<{
-        type: "text" | "image" | "video" | "document";
-        text?: string;
-        image?: { link: string };
-        video?: { link: string };
-        document?: { link: string; filename?: string };
-      }>;
-      sub_type?: "quick_reply" | "url";
-      index?: string;
-    }>
+    components?: TemplateSendComponent[]
   ) => {
     try {
       const { data, error } = await supabase.functions.invoke("whatsapp-templates", {
@@ -180,7 +170,19 @@ export function useWhatsAppTemplates() {
         },
       });
 
-      if (error) throw error;
+      if (error) {
+        // Parameters rejected by the template check come with the reasons
+        const body = await (error as { context?: Response }).context?.json?.().catch(() => null);
+        if (body?.details?.length) {
+          toast({
+            title: "Template não enviado",
+            description: body.details.join("\n"),
+            variant: "destructive",
+          });
+          return false;
+        }
+        throw error;
+      }
 
       if (data?.error) {
         toast({
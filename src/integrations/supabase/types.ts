@@ -80,6 +80,8 @@ export type Database = {
           details: Json | null
           id: string
           lead_id: string
+          run_id: string | null
+          step_id: string | null
           success: boolean
           triggered_at: string
         }
@@ -89,6 +91,8 @@ export type Database = {
           details?: Json | null
           id?: string
           lead_id: string
+          run_id?: string | null
+          step_id?: string | null
           success?: boolean
           triggered_at?: string
         }
@@ -98,6 +102,8 @@ export type Database = {
           details?: Json | null
           id?: string
           lead_id?: string
+          run_id?: string | null
+          step_id?: string | null
           success?: boolean
           triggered_at?: string
         }
@@ -116,6 +122,209 @@ export type Database = {
             referencedRelation: "funnel_leads"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "automation_logs_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "automation_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      automation_runs: {
+        Row: {
+          automation_id: string
+          chain_depth: number
+          company_id: string
+          completed_at: string | null
+          context: Json
+          current_step_id: string | null
+          error: string | null
+          id: string
+          lead_id: string
+          resume_at: string | null
+          started_at: string
+          status: string
+          trigger_event: string
+          updated_at: string
+        }
+        Insert: {
+          automation_id: string
+          chain_depth?: number
+          company_id: string
+          completed_at?: string | null
+          context?: Json
+          current_step_id?: string | null
+          error?: string | null
+          id?: string
+          lead_id: string
+          resume_at?: string | null
+          started_at?: string
+          status?: string
+          trigger_event: string
+          updated_at?: string
+        }
+        Update: {
+          automation_id?: string
+          chain_depth?: number
+          company_id?: string
+          completed_at?: string | null
+          context?: Json
+          current_step_id?: string | null
+          error?: string | null
+          id?: string
+          lead_id?: string
+          resume_at?: string | null
+          started_at?: string
+          status?: string
+          trigger_event?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "automation_runs_automation_id_fkey"
+            columns: ["automation_id"]
+            isOneToOne: false
+            referencedRelation: "funnel_automations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "automation_runs_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "automation_runs_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "funnel_leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      automation_stage_timers: {
+        Row: {
+          automation_id: string
+          company_id: string
+          evaluated_at: string
+          id: string
+          lead_id: string
+          stage_entered_at: string
+        }
+        Insert: {
+          automation_id: string
+          company_id: string
+          evaluated_at?: string
+          id?: string
+          lead_id: string
+          stage_entered_at: string
+        }
+        Update: {
+          automation_id?: string
+          company_id?: string
+          evaluated_at?: string
+          id?: string
+          lead_id?: string
+          stage_entered_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "automation_stage_timers_automation_id_fkey"
+            columns: ["automation_id"]
+            isOneToOne: false
+            referencedRelation: "funnel_automations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "automation_stage_timers_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "automation_stage_timers_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "funnel_leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_queue_members: {
+        Row: {
+          company_id: string
+          created_at: string
+          queue_id: string
+          user_id: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          queue_id: string
+          user_id: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          queue_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_queue_members_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_queue_members_queue_id_fkey"
+            columns: ["queue_id"]
+            isOneToOne: false
+            referencedRelation: "chat_queues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_queues: {
+        Row: {
+          company_id: string
+          created_at: string
+          distribution: string
+          id: string
+          last_assigned_user_id: string | null
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          distribution?: string
+          id?: string
+          last_assigned_user_id?: string | null
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          distribution?: string
+          id?: string
+          last_assigned_user_id?: string | null
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_queues_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
         ]
       }
       chatbot_flow_edges: {
@@ -188,10 +397,12 @@ export type Database = {
           context: Json | null
           current_node_id: string | null
           flow_id: string
+          flow_version_id: string | null
           id: string
           is_human_takeover: boolean
           lead_id: string | null
           next_action_at: string | null
+          resumed_at: string | null
           started_at: string
           status: string
         }
@@ -202,10 +413,12 @@ export type Database = {
           context?: Json | null
           current_node_id?: string | null
           flow_id: string
+          flow_version_id?: string | null
           id?: string
           is_human_takeover?: boolean
           lead_id?: string | null
           next_action_at?: string | null
+          resumed_at?: string | null
           started_at?: string
           status?: string
         }
@@ -216,10 +429,12 @@ export type Database = {
           context?: Json | null
           current_node_id?: string | null
           flow_id?: string
+          flow_version_id?: string | null
           id?: string
           is_human_takeover?: boolean
           lead_id?: string | null
           next_action_at?: string | null
+          resumed_at?: string | null
           started_at?: string
           status?: string
         }
@@ -239,17 +454,17 @@ export type Database = {
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "chatbot_flow_executions_current_node_id_fkey"
-            columns: ["current_node_id"]
+            foreignKeyName: "chatbot_flow_executions_flow_id_fkey"
+            columns: ["flow_id"]
             isOneToOne: false
-            referencedRelation: "chatbot_flow_nodes"
+            referencedRelation: "chatbot_flows"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "chatbot_flow_executions_flow_id_fkey"
-            columns: ["flow_id"]
+            foreignKeyName: "chatbot_flow_executions_flow_version_id_fkey"
+            columns: ["flow_version_id"]
             isOneToOne: false
-            referencedRelation: "chatbot_flows"
+            referencedRelation: "chatbot_flow_versions"
             referencedColumns: ["id"]
           },
           {
@@ -307,13 +522,6 @@ export type Database = {
             referencedRelation: "chatbot_flow_executions"
             referencedColumns: ["id"]
           },
-          {
-            foreignKeyName: "chatbot_flow_logs_node_id_fkey"
-            columns: ["node_id"]
-            isOneToOne: false
-            referencedRelation: "chatbot_flow_nodes"
-            referencedColumns: ["id"]
-          },
         ]
       }
       chatbot_flow_nodes: {
@@ -364,6 +572,57 @@ export type Database = {
           },
         ]
       }
+      chatbot_flow_versions: {
+        Row: {
+          company_id: string
+          created_at: string
+          edges: Json
+          flow_id: string
+          id: string
+          nodes: Json
+          notes: string | null
+          published_by: string | null
+          version_number: number
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          edges?: Json
+          flow_id: string
+          id?: string
+          nodes?: Json
+          notes?: string | null
+          published_by?: string | null
+          version_number: number
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          edges?: Json
+          flow_id?: string
+          id?: string
+          nodes?: Json
+          notes?: string | null
+          published_by?: string | null
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chatbot_flow_versions_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chatbot_flow_versions_flow_id_fkey"
+            columns: ["flow_id"]
+            isOneToOne: false
+            referencedRelation: "chatbot_flows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       chatbot_flows: {
         Row: {
           company_id: string
@@ -373,7 +632,9 @@ export type Database = {
           is_active: boolean
           is_default: boolean
           name: string
+          published_version_id: string | null
           trigger_keywords: string[] | null
+          trigger_rules: Json
           updated_at: string
         }
         Insert: {
@@ -384,7 +645,9 @@ export type Database = {
           is_active?: boolean
           is_default?: boolean
           name: string
+          published_version_id?: string | null
           trigger_keywords?: string[] | null
+          trigger_rules?: Json
           updated_at?: string
         }
         Update: {
@@ -395,7 +658,9 @@ export type Database = {
           is_active?: boolean
           is_default?: boolean
           name?: string
+          published_version_id?: string | null
           trigger_keywords?: string[] | null
+          trigger_rules?: Json
           updated_at?: string
         }
         Relationships: [
@@ -406,16 +671,25 @@ export type Database = {
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "chatbot_flows_published_version_id_fkey"
+            columns: ["published_version_id"]
+            isOneToOne: false
+            referencedRelation: "chatbot_flow_versions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       companies: {
         Row: {
           address: string | null
+          business_hours: Json | null
           cnpj: string | null
           created_at: string
           id: string
           name: string
           slug: string
+          timezone: string
           updated_at: string
           whatsapp_mode: string | null
           whatsapp_phone_number_id: string | null
@@ -423,11 +697,13 @@ export type Database = {
         }
         Insert: {
           address?: string | null
+          business_hours?: Json | null
           cnpj?: string | null
           created_at?: string
           id?: string
           name: string
           slug: string
+          timezone?: string
           updated_at?: string
           whatsapp_mode?: string | null
           whatsapp_phone_number_id?: string | null
@@ -435,11 +711,13 @@ export type Database = {
         }
         Update: {
           address?: string | null
+          business_hours?: Json | null
           cnpj?: string | null
           created_at?: string
           id?: string
           name?: string
           slug?: string
+          timezone?: string
           updated_at?: string
           whatsapp_mode?: string | null
           whatsapp_phone_number_id?: string | null
@@ -636,12 +914,14 @@ export type Database = {
           action_type: string
           company_id: string
           conditions: Json
+          cooldown_minutes: number
           created_at: string
           description: string | null
           funnel_id: string
           id: string
           is_active: boolean
           name: string
+          steps: Json
           trigger_config: Json
           trigger_type: string
           updated_at: string
@@ -651,12 +931,14 @@ export type Database = {
           action_type: string
           company_id: string
           conditions?: Json
+          cooldown_minutes?: number
           created_at?: string
           description?: string | null
           funnel_id: string
           id?: string
           is_active?: boolean
           name: string
+          steps?: Json
           trigger_config?: Json
           trigger_type: string
           updated_at?: string
@@ -666,12 +948,14 @@ export type Database = {
           action_type?: string
           company_id?: string
           conditions?: Json
+          cooldown_minutes?: number
           created_at?: string
           description?: string | null
           funnel_id?: string
           id?: string
           is_active?: boolean
           name?: string
+          steps?: Json
           trigger_config?: Json
           trigger_type?: string
           updated_at?: string
@@ -695,6 +979,9 @@ export type Database = {
       }
       funnel_leads: {
         Row: {
+          assigned_to: string | null
+          automation_depth: number
+          automation_write: boolean
           company_id: string
           created_at: string
           custom_fields: Json | null
@@ -707,12 +994,16 @@ export type Database = {
           phone: string | null
           position: number | null
           source: string | null
+          stage_entered_at: string
           stage_id: string
           tags: string[] | null
           updated_at: string
           value: number | null
         }
         Insert: {
+          assigned_to?: string | null
+          automation_depth?: number
+          automation_write?: boolean
           company_id: string
           created_at?: string
           custom_fields?: Json | null
@@ -725,12 +1016,16 @@ export type Database = {
           phone?: string | null
           position?: number | null
           source?: string | null
+          stage_entered_at?: string
           stage_id: string
           tags?: string[] | null
           updated_at?: string
           value?: number | null
         }
         Update: {
+          assigned_to?: string | null
+          automation_depth?: number
+          automation_write?: boolean
           company_id?: string
           created_at?: string
           custom_fields?: Json | null
@@ -743,6 +1038,7 @@ export type Database = {
           phone?: string | null
           position?: number | null
           source?: string | null
+          stage_entered_at?: string
           stage_id?: string
           tags?: string[] | null
           updated_at?: string
@@ -865,6 +1161,8 @@ export type Database = {
           email: string | null
           full_name: string | null
           id: string
+          is_available: boolean
+          last_seen_at: string | null
           phone: string | null
           role: string
           updated_at: string
@@ -877,6 +1175,8 @@ export type Database = {
           email?: string | null
           full_name?: string | null
           id?: string
+          is_available?: boolean
+          last_seen_at?: string | null
           phone?: string | null
           role?: string
           updated_at?: string
@@ -889,6 +1189,8 @@ export type Database = {
           email?: string | null
           full_name?: string | null
           id?: string
+          is_available?: boolean
+          last_seen_at?: string | null
           phone?: string | null
           role?: string
           updated_at?: string
@@ -904,6 +1206,92 @@ export type Database = {
           },
         ]
       }
+      quick_replies: {
+        Row: {
+          company_id: string
+          content: string
+          created_at: string
+          created_by: string | null
+          id: string
+          media_filename: string | null
+          media_type: string | null
+          media_url: string | null
+          shortcut: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          company_id: string
+          content?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          media_filename?: string | null
+          media_type?: string | null
+          media_url?: string | null
+          shortcut: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          company_id?: string
+          content?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          media_filename?: string | null
+          media_type?: string | null
+          media_url?: string | null
+          shortcut?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quick_replies_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quick_reply_favorites: {
+        Row: {
+          company_id: string
+          created_at: string
+          quick_reply_id: string
+          user_id: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          quick_reply_id: string
+          user_id: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          quick_reply_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quick_reply_favorites_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quick_reply_favorites_quick_reply_id_fkey"
+            columns: ["quick_reply_id"]
+            isOneToOne: false
+            referencedRelation: "quick_replies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       team_invitations: {
         Row: {
           accepted_at: string | null
@@ -1006,45 +1394,191 @@ export type Database = {
           },
         ]
       }
+      whatsapp_broadcast_recipients: {
+        Row: {
+          broadcast_id: string
+          company_id: string
+          contact_id: string | null
+          created_at: string
+          error: string | null
+          id: string
+          lead_id: string | null
+          message_id: string | null
+          sent_at: string | null
+          status: string
+        }
+        Insert: {
+          broadcast_id: string
+          company_id: string
+          contact_id?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          lead_id?: string | null
+          message_id?: string | null
+          sent_at?: string | null
+          status?: string
+        }
+        Update: {
+          broadcast_id?: string
+          company_id?: string
+          contact_id?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          lead_id?: string | null
+          message_id?: string | null
+          sent_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "whatsapp_broadcast_recipients_broadcast_id_fkey"
+            columns: ["broadcast_id"]
+            isOneToOne: false
+            referencedRelation: "whatsapp_broadcasts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "whatsapp_broadcast_recipients_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "whatsapp_broadcast_recipients_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "whatsapp_contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "whatsapp_broadcast_recipients_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "funnel_leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "whatsapp_broadcast_recipients_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "whatsapp_messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      whatsapp_broadcasts: {
+        Row: {
+          company_id: string
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          params: Json
+          scheduled_at: string
+          started_at: string | null
+          status: string
+          template_components: Json
+          template_language: string
+          template_name: string
+          updated_at: string
+        }
+        Insert: {
+          company_id: string
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          params?: Json
+          scheduled_at?: string
+          started_at?: string | null
+          status?: string
+          template_components?: Json
+          template_language: string
+          template_name: string
+          updated_at?: string
+        }
+        Update: {
+          company_id?: string
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          params?: Json
+          scheduled_at?: string
+          started_at?: string | null
+          status?: string
+          template_components?: Json
+          template_language?: string
+          template_name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "whatsapp_broadcasts_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       whatsapp_contacts: {
         Row: {
+          assigned_at: string | null
+          assigned_to: string | null
           company_id: string
           created_at: string
           id: string
           is_group: boolean
+          last_inbound_at: string | null
           last_message_at: string | null
           name: string | null
           normalized_phone: string | null
           phone: string
           profile_picture: string | null
+          queue_id: string | null
           tags: string[] | null
           unread_count: number
           updated_at: string
         }
         Insert: {
+          assigned_at?: string | null
+          assigned_to?: string | null
           company_id: string
           created_at?: string
           id?: string
           is_group?: boolean
+          last_inbound_at?: string | null
           last_message_at?: string | null
           name?: string | null
           normalized_phone?: string | null
           phone: string
           profile_picture?: string | null
+          queue_id?: string | null
           tags?: string[] | null
           unread_count?: number
           updated_at?: string
         }
         Update: {
+          assigned_at?: string | null
+          assigned_to?: string | null
           company_id?: string
           created_at?: string
           id?: string
           is_group?: boolean
+          last_inbound_at?: string | null
           last_message_at?: string | null
           name?: string | null
           normalized_phone?: string | null
           phone?: string
           profile_picture?: string | null
+          queue_id?: string | null
           tags?: string[] | null
           unread_count?: number
           updated_at?: string
@@ -1057,6 +1591,13 @@ export type Database = {
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "whatsapp_contacts_queue_id_fkey"
+            columns: ["queue_id"]
+            isOneToOne: false
+            referencedRelation: "chat_queues"
+            referencedColumns: ["id"]
+          },
         ]
       }
       whatsapp_messages: {
@@ -1169,6 +1710,18 @@ export type Database = {
     }
     Functions: {
       get_user_company_id: { Args: { user_uuid: string }; Returns: string }
+      get_whatsapp_broadcast_stats: {
+        Args: { p_broadcast_ids: string[] }
+        Returns: {
+          broadcast_id: string
+          delivered: number
+          failed: number
+          pending: number
+          read: number
+          sent: number
+          total: number
+        }[]
+      }
       increment_unread_count: {
         Args: { contact_uuid: string }
         Returns: undefined
@@ -0,0 +1,121 @@
+// Validation and defaults of the automation editor (CreateAutomationDialog and
+// its step, action and condition editors)
+import type {
+  ActionType,
+  AutomationActionStep,
+  AutomationConditionStep,
+  AutomationDelayStep,
+  AutomationStep,
+  ConditionOperator,
+} from "./automationEngine";
+
+// Check that the action has everything it needs to run
+export function isActionConfigValid(actionType: ActionType, actionConfig: Record<string, unknown>): boolean {
+  switch (actionType) {
+    case "move_to_stage":
+      return !!actionConfig.target_stage_id;
+    case "add_tag":
+    case "remove_tag":
+      return !!actionConfig.tag;
+    case "send_notification":
+    case "send_whatsapp_message":
+      return !!actionConfig.message;
+    case "send_whatsapp_template":
+      return !!actionConfig.template_name &&
+        !((actionConfig.body_params as string[]) || []).some((param) => !param.trim());
+    case "start_chatbot_flow":
+      return !!actionConfig.flow_id;
+    default:
+      return false;
+  }
+}
+
+export type ConditionFieldKind = "text" | "number" | "date" | "list" | "boolean" | "custom";
+
+// Field option that asks for a custom_fields key
+export const CUSTOM_FIELD = "custom";
+
+// Lead fields available in conditions
+export const conditionFields: { value: string; label: string; kind: ConditionFieldKind }[] = [
+  { value: "name", label: "Nome", kind: "text" },
+  { value: "email", label: "Email", kind: "text" },
+  { value: "phone", label: "Telefone", kind: "text" },
+  { value: "value", label: "Valor", kind: "number" },
+  { value: "source", label: "Origem", kind: "text" },
+  { value: "tags", label: "Tags", kind: "list" },
+  { value: "is_reentry", label: "Reentrada", kind: "boolean" },
+  { value: "created_at", label: "Data de criação", kind: "date" },
+  { value: "last_contact_at", label: "Último contato", kind: "date" },
+  { value: "stage_entered_at", label: "Entrada na etapa", kind: "date" },
+  { value: "is_business_hours", label: "Horário de atendimento", kind: "boolean" },
+  { value: CUSTOM_FIELD, label: "Campo personalizado", kind: "custom" },
+];
+
+export const operatorLabels: Record<ConditionOperator, string> = {
+  equals: "é igual a",
+  not_equals: "não é igual a",
+  contains: "contém",
+  greater_than: "é maior que",
+  less_than: "é menor que",
+  is_empty: "está vazio",
+  is_not_empty: "não está vazio",
+  older_than_days: "há mais de N dias",
+  newer_than_days: "nos últimos N dias",
+  before_date: "antes de",
+  after_date: "depois de",
+  has_any_of: "tem alguma de",
+  has_all_of: "tem todas de",
+};
+
+// Operators that make sense for each kind of field
+export const operatorsByKind: Record<ConditionFieldKind, ConditionOperator[]> = {
+  text: ["equals", "not_equals", "contains", "is_empty", "is_not_empty"],
+  number: ["equals", "not_equals", "greater_than", "less_than", "is_empty", "is_not_empty"],
+  date: ["older_than_days", "newer_than_days", "before_date", "after_date", "is_empty", "is_not_empty"],
+  list: ["has_any_of", "has_all_of", "contains", "is_empty", "is_not_empty"],
+  boolean: ["equals"],
+  custom: Object.keys(operatorLabels) as ConditionOperator[],
+};
+
+export const getFieldKind = (field: string): ConditionFieldKind => {
+  if (field.startsWith(`${CUSTOM_FIELD}.`)) return "custom";
+  return conditionFields.find((f) => f.value === field)?.kind || "text";
+};
+
+// New steps added from the editor
+export const createActionStep = (): AutomationActionStep => ({
+  id: crypto.randomUUID(),
+  type: "action",
+  action_type: "move_to_stage",
+  action_config: {},
+});
+
+export const createDelayStep = (): AutomationDelayStep => ({
+  id: crypto.randomUUID(),
+  type: "delay",
+  delay_minutes: 60,
+});
+
+export const createConditionStep = (): AutomationConditionStep => ({
+  id: crypto.randomUUID(),
+  type: "condition",
+  conditions: [{ field: "value", operator: "greater_than", value: "" }],
+  then_steps: [],
+  else_steps: [],
+});
+
+// Every step (including the ones inside branches) has a complete configuration
+export function areStepsValid(steps: AutomationStep[]): boolean {
+  return steps.every((step) => {
+    switch (step.type) {
+      case "action":
+        return isActionConfigValid(step.action_type, step.action_config);
+      case "delay":
+        return step.delay_minutes > 0;
+      case "condition":
+        return step.conditions.length > 0 && areStepsValid(step.then_steps) && areStepsValid(step.else_steps);
+      default:
+        return false;
+    }
+  });
+}
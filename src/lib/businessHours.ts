@@ -0,0 +1,21 @@
+// Business hours are checked server-side by the chatbot and the funnel
+// automations. The schedule helpers are shared so Settings validates and
+// previews the schedule with the same logic.
+export {
+  DEFAULT_TIMEZONE,
+  DEFAULT_BUSINESS_HOURS,
+  WEEKDAY_LABELS,
+  BUSINESS_HOURS_OPEN,
+  BUSINESS_HOURS_CLOSED,
+  getZonedParts,
+  isHoliday,
+  isWithinBusinessHours,
+  getNextOpeningTime,
+  validateBusinessHours,
+} from "../../supabase/functions/_shared/businessHours.ts";
+
+export type {
+  BusinessDay,
+  BusinessHoliday,
+  BusinessHours,
+} from "../../supabase/functions/_shared/businessHours.ts";
@@ -0,0 +1,15 @@
+// Conversation distribution runs in the flow-executor transfer node. The
+// presence rule and strategies are shared so the inbox shows agents as online
+// exactly when the executor would pick them.
+export {
+  AGENT_ONLINE_WINDOW_MS,
+  ASSIGNMENT_STRATEGIES,
+  HUMAN_TAKEOVER_TAG,
+  isAgentOnline,
+  pickAgent,
+} from "../../supabase/functions/_shared/conversationAssignment.ts";
+
+export type {
+  AssignmentAgent,
+  AssignmentStrategy,
+} from "../../supabase/functions/_shared/conversationAssignment.ts";
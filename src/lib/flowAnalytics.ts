@@ -0,0 +1,23 @@
+// Flow analytics are computed from the logs the flow-executor writes. The
+// aggregation is shared so the builder heatmap counts runs the same way the
+// executor records them.
+export {
+  FLOW_LOG_EXECUTED,
+  FLOW_LOG_RESPONDED,
+  computeFlowAnalytics,
+} from "../../supabase/functions/_shared/flowAnalytics.ts";
+
+export type {
+  FlowAnalytics,
+  FlowAnalyticsExecution,
+  FlowAnalyticsLog,
+  NodeAnalytics,
+} from "../../supabase/functions/_shared/flowAnalytics.ts";
+
+// Periods offered by the analytics panel of the flow builder (value in days)
+export const ANALYTICS_PERIODS = [
+  { value: "1", label: "Últimas 24 horas" },
+  { value: "7", label: "Últimos 7 dias" },
+  { value: "30", label: "Últimos 30 dias" },
+  { value: "90", label: "Últimos 90 dias" },
+];
@@ -0,0 +1,44 @@
+// Chatbot flow nodes run server-side (supabase/functions/flow-executor). The
+// node registry is shared so the flow builder lists, creates and validates
+// blocks from the same definitions the executor runs.
+export {
+  flowNodeRegistry,
+  getFlowNodeDefinition,
+  getAddableNodeTypes,
+  getDefaultNodeConfig,
+  validateNodeConfig,
+  CONDITION_ELSE_HANDLE,
+  CONDITION_OPERATORS,
+  CONDITION_SUBJECTS,
+  conditionNeedsValue,
+  MAX_LIST_OPTIONS,
+  QUESTION_INVALID_HANDLE,
+  buildQuestionListSections,
+  WAITING_FOR_BUSINESS_HOURS,
+  ANSWER_VALIDATION_TYPES,
+  DEFAULT_MAX_RETRIES,
+  getDefaultValidationMessage,
+  validateAnswer,
+  BUILTIN_FLOW_VARIABLES,
+  LEAD_FIELD_TARGETS,
+  getAvailableFlowVariables,
+  normalizeVariableName,
+  parseVariableReference,
+  replaceMessageVariables,
+} from "../../supabase/functions/_shared/flowNodes/index.ts";
+
+export type {
+  AnswerValidationType,
+  ConditionBranch,
+  ConditionRule,
+  FlowNode,
+  FlowNodeType,
+  FlowNodeDefinition,
+  FlowNodeConfigField,
+  NodeExecutionContext,
+  NodeExecutionResult,
+  QuestionListSection,
+  WhatsAppListSection,
+  WhatsAppMediaType,
+  WhatsAppSender,
+} from "../../supabase/functions/_shared/flowNodes/index.ts";
@@ -0,0 +1,304 @@
+// Test chat of the flow builder: runs a flow with the node handlers of the
+// flow-executor against an in-memory database and a fake contact. Messages
+// are captured instead of calling the WhatsApp Graph API and nothing is
+// written to Supabase.
+import {
+  FlowNode,
+  NodeExecutionContext,
+  NodeExecutionResult,
+  WAITING_FOR_BUSINESS_HOURS,
+  WhatsAppListSection,
+  WhatsAppMediaType,
+  WhatsAppSender,
+  getFlowNodeDefinition,
+} from "./flowNodes";
+import { FlowSnapshot, createFlowGraph } from "./flowVersions";
+import type { BusinessHours } from "./businessHours";
+import { createMemorySupabase, MemoryWrite } from "./memorySupabase";
+
+type Row = Record<string, unknown>;
+
+export type SimulatorStatus = "idle" | "running" | "waiting_response" | "paused" | "completed" | "failed";
+
+export interface SimulatorMessage {
+  id: number;
+  from: "bot" | "contact" | "system";
+  text: string;
+  mediaType?: WhatsAppMediaType;
+  mediaUrl?: string;
+  buttons?: { id: string; title: string }[];
+  list?: { button: string; sections: WhatsAppListSection[] };
+  link?: { text: string; url: string };
+}
+
+// Database write a node made (applied to the in-memory tables only)
+export type SimulatorWrite = MemoryWrite;
+
+export interface SimulatorState {
+  status: SimulatorStatus;
+  // Node being run, or the node the execution waits on
+  currentNodeId: string | null;
+  variables: Record<string, string>;
+  // chatbot_flow_executions.context
+  context: Record<string, unknown>;
+  nextActionAt: string | null;
+  messages: SimulatorMessage[];
+  writes: SimulatorWrite[];
+  // Ids of the nodes run so far, in order
+  path: string[];
+}
+
+export interface FlowSimulatorOptions {
+  flow: FlowSnapshot;
+  flowId: string;
+  companyId: string;
+  timezone?: string;
+  businessHours?: BusinessHours | null;
+  contactName?: string;
+  ownerFirstName?: string;
+  onChange?: (state: SimulatorState) => void;
+}
+
+const SIMULATOR_EXECUTION_ID = "simulator-execution";
+const SIMULATOR_CONTACT_ID = "simulator-contact";
+const SIMULATOR_PHONE = "5500000000000";
+
+// Same guard as the flow-executor
+const MAX_ITERATIONS = 50;
+
+export function createFlowSimulator(options: FlowSimulatorOptions) {
+  const { flow, flowId, companyId, onChange } = options;
+  const graph = createFlowGraph(flow, flowId, companyId);
+  let messageId = 0;
+
+  const state: SimulatorState = {
+    status: "idle",
+    currentNodeId: null,
+    variables: {},
+    context: {},
+    nextActionAt: null,
+    messages: [],
+    writes: [],
+    path: [],
+  };
+
+  const execution: Row = { id: SIMULATOR_EXECUTION_ID, status: "running", context: {}, current_node_id: null };
+  const tables: Record<string, Row[]> = {
+    companies: [
+      {
+        id: companyId,
+        timezone: options.timezone || "America/Sao_Paulo",
+        business_hours: options.businessHours || null,
+      },
+    ],
+    whatsapp_contacts: [
+      {
+        id: SIMULATOR_CONTACT_ID,
+        phone: SIMULATOR_PHONE,
+        normalized_phone: SIMULATOR_PHONE,
+        name: options.contactName || "Contato de teste",
+        tags: [],
+      },
+    ],
+    chatbot_flow_executions: [execution],
+    funnel_leads: [],
+  };
+
+  const { client: supabase } = createMemorySupabase(tables, {
+    applyWrites: true,
+    onWrite: (write) => {
+      state.writes = [...state.writes, write];
+    },
+  });
+
+  const emit = () => {
+    state.status = execution.status as SimulatorStatus;
+    state.context = { ...((execution.context as Row) || {}) };
+    state.nextActionAt = (execution.next_action_at as string) || null;
+    onChange?.({ ...state, variables: { ...state.variables } });
+  };
+
+  const addMessage = (message: Omit<SimulatorMessage, "id">) => {
+    state.messages = [...state.messages, { ...message, id: ++messageId }];
+  };
+
+  // Behaves like a Cloud API connection (interactive messages are shown as such) talking
+  // to a contact that just wrote, so the 24h window is never closed
+  const whatsapp: WhatsAppSender = {
+    interactive: true,
+    serviceWindow: false,
+    sendText: async (_to, text) => {
+      addMessage({ from: "bot", text });
+      return true;
+    },
+    sendMedia: async (_to, mediaType, mediaUrl, caption) => {
+      addMessage({ from: "bot", text: caption || "", mediaType, mediaUrl });
+      return true;
+    },
+    sendButtons: async (_to, bodyText, buttons) => {
+      addMessage({ from: "bot", text: bodyText, buttons });
+      return true;
+    },
+    sendList: async (_to, bodyText, buttonText, sections) => {
+      addMessage({ from: "bot", text: bodyText, list: { button: buttonText, sections } });
+      return true;
+    },
+    sendCtaUrl: async (_to, bodyText, buttonText, url) => {
+      addMessage({ from: "bot", text: bodyText, link: { text: buttonText, url } });
+      return true;
+    },
+    sendTemplate: async (_to, templateName, _language, bodyParams) => {
+      addMessage({ from: "bot", text: [`[Template: ${templateName}]`, ...bodyParams].join("\n") });
+      return true;
+    },
+  };
+
+  const createContext = (lastUserMessage?: string): NodeExecutionContext => ({
+    supabase,
+    whatsapp,
+    companyId,
+    contactId: SIMULATOR_CONTACT_ID,
+    contactPhone: SIMULATOR_PHONE,
+    executionId: SIMULATOR_EXECUTION_ID,
+    lastUserMessage,
+    ownerFirstName: options.ownerFirstName,
+    contactName: options.contactName || "Contato de teste",
+    variables: state.variables,
+    setVariable: async (name, value) => {
+      state.variables[name] = value;
+      execution.context = { ...((execution.context as Row) || {}), variables: state.variables };
+    },
+    getNextNode: async (node, sourceHandle) => graph.getNextNode(node.id, sourceHandle),
+    // Short delays are skipped, the chat only notes them
+    wait: async (ms) => {
+      addMessage({ from: "system", text: `Espera de ${Math.round(ms / 1000)}s` });
+    },
+  });
+
+  const processNode = async (node: FlowNode, context: NodeExecutionContext): Promise<NodeExecutionResult> => {
+    const definition = getFlowNodeDefinition(node.node_type);
+    if (!definition) return { shouldContinue: true, nextNode: await context.getNextNode(node) };
+    return definition.execute(node, context);
+  };
+
+  // Same loop as runNodes in the flow-executor, without the pause between nodes
+  const runNodes = async (firstNode: FlowNode, context: NodeExecutionContext) => {
+    let currentNode: FlowNode | null = firstNode;
+    let iterations = 0;
+
+    try {
+      while (currentNode && iterations < MAX_ITERATIONS) {
+        iterations++;
+        state.currentNodeId = currentNode.id;
+        state.path = [...state.path, currentNode.id];
+        emit();
+
+        const result = await processNode(currentNode, context);
+        if (!result.shouldContinue) break;
+        currentNode = result.nextNode;
+      }
+
+      if (currentNode && iterations >= MAX_ITERATIONS) {
+        execution.status = "failed";
+        addMessage({ from: "system", text: `Limite de ${MAX_ITERATIONS} blocos seguidos atingido (possível loop)` });
+      } else if (!currentNode) {
+        execution.status = "completed";
+      }
+    } catch (error) {
+      console.error("Simulator error:", error);
+      execution.status = "failed";
+      addMessage({ from: "system", text: `Erro ao executar o bloco: ${String(error)}` });
+    }
+
+    if (execution.status === "completed") addMessage({ from: "system", text: "Fluxo encerrado" });
+    emit();
+  };
+
+  // The first message of the contact starts the flow (triggers aren't checked)
+  const start = async (message: string) => {
+    addMessage({ from: "contact", text: message });
+    execution.context = { trigger_message: message };
+
+    const startNode = graph.getStartNode();
+    const firstNode = startNode ? graph.getNextNode(startNode.id) : null;
+    if (!firstNode) {
+      execution.status = "completed";
+      addMessage({ from: "system", text: "Nenhum bloco conectado ao início" });
+      emit();
+      return;
+    }
+
+    execution.status = "running";
+    await runNodes(firstNode, createContext(message));
+  };
+
+  // Reply to the node the execution waits on (question or pause), like continueExecution
+  const reply = async (input: { text?: string; buttonId?: string }) => {
+    addMessage({ from: "contact", text: input.text || "" });
+
+    if (execution.status !== "waiting_response") {
+      addMessage({ from: "system", text: "O fluxo não está aguardando resposta" });
+      emit();
+      return;
+    }
+
+    const currentNode = graph.getNode(execution.current_node_id as string);
+    const definition = currentNode && getFlowNodeDefinition(currentNode.node_type);
+    if (!currentNode || !definition?.resume) {
+      execution.status = "failed";
+      emit();
+      return;
+    }
+
+    const context = createContext(input.text);
+    const resumed = await definition.resume(currentNode, context, {
+      text: input.text,
+      buttonId: input.buttonId,
+      state: (execution.context as Row) || {},
+    });
+    if (resumed.status === "wait") {
+      emit();
+      return;
+    }
+
+    const nextNode = graph.getNextNode(currentNode.id, resumed.sourceHandle);
+    if (!nextNode) {
+      execution.status = "completed";
+      addMessage({ from: "system", text: "Fluxo encerrado" });
+      emit();
+      return;
+    }
+
+    execution.status = "running";
+    execution.current_node_id = nextNode.id;
+    await runNodes(nextNode, context);
+  };
+
+  // Skips a long delay or a transfer queued until business hours, like the flow scheduler
+  const skipWait = async () => {
+    if (execution.status !== "paused" || !execution.current_node_id) return;
+
+    const isQueuedTransfer = (execution.context as Row)?.waiting_for === WAITING_FOR_BUSINESS_HOURS;
+    const nextNode = isQueuedTransfer
+      ? graph.getNode(execution.current_node_id as string)
+      : graph.getNextNode(execution.current_node_id as string);
+
+    execution.status = "running";
+    execution.next_action_at = null;
+    addMessage({ from: "system", text: "Espera pulada" });
+
+    if (!nextNode) {
+      execution.status = "completed";
+      addMessage({ from: "system", text: "Fluxo encerrado" });
+      emit();
+      return;
+    }
+
+    execution.current_node_id = nextNode.id;
+    await runNodes(nextNode, createContext());
+  };
+
+  return { start, reply, skipWait, getState: () => state };
+}
+
+export type FlowSimulator = ReturnType<typeof createFlowSimulator>;
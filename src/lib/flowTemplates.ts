@@ -0,0 +1,160 @@
+// Built-in flows offered when creating a flow. They are stored in the export
+// format and created through the same import as exported files.
+import { FLOW_EXPORT_FORMAT, FLOW_EXPORT_VERSION, FlowExport } from "./flowTransfer";
+import { FlowSnapshotEdge, FlowSnapshotNode } from "./flowVersions";
+
+export interface FlowTemplate {
+  id: string;
+  name: string;
+  description: string;
+  file: FlowExport;
+}
+
+const ROW_HEIGHT = 180;
+
+// Nodes laid out top to bottom; `column` spreads the branches of a question
+const node = (id: string, node_type: string, row: number, config: Record<string, unknown> = {}, column = 0): FlowSnapshotNode => ({
+  id,
+  node_type,
+  position_x: 400 + column * 320,
+  position_y: 200 + row * ROW_HEIGHT,
+  config,
+});
+
+const edge = (source: string, target: string, sourceHandle: string | null = null): FlowSnapshotEdge => ({
+  id: `${source}-${sourceHandle || "next"}-${target}`,
+  source_node_id: source,
+  target_node_id: target,
+  source_handle: sourceHandle,
+  label: null,
+});
+
+const template = (
+  id: string,
+  name: string,
+  description: string,
+  nodes: FlowSnapshotNode[],
+  edges: FlowSnapshotEdge[]
+): FlowTemplate => ({
+  id,
+  name,
+  description,
+  file: {
+    format: FLOW_EXPORT_FORMAT,
+    version: FLOW_EXPORT_VERSION,
+    exported_at: "2026-01-01T00:00:00.000Z",
+    flow: { name, description, trigger_keywords: [], trigger_rules: [] },
+    nodes,
+    edges,
+    stages: [],
+  },
+});
+
+const START_CONFIG = { label: "Quando o contato iniciar conversa" };
+
+export const FLOW_TEMPLATES: FlowTemplate[] = [
+  template(
+    "lead-qualification",
+    "Qualificação de leads",
+    "Pergunta nome, interesse e orçamento, marca o lead e passa para um atendente",
+    [
+      node("start", "start", 0, START_CONFIG),
+      node("welcome", "message", 1, { message: "Olá, {{cliente}}! Sou o assistente virtual. Vou fazer algumas perguntas rápidas." }),
+      node("ask-name", "question", 2, { question: "Qual é o seu nome?", save_to_variable: "nome_lead", save_to_lead_field: "name" }),
+      node("ask-interest", "question", 3, {
+        question: "Prazer, {{var.nome_lead}}! O que você procura?",
+        options: ["Comprar", "Conhecer os planos", "Outro assunto"],
+        save_to_variable: "interesse",
+      }),
+      node("ask-budget", "question", 4, {
+        question: "Qual é o seu orçamento aproximado?",
+        options: ["Até R$ 1.000", "R$ 1.000 a R$ 5.000", "Acima de R$ 5.000"],
+        save_to_variable: "orcamento",
+      }),
+      node("tag", "action", 5, { action_type: "add_tag", action_value: "qualificado" }),
+      node("transfer", "transfer", 6, {
+        message: "Obrigado! Um consultor vai continuar o atendimento em instantes.",
+        out_of_hours_message: "Obrigado! Nosso time responde assim que o atendimento abrir.",
+      }),
+      node("other", "transfer", 4, { message: "Certo! Vou chamar alguém da equipe para te ajudar." }, 1),
+    ],
+    [
+      edge("start", "welcome"),
+      edge("welcome", "ask-name"),
+      edge("ask-name", "ask-interest"),
+      edge("ask-interest", "ask-budget", "option-0"),
+      edge("ask-interest", "ask-budget", "option-1"),
+      edge("ask-interest", "other", "option-2"),
+      edge("ask-budget", "tag", "option-0"),
+      edge("ask-budget", "tag", "option-1"),
+      edge("ask-budget", "tag", "option-2"),
+      edge("tag", "transfer"),
+    ]
+  ),
+  template(
+    "appointment-booking",
+    "Agendamento",
+    "Coleta o período e o dia preferidos e confirma o pedido de agendamento",
+    [
+      node("start", "start", 0, START_CONFIG),
+      node("welcome", "message", 1, { message: "Olá, {{cliente}}! Vamos agendar o seu horário." }),
+      node("ask-period", "question", 2, {
+        question: "Qual período você prefere?",
+        options: ["Manhã", "Tarde", "Noite"],
+        save_to_variable: "periodo",
+      }),
+      node("ask-date", "question", 3, {
+        question: "Qual dia fica melhor para você? (ex: 15/03/2026)",
+        save_to_variable: "data_preferida",
+        validation: "date",
+      }),
+      node("tag", "action", 4, { action_type: "add_tag", action_value: "agendamento" }),
+      node("confirm", "message", 5, {
+        message: "Anotado: {{var.data_preferida}}, período: {{var.periodo}}. Nossa equipe vai confirmar o horário por aqui.",
+      }),
+      node("transfer", "transfer", 6, { message: "Um atendente vai confirmar o seu horário." }),
+      node("invalid", "transfer", 4, { message: "Vou chamar alguém da equipe para combinar a data com você." }, 1),
+    ],
+    [
+      edge("start", "welcome"),
+      edge("welcome", "ask-period"),
+      edge("ask-period", "ask-date", "option-0"),
+      edge("ask-period", "ask-date", "option-1"),
+      edge("ask-period", "ask-date", "option-2"),
+      edge("ask-date", "tag"),
+      edge("ask-date", "invalid", "invalid"),
+      edge("tag", "confirm"),
+      edge("confirm", "transfer"),
+    ]
+  ),
+  template(
+    "faq",
+    "Perguntas frequentes",
+    "Menu com as dúvidas mais comuns e opção de falar com um atendente",
+    [
+      node("start", "start", 0, START_CONFIG),
+      node("menu", "question", 1, {
+        question: "Olá, {{cliente}}! Sobre o que você quer saber?",
+        options: ["Horário de funcionamento", "Formas de pagamento", "Prazo de entrega", "Falar com atendente"],
+      }),
+      node("hours", "message", 2, { message: "Atendemos de segunda a sexta, das 9h às 18h." }, -1),
+      node("payment", "message", 2, { message: "Aceitamos Pix, cartão de crédito em até 12x e boleto." }, 0),
+      node("delivery", "message", 2, { message: "O prazo de entrega é de 3 a 7 dias úteis após a confirmação do pagamento." }, 1),
+      node("more", "question", 3, { question: "Posso ajudar em algo mais?", options: ["Sim", "Não"] }),
+      node("end", "end", 4, {}, 1),
+      node("transfer", "transfer", 4, { message: "Vou te passar para um atendente. Só um momento!" }, -1),
+    ],
+    [
+      edge("start", "menu"),
+      edge("menu", "hours", "option-0"),
+      edge("menu", "payment", "option-1"),
+      edge("menu", "delivery", "option-2"),
+      edge("menu", "transfer", "option-3"),
+      edge("hours", "more"),
+      edge("payment", "more"),
+      edge("delivery", "more"),
+      edge("more", "menu", "option-0"),
+      edge("more", "end", "option-1"),
+    ]
+  ),
+];
@@ -0,0 +1,167 @@
+// Export of a chatbot flow (flow row + draft nodes and edges) to a versioned
+// JSON file, and import into a company with new ids. Move-stage actions point
+// to stages of the source company, so the import maps them to local stages.
+import type { FlowTriggerRule } from "./flowTriggers";
+import { FlowSnapshot, FlowSnapshotEdge, FlowSnapshotNode } from "./flowVersions";
+
+export const FLOW_EXPORT_FORMAT = "chatbot-flow";
+export const FLOW_EXPORT_VERSION = 1;
+
+export interface FlowExportStage {
+  id: string;
+  name: string;
+  funnel_name: string | null;
+}
+
+export interface FlowExport extends FlowSnapshot {
+  format: typeof FLOW_EXPORT_FORMAT;
+  version: number;
+  exported_at: string;
+  flow: {
+    name: string;
+    description: string | null;
+    trigger_keywords: string[];
+    trigger_rules: FlowTriggerRule[];
+  };
+  // Stages referenced by the flow, so the import can match them by name
+  stages: FlowExportStage[];
+}
+
+export interface FlowImportStage {
+  id: string;
+  name: string;
+  funnel_id: string;
+  funnel_name: string | null;
+}
+
+export interface FlowImportMapping {
+  // Source stage id -> stage of the target company (null clears the action)
+  stages: Record<string, FlowImportStage | null>;
+  // Tag of the file -> tag used in the target company
+  tags: Record<string, string>;
+}
+
+const isTagAction = (node: FlowSnapshotNode) =>
+  node.node_type === "action" && ["add_tag", "remove_tag"].includes(node.config?.action_type as string);
+
+const isStageAction = (node: FlowSnapshotNode) =>
+  node.node_type === "action" && node.config?.action_type === "move_stage";
+
+export function getFlowStageIds(nodes: FlowSnapshotNode[]): string[] {
+  const ids = nodes.filter(isStageAction).map((node) => node.config.stage_id as string).filter(Boolean);
+  return [...new Set(ids)];
+}
+
+export function getFlowTags(nodes: FlowSnapshotNode[]): string[] {
+  const tags = nodes.filter(isTagAction).map((node) => ((node.config.action_value as string) || "").trim()).filter(Boolean);
+  return [...new Set(tags)];
+}
+
+export function createFlowExport(
+  flow: { name: string; description: string | null; trigger_keywords: string[] | null; trigger_rules: FlowTriggerRule[] | null },
+  snapshot: FlowSnapshot,
+  stages: FlowExportStage[]
+): FlowExport {
+  return {
+    format: FLOW_EXPORT_FORMAT,
+    version: FLOW_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    flow: {
+      name: flow.name,
+      description: flow.description,
+      trigger_keywords: flow.trigger_keywords || [],
+      trigger_rules: flow.trigger_rules || [],
+    },
+    nodes: snapshot.nodes,
+    edges: snapshot.edges,
+    stages,
+  };
+}
+
+// Reads an exported file, throwing a message that can be shown to the user
+export function parseFlowExport(text: string): FlowExport {
+  let data: Partial<FlowExport>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("O arquivo não é um JSON válido");
+  }
+
+  if (!data || data.format !== FLOW_EXPORT_FORMAT) throw new Error("O arquivo não é um fluxo exportado");
+  if (typeof data.version !== "number" || data.version > FLOW_EXPORT_VERSION) {
+    throw new Error("Versão do arquivo não suportada - atualize a página e tente novamente");
+  }
+  if (!data.flow?.name || !Array.isArray(data.nodes) || !Array.isArray(data.edges)) {
+    throw new Error("O arquivo está incompleto");
+  }
+  if (!data.nodes.some((node) => node.node_type === "start")) throw new Error("O fluxo do arquivo não tem bloco inicial");
+
+  return { ...data, stages: data.stages || [] } as FlowExport;
+}
+
+const sameName = (a: string | null | undefined, b: string | null | undefined) =>
+  (a || "").trim().toLowerCase() === (b || "").trim().toLowerCase();
+
+// Stages with the same name (preferring the same funnel name), tags with the same spelling ignoring case
+export function suggestFlowImportMapping(
+  file: FlowExport,
+  targetStages: FlowImportStage[],
+  targetTags: string[]
+): FlowImportMapping {
+  const stages: FlowImportMapping["stages"] = {};
+  for (const stageId of getFlowStageIds(file.nodes)) {
+    const source = file.stages.find((stage) => stage.id === stageId);
+    const candidates = source ? targetStages.filter((stage) => sameName(stage.name, source.name)) : [];
+    stages[stageId] = candidates.find((stage) => sameName(stage.funnel_name, source?.funnel_name)) || candidates[0] || null;
+  }
+
+  const tags: FlowImportMapping["tags"] = {};
+  for (const tag of getFlowTags(file.nodes)) {
+    tags[tag] = targetTags.find((existing) => sameName(existing, tag)) || tag;
+  }
+
+  return { stages, tags };
+}
+
+// Nodes and edges of the file with new ids and the stage/tag references of the target company
+export function remapFlowImport(
+  file: FlowSnapshot,
+  mapping: FlowImportMapping,
+  createId: () => string = () => crypto.randomUUID()
+): FlowSnapshot {
+  const nodeIds = new Map(file.nodes.map((node) => [node.id, createId()]));
+
+  const nodes: FlowSnapshotNode[] = file.nodes.map((node) => {
+    let config = { ...(node.config || {}) };
+
+    if (isStageAction(node)) {
+      const stage = mapping.stages[config.stage_id as string];
+      config = stage
+        ? { ...config, stage_id: stage.id, funnel_id: stage.funnel_id, action_value: stage.name }
+        : { ...config, stage_id: "", funnel_id: "" };
+    }
+
+    if (isTagAction(node)) {
+      const tag = ((config.action_value as string) || "").trim();
+      config = { ...config, action_value: mapping.tags[tag] || tag };
+    }
+
+    // Queues belong to the source company; imported transfers start without one
+    if (node.node_type === "transfer" && config.queue_id) {
+      config = { ...config, queue_id: "" };
+    }
+
+    return { ...node, id: nodeIds.get(node.id)!, config };
+  });
+
+  const edges: FlowSnapshotEdge[] = file.edges
+    .filter((edge) => nodeIds.has(edge.source_node_id) && nodeIds.has(edge.target_node_id))
+    .map((edge) => ({
+      ...edge,
+      id: createId(),
+      source_node_id: nodeIds.get(edge.source_node_id)!,
+      target_node_id: nodeIds.get(edge.target_node_id)!,
+    }));
+
+  return { nodes, edges };
+}
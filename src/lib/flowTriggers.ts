@@ -0,0 +1,25 @@
+// Chatbot flows are picked server-side (supabase/functions/flow-executor). The
+// trigger rules are shared so the flow builder validates and describes them
+// with the same logic that matches incoming messages.
+export {
+  FLOW_TRIGGER_TYPES,
+  KEYWORD_MATCH_MODES,
+  GREETING_PATTERNS,
+  getFlowTriggerRules,
+  needsMessageHistory,
+  matchesKeyword,
+  matchesTriggerRule,
+  validateTriggerRule,
+  selectTriggeredFlow,
+  describeTriggerRule,
+} from "../../supabase/functions/_shared/flowTriggers.ts";
+
+export type {
+  FlowTriggerType,
+  KeywordMatchMode,
+  FlowTriggerRule,
+  FlowTriggerReferral,
+  FlowTriggerEvent,
+  TriggerFlow,
+  TriggerMatch,
+} from "../../supabase/functions/_shared/flowTriggers.ts";
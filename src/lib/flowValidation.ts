@@ -0,0 +1,13 @@
+// Flows are validated before they are published or activated. The checks
+// are shared with the edge functions so a flow that passes here is one the
+// flow-executor can run end to end.
+export {
+  WHATSAPP_WINDOW_HOURS,
+  validateFlow,
+  hasBlockingIssues,
+} from "../../supabase/functions/_shared/flowValidation.ts";
+
+export type {
+  FlowIssueSeverity,
+  FlowValidationIssue,
+} from "../../supabase/functions/_shared/flowValidation.ts";
@@ -0,0 +1,18 @@
+// Flows run from published snapshots (supabase/functions/flow-executor). The
+// snapshot and diff helpers are shared so the flow builder publishes and
+// compares versions with the same shape the executor reads.
+export {
+  createFlowSnapshot,
+  diffFlowSnapshots,
+  hasFlowChanges,
+  createFlowGraph,
+} from "../../supabase/functions/_shared/flowVersions.ts";
+
+export type {
+  FlowSnapshotNode,
+  FlowSnapshotEdge,
+  FlowSnapshot,
+  FlowVersion,
+  FlowSnapshotDiff,
+  FlowGraph,
+} from "../../supabase/functions/_shared/flowVersions.ts";
@@ -0,0 +1,125 @@
+// In-memory stand-in for the Supabase client, shared by the test chat of the
+// flow builder (flowSimulator) and the unit tests so both see the same query
+// semantics: .eq/.neq/.in filter rows and .limit caps them, the other filters
+// are accepted and ignored.
+type Row = Record<string, unknown>;
+
+export type MemoryWriteOp = "insert" | "update" | "upsert" | "delete";
+
+export interface MemoryWrite {
+  table: string;
+  op: MemoryWriteOp;
+  values: unknown;
+}
+
+// One query made through the client
+export interface MemoryCall {
+  table: string;
+  op: "select" | MemoryWriteOp;
+  values?: unknown;
+  // Values of the .eq() filters
+  filters: Record<string, unknown>;
+}
+
+export interface MemorySupabaseOptions {
+  // Apply writes to the tables; otherwise they are only recorded and return the written values
+  applyWrites?: boolean;
+  onWrite?: (write: MemoryWrite) => void;
+}
+
+export function createMemorySupabase(
+  tables: Record<string, Row[]> = {},
+  { applyWrites = false, onWrite }: MemorySupabaseOptions = {}
+) {
+  const calls: MemoryCall[] = [];
+  let nextId = 1;
+
+  const from = (table: string) => {
+    const call: MemoryCall = { table, op: "select", filters: {} };
+    const predicates: ((row: Row) => boolean)[] = [];
+    let limit = Infinity;
+    // Writes run once, however many times the builder is awaited
+    let written: Row[] | null = null;
+    calls.push(call);
+
+    const rows = () => (tables[table] || []).filter((row) => predicates.every((predicate) => predicate(row)));
+
+    const write = (op: MemoryWriteOp): Row[] => {
+      onWrite?.({ table, op, values: call.values });
+      const values = (Array.isArray(call.values) ? call.values : [call.values]) as Row[];
+      if (!applyWrites) return values;
+
+      if (op === "insert" || op === "upsert") {
+        const inserted = values.map((row) => ({ id: `memory-${nextId++}`, ...row }));
+        tables[table] = [...(tables[table] || []), ...inserted];
+        return inserted;
+      }
+
+      const matched = rows();
+      if (op === "delete") {
+        tables[table] = (tables[table] || []).filter((row) => !matched.includes(row));
+      } else {
+        matched.forEach((row) => Object.assign(row, call.values as Row));
+      }
+      return matched;
+    };
+
+    const result = (): Row[] => {
+      if (call.op === "select") return rows().slice(0, limit);
+      if (!written) written = write(call.op);
+      return written;
+    };
+
+    const setWrite = (op: MemoryWriteOp) => (values?: unknown) => {
+      call.op = op;
+      call.values = values;
+      return builder;
+    };
+
+    const builder = {
+      select: () => builder,
+      insert: setWrite("insert"),
+      update: setWrite("update"),
+      upsert: setWrite("upsert"),
+      delete: setWrite("delete"),
+      eq: (column: string, value: unknown) => {
+        call.filters[column] = value;
+        predicates.push((row) => row[column] === value);
+        return builder;
+      },
+      neq: (column: string, value: unknown) => {
+        predicates.push((row) => row[column] !== value);
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        predicates.push((row) => values.includes(row[column]));
+        return builder;
+      },
+      is: () => builder,
+      contains: () => builder,
+      ilike: () => builder,
+      or: () => builder,
+      not: () => builder,
+      gte: () => builder,
+      lte: () => builder,
+      order: () => builder,
+      range: () => builder,
+      limit: (count: number) => {
+        limit = count;
+        return builder;
+      },
+      single: async () => ({ data: result()[0] ?? null, error: null }),
+      maybeSingle: async () => ({ data: result()[0] ?? null, error: null }),
+      // `count` answers select("id", { count: "exact", head: true })
+      then: (resolve: (value: { data: Row[]; error: null; count: number | null }) => unknown) =>
+        Promise.resolve({ data: result(), error: null, count: call.op === "select" ? rows().length : null }).then(resolve),
+    };
+
+    return builder;
+  };
+
+  return {
+    client: { from, rpc: async () => ({ data: null, error: null }) },
+    calls,
+  };
+}
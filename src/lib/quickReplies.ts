@@ -0,0 +1,96 @@
+// Quick replies: company text snippets (with an optional media attachment)
+// inserted in the chat from the "/" menu. Placeholders are filled in the
+// browser from the contact and its lead before the agent sends the text.
+
+export type QuickReplyMediaType = "image" | "video" | "audio" | "document";
+
+export interface QuickReply {
+  id: string;
+  shortcut: string;
+  title: string;
+  content: string;
+  media_url: string | null;
+  media_type: QuickReplyMediaType | null;
+  media_filename: string | null;
+  is_favorite: boolean;
+}
+
+export interface QuickReplyValues {
+  contactName?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  stageName?: string | null;
+  leadValue?: number | null;
+  agentName?: string | null;
+}
+
+export const QUICK_REPLY_VARIABLES = [
+  { key: "{{cliente}}", label: "Nome do contato" },
+  { key: "{{primeiro_nome}}", label: "Primeiro nome" },
+  { key: "{{telefone}}", label: "Telefone" },
+  { key: "{{email}}", label: "E-mail do lead" },
+  { key: "{{etapa}}", label: "Etapa do lead" },
+  { key: "{{valor}}", label: "Valor do lead" },
+  { key: "{{atendente}}", label: "Seu nome" },
+];
+
+// Shortcuts are typed after "/": lowercase, no spaces or accents ("Boas Vindas" -> "boas-vindas")
+export function normalizeShortcut(shortcut: string): string {
+  return shortcut
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim()
+    .replace(/^\/+/, "")
+    .replace(/\s+/g, "-")
+    .replace(/[^a-z0-9_-]/g, "");
+}
+
+export function formatLeadValue(value: number): string {
+  return value.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+// Placeholders without a value become empty, like in the chatbot messages
+export function renderQuickReply(text: string, values: QuickReplyValues): string {
+  const contactName = (values.contactName || "").trim();
+  const replacements: Record<string, string> = {
+    cliente: contactName,
+    contato: contactName,
+    primeiro_nome: contactName.split(" ")[0],
+    telefone: values.phone || "",
+    email: values.email || "",
+    etapa: values.stageName || "",
+    valor: values.leadValue !== null && values.leadValue !== undefined ? formatLeadValue(values.leadValue) : "",
+    atendente: (values.agentName || "").split(" ")[0],
+  };
+
+  return text.replace(/\{\{\s*([a-z_]+)\s*\}\}/gi, (match, key: string) => {
+    const value = replacements[key.toLowerCase()];
+    return value === undefined ? match : value;
+  });
+}
+
+// Favorites first, then shortcuts starting with the query, then the other matches
+export function searchQuickReplies(replies: QuickReply[], query: string): QuickReply[] {
+  const search = query.trim().replace(/^\//, "").toLowerCase();
+  const rank = (reply: QuickReply) => {
+    if (!search) return 0;
+    if (reply.shortcut.startsWith(search)) return 0;
+    return 1;
+  };
+
+  return replies
+    .filter(
+      (reply) =>
+        !search ||
+        reply.shortcut.includes(search) ||
+        reply.title.toLowerCase().includes(search) ||
+        reply.content.toLowerCase().includes(search)
+    )
+    .sort(
+      (a, b) =>
+        Number(b.is_favorite) - Number(a.is_favorite) ||
+        rank(a) - rank(b) ||
+        a.shortcut.localeCompare(b.shortcut)
+    );
+}
@@ -0,0 +1,11 @@
+// The 24h window is enforced by whatsapp-cloud-send and the flow-executor;
+// the chat uses the same rule for the header countdown and to switch the
+// composer to templates.
+export {
+  META_WINDOW_CLOSED_ERROR,
+  SERVICE_WINDOW_CLOSED,
+  SERVICE_WINDOW_MS,
+  getServiceWindowExpiry,
+  getServiceWindowRemainingMs,
+  isServiceWindowOpen,
+} from "../../supabase/functions/_shared/serviceWindow.ts";
@@ -0,0 +1,13 @@
+// Campaigns are sent by the whatsapp-broadcast function; the CRM builds the
+// per-lead components with the same code to preview the message and to warn
+// about leads that would fail before the campaign is queued.
+export {
+  buildBroadcastComponents,
+  getBroadcastBatchSize,
+  getBroadcastRateLimit,
+} from "../../supabase/functions/_shared/whatsappBroadcasts.ts";
+export type {
+  BroadcastRateLimit,
+  BroadcastStatus,
+  MessagingTier,
+} from "../../supabase/functions/_shared/whatsappBroadcasts.ts";
@@ -0,0 +1,19 @@
+// Template parameters are built and checked with the same rules in the send
+// dialog and in whatsapp-templates, which validates them again before calling
+// the Graph API.
+export {
+  buildTemplateComponents,
+  getTemplateFields,
+  getTemplateParamCount,
+  renderTemplatePreview,
+  suggestTemplateParamField,
+  validateTemplateComponents,
+} from "../../supabase/functions/_shared/whatsappTemplates.ts";
+export type {
+  TemplateFields,
+  TemplateParamField,
+  TemplateParams,
+  TemplatePreview,
+  TemplateSendComponent,
+  TemplateUrlButton,
+} from "../../supabase/functions/_shared/whatsappTemplates.ts";
@@ -1,7 +1,13 @@
 import { useState, useEffect, useRef } from "react";
 import { MainLayout } from "@/components/layout/MainLayout";
 import { FlowBuilderCanvas } from "@/components/chatbot/FlowBuilderCanvas";
-import { useChatbotFlows } from "@/hooks/useChatbotFlows";
+import { DelayedExecutionsCard } from "@/components/chatbot/DelayedExecutionsCard";
+import { NewFlowDialog } from "@/components/chatbot/NewFlowDialog";
+import { FlowImportDialog } from "@/components/chatbot/FlowImportDialog";
+import { ChatbotFlow, useChatbotFlows, useFlowTransfer } from "@/hooks/useChatbotFlows";
+import { FlowTemplate } from "@/lib/flowTemplates";
+import { FlowExport } from "@/lib/flowTransfer";
+import { getFlowTriggerRules } from "@/lib/flowTriggers";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -18,6 +24,7 @@ import {
   Pencil,
   Trash2,
   Copy,
+  Download,
   Loader2
 } from "lucide-react";
 import {
@@ -29,12 +36,27 @@ import {
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 
+const downloadJson = (filename: string, data: unknown) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
 export default function Chatbot() {
   const [editingFlowId, setEditingFlowId] = useState<string | null>(null);
   const [isCreatingDefault, setIsCreatingDefault] = useState(false);
   const [hasDismissedEditor, setHasDismissedEditor] = useState(false);
   const hasTriedCreating = useRef(false);
+  const [showNewFlow, setShowNewFlow] = useState(false);
+  const [importFile, setImportFile] = useState<FlowExport | null>(null);
   const { flows, loadingFlows, createFlow, toggleFlow, deleteFlow } = useChatbotFlows();
+  const { exportFlow, importFlow } = useFlowTransfer();
 
   // CRITICAL: Auto-create default flow if none exists - MUST ALWAYS RUN
   useEffect(() => {
@@ -79,16 +101,47 @@ export default function Chatbot() {
     setEditingFlowId(flowId);
   };
 
+  const openCreatedFlow = (flow: ChatbotFlow) => {
+    setShowNewFlow(false);
+    setImportFile(null);
+    setHasDismissedEditor(false);
+    setEditingFlowId(flow.id);
+  };
+
   const handleCreateFlow = async () => {
     try {
-      const flow = await createFlow.mutateAsync({ name: "Novo Fluxo" });
-      setHasDismissedEditor(false);
-      setEditingFlowId(flow.id);
+      openCreatedFlow(await createFlow.mutateAsync({ name: "Novo Fluxo" }));
     } catch (error) {
       console.error("Error creating flow:", error);
     }
   };
 
+  // Templates only use tags, so they are created without a mapping step
+  const handleCreateFromTemplate = async (template: FlowTemplate) => {
+    try {
+      openCreatedFlow(
+        await importFlow.mutateAsync({ file: template.file, name: template.name, mapping: { stages: {}, tags: {} } })
+      );
+    } catch (error) {
+      console.error("Error creating flow from template:", error);
+    }
+  };
+
+  const handleImportFile = (file: FlowExport) => {
+    setShowNewFlow(false);
+    setImportFile(file);
+  };
+
+  const handleExportFlow = async (flow: ChatbotFlow) => {
+    try {
+      const file = await exportFlow.mutateAsync(flow.id);
+      const slug = flow.name.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+      downloadJson(`${slug || "fluxo"}.flow.json`, file);
+    } catch (error) {
+      console.error("Error exporting flow:", error);
+    }
+  };
+
   const editingFlow = flows.find(f => f.id === editingFlowId);
 
   const activeFlows = flows?.filter(f => f.is_active) || [];
@@ -197,7 +250,7 @@ export default function Chatbot() {
               Crie e gerencie fluxos de automação para o chatbot
             </CardDescription>
           </div>
-          <Button onClick={handleCreateFlow} className="gap-2">
+          <Button onClick={() => setShowNewFlow(true)} className="gap-2">
             <Plus className="w-4 h-4" />
             Novo Fluxo
           </Button>
@@ -220,6 +273,9 @@ export default function Chatbot() {
                         {flow.is_default && (
                           <Badge variant="secondary" className="text-xs">Padrão</Badge>
                         )}
+                        {!flow.published_version_id && (
+                          <Badge variant="outline" className="text-xs">Não publicado</Badge>
+                        )}
                       </div>
                       <p className="text-sm text-muted-foreground">
                         {flow.description || "Sem descrição"}
@@ -229,10 +285,10 @@ export default function Chatbot() {
                           <Clock className="w-3 h-3" />
                           Atualizado {format(new Date(flow.updated_at), "dd MMM", { locale: ptBR })}
                         </span>
-                        {flow.trigger_keywords && flow.trigger_keywords.length > 0 && (
+                        {getFlowTriggerRules(flow).length > 0 && (
                           <span className="flex items-center gap-1">
                             <Zap className="w-3 h-3" />
-                            {flow.trigger_keywords.length} gatilho(s)
+                            {getFlowTriggerRules(flow).length} gatilho(s)
                           </span>
                         )}
                       </div>
@@ -259,6 +315,10 @@ export default function Chatbot() {
                           <Copy className="w-4 h-4 mr-2" />
                           Duplicar
                         </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => handleExportFlow(flow)}>
+                          <Download className="w-4 h-4 mr-2" />
+                          Exportar
+                        </DropdownMenuItem>
                         <DropdownMenuItem 
                           className="text-destructive"
                           onClick={() => deleteFlow.mutate(flow.id)}
@@ -281,7 +341,7 @@ export default function Chatbot() {
               <p className="text-sm text-muted-foreground mb-4">
                 Crie seu primeiro fluxo de automação para o chatbot
               </p>
-              <Button onClick={handleCreateFlow} className="gap-2">
+              <Button onClick={() => setShowNewFlow(true)} className="gap-2">
                 <Plus className="w-4 h-4" />
                 Criar Primeiro Fluxo
               </Button>
@@ -289,6 +349,23 @@ export default function Chatbot() {
           )}
         </CardContent>
       </Card>
+
+      <DelayedExecutionsCard />
+
+      <NewFlowDialog
+        open={showNewFlow}
+        onOpenChange={setShowNewFlow}
+        onCreateBlank={handleCreateFlow}
+        onSelectTemplate={handleCreateFromTemplate}
+        onImportFile={handleImportFile}
+        isCreating={createFlow.isPending || importFlow.isPending}
+      />
+
+      <FlowImportDialog
+        file={importFile}
+        onOpenChange={(open) => !open && setImportFile(null)}
+        onImported={openCreatedFlow}
+      />
     </MainLayout>
   );
 }
@@ -33,6 +33,7 @@ import {
   Eye,
   Users,
   Loader2,
+  Megaphone,
 } from "lucide-react";
 import { useAllLeads } from "@/hooks/useAllLeads";
 import { ImportLeadsDialog } from "@/components/leads/ImportLeadsDialog";
@@ -40,6 +41,8 @@ import { ExportLeadsDialog } from "@/components/leads/ExportLeadsDialog";
 import { CreateLeadDialogGlobal } from "@/components/leads/CreateLeadDialogGlobal";
 import { BulkActionsBar } from "@/components/leads/BulkActionsBar";
 import { BulkEmailDialog } from "@/components/leads/BulkEmailDialog";
+import { BulkWhatsAppDialog } from "@/components/leads/BulkWhatsAppDialog";
+import { WhatsAppBroadcastsDialog } from "@/components/leads/WhatsAppBroadcastsDialog";
 import { LeadDetailsDialog } from "@/components/funnels/LeadDetailsDialog";
 import { LeadFilters, initialLeadFilters, type LeadFiltersState } from "@/components/leads/LeadFilters";
 import { WhatsAppChoiceDialog, useWhatsAppChoice } from "@/components/whatsapp/WhatsAppChoiceDialog";
@@ -86,6 +89,9 @@ export default function Leads() {
   const [showExportDialog, setShowExportDialog] = useState(false);
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [showEmailDialog, setShowEmailDialog] = useState(false);
+  // Leads of the WhatsApp campaign being created (filtered or selected)
+  const [broadcastLeads, setBroadcastLeads] = useState<FunnelLead[] | null>(null);
+  const [showBroadcastsDialog, setShowBroadcastsDialog] = useState(false);
   const [selectedLead, setSelectedLead] = useState<FunnelLead | null>(null);
   const [filters, setFilters] = useState<LeadFiltersState>(initialLeadFilters);
   const whatsAppChoice = useWhatsAppChoice();
@@ -219,6 +225,19 @@ export default function Leads() {
         {/* Header */}
         <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
           <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setShowBroadcastsDialog(true)}>
+              <Megaphone className="w-4 h-4 mr-2" />
+              Campanhas
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setBroadcastLeads(filteredLeads)}
+              disabled={filteredLeads.length === 0}
+            >
+              <MessageCircle className="w-4 h-4 mr-2" />
+              Disparo WhatsApp
+            </Button>
             <Button variant="outline" size="sm" onClick={() => setShowImportDialog(true)}>
               <Upload className="w-4 h-4 mr-2" />
               Importar
@@ -278,6 +297,7 @@ export default function Leads() {
             onRemoveTags={handleBulkRemoveTags}
             onDelete={handleBulkDelete}
             onSendEmail={() => setShowEmailDialog(true)}
+            onSendWhatsApp={() => setBroadcastLeads(selectedLeadsData)}
             isProcessing={isProcessing}
           />
         )}
@@ -487,6 +507,14 @@ export default function Leads() {
         leads={selectedLeadsData}
       />
 
+      <BulkWhatsAppDialog
+        open={!!broadcastLeads}
+        onOpenChange={(open) => !open && setBroadcastLeads(null)}
+        leads={broadcastLeads || []}
+      />
+
+      <WhatsAppBroadcastsDialog open={showBroadcastsDialog} onOpenChange={setShowBroadcastsDialog} />
+
       <WhatsAppChoiceDialog
         open={whatsAppChoice.isOpen}
         onOpenChange={whatsAppChoice.setIsOpen}
@@ -21,10 +21,13 @@ import {
   Bell,
   Loader2,
   Upload,
+  Clock,
 } from "lucide-react";
 import { WhatsAppSetup } from "@/components/whatsapp/WhatsAppSetup";
 import { WebhookConfigDialog } from "@/components/settings/WebhookConfigDialog";
+import { BusinessHoursSettings } from "@/components/settings/BusinessHoursSettings";
 import { TeamManagement } from "@/components/team/TeamManagement";
+import { QueueManagement } from "@/components/team/QueueManagement";
 import { useAuth } from "@/hooks/useAuth";
 import { useNotifications } from "@/hooks/useNotifications";
 import { useProfileSettings } from "@/hooks/useProfileSettings";
@@ -165,7 +168,7 @@ export default function Settings() {
   return (
     <MainLayout title="Configurações" subtitle="Gerencie sua conta e preferências">
       <Tabs defaultValue="profile" className="space-y-6">
-        <TabsList className="grid w-full max-w-3xl grid-cols-6">
+        <TabsList className="grid w-full max-w-4xl grid-cols-7">
           <TabsTrigger value="profile" className="gap-2">
             <User className="w-4 h-4" />
             <span className="hidden sm:inline">Perfil</span>
@@ -174,6 +177,10 @@ export default function Settings() {
             <Building className="w-4 h-4" />
             <span className="hidden sm:inline">Empresa</span>
           </TabsTrigger>
+          <TabsTrigger value="business-hours" className="gap-2">
+            <Clock className="w-4 h-4" />
+            <span className="hidden sm:inline">Atendimento</span>
+          </TabsTrigger>
           <TabsTrigger value="whatsapp" className="gap-2">
             <MessageCircle className="w-4 h-4" />
             <span className="hidden sm:inline">WhatsApp</span>
@@ -414,6 +421,13 @@ export default function Settings() {
           </motion.div>
         </TabsContent>
 
+        {/* Business Hours Tab */}
+        <TabsContent value="business-hours">
+          <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="max-w-3xl">
+            <BusinessHoursSettings />
+          </motion.div>
+        </TabsContent>
+
         {/* WhatsApp Tab */}
         <TabsContent value="whatsapp">
           <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="max-w-2xl">
@@ -476,8 +490,9 @@ export default function Settings() {
         </TabsContent>
 
         {/* Team Tab */}
-        <TabsContent value="team">
+        <TabsContent value="team" className="space-y-6">
           <TeamManagement />
+          <QueueManagement />
         </TabsContent>
 
         {/* Billing Tab */}
@@ -0,0 +1,170 @@
+import { describe, it, expect } from "vitest";
+import {
+  AutomationLead,
+  AutomationRule,
+  AutomationStep,
+  buildTriggerContexts,
+  evaluateConditions,
+  findAutomationCycle,
+  findStep,
+  getNextStepId,
+  matchesTrigger,
+  previewSteps,
+} from "@/lib/automationEngine";
+
+const now = new Date("2026-01-24T12:00:00Z");
+
+const lead: AutomationLead = {
+  id: "lead-1",
+  stage_id: "stage-1",
+  name: "Maria Souza",
+  email: "maria@exemplo.com",
+  phone: "5511999990000",
+  value: 1500,
+  source: "Meta Ads",
+  tags: ["quente"],
+  custom_fields: { cidade: "Campinas" },
+  created_at: "2026-01-10T12:00:00Z",
+  stage_entered_at: "2026-01-23T12:00:00Z",
+};
+
+const automation = (overrides: Partial<AutomationRule> = {}): AutomationRule => ({
+  id: "automation-1",
+  name: "Automação",
+  trigger_type: "lead_updated",
+  trigger_config: {},
+  conditions: [],
+  action_type: "send_notification",
+  action_config: { message: "Olá" },
+  ...overrides,
+});
+
+const steps: AutomationStep[] = [
+  { id: "tag", type: "action", action_type: "add_tag", action_config: { tag: "vip" } },
+  {
+    id: "check",
+    type: "condition",
+    conditions: [{ field: "tags", operator: "has_any_of", value: "vip" }],
+    then_steps: [{ id: "notify", type: "action", action_type: "send_notification", action_config: { message: "VIP" } }],
+    else_steps: [],
+  },
+  { id: "wait", type: "delay", delay_minutes: 60 },
+];
+
+describe("automation triggers", () => {
+  it("builds the events of a lead insert and update", () => {
+    expect(buildTriggerContexts(lead).map((c) => c.event)).toEqual(["lead_created"]);
+
+    const updated = { ...lead, tags: ["quente", "vip"], value: 2000 };
+    const contexts = buildTriggerContexts(updated, lead);
+    expect(contexts.map((c) => c.event)).toEqual(["lead_updated", "tag_added", "value_changed"]);
+    expect(contexts[1].addedTag).toBe("vip");
+  });
+
+  it("ignores bookkeeping-only updates such as drag and drop", () => {
+    expect(buildTriggerContexts({ ...lead, position: 3 } as AutomationLead, { ...lead, position: 1 } as AutomationLead)).toEqual([]);
+  });
+
+  it("matches the configured stage, tag and time in stage", () => {
+    const created = automation({ trigger_type: "lead_created", trigger_config: { stage_id: "stage-2" } });
+    expect(matchesTrigger(created, { event: "lead_created", lead })).toBe(false);
+    expect(matchesTrigger(created, { event: "lead_created", lead: { ...lead, stage_id: "stage-2" } })).toBe(true);
+
+    const tagged = automation({ trigger_type: "tag_added", trigger_config: { tag: "vip" } });
+    expect(matchesTrigger(tagged, { event: "tag_added", lead, addedTag: "vip" })).toBe(true);
+    expect(matchesTrigger(tagged, { event: "tag_added", lead, addedTag: "frio" })).toBe(false);
+
+    const timed = automation({ trigger_type: "time_in_stage", trigger_config: { stage_id: "stage-1", hours: 24 } });
+    expect(matchesTrigger(timed, { event: "time_in_stage", lead, now })).toBe(true);
+    expect(matchesTrigger(timed, { event: "time_in_stage", lead, now: new Date("2026-01-24T11:00:00Z") })).toBe(false);
+  });
+
+  it("matches a value change once per update", () => {
+    const valueChanged = automation({ trigger_type: "value_changed" });
+    const contexts = buildTriggerContexts({ ...lead, value: 2000 }, lead);
+
+    expect(contexts.filter((context) => matchesTrigger(valueChanged, context)).map((c) => c.event)).toEqual(["value_changed"]);
+    expect(buildTriggerContexts({ ...lead, name: "Maria S." }, lead).some((c) => matchesTrigger(valueChanged, c))).toBe(false);
+  });
+});
+
+describe("automation conditions", () => {
+  it("combines top level conditions with AND and nested groups with their own logic", () => {
+    const rule = automation({
+      conditions: [
+        { field: "custom.cidade", operator: "equals", value: "campinas" },
+        {
+          logic: "or",
+          conditions: [
+            { field: "value", operator: "greater_than", value: "5000" },
+            {
+              logic: "and",
+              conditions: [
+                { field: "tags", operator: "has_all_of", value: "quente" },
+                { field: "created_at", operator: "older_than_days", value: "7" },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(evaluateConditions(rule, lead, now)).toBe(true);
+    expect(evaluateConditions(rule, { ...lead, created_at: "2026-01-20T12:00:00Z" }, now)).toBe(false);
+    expect(evaluateConditions(rule, { ...lead, custom_fields: { cidade: "Santos" } }, now)).toBe(false);
+  });
+
+  it("compares dates against a fixed date", () => {
+    const rule = automation({ conditions: [{ field: "stage_entered_at", operator: "after_date", value: "2026-01-20" }] });
+
+    expect(evaluateConditions(rule, lead, now)).toBe(true);
+    expect(evaluateConditions(rule, { ...lead, stage_entered_at: null }, now)).toBe(false);
+  });
+});
+
+describe("automation steps", () => {
+  it("enters branches and continues after the condition step", () => {
+    expect(findStep(steps, "notify")?.type).toBe("action");
+    expect(getNextStepId(steps, "tag")).toBe("check");
+    expect(getNextStepId(steps, "check", true)).toBe("notify");
+    // Empty else branch goes straight to the step after the condition
+    expect(getNextStepId(steps, "check", false)).toBe("wait");
+    expect(getNextStepId(steps, "notify")).toBe("wait");
+    expect(getNextStepId(steps, "wait")).toBeNull();
+  });
+
+  it("previews the branch taken with the changes of the previous actions", () => {
+    const preview = previewSteps(automation({ steps }), lead, now);
+
+    expect(preview.map((p) => p.step.id)).toEqual(["tag", "check", "notify", "wait"]);
+    expect(preview[1].matched).toBe(true);
+  });
+});
+
+describe("automation cycles", () => {
+  const tagger = automation({
+    id: "tagger",
+    trigger_type: "tag_added",
+    trigger_config: { tag: "quente" },
+    action_type: "add_tag",
+    action_config: { tag: "vip" },
+  });
+
+  it("finds automations that keep triggering each other", () => {
+    const retagger = automation({
+      id: "retagger",
+      trigger_type: "tag_added",
+      trigger_config: { tag: "vip" },
+      action_type: "add_tag",
+      action_config: { tag: "quente" },
+    });
+
+    expect(findAutomationCycle([retagger], tagger)).toEqual(["tagger", "retagger", "tagger"]);
+  });
+
+  it("ignores automations whose actions don't change the lead", () => {
+    const notifier = automation({ id: "notifier", trigger_type: "tag_added", trigger_config: { tag: "vip" } });
+
+    expect(findAutomationCycle([notifier], tagger)).toBeNull();
+  });
+});
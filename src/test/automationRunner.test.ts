@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { AutomationRow, startAutomationRun } from "../../supabase/functions/_shared/automationRunner.ts";
+import { MAX_CHAIN_DEPTH } from "@/lib/automationEngine";
+import { createFakeSupabase } from "./fakes";
+
+const lead = {
+  id: "lead-1",
+  company_id: "company-1",
+  stage_id: "stage-1",
+  name: "Maria Souza",
+  email: null,
+  phone: null,
+  value: null,
+  source: null,
+  tags: [] as string[],
+};
+
+const automation = (overrides: Partial<AutomationRow> = {}): AutomationRow => ({
+  id: "automation-1",
+  company_id: "company-1",
+  funnel_id: "funnel-1",
+  name: "Mover para proposta",
+  trigger_type: "lead_updated",
+  trigger_config: {},
+  conditions: [],
+  action_type: "move_to_stage",
+  action_config: { target_stage_id: "stage-2" },
+  ...overrides,
+});
+
+describe("automation runner", () => {
+  it("skips runs past the chain depth limit", async () => {
+    const db = createFakeSupabase({ funnel_leads: [lead] });
+
+    const status = await startAutomationRun(db.client, automation(), lead, "lead_updated", { chainDepth: MAX_CHAIN_DEPTH });
+
+    expect(status).toBe("skipped");
+    expect(db.writes("automation_runs", "insert")[0].values).toMatchObject({ status: "skipped", chain_depth: MAX_CHAIN_DEPTH });
+    expect(db.writes("automation_logs", "insert")[0].values).toMatchObject({ details: { reason: "max_chain_depth" } });
+    expect(db.writes("funnel_leads", "update")).toHaveLength(0);
+  });
+
+  it("skips a second run for the same lead within the cooldown", async () => {
+    const db = createFakeSupabase({
+      funnel_leads: [lead],
+      automation_runs: [{ automation_id: "automation-1", lead_id: "lead-1", status: "completed" }],
+    });
+
+    expect(await startAutomationRun(db.client, automation(), lead, "lead_updated")).toBe("skipped");
+    expect(db.writes("automation_logs", "insert")[0].values).toMatchObject({ details: { reason: "cooldown" } });
+
+    // Without a cooldown the same history doesn't block the run
+    expect(await startAutomationRun(db.client, automation({ cooldown_minutes: 0 }), lead, "lead_updated")).toBe("completed");
+  });
+
+  it("writes the lead one level deeper in the chain", async () => {
+    const db = createFakeSupabase({ funnel_leads: [lead] });
+
+    expect(await startAutomationRun(db.client, automation(), lead, "lead_updated", { chainDepth: 1 })).toBe("completed");
+    expect(db.writes("funnel_leads", "update")[0].values).toMatchObject({ stage_id: "stage-2", automation_depth: 2 });
+  });
+
+  it("marks every lead write of a run as an automation write", async () => {
+    const db = createFakeSupabase({ funnel_leads: [lead] });
+    const steps = [
+      { id: "tag", type: "action" as const, action_type: "add_tag" as const, action_config: { tag: "vip" } },
+      { id: "move", type: "action" as const, action_type: "move_to_stage" as const, action_config: { target_stage_id: "stage-2" } },
+    ];
+
+    expect(await startAutomationRun(db.client, automation({ steps }), lead, "lead_updated", { chainDepth: 1 })).toBe("completed");
+
+    // Without the mark the second write (same depth as the row) would be taken as a user edit and reset to 0
+    const writes = db.writes("funnel_leads", "update");
+    expect(writes).toHaveLength(2);
+    for (const write of writes) {
+      expect(write.values).toMatchObject({ automation_depth: 2, automation_write: true });
+    }
+  });
+});
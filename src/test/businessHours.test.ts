@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import {
+  BusinessHours,
+  DEFAULT_BUSINESS_HOURS,
+  getNextOpeningTime,
+  isWithinBusinessHours,
+  validateBusinessHours,
+} from "@/lib/businessHours";
+
+const hours = (overrides: Partial<BusinessHours> = {}): BusinessHours => ({
+  ...DEFAULT_BUSINESS_HOURS,
+  enabled: true,
+  ...overrides,
+});
+
+describe("business hours", () => {
+  it("checks the schedule in the company timezone", () => {
+    // Wednesday 12:00 UTC = 09:00 in São Paulo
+    expect(isWithinBusinessHours(hours(), "America/Sao_Paulo", new Date("2026-01-07T12:00:00Z"))).toBe(true);
+    // Wednesday 21:30 UTC = 18:30 in São Paulo
+    expect(isWithinBusinessHours(hours(), "America/Sao_Paulo", new Date("2026-01-07T21:30:00Z"))).toBe(false);
+    // Saturday
+    expect(isWithinBusinessHours(hours(), "America/Sao_Paulo", new Date("2026-01-10T15:00:00Z"))).toBe(false);
+    // Disabled schedules are always open
+    expect(isWithinBusinessHours(DEFAULT_BUSINESS_HOURS, "America/Sao_Paulo", new Date("2026-01-10T15:00:00Z"))).toBe(true);
+  });
+
+  it("closes on holidays", () => {
+    const withHolidays = hours({
+      holidays: [
+        { date: "2025-12-25", name: "Natal", recurring: true },
+        { date: "2026-01-07", name: "Ponte" },
+      ],
+    });
+
+    expect(isWithinBusinessHours(withHolidays, "America/Sao_Paulo", new Date("2026-01-07T15:00:00Z"))).toBe(false);
+    expect(isWithinBusinessHours(withHolidays, "America/Sao_Paulo", new Date("2026-12-25T15:00:00Z"))).toBe(false);
+    expect(isWithinBusinessHours(withHolidays, "America/Sao_Paulo", new Date("2026-01-08T15:00:00Z"))).toBe(true);
+  });
+
+  it("finds the next opening", () => {
+    const now = new Date("2026-01-09T22:00:00Z");
+    // Friday evening opens on Monday 09:00 in São Paulo (12:00 UTC)
+    expect(getNextOpeningTime(hours(), "America/Sao_Paulo", now)?.toISOString()).toBe("2026-01-12T12:00:00.000Z");
+    // Skips the Monday holiday
+    const withHoliday = hours({ holidays: [{ date: "2026-01-12" }] });
+    expect(getNextOpeningTime(withHoliday, "America/Sao_Paulo", now)?.toISOString()).toBe("2026-01-13T12:00:00.000Z");
+    // Already open
+    const open = new Date("2026-01-07T15:00:00Z");
+    expect(getNextOpeningTime(hours(), "America/Sao_Paulo", open)).toBe(open);
+    // Never opens
+    const closed = hours({ days: DEFAULT_BUSINESS_HOURS.days.map((day) => ({ ...day, enabled: false })) });
+    expect(getNextOpeningTime(closed, "America/Sao_Paulo", now)).toBeNull();
+  });
+
+  it("validates the schedule", () => {
+    const days = DEFAULT_BUSINESS_HOURS.days.map((day, weekday) => (weekday === 1 ? { ...day, start: "18:00", end: "09:00" } : day));
+
+    expect(validateBusinessHours(hours())).toEqual([]);
+    expect(validateBusinessHours(hours({ days }))).toEqual(["Segunda: o fechamento deve ser depois da abertura"]);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { AssignmentAgent, pickAgent } from "@/lib/conversationAssignment";
+import { assignConversation } from "../../supabase/functions/_shared/conversationAssignment.ts";
+import { createFakeSupabase } from "./fakes";
+
+const now = new Date("2026-01-27T12:00:00Z");
+const seen = new Date("2026-01-27T11:59:00Z").toISOString();
+
+const agent = (user_id: string, overrides: Partial<AssignmentAgent> = {}): AssignmentAgent => ({
+  user_id,
+  is_available: true,
+  last_seen_at: seen,
+  open_conversations: 0,
+  ...overrides,
+});
+
+describe("conversation assignment", () => {
+  it("rotates round-robin after the last assigned agent", () => {
+    const agents = [agent("ana"), agent("bia"), agent("caio")];
+
+    expect(pickAgent(agents, "round_robin", { now })).toBe("ana");
+    expect(pickAgent(agents, "round_robin", { lastAssignedUserId: "ana", now })).toBe("bia");
+    expect(pickAgent(agents, "round_robin", { lastAssignedUserId: "caio", now })).toBe("ana");
+  });
+
+  it("skips agents that are away or without a recent heartbeat", () => {
+    const agents = [
+      agent("ana"),
+      agent("bia", { is_available: false }),
+      agent("caio", { last_seen_at: "2026-01-27T11:00:00Z" }),
+    ];
+
+    expect(pickAgent(agents, "round_robin", { lastAssignedUserId: "ana", now })).toBe("ana");
+    expect(pickAgent(agents.slice(1), "round_robin", { now })).toBeNull();
+  });
+
+  it("sends to the least busy agent, breaking ties by rotation", () => {
+    const agents = [
+      agent("ana", { open_conversations: 3 }),
+      agent("bia", { open_conversations: 1 }),
+      agent("caio", { open_conversations: 1 }),
+    ];
+
+    expect(pickAgent(agents, "least_busy", { now })).toBe("bia");
+    expect(pickAgent(agents, "least_busy", { lastAssignedUserId: "bia", now })).toBe("caio");
+  });
+
+  it("keeps the conversation with its current assignee while online", () => {
+    const agents = [agent("ana"), agent("bia")];
+
+    expect(pickAgent(agents, "round_robin", { lastAssignedUserId: "ana", currentAssigneeId: "ana", now })).toBe("ana");
+    expect(
+      pickAgent([agent("ana", { is_available: false }), agent("bia")], "round_robin", { currentAssigneeId: "ana", now })
+    ).toBe("bia");
+  });
+
+  it("assigns the contact and advances the queue pointer", async () => {
+    const lastSeen = new Date().toISOString();
+    const db = createFakeSupabase({
+      chat_queues: [{ id: "queue-1", company_id: "company-1", distribution: "round_robin", last_assigned_user_id: "ana" }],
+      chat_queue_members: [
+        { queue_id: "queue-1", user_id: "ana" },
+        { queue_id: "queue-1", user_id: "bia" },
+      ],
+      profiles: [
+        { company_id: "company-1", user_id: "ana", is_available: true, last_seen_at: lastSeen },
+        { company_id: "company-1", user_id: "bia", is_available: true, last_seen_at: lastSeen },
+      ],
+      whatsapp_contacts: [{ id: "contact-1", company_id: "company-1", assigned_to: null }],
+    });
+
+    const assigneeId = await assignConversation(db.client, {
+      companyId: "company-1",
+      contactId: "contact-1",
+      queueId: "queue-1",
+    });
+
+    expect(assigneeId).toBe("bia");
+    expect(db.writes("whatsapp_contacts", "update")[0].values).toMatchObject({ queue_id: "queue-1", assigned_to: "bia" });
+    expect(db.writes("chat_queues", "update")[0].values).toEqual({ last_assigned_user_id: "bia" });
+  });
+
+  it("leaves the conversation waiting in the queue without online agents", async () => {
+    const db = createFakeSupabase({
+      chat_queues: [{ id: "queue-1", company_id: "company-1", distribution: "least_busy", last_assigned_user_id: null }],
+      chat_queue_members: [{ queue_id: "queue-1", user_id: "ana" }],
+      profiles: [{ company_id: "company-1", user_id: "ana", is_available: false, last_seen_at: null }],
+      whatsapp_contacts: [{ id: "contact-1", company_id: "company-1", assigned_to: null }],
+    });
+
+    const assigneeId = await assignConversation(db.client, {
+      companyId: "company-1",
+      contactId: "contact-1",
+      queueId: "queue-1",
+    });
+
+    expect(assigneeId).toBeNull();
+    expect(db.writes("whatsapp_contacts", "update")[0].values).toMatchObject({ queue_id: "queue-1", assigned_to: null });
+    expect(db.writes("chat_queues", "update")).toHaveLength(0);
+  });
+
+});
@@ -0,0 +1,4 @@
+// Edge function modules type-checked through the tests only read env vars from Deno
+declare const Deno: {
+  env: { get(key: string): string | undefined };
+};
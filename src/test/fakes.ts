@@ -0,0 +1,73 @@
+import { vi } from "vitest";
+import type {
+  FlowNode,
+  NodeExecutionContext,
+  WhatsAppSender,
+} from "../../supabase/functions/_shared/flowNodes/index.ts";
+import { createMemorySupabase, MemoryCall } from "@/lib/memorySupabase";
+
+type Row = Record<string, unknown>;
+
+export type FakeCall = MemoryCall;
+
+// Supabase client over in-memory `tables`: writes are only recorded in `calls`
+export function createFakeSupabase(tables: Record<string, Row[]> = {}) {
+  const { client, calls } = createMemorySupabase(tables);
+
+  return {
+    client,
+    calls,
+    writes: (table: string, op: FakeCall["op"]) => calls.filter((c) => c.table === table && c.op === op),
+  };
+}
+
+export function createFakeWhatsAppSender() {
+  return {
+    interactive: true,
+    serviceWindow: false,
+    sendText: vi.fn(async () => true),
+    sendMedia: vi.fn(async () => true),
+    sendButtons: vi.fn(async () => true),
+    sendList: vi.fn(async () => true),
+    sendCtaUrl: vi.fn(async () => true),
+    sendTemplate: vi.fn(async () => true),
+  } satisfies WhatsAppSender;
+}
+
+export function createFlowNode(node_type: string, config: Record<string, unknown> = {}): FlowNode {
+  return {
+    id: `${node_type}-1`,
+    flow_id: "flow-1",
+    company_id: "company-1",
+    node_type,
+    position_x: 0,
+    position_y: 0,
+    config,
+  };
+}
+
+// Execution context whose edges all lead to `next` (per source handle when given a map)
+export function createNodeContext(
+  overrides: Partial<NodeExecutionContext> = {},
+  next: FlowNode | null | Record<string, FlowNode> = null
+): NodeExecutionContext {
+  const context: NodeExecutionContext = {
+    supabase: createFakeSupabase().client,
+    whatsapp: createFakeWhatsAppSender(),
+    companyId: "company-1",
+    contactId: "contact-1",
+    contactPhone: "5511999999999",
+    executionId: "execution-1",
+    getNextNode: async (_node, sourceHandle) => {
+      if (next && !("node_type" in next)) return (next as Record<string, FlowNode>)[sourceHandle || ""] || null;
+      return next as FlowNode | null;
+    },
+    wait: async () => {},
+    variables: {},
+    setVariable: vi.fn(async (name: string, value: string) => {
+      context.variables[name] = value;
+    }),
+    ...overrides,
+  };
+  return context;
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { FLOW_LOG_EXECUTED, FLOW_LOG_RESPONDED, computeFlowAnalytics } from "@/lib/flowAnalytics";
+
+const execution = (id: string, status: string, minutes: number | null = null) => ({
+  id,
+  status,
+  started_at: "2026-01-10T12:00:00.000Z",
+  completed_at: minutes === null ? null : new Date(Date.parse("2026-01-10T12:00:00.000Z") + minutes * 60000).toISOString(),
+});
+
+const executed = (execution_id: string, node_id: string, node_type: string, second: number) => ({
+  execution_id,
+  node_id,
+  node_type,
+  action: FLOW_LOG_EXECUTED,
+  details: null,
+  created_at: `2026-01-10T12:00:${String(second).padStart(2, "0")}.000Z`,
+});
+
+const responded = (execution_id: string, node_id: string, source_handle: string) => ({
+  execution_id,
+  node_id,
+  node_type: "question",
+  action: FLOW_LOG_RESPONDED,
+  details: { source_handle },
+  created_at: "2026-01-10T12:00:30.000Z",
+});
+
+describe("flow analytics", () => {
+  it("counts reach, drop-offs, answers and transfers per node", () => {
+    const analytics = computeFlowAnalytics(
+      [execution("a", "completed", 2), execution("b", "completed", 4), execution("c", "failed"), execution("d", "waiting_response")],
+      [
+        executed("a", "ask", "question", 1),
+        responded("a", "ask", "option-0"),
+        executed("a", "handoff", "transfer", 40),
+        executed("b", "ask", "question", 1),
+        responded("b", "ask", "option-1"),
+        executed("c", "ask", "question", 1),
+        executed("d", "ask", "question", 1),
+        // Run of another flow
+        executed("z", "ask", "question", 1),
+      ]
+    );
+
+    expect(analytics.executions).toBe(4);
+    expect(analytics.completionRate).toBe(0.5);
+    expect(analytics.transferred).toBe(1);
+    expect(analytics.averageCompletionMs).toBe(3 * 60000);
+    expect(analytics.nodes.ask).toEqual({
+      reached: 4,
+      reachRate: 1,
+      dropOffs: 1,
+      waiting: 1,
+      choices: { "option-0": 1, "option-1": 1 },
+    });
+    expect(analytics.nodes.handoff.reachRate).toBe(0.25);
+  });
+
+  it("returns empty totals without executions", () => {
+    expect(computeFlowAnalytics([], [])).toEqual({
+      executions: 0,
+      completed: 0,
+      completionRate: 0,
+      transferred: 0,
+      averageCompletionMs: null,
+      nodes: {},
+    });
+  });
+});
@@ -0,0 +1,567 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  getAvailableFlowVariables,
+  getDefaultNodeConfig,
+  getFlowNodeDefinition,
+  normalizeVariableName,
+  replaceMessageVariables,
+  validateAnswer,
+  validateNodeConfig,
+  QUESTION_INVALID_HANDLE,
+} from "@/lib/flowNodes";
+import {
+  createFakeSupabase,
+  createFakeWhatsAppSender,
+  createFlowNode,
+  createNodeContext,
+} from "./fakes";
+
+const execute = (type: string) => getFlowNodeDefinition(type)!.execute;
+
+describe("flow node registry", () => {
+  it("builds default configs from the schema", () => {
+    expect(getDefaultNodeConfig("delay")).toEqual({ delay_value: 5, delay_unit: "seconds" });
+    expect(validateNodeConfig("delay", getDefaultNodeConfig("delay"))).toEqual([]);
+  });
+
+  it("reports missing and invalid fields", () => {
+    expect(validateNodeConfig("message", { mediaType: "text", message: " " })).toEqual(["Mensagem é obrigatória"]);
+    expect(validateNodeConfig("delay", { delay_value: 2, delay_unit: "weeks" })).toEqual(["Unidade inválido"]);
+    expect(validateNodeConfig("action", { action_type: "move_stage" })).toEqual(["Etapa é obrigatória"]);
+    expect(validateNodeConfig("unknown", {})).toEqual(["Tipo de bloco desconhecido"]);
+  });
+});
+
+describe("message node", () => {
+  it("sends the text with variables and saves it", async () => {
+    const db = createFakeSupabase();
+    const whatsapp = createFakeWhatsAppSender();
+    const next = createFlowNode("end");
+    const context = createNodeContext({ supabase: db.client, whatsapp, contactName: "Ana" }, next);
+
+    const result = await execute("message")(createFlowNode("message", { message: "Oi {{cliente}}!" }), context);
+
+    expect(whatsapp.sendText).toHaveBeenCalledWith("5511999999999", "Oi Ana!");
+    expect(db.writes("whatsapp_messages", "insert")[0].values).toMatchObject({ content: "Oi Ana!", message_type: "text" });
+    expect(result).toEqual({ shouldContinue: true, nextNode: next });
+  });
+
+  it("sends media with the message as caption", async () => {
+    const whatsapp = createFakeWhatsAppSender();
+    const context = createNodeContext({ whatsapp });
+
+    await execute("message")(
+      createFlowNode("message", { mediaType: "image", mediaUrl: "https://cdn/x.png", message: "Veja" }),
+      context
+    );
+
+    expect(whatsapp.sendMedia).toHaveBeenCalledWith("5511999999999", "image", "https://cdn/x.png", "Veja");
+    expect(whatsapp.sendText).not.toHaveBeenCalled();
+  });
+
+  it("sends a CTA URL button, or the link as text on text-only connections", async () => {
+    const node = createFlowNode("message", { message: "Veja o catálogo", cta_text: "Abrir", cta_url: "https://loja.com" });
+    const whatsapp = createFakeWhatsAppSender();
+    await execute("message")(node, createNodeContext({ whatsapp }));
+    expect(whatsapp.sendCtaUrl).toHaveBeenCalledWith("5511999999999", "Veja o catálogo", "Abrir", "https://loja.com");
+
+    const textOnly = { ...createFakeWhatsAppSender(), interactive: false };
+    await execute("message")(node, createNodeContext({ whatsapp: textOnly }));
+    expect(textOnly.sendCtaUrl).not.toHaveBeenCalled();
+    expect(textOnly.sendText).toHaveBeenCalledWith("5511999999999", "Veja o catálogo\n\nAbrir: https://loja.com");
+
+    expect(validateNodeConfig("message", { message: "Oi", cta_text: "Abrir", cta_url: "loja.com" })).toEqual([
+      "Link do botão deve começar com http:// ou https://",
+    ]);
+  });
+
+  it("sends the fallback template when the 24h window is closed", async () => {
+    const db = createFakeSupabase({
+      whatsapp_contacts: [{ id: "contact-1", last_inbound_at: "2020-01-01T00:00:00Z" }],
+    });
+    const whatsapp = { ...createFakeWhatsAppSender(), serviceWindow: true };
+    const next = createFlowNode("end");
+    const node = createFlowNode("message", {
+      message: "Ainda tem interesse?",
+      window_template: "retomar_conversa",
+      window_template_params: ["{{cliente}}"],
+    });
+
+    const result = await execute("message")(node, createNodeContext({ supabase: db.client, whatsapp, contactName: "Ana" }, next));
+
+    expect(whatsapp.sendText).not.toHaveBeenCalled();
+    expect(whatsapp.sendTemplate).toHaveBeenCalledWith("5511999999999", "retomar_conversa", "pt_BR", ["Ana"]);
+    expect(db.writes("whatsapp_messages", "insert")[0].values).toMatchObject({
+      content: "[TEMPLATE: retomar_conversa]",
+      message_type: "template",
+    });
+    expect(result).toEqual({ shouldContinue: true, nextNode: next });
+  });
+
+  it("fails the execution outside the 24h window without a template, and sends the message while open", async () => {
+    const node = createFlowNode("message", { message: "Oi!" });
+    const whatsapp = { ...createFakeWhatsAppSender(), serviceWindow: true };
+    const closed = createFakeSupabase({ whatsapp_contacts: [{ id: "contact-1", last_inbound_at: null }] });
+
+    const result = await execute("message")(node, createNodeContext({ supabase: closed.client, whatsapp }, createFlowNode("end")));
+    expect(whatsapp.sendText).not.toHaveBeenCalled();
+    expect(whatsapp.sendTemplate).not.toHaveBeenCalled();
+    expect(closed.writes("chatbot_flow_executions", "update")[0].values).toMatchObject({ status: "failed" });
+    expect(result).toEqual({ shouldContinue: false, nextNode: null });
+
+    const open = createFakeSupabase({
+      whatsapp_contacts: [{ id: "contact-1", last_inbound_at: new Date().toISOString() }],
+    });
+    await execute("message")(node, createNodeContext({ supabase: open.client, whatsapp }));
+    expect(whatsapp.sendText).toHaveBeenCalledWith("5511999999999", "Oi!");
+  });
+});
+
+describe("question node", () => {
+  it("sends buttons and waits for the response", async () => {
+    const db = createFakeSupabase();
+    const whatsapp = createFakeWhatsAppSender();
+    const context = createNodeContext({ supabase: db.client, whatsapp });
+
+    const result = await execute("question")(createFlowNode("question", { question: "Qual?", options: ["A", "B"] }), context);
+
+    expect(whatsapp.sendButtons).toHaveBeenCalledWith("5511999999999", "Qual?", [
+      { id: "option-0", title: "A" },
+      { id: "option-1", title: "B" },
+    ]);
+    expect(db.writes("chatbot_flow_executions", "update")[0].values).toMatchObject({ status: "waiting_response" });
+    expect(result.waitForResponse).toBe(true);
+  });
+
+  it("matches numbered answers and resends the options otherwise", async () => {
+    const whatsapp = createFakeWhatsAppSender();
+    const context = createNodeContext({ whatsapp });
+    const node = createFlowNode("question", { question: "Qual?", options: ["Vendas", "Suporte", "Financeiro", "Outro"] });
+    const resume = getFlowNodeDefinition("question")!.resume!;
+
+    expect(await resume(node, context, { text: "2" })).toEqual({ status: "continue", sourceHandle: "option-1" });
+    expect(await resume(node, context, { text: "quero financeiro" })).toEqual({ status: "continue", sourceHandle: "option-2" });
+    expect(await resume(node, context, { text: "xyz" })).toEqual({ status: "wait" });
+    expect(whatsapp.sendText).toHaveBeenCalledTimes(1);
+  });
+
+  it("ignores text answers when the question has buttons", async () => {
+    const node = createFlowNode("question", { options: ["Sim", "Não"] });
+    const resume = getFlowNodeDefinition("question")!.resume!;
+
+    expect(await resume(node, createNodeContext(), { text: "Sim" })).toEqual({ status: "wait" });
+    expect(await resume(node, createNodeContext(), { buttonId: "option-0" })).toEqual({
+      status: "continue",
+      sourceHandle: "option-0",
+    });
+  });
+
+  it("validates answers and follows the fallback output when retries run out", async () => {
+    const db = createFakeSupabase();
+    const whatsapp = createFakeWhatsAppSender();
+    const context = createNodeContext({ supabase: db.client, whatsapp });
+    const node = createFlowNode("question", {
+      question: "Seu CPF?",
+      validation: "cpf_cnpj",
+      validation_message: "CPF inválido",
+      max_retries: 1,
+      save_to_variable: "cpf",
+    });
+    const resume = getFlowNodeDefinition("question")!.resume!;
+
+    expect(await resume(node, context, { text: "123" })).toEqual({ status: "wait" });
+    expect(whatsapp.sendText).toHaveBeenCalledWith("5511999999999", "CPF inválido");
+    expect(db.writes("chatbot_flow_executions", "update")[0].values).toMatchObject({
+      context: { invalid_attempts: 1 },
+    });
+
+    expect(await resume(node, context, { text: "123", state: { invalid_attempts: 1 } })).toEqual({
+      status: "continue",
+      sourceHandle: QUESTION_INVALID_HANDLE,
+    });
+    expect(await resume(node, context, { text: "529.982.247-25", state: { invalid_attempts: 1 } })).toEqual({
+      status: "continue",
+    });
+    expect(context.variables.cpf).toBe("52998224725");
+  });
+
+  it("sends a list with sections and accepts the selected row", async () => {
+    const db = createFakeSupabase();
+    const whatsapp = createFakeWhatsAppSender();
+    const context = createNodeContext({ supabase: db.client, whatsapp });
+    const options = ["Pizza", "Lanche", "Suco", "Refrigerante"];
+    const node = createFlowNode("question", {
+      question: "O que deseja?",
+      options,
+      display: "list",
+      list_button: "Cardápio",
+      list_sections: [{ title: "Bebidas", start: 2 }, { title: "Comidas", start: 0 }],
+    });
+
+    await execute("question")(node, context);
+
+    expect(whatsapp.sendList).toHaveBeenCalledWith("5511999999999", "O que deseja?", "Cardápio", [
+      { title: "Comidas", rows: [{ id: "option-0", title: "Pizza" }, { id: "option-1", title: "Lanche" }] },
+      { title: "Bebidas", rows: [{ id: "option-2", title: "Suco" }, { id: "option-3", title: "Refrigerante" }] },
+    ]);
+    const { context: state } = db.writes("chatbot_flow_executions", "update")[0].values as { context: Record<string, unknown> };
+    expect(state).toMatchObject({ sent_as: "list" });
+
+    const resume = getFlowNodeDefinition("question")!.resume!;
+    expect(await resume(node, context, { buttonId: "option-3", text: "Refrigerante", state })).toEqual({
+      status: "continue",
+      sourceHandle: "option-3",
+    });
+    expect(await resume(node, context, { text: "2", state })).toEqual({ status: "continue", sourceHandle: "option-1" });
+
+    expect(validateNodeConfig("question", { ...node.config, options: Array(11).fill("Item") })).toContain(
+      "Listas aceitam até 10 opções"
+    );
+  });
+
+  it("sends numbered options and accepts typed answers on text-only connections", async () => {
+    const db = createFakeSupabase();
+    const whatsapp = { ...createFakeWhatsAppSender(), interactive: false };
+    const context = createNodeContext({ supabase: db.client, whatsapp });
+    const node = createFlowNode("question", { question: "Qual?", options: ["Sim", "Não"], display: "list" });
+
+    await execute("question")(node, context);
+
+    expect(whatsapp.sendButtons).not.toHaveBeenCalled();
+    expect(whatsapp.sendList).not.toHaveBeenCalled();
+    expect(whatsapp.sendText).toHaveBeenCalledWith("5511999999999", "Qual?\n\n1. Sim\n2. Não\n");
+
+    const { context: state } = db.writes("chatbot_flow_executions", "update")[0].values as { context: Record<string, unknown> };
+    const resume = getFlowNodeDefinition("question")!.resume!;
+    expect(await resume(node, context, { text: "Não", state })).toEqual({ status: "continue", sourceHandle: "option-1" });
+  });
+
+  it("asks the question after the contact answers the template sent outside the 24h window", async () => {
+    const db = createFakeSupabase({ whatsapp_contacts: [{ id: "contact-1", last_inbound_at: null }] });
+    const whatsapp = { ...createFakeWhatsAppSender(), serviceWindow: true };
+    const context = createNodeContext({ supabase: db.client, whatsapp });
+    const node = createFlowNode("question", { question: "Qual?", options: ["A", "B"], window_template: "retomar_conversa" });
+
+    const result = await execute("question")(node, context);
+
+    expect(whatsapp.sendButtons).not.toHaveBeenCalled();
+    expect(whatsapp.sendTemplate).toHaveBeenCalledWith("5511999999999", "retomar_conversa", "pt_BR", []);
+    expect(result.waitForResponse).toBe(true);
+    const { context: state } = db.writes("chatbot_flow_executions", "update")[0].values as { context: Record<string, unknown> };
+
+    // The answer to the template only reopens the window - it isn't taken as the answer to the question
+    const resume = getFlowNodeDefinition("question")!.resume!;
+    expect(await resume(node, context, { text: "A", state })).toEqual({ status: "wait" });
+    expect(whatsapp.sendButtons).toHaveBeenCalledWith("5511999999999", "Qual?", [
+      { id: "option-0", title: "A" },
+      { id: "option-1", title: "B" },
+    ]);
+    expect(db.writes("chatbot_flow_executions", "update")[1].values).toMatchObject({ context: { sent_as: "buttons" } });
+  });
+
+  it("fails the execution outside the 24h window without a template or when the template is rejected", async () => {
+    const db = createFakeSupabase({ whatsapp_contacts: [{ id: "contact-1", last_inbound_at: null }] });
+    const whatsapp = { ...createFakeWhatsAppSender(), serviceWindow: true };
+
+    const result = await execute("question")(
+      createFlowNode("question", { question: "Qual?" }),
+      createNodeContext({ supabase: db.client, whatsapp })
+    );
+
+    expect(whatsapp.sendText).not.toHaveBeenCalled();
+    expect(db.writes("chatbot_flow_executions", "update")[0].values).toMatchObject({ status: "failed" });
+    expect(result).toEqual({ shouldContinue: false, nextNode: null });
+
+    // e.g. a template that isn't approved - no reply can come, so the question doesn't wait for one
+    whatsapp.sendTemplate.mockResolvedValueOnce(false);
+    const rejected = await execute("question")(
+      createFlowNode("question", { question: "Qual?", window_template: "nao_aprovado" }),
+      createNodeContext({ supabase: db.client, whatsapp })
+    );
+
+    expect(rejected).toEqual({ shouldContinue: false, nextNode: null });
+    expect(db.writes("chatbot_flow_executions", "update")[1].values).toMatchObject({ status: "failed" });
+    expect(db.writes("whatsapp_messages", "insert")).toHaveLength(0);
+  });
+
+  it("accepts typed options on button questions with validation", async () => {
+    const node = createFlowNode("question", { options: ["Sim", "Não"], validation: "option", max_retries: 0 });
+    const resume = getFlowNodeDefinition("question")!.resume!;
+
+    expect(await resume(node, createNodeContext(), { text: "não" })).toEqual({ status: "continue", sourceHandle: "option-1" });
+    expect(await resume(node, createNodeContext(), { text: "talvez" })).toEqual({
+      status: "continue",
+      sourceHandle: QUESTION_INVALID_HANDLE,
+    });
+  });
+});
+
+describe("answer validation", () => {
+  it("checks each validation type and normalizes the answer", () => {
+    expect(validateAnswer("email", " Ana@Email.com ")).toEqual({ valid: true, value: "ana@email.com" });
+    expect(validateAnswer("email", "ana@email")).toEqual({ valid: false });
+    expect(validateAnswer("phone", "(11) 99999-8888")).toEqual({ valid: true, value: "11999998888" });
+    expect(validateAnswer("phone", "1234")).toEqual({ valid: false });
+    expect(validateAnswer("cpf_cnpj", "11.222.333/0001-81")).toEqual({ valid: true, value: "11222333000181" });
+    expect(validateAnswer("cpf_cnpj", "111.111.111-11")).toEqual({ valid: false });
+    expect(validateAnswer("number", "1.500,50", { min: 0, max: 2000 })).toEqual({ valid: true, value: "1500.5" });
+    expect(validateAnswer("number", "10", { min: 18 })).toEqual({ valid: false });
+    expect(validateAnswer("number", "dez")).toEqual({ valid: false });
+    expect(validateAnswer("date", "5/3/2026")).toEqual({ valid: true, value: "05/03/2026" });
+    expect(validateAnswer("date", "31/02/2026")).toEqual({ valid: false });
+    expect(validateAnswer("text", "ok", { min: 5 })).toEqual({ valid: false });
+    expect(validateAnswer("option", "2", { options: ["A", "B"] })).toEqual({ valid: true, value: "B" });
+  });
+
+  it("rejects validations that don't fit the question", () => {
+    expect(validateNodeConfig("question", { question: "?", options: ["A"], validation: "email" })).toEqual([
+      'Perguntas com opções só podem usar a validação "Uma das opções"',
+    ]);
+    expect(validateNodeConfig("question", { question: "?", validation: "option" })).toEqual([
+      "Adicione opções para validar a resposta",
+    ]);
+  });
+});
+
+describe("flow variables", () => {
+  it("replaces {{var.name}} and clears unknown variables", () => {
+    const text = replaceMessageVariables("{{cliente}}, sua cidade é {{var.cidade}}{{var.outra}}", {
+      contactName: "Ana",
+      variables: { cidade: "Recife" },
+    });
+
+    expect(text).toBe("Ana, sua cidade é Recife");
+    expect(normalizeVariableName("Cidade de Origem")).toBe("cidade_de_origem");
+  });
+
+  it("lists only the variables set before the node", () => {
+    const nodes = [
+      { id: "q1", node_type: "question", config: { save_to_variable: "cidade" } },
+      { id: "a1", node_type: "action", config: { action_type: "set_variable", action_value: "plano=pro" } },
+      { id: "m1", node_type: "message", config: {} },
+      { id: "q2", node_type: "question", config: { save_to_variable: "email" } },
+    ];
+    const edges = [
+      { source_node_id: "q1", target_node_id: "a1" },
+      { source_node_id: "a1", target_node_id: "m1" },
+      { source_node_id: "m1", target_node_id: "q2" },
+    ];
+
+    expect(getAvailableFlowVariables(nodes, edges, "m1")).toEqual(["cidade", "plano"]);
+    expect(getAvailableFlowVariables(nodes, edges, "q1")).toEqual([]);
+  });
+
+  it("saves the chosen option in the variable and the lead field", async () => {
+    const db = createFakeSupabase({
+      whatsapp_contacts: [{ id: "contact-1", phone: "5511999999999", normalized_phone: "5511999999999" }],
+      funnel_leads: [{ id: "lead-1", company_id: "company-1", custom_fields: { origem: "site" } }],
+    });
+    const node = createFlowNode("question", {
+      question: "Qual plano?",
+      options: ["Básico", "Pro"],
+      save_to_variable: "plano",
+      save_to_lead_field: "custom.plano",
+    });
+    const context = createNodeContext({ supabase: db.client });
+
+    const result = await getFlowNodeDefinition("question")!.resume!(node, context, { buttonId: "option-1", text: "Pro" });
+
+    expect(result).toEqual({ status: "continue", sourceHandle: "option-1" });
+    expect(context.variables).toEqual({ plano: "Pro" });
+    expect(db.writes("funnel_leads", "update")[0].values).toMatchObject({ custom_fields: { origem: "site", plano: "Pro" } });
+  });
+
+  it("continues open questions with the typed answer", async () => {
+    const node = createFlowNode("question", { question: "Seu e-mail?", save_to_variable: "email" });
+    const context = createNodeContext();
+
+    const result = await getFlowNodeDefinition("question")!.resume!(node, context, { text: " ana@email.com " });
+
+    expect(result).toEqual({ status: "continue" });
+    expect(context.variables.email).toBe("ana@email.com");
+  });
+
+  it("uses variables in conditions and set_variable actions", async () => {
+    const yes = createFlowNode("message");
+    const no = createFlowNode("end");
+    const condition = createFlowNode("condition", { variable: "var.plano", operator: "equals", value: "pro" });
+
+    const result = await execute("condition")(
+      condition,
+      createNodeContext({ lastUserMessage: "outra coisa", variables: { plano: "Pro" } }, { true: yes, false: no })
+    );
+    expect(result.sourceHandle).toBe("true");
+
+    const context = createNodeContext({ contactName: "Ana", variables: { plano: "Pro" } });
+    await execute("action")(createFlowNode("action", { action_type: "set_variable", action_value: "resumo={{cliente}} - {{var.plano}}" }), context);
+    expect(context.variables.resumo).toBe("Ana - Pro");
+  });
+});
+
+describe("condition node", () => {
+  it("follows the output matching the last message", async () => {
+    const yes = createFlowNode("message");
+    const no = createFlowNode("end");
+    const node = createFlowNode("condition", { operator: "contains", value: "preço" });
+
+    const matched = await execute("condition")(node, createNodeContext({ lastUserMessage: "Qual o PREÇO?" }, { true: yes, false: no }));
+    const notMatched = await execute("condition")(node, createNodeContext({ lastUserMessage: "Oi" }, { true: yes, false: no }));
+
+    expect(matched).toMatchObject({ nextNode: yes, sourceHandle: "true" });
+    expect(notMatched).toMatchObject({ nextNode: no, sourceHandle: "false" });
+  });
+
+  it("checks lead fields, regex and numeric comparisons", async () => {
+    const db = createFakeSupabase({
+      whatsapp_contacts: [{ id: "contact-1", phone: "5511999999999", normalized_phone: "5511999999999" }],
+      funnel_leads: [{ id: "lead-1", company_id: "company-1", stage_id: "stage-1", tags: ["cliente"], value: 1500 }],
+      funnel_stages: [{ id: "stage-1", name: "Negociação" }],
+    });
+    const check = async (config: Record<string, unknown>, lastUserMessage = "") =>
+      (await execute("condition")(createFlowNode("condition", config), createNodeContext({ supabase: db.client, lastUserMessage }))).sourceHandle;
+
+    expect(await check({ variable: "lead.tags", operator: "contains", value: "cliente" })).toBe("true");
+    expect(await check({ variable: "lead.stage", operator: "equals", value: "negociação" })).toBe("true");
+    expect(await check({ variable: "lead.value", operator: "greater_than", value: "1.000,00" })).toBe("true");
+    expect(await check({ variable: "lead.value", operator: "between", value: "0,1000" })).toBe("false");
+    expect(await check({ variable: "last_message", operator: "matches_regex", value: "^\\S+@\\S+\\.\\S+$" }, "ana@email.com")).toBe("true");
+    expect(await check({ variable: "last_message", operator: "matches_regex", value: "^\\S+@\\S+\\.\\S+$" }, "ana@")).toBe("false");
+  });
+
+  it("checks the time in the company timezone", async () => {
+    vi.useFakeTimers();
+    // Wednesday 23:30 UTC = 20:30 in São Paulo
+    vi.setSystemTime(new Date("2026-01-07T23:30:00Z"));
+    const db = createFakeSupabase({ companies: [{ id: "company-1", timezone: "America/Sao_Paulo" }] });
+    const check = async (config: Record<string, unknown>) =>
+      (await execute("condition")(createFlowNode("condition", config), createNodeContext({ supabase: db.client }))).sourceHandle;
+
+    try {
+      expect(await check({ variable: "time.hour", operator: "between", value: "18:00,08:00" })).toBe("true");
+      expect(await check({ variable: "time.hour", operator: "between", value: "08:00,18:00" })).toBe("false");
+      expect(await check({ variable: "time.weekday", operator: "in_list", value: "1,2,3,4,5" })).toBe("true");
+      expect(await check({ variable: "time.business_hours", operator: "equals", value: "aberto" })).toBe("true");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("follows the first matching branch or the else output", async () => {
+    const node = createFlowNode("condition", {
+      branches: [
+        { id: "branch-a", variable: "var.plano", operator: "equals", value: "pro" },
+        { id: "branch-b", variable: "var.plano", operator: "is_not_empty" },
+      ],
+    });
+    const run = async (variables: Record<string, string>) =>
+      (await execute("condition")(node, createNodeContext({ variables }))).sourceHandle;
+
+    expect(await run({ plano: "Pro" })).toBe("branch-a");
+    expect(await run({ plano: "Básico" })).toBe("branch-b");
+    expect(await run({})).toBe("else");
+    expect(validateNodeConfig("condition", { branches: [{ id: "x", operator: "matches_regex", value: "(" }] })).toEqual([
+      "Saída 1: Expressão regular inválida",
+    ]);
+  });
+});
+
+describe("delay node", () => {
+  it("waits inline for short delays", async () => {
+    const wait = vi.fn(async () => {});
+    const result = await execute("delay")(createFlowNode("delay", { delay_value: 10, delay_unit: "seconds" }), createNodeContext({ wait }));
+
+    expect(wait).toHaveBeenCalledWith(10000);
+    expect(result.shouldContinue).toBe(true);
+  });
+
+  it("pauses the execution for long delays", async () => {
+    const db = createFakeSupabase();
+    const result = await execute("delay")(
+      createFlowNode("delay", { delay_value: 2, delay_unit: "days" }),
+      createNodeContext({ supabase: db.client })
+    );
+
+    expect(result).toMatchObject({ shouldContinue: false, delaySeconds: 172800 });
+    expect(db.writes("chatbot_flow_executions", "update")[0].values).toMatchObject({ status: "paused" });
+  });
+});
+
+describe("action node", () => {
+  it("adds the tag to the contact's lead", async () => {
+    const db = createFakeSupabase({
+      whatsapp_contacts: [{ id: "contact-1", phone: "5511999999999", normalized_phone: "5511999999999", name: "Ana" }],
+      funnel_leads: [{ id: "lead-1", company_id: "company-1", tags: ["novo"] }],
+    });
+
+    await execute("action")(
+      createFlowNode("action", { action_type: "add_tag", action_value: "vip" }),
+      createNodeContext({ supabase: db.client })
+    );
+
+    const update = db.writes("funnel_leads", "update")[0];
+    expect(update.values).toMatchObject({ tags: ["novo", "vip"] });
+    expect(update.filters).toEqual({ id: "lead-1" });
+  });
+});
+
+describe("transfer node", () => {
+  it("hands the contact over to a human", async () => {
+    const db = createFakeSupabase({ whatsapp_contacts: [{ id: "contact-1", tags: [] }] });
+    const whatsapp = createFakeWhatsAppSender();
+
+    const result = await execute("transfer")(createFlowNode("transfer"), createNodeContext({ supabase: db.client, whatsapp }));
+
+    expect(db.writes("chatbot_flow_executions", "update")[0].values).toMatchObject({ is_human_takeover: true });
+    expect(db.writes("whatsapp_contacts", "update")[0].values).toMatchObject({ tags: ["em_atendimento"] });
+    expect(whatsapp.sendText).toHaveBeenCalledWith("5511999999999", "Você será atendido por um humano em breve.");
+    expect(result.shouldContinue).toBe(false);
+  });
+
+  it("distributes the conversation in the queue and hands the lead to the agent", async () => {
+    const db = createFakeSupabase({
+      chat_queues: [{ id: "queue-1", company_id: "company-1", distribution: "round_robin", last_assigned_user_id: null }],
+      chat_queue_members: [{ queue_id: "queue-1", user_id: "agent-1" }],
+      profiles: [{ company_id: "company-1", user_id: "agent-1", is_available: true, last_seen_at: new Date().toISOString() }],
+      whatsapp_contacts: [{ id: "contact-1", company_id: "company-1", phone: "5511999999999", assigned_to: null, tags: [] }],
+      funnel_leads: [{ id: "lead-1", company_id: "company-1", phone: "5511999999999", assigned_to: null }],
+    });
+
+    await execute("transfer")(createFlowNode("transfer", { queue_id: "queue-1" }), createNodeContext({ supabase: db.client }));
+
+    expect(db.writes("whatsapp_contacts", "update")[1].values).toMatchObject({ queue_id: "queue-1", assigned_to: "agent-1" });
+    expect(db.writes("funnel_leads", "update")[0].values).toEqual({ assigned_to: "agent-1" });
+  });
+
+  it("queues the transfer until the company opens", async () => {
+    vi.useFakeTimers();
+    // Saturday 15:00 UTC
+    vi.setSystemTime(new Date("2026-01-10T15:00:00Z"));
+    const businessHours = {
+      enabled: true,
+      days: [0, 1, 2, 3, 4, 5, 6].map((weekday) => ({ enabled: weekday >= 1 && weekday <= 5, start: "09:00", end: "18:00" })),
+      holidays: [],
+    };
+    const db = createFakeSupabase({
+      companies: [{ id: "company-1", timezone: "America/Sao_Paulo", business_hours: businessHours }],
+      whatsapp_contacts: [{ id: "contact-1", tags: [] }],
+    });
+    const whatsapp = createFakeWhatsAppSender();
+
+    try {
+      const node = createFlowNode("transfer", { out_of_hours_message: "Voltamos na segunda!" });
+      const result = await execute("transfer")(node, createNodeContext({ supabase: db.client, whatsapp }));
+
+      expect(result.shouldContinue).toBe(false);
+      expect(whatsapp.sendText).toHaveBeenCalledWith("5511999999999", "Voltamos na segunda!");
+      expect(db.writes("chatbot_flow_executions", "update")[0].values).toMatchObject({
+        status: "paused",
+        current_node_id: node.id,
+        next_action_at: "2026-01-12T12:00:00.000Z",
+        context: { waiting_for: "business_hours" },
+      });
+      expect(db.writes("whatsapp_contacts", "update")).toHaveLength(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
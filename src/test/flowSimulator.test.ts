@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { createFlowSimulator } from "@/lib/flowSimulator";
+import { createFlowSnapshot } from "@/lib/flowVersions";
+
+const node = (id: string, node_type: string, config: Record<string, unknown> = {}) => ({
+  id,
+  node_type,
+  position_x: 0,
+  position_y: 0,
+  config,
+});
+
+const edge = (id: string, source_node_id: string, target_node_id: string, source_handle: string | null = null) => ({
+  id,
+  source_node_id,
+  target_node_id,
+  source_handle,
+  label: null,
+});
+
+const flow = createFlowSnapshot(
+  [
+    node("start", "start"),
+    node("hello", "message", { message: "Olá, {{cliente}}!" }),
+    node("ask", "question", { question: "Quer falar sobre?", options: ["Vendas", "Suporte"], save_to_variable: "assunto" }),
+    node("sales", "message", { message: "Assunto: {{var.assunto}}" }),
+    node("wait", "delay", { delay_value: 2, delay_unit: "hours" }),
+    node("bye", "message", { message: "Até mais" }),
+  ],
+  [
+    edge("e1", "start", "hello"),
+    edge("e2", "hello", "ask"),
+    edge("e3", "ask", "sales", "option-0"),
+    edge("e4", "sales", "wait"),
+    edge("e5", "wait", "bye"),
+  ]
+);
+
+const createSimulator = () =>
+  createFlowSimulator({ flow, flowId: "flow-1", companyId: "company-1", contactName: "Maria Silva" });
+
+describe("flow simulator", () => {
+  it("runs the flow until a question and shows the buttons", async () => {
+    const simulator = createSimulator();
+
+    await simulator.start("oi");
+
+    const state = simulator.getState();
+    expect(state.status).toBe("waiting_response");
+    expect(state.currentNodeId).toBe("ask");
+    expect(state.path).toEqual(["hello", "ask"]);
+    expect(state.messages.filter((m) => m.from === "bot").map((m) => m.text)).toEqual([
+      "Olá, Maria Silva!",
+      "Quer falar sobre?",
+    ]);
+    expect(state.messages[2].buttons).toEqual([
+      { id: "option-0", title: "Vendas" },
+      { id: "option-1", title: "Suporte" },
+    ]);
+  });
+
+  it("follows the chosen button, saves the answer and pauses on long delays", async () => {
+    const simulator = createSimulator();
+    await simulator.start("oi");
+
+    await simulator.reply({ text: "Vendas", buttonId: "option-0" });
+
+    let state = simulator.getState();
+    expect(state.variables).toEqual({ assunto: "Vendas" });
+    expect(state.messages.some((m) => m.from === "bot" && m.text === "Assunto: Vendas")).toBe(true);
+    expect(state.status).toBe("paused");
+    expect(state.currentNodeId).toBe("wait");
+    expect(state.nextActionAt).not.toBeNull();
+
+    await simulator.skipWait();
+
+    state = simulator.getState();
+    expect(state.status).toBe("completed");
+    expect(state.messages.filter((m) => m.from === "bot").pop()?.text).toBe("Até mais");
+  });
+
+  it("ends the flow when the chosen option isn't connected", async () => {
+    const simulator = createSimulator();
+    await simulator.start("oi");
+
+    await simulator.reply({ text: "Suporte", buttonId: "option-1" });
+
+    expect(simulator.getState().status).toBe("completed");
+    expect(simulator.getState().writes.some((w) => w.table === "whatsapp_messages")).toBe(true);
+  });
+});
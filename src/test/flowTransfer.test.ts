@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import {
+  createFlowExport,
+  parseFlowExport,
+  remapFlowImport,
+  suggestFlowImportMapping,
+} from "@/lib/flowTransfer";
+import { FLOW_TEMPLATES } from "@/lib/flowTemplates";
+import { createFlowSnapshot } from "@/lib/flowVersions";
+import { validateFlow } from "@/lib/flowValidation";
+
+const snapshot = createFlowSnapshot(
+  [
+    { id: "n1", node_type: "start", position_x: 0, position_y: 0, config: {} },
+    {
+      id: "n2",
+      node_type: "action",
+      position_x: 0,
+      position_y: 100,
+      config: { action_type: "move_stage", funnel_id: "f-old", stage_id: "s-old", action_value: "Proposta" },
+    },
+    { id: "n3", node_type: "action", position_x: 0, position_y: 200, config: { action_type: "add_tag", action_value: "VIP" } },
+  ],
+  [
+    { id: "e1", source_node_id: "n1", target_node_id: "n2", source_handle: null, label: null },
+    { id: "e2", source_node_id: "n2", target_node_id: "n3", source_handle: null, label: null },
+  ]
+);
+
+const exported = createFlowExport(
+  { name: "Vendas", description: null, trigger_keywords: ["oi"], trigger_rules: null },
+  snapshot,
+  [{ id: "s-old", name: "Proposta", funnel_name: "Comercial" }]
+);
+
+describe("flow import/export", () => {
+  it("reads back an exported file and rejects other files", () => {
+    const file = parseFlowExport(JSON.stringify(exported));
+
+    expect(file.flow).toEqual({ name: "Vendas", description: null, trigger_keywords: ["oi"], trigger_rules: [] });
+    expect(file.nodes).toHaveLength(3);
+    expect(() => parseFlowExport("{")).toThrow("O arquivo não é um JSON válido");
+    expect(() => parseFlowExport(JSON.stringify({ nodes: [] }))).toThrow("O arquivo não é um fluxo exportado");
+    expect(() => parseFlowExport(JSON.stringify({ ...exported, version: 99 }))).toThrow("Versão do arquivo não suportada");
+  });
+
+  it("suggests local stages and tags with the same name", () => {
+    const mapping = suggestFlowImportMapping(
+      exported,
+      [
+        { id: "s-other", name: "proposta", funnel_id: "f2", funnel_name: "Pós-venda" },
+        { id: "s-new", name: "Proposta", funnel_id: "f1", funnel_name: "Comercial" },
+      ],
+      ["vip", "novo"]
+    );
+
+    expect(mapping.stages["s-old"]?.id).toBe("s-new");
+    expect(mapping.tags).toEqual({ VIP: "vip" });
+  });
+
+  it("creates new ids and points actions to the mapped stage and tag", () => {
+    let next = 0;
+    const { nodes, edges } = remapFlowImport(
+      exported,
+      {
+        stages: { "s-old": { id: "s-new", name: "Negociação", funnel_id: "f-new", funnel_name: "Vendas" } },
+        tags: { VIP: "cliente-vip" },
+      },
+      () => `id-${++next}`
+    );
+
+    expect(nodes.map((n) => n.id)).toEqual(["id-1", "id-2", "id-3"]);
+    expect(edges.map((e) => [e.id, e.source_node_id, e.target_node_id])).toEqual([
+      ["id-4", "id-1", "id-2"],
+      ["id-5", "id-2", "id-3"],
+    ]);
+    expect(nodes[1].config).toMatchObject({ stage_id: "s-new", funnel_id: "f-new", action_value: "Negociação" });
+    expect(nodes[2].config.action_value).toBe("cliente-vip");
+
+    const unmapped = remapFlowImport(exported, { stages: { "s-old": null }, tags: {} });
+    expect(unmapped.nodes[1].config.stage_id).toBe("");
+  });
+
+  it("ships templates that can be published", () => {
+    for (const template of FLOW_TEMPLATES) {
+      const errors = validateFlow(template.file).filter((issue) => issue.severity === "error");
+      expect(errors, template.id).toEqual([]);
+    }
+  });
+});
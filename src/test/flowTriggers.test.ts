@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import {
+  FlowTriggerRule,
+  TriggerFlow,
+  getFlowTriggerRules,
+  matchesKeyword,
+  matchesTriggerRule,
+  selectTriggeredFlow,
+  validateTriggerRule,
+} from "@/lib/flowTriggers";
+
+const rule = (overrides: Partial<FlowTriggerRule>): FlowTriggerRule => ({ id: "r1", type: "keyword", ...overrides });
+
+const flow = (id: string, rules: FlowTriggerRule[], overrides: Partial<TriggerFlow> = {}): TriggerFlow => ({
+  id,
+  name: id,
+  is_default: false,
+  trigger_keywords: [],
+  trigger_rules: rules,
+  created_at: "2026-01-01T00:00:00Z",
+  ...overrides,
+});
+
+describe("flow trigger rules", () => {
+  it("matches keywords by mode", () => {
+    expect(matchesKeyword("Qual o preço?", "preço")).toBe(true);
+    expect(matchesKeyword("Qual o preço?", "preço", "exact")).toBe(false);
+    expect(matchesKeyword(" Preço ", "preço", "exact")).toBe(true);
+    expect(matchesKeyword("oi tudo bem", "oi", "word")).toBe(true);
+    expect(matchesKeyword("boite", "oi", "word")).toBe(false);
+    expect(matchesKeyword("olá", "ol", "word")).toBe(false);
+    expect(matchesKeyword("pedido 1234", "^pedido \\d+$", "regex")).toBe(true);
+    expect(matchesKeyword("pedido", "([", "regex")).toBe(false);
+  });
+
+  it("matches first message, inactivity, buttons and ad referrals", () => {
+    const now = new Date("2026-01-20T12:00:00Z");
+    expect(matchesTriggerRule(rule({ type: "first_message" }), { message: "oi", previousMessageAt: null })).toBe(true);
+    expect(matchesTriggerRule(rule({ type: "first_message" }), { message: "oi", previousMessageAt: "2026-01-01T00:00:00Z" })).toBe(false);
+
+    const inactivity = rule({ type: "inactivity", days: 7 });
+    expect(matchesTriggerRule(inactivity, { message: "oi", previousMessageAt: "2026-01-10T12:00:00Z" }, now)).toBe(true);
+    expect(matchesTriggerRule(inactivity, { message: "oi", previousMessageAt: "2026-01-15T12:00:00Z" }, now)).toBe(false);
+    expect(matchesTriggerRule(inactivity, { message: "oi", previousMessageAt: null }, now)).toBe(false);
+
+    expect(matchesTriggerRule(rule({ type: "button", value: "quero_oferta" }), { message: "Quero", buttonId: "quero_oferta" })).toBe(true);
+    expect(matchesTriggerRule(rule({ type: "button", value: "quero_oferta" }), { message: "Quero" })).toBe(false);
+
+    const referral = { source_id: "ad-1", source_type: "ad" };
+    expect(matchesTriggerRule(rule({ type: "ad_referral" }), { message: "oi", referral })).toBe(true);
+    expect(matchesTriggerRule(rule({ type: "ad_referral", value: "ad-2" }), { message: "oi", referral })).toBe(false);
+    expect(matchesTriggerRule(rule({ type: "ad_referral" }), { message: "oi" })).toBe(false);
+  });
+
+  it("validates rules", () => {
+    expect(validateTriggerRule(rule({ value: " " }))).toEqual(["Palavra-chave é obrigatória"]);
+    expect(validateTriggerRule(rule({ value: "([", match: "regex" }))).toEqual(["Expressão regular inválida"]);
+    expect(validateTriggerRule(rule({ type: "inactivity", days: 0 }))).toEqual(["Informe quantos dias sem conversa"]);
+    expect(validateTriggerRule(rule({ type: "first_message" }))).toEqual([]);
+  });
+
+  it("falls back to the legacy keyword list", () => {
+    const legacy = flow("legacy", [], { trigger_keywords: ["preço"] });
+    expect(getFlowTriggerRules(legacy)).toEqual([
+      { id: "legacy-keyword-0", type: "keyword", match: "contains", value: "preço", priority: 0 },
+    ]);
+    expect(selectTriggeredFlow([legacy], { message: "qual o preço" })?.flow.id).toBe("legacy");
+  });
+
+  it("resolves overlapping flows by priority, then by the oldest flow", () => {
+    const older = flow("older", [rule({ value: "preço" })], { created_at: "2026-01-01T00:00:00Z" });
+    const newer = flow("newer", [rule({ value: "preço" })], { created_at: "2026-01-02T00:00:00Z" });
+    const urgent = flow("urgent", [rule({ value: "preço", priority: 10 })], { created_at: "2026-01-03T00:00:00Z" });
+
+    expect(selectTriggeredFlow([newer, older], { message: "preço" })?.flow.id).toBe("older");
+    expect(selectTriggeredFlow([newer, urgent, older], { message: "preço" })?.flow.id).toBe("urgent");
+  });
+
+  it("uses the default flow only for greetings", () => {
+    const defaultFlow = flow("default", [], { is_default: true });
+    expect(selectTriggeredFlow([defaultFlow], { message: "Bom dia!" })).toEqual({ flow: defaultFlow, rule: null });
+    expect(selectTriggeredFlow([defaultFlow], { message: "quero comprar" })).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { hasBlockingIssues, validateFlow } from "@/lib/flowValidation";
+import { createFlowSnapshot } from "@/lib/flowVersions";
+
+const node = (id: string, node_type: string, config: Record<string, unknown> = {}) => ({
+  id,
+  node_type,
+  position_x: 0,
+  position_y: 0,
+  config,
+});
+
+const edge = (source: string, target: string, handle: string | null = null) => ({
+  id: `${source}-${handle || ""}-${target}`,
+  source_node_id: source,
+  target_node_id: target,
+  source_handle: handle,
+  label: null,
+});
+
+const messagesFor = (issues: ReturnType<typeof validateFlow>, nodeId: string) =>
+  issues.filter((issue) => issue.nodeId === nodeId).map((issue) => `${issue.severity}: ${issue.message}`);
+
+describe("flow validation", () => {
+  it("accepts a connected flow", () => {
+    const issues = validateFlow(
+      createFlowSnapshot(
+        [node("start", "start"), node("ask", "question", { question: "Tudo bem?" }), node("bye", "end")],
+        [edge("start", "ask"), edge("ask", "bye")]
+      )
+    );
+
+    expect(issues).toEqual([]);
+  });
+
+  it("blocks dangling questions, incomplete conditions, orphans and invalid configs", () => {
+    const issues = validateFlow(
+      createFlowSnapshot(
+        [
+          node("start", "start"),
+          node("ask", "question", { question: "Qual o seu plano?" }),
+          node("check", "condition", { variable: "var.plano", operator: "equals", value: "pro" }),
+          node("move", "action", { action_type: "move_stage" }),
+          node("orphan", "message", { message: "Oi" }),
+        ],
+        [edge("start", "check"), edge("check", "ask", "true"), edge("ask", "move", "invalid")]
+      )
+    );
+
+    expect(hasBlockingIssues(issues)).toBe(true);
+    expect(messagesFor(issues, "ask")).toContain("error: Pergunta: sem saída conectada");
+    expect(messagesFor(issues, "check")).toEqual(["error: Condição: saída Falso sem conexão"]);
+    expect(messagesFor(issues, "move")).toEqual(["error: Ação: Etapa é obrigatória"]);
+    expect(messagesFor(issues, "orphan")).toEqual(["error: Mensagem: bloco solto, nenhuma conexão chega até ele"]);
+  });
+
+  it("only warns about unreachable nodes and long delays", () => {
+    const issues = validateFlow(
+      createFlowSnapshot(
+        [
+          node("start", "start"),
+          node("wait", "delay", { delay_value: 2, delay_unit: "days" }),
+          node("island-a", "message", { message: "A" }),
+          node("island-b", "message", { message: "B" }),
+        ],
+        [edge("start", "wait"), edge("island-a", "island-b"), edge("island-b", "island-a")]
+      )
+    );
+
+    expect(hasBlockingIssues(issues)).toBe(false);
+    expect(messagesFor(issues, "wait")[0]).toMatch(/^warning: Delay: espera maior que 24h/);
+    expect(messagesFor(issues, "island-a")).toEqual(["warning: Mensagem: bloco inalcançável a partir do início"]);
+  });
+
+  it("requires at least one connected option and warns about the others", () => {
+    const issues = validateFlow(
+      createFlowSnapshot(
+        [node("start", "start"), node("ask", "question", { question: "Escolha", options: ["Sim", "Não"] }), node("bye", "end")],
+        [edge("start", "ask"), edge("ask", "bye", "option-0")]
+      )
+    );
+
+    expect(messagesFor(issues, "ask")).toEqual(['warning: Pergunta: opção "Não" encerra o fluxo']);
+  });
+});
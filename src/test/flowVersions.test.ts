@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { createFlowGraph, createFlowSnapshot, diffFlowSnapshots, hasFlowChanges } from "@/lib/flowVersions";
+
+const node = (id: string, node_type: string, config: Record<string, unknown> = {}, position_x = 0) => ({
+  id,
+  node_type,
+  position_x,
+  position_y: 0,
+  config,
+});
+
+const edge = (id: string, source_node_id: string, target_node_id: string, source_handle: string | null = null) => ({
+  id,
+  source_node_id,
+  target_node_id,
+  source_handle,
+  label: null,
+});
+
+const published = createFlowSnapshot(
+  [node("start", "start"), node("ask", "question", { question: "Seu e-mail?" }), node("bye", "message", { message: "Tchau" })],
+  [edge("e1", "start", "ask"), edge("e2", "ask", "bye")]
+);
+
+describe("flow versions", () => {
+  it("diffs the draft against the published version", () => {
+    const draft = createFlowSnapshot(
+      [
+        node("start", "start", {}, 100),
+        node("ask", "question", { question: "Qual o seu e-mail?" }),
+        node("end", "end"),
+      ],
+      // Same connection re-created with a new id
+      [edge("e3", "start", "ask"), edge("e4", "ask", "end")]
+    );
+
+    const diff = diffFlowSnapshots(published, draft);
+
+    expect(diff.addedNodes.map((n) => n.id)).toEqual(["end"]);
+    expect(diff.removedNodes.map((n) => n.id)).toEqual(["bye"]);
+    expect(diff.changedNodes.map((c) => c.after.id)).toEqual(["ask"]);
+    expect(diff.movedNodes.map((n) => n.id)).toEqual(["start"]);
+    expect(diff.addedEdges.map((e) => e.id)).toEqual(["e4"]);
+    expect(diff.removedEdges.map((e) => e.id)).toEqual(["e2"]);
+  });
+
+  it("ignores config key order and extra draft columns", () => {
+    const draft = createFlowSnapshot(
+      [
+        { ...node("start", "start"), flow_id: "flow-1", created_at: "2026-01-01" } as ReturnType<typeof node>,
+        node("ask", "question", { question: "Seu e-mail?" }),
+        node("bye", "message", { message: "Tchau" }),
+      ],
+      [edge("e1", "start", "ask"), edge("e2", "ask", "bye")]
+    );
+
+    expect(draft.nodes[0]).not.toHaveProperty("flow_id");
+    expect(hasFlowChanges(diffFlowSnapshots(published, draft))).toBe(false);
+    expect(
+      hasFlowChanges(
+        diffFlowSnapshots(
+          createFlowSnapshot([node("a", "message", { a: 1, b: 2 })], []),
+          createFlowSnapshot([node("a", "message", { b: 2, a: 1 })], [])
+        )
+      )
+    ).toBe(false);
+    expect(hasFlowChanges(diffFlowSnapshots(null, published))).toBe(true);
+  });
+
+  it("navigates the published snapshot", () => {
+    const snapshot = createFlowSnapshot(
+      [node("start", "start"), node("ask", "question"), node("ok", "message"), node("retry", "message")],
+      [edge("e1", "start", "ask"), edge("e2", "ask", "retry", "invalid"), edge("e3", "ask", "ok")]
+    );
+    const graph = createFlowGraph(snapshot, "flow-1", "company-1");
+
+    expect(graph.getStartNode()).toMatchObject({ id: "start", flow_id: "flow-1", company_id: "company-1" });
+    expect(graph.getNextNode("start")?.id).toBe("ask");
+    // The invalid-answer output is only followed explicitly
+    expect(graph.getNextNode("ask")?.id).toBe("ok");
+    expect(graph.getNextNode("ask", "invalid")?.id).toBe("retry");
+    expect(graph.getNextNode("ok")).toBeNull();
+    expect(graph.getNode("missing")).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { QuickReply, normalizeShortcut, renderQuickReply, searchQuickReplies } from "@/lib/quickReplies";
+
+const reply = (shortcut: string, overrides: Partial<QuickReply> = {}): QuickReply => ({
+  id: shortcut,
+  shortcut,
+  title: shortcut,
+  content: "",
+  media_url: null,
+  media_type: null,
+  media_filename: null,
+  is_favorite: false,
+  ...overrides,
+});
+
+describe("quick replies", () => {
+  it("normalizes shortcuts", () => {
+    expect(normalizeShortcut("/Boas Vindas")).toBe("boas-vindas");
+    expect(normalizeShortcut(" Preço_Plano! ")).toBe("preco_plano");
+  });
+
+  it("fills contact and lead variables", () => {
+    const text = "Oi {{primeiro_nome}}! Você está em {{etapa}} ({{valor}}). Sou {{atendente}}. {{desconhecida}}";
+
+    expect(
+      renderQuickReply(text, {
+        contactName: "Maria Souza",
+        stageName: "Proposta",
+        leadValue: 1500,
+        agentName: "Ana Lima",
+      })
+    ).toBe("Oi Maria! Você está em Proposta (R$ 1.500,00). Sou Ana. {{desconhecida}}");
+  });
+
+  it("leaves missing values empty", () => {
+    expect(renderQuickReply("Olá {{cliente}}, etapa: {{etapa}}", {})).toBe("Olá , etapa: ");
+  });
+
+  it("lists favorites first, then shortcuts matching the query", () => {
+    const replies = [
+      reply("preco", { title: "Tabela de preços" }),
+      reply("agenda", { content: "Qual o melhor horário?" }),
+      reply("obrigado", { is_favorite: true, content: "Obrigado pelo contato, qual o preço combinado?" }),
+      reply("pix"),
+    ];
+
+    expect(searchQuickReplies(replies, "").map((r) => r.shortcut)).toEqual(["obrigado", "agenda", "pix", "preco"]);
+    expect(searchQuickReplies(replies, "/pre").map((r) => r.shortcut)).toEqual(["obrigado", "preco"]);
+    expect(searchQuickReplies(replies, "p").map((r) => r.shortcut)).toEqual(["obrigado", "pix", "preco"]);
+  });
+});
@@ -0,0 +1,17 @@
+import { describe, it, expect } from "vitest";
+import { getServiceWindowRemainingMs, isServiceWindowOpen, SERVICE_WINDOW_MS } from "@/lib/serviceWindow";
+
+describe("service window", () => {
+  const now = new Date("2026-01-29T12:00:00Z");
+
+  it("counts 24h from the contact's last message", () => {
+    expect(getServiceWindowRemainingMs("2026-01-29T10:00:00Z", now)).toBe(SERVICE_WINDOW_MS - 2 * 60 * 60 * 1000);
+    expect(isServiceWindowOpen("2026-01-28T12:30:00Z", now)).toBe(true);
+  });
+
+  it("is closed after 24h or when the contact never wrote", () => {
+    expect(getServiceWindowRemainingMs("2026-01-28T11:00:00Z", now)).toBe(0);
+    expect(isServiceWindowOpen("2026-01-28T12:00:00Z", now)).toBe(false);
+    expect(isServiceWindowOpen(null, now)).toBe(false);
+  });
+});
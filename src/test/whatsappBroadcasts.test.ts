@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { buildBroadcastComponents, getBroadcastBatchSize } from "@/lib/whatsappBroadcasts";
+
+const template = [
+  { type: "BODY" as const, text: "Olá {{1}}, temos uma oferta no valor de {{2}}." },
+  {
+    type: "BUTTONS" as const,
+    buttons: [{ type: "URL" as const, text: "Ver oferta", url: "https://loja.com/oferta/{{1}}" }],
+  },
+];
+
+const lead = {
+  id: "lead-1",
+  stage_id: "stage-1",
+  name: "Maria Souza",
+  email: null,
+  phone: "5511999990000",
+  value: 1500,
+  source: null,
+  tags: [],
+};
+
+describe("whatsapp broadcasts", () => {
+  it("sends per minute within the daily limit of the tier", () => {
+    expect(getBroadcastBatchSize("TIER_1K", 0)).toBe(30);
+    expect(getBroadcastBatchSize("TIER_1K", 990)).toBe(10);
+    expect(getBroadcastBatchSize("TIER_1K", 1000)).toBe(0);
+    expect(getBroadcastBatchSize("TIER_UNLIMITED", 500000)).toBe(200);
+    // Unknown tier falls back to a new account
+    expect(getBroadcastBatchSize(null, 245)).toBe(5);
+  });
+
+  it("fills the template variables with each lead's data", () => {
+    const { components, errors } = buildBroadcastComponents(
+      template,
+      { body: ["{lead_first_name}", "{lead_value}"], buttons: { 0: "{lead_phone}" } },
+      lead
+    );
+
+    expect(errors).toEqual([]);
+    expect(components[0].parameters?.[0]).toEqual({ type: "text", text: "Maria" });
+    expect(components[1]).toMatchObject({ type: "button", index: "0", parameters: [{ text: "5511999990000" }] });
+  });
+
+  it("sends templates without variables", () => {
+    const { components, errors } = buildBroadcastComponents(
+      [{ type: "BODY" as const, text: "Temos novidades para você!" }],
+      {} as Parameters<typeof buildBroadcastComponents>[1],
+      lead
+    );
+
+    expect(errors).toEqual([]);
+    expect(components).toEqual([]);
+  });
+
+  it("reports leads missing the data a variable needs", () => {
+    const { errors } = buildBroadcastComponents(template, { body: ["{lead_name}", "{lead_email}"], buttons: { 0: "promo" } }, lead);
+
+    expect(errors).toEqual(["Variável {{2}} é obrigatória"]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildTemplateComponents,
+  getTemplateFields,
+  renderTemplatePreview,
+  suggestTemplateParamField,
+  validateTemplateComponents,
+} from "@/lib/whatsappTemplates";
+
+const template = [
+  { type: "HEADER" as const, format: "IMAGE" as const },
+  {
+    type: "BODY" as const,
+    text: "Olá {{1}}, seu pedido {{2}} saiu para entrega.",
+    example: { body_text: [["Maria", "#123"]] },
+  },
+  { type: "FOOTER" as const, text: "Loja Exemplo" },
+  {
+    type: "BUTTONS" as const,
+    buttons: [
+      { type: "QUICK_REPLY" as const, text: "Obrigado" },
+      { type: "URL" as const, text: "Rastrear", url: "https://loja.com/pedidos/{{1}}" },
+    ],
+  },
+];
+
+describe("whatsapp templates", () => {
+  it("reads the fields to fill from the template", () => {
+    expect(getTemplateFields(template)).toEqual({
+      headerFormat: "IMAGE",
+      headerHasParam: false,
+      bodyParamCount: 2,
+      bodyExamples: ["Maria", "#123"],
+      urlButtons: [{ index: 1, text: "Rastrear", url: "https://loja.com/pedidos/{{1}}" }],
+    });
+  });
+
+  it("builds Graph API components that pass validation", () => {
+    const components = buildTemplateComponents(template, {
+      header: "https://cdn.com/pedido.png",
+      body: [" Ana ", "#987"],
+      buttons: { 1: "987" },
+    });
+
+    expect(components).toEqual([
+      { type: "header", parameters: [{ type: "image", image: { link: "https://cdn.com/pedido.png" } }] },
+      { type: "body", parameters: [{ type: "text", text: "Ana" }, { type: "text", text: "#987" }] },
+      { type: "button", sub_type: "url", index: "1", parameters: [{ type: "text", text: "987" }] },
+    ]);
+    expect(validateTemplateComponents(template, components)).toEqual([]);
+  });
+
+  it("reports missing media, empty variables and invalid text", () => {
+    const components = buildTemplateComponents(template, { header: "http://cdn.com/x.png", body: ["Ana\nSilva"] });
+
+    expect(validateTemplateComponents(template, components)).toEqual([
+      "Mídia do cabeçalho deve ser um link https://",
+      "Variável {{1}} não pode ter quebras de linha, tabulações ou espaços seguidos",
+      "Variável {{2}} é obrigatória",
+      'Variável do link "Rastrear" é obrigatória',
+    ]);
+    expect(validateTemplateComponents(template, [])).toContain("Mídia do cabeçalho é obrigatória");
+  });
+
+  it("previews the message and suggests contact fields", () => {
+    expect(renderTemplatePreview(template, { body: ["Ana"] })).toMatchObject({
+      body: "Olá Ana, seu pedido {{2}} saiu para entrega.",
+      footer: "Loja Exemplo",
+      buttons: ["Obrigado", "Rastrear"],
+    });
+
+    expect(suggestTemplateParamField("Maria", 0)).toBe("first_name");
+    expect(suggestTemplateParamField("maria@email.com", 1)).toBe("email");
+    expect(suggestTemplateParamField("(11) 99999-9999", 2)).toBe("phone");
+    expect(suggestTemplateParamField("R$ 150,00", 1)).toBe("value");
+    expect(suggestTemplateParamField("#123", 1)).toBeNull();
+  });
+});
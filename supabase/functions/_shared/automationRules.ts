@@ -0,0 +1,621 @@
+/**
+ * Funnel automation rules shared by the CRM (browser) and the
+ * funnel-automations / automation-scheduler edge functions.
+ *
+ * Keep this module free of Deno/browser specific APIs so it can be
+ * imported from both runtimes.
+ */
+
+export type TriggerType =
+  | "lead_created"
+  | "lead_updated"
+  | "time_in_stage"
+  | "value_changed"
+  | "tag_added";
+
+export type ActionType =
+  | "move_to_stage"
+  | "add_tag"
+  | "remove_tag"
+  | "send_notification"
+  | "send_whatsapp_message"
+  | "send_whatsapp_template"
+  | "start_chatbot_flow";
+
+export type TriggerEvent = "lead_created" | "lead_updated" | "tag_added" | "value_changed" | "time_in_stage";
+
+export type ConditionOperator =
+  | "equals"
+  | "not_equals"
+  | "contains"
+  | "greater_than"
+  | "less_than"
+  | "is_empty"
+  | "is_not_empty"
+  // Dates (value: number of days or ISO date)
+  | "older_than_days"
+  | "newer_than_days"
+  | "before_date"
+  | "after_date"
+  // Lists such as tags (value: comma separated items)
+  | "has_any_of"
+  | "has_all_of";
+
+// `field` is a lead column or `custom.<key>` for a custom_fields entry
+export interface AutomationCondition {
+  field: string;
+  operator: ConditionOperator;
+  value: string;
+}
+
+// Nested group of conditions combined with AND/OR
+export interface AutomationConditionGroup {
+  logic: "and" | "or";
+  conditions: AutomationConditionNode[];
+}
+
+export type AutomationConditionNode = AutomationCondition | AutomationConditionGroup;
+
+// Single action, e.g. "add tag"
+export interface AutomationActionStep {
+  id: string;
+  type: "action";
+  action_type: ActionType;
+  action_config: Record<string, unknown>;
+}
+
+// Pause the run, resumed later by the automation-scheduler
+export interface AutomationDelayStep {
+  id: string;
+  type: "delay";
+  delay_minutes: number;
+}
+
+// Branch on conditions evaluated against the lead at that moment
+export interface AutomationConditionStep {
+  id: string;
+  type: "condition";
+  conditions: AutomationConditionNode[];
+  then_steps: AutomationStep[];
+  else_steps: AutomationStep[];
+}
+
+export type AutomationStep = AutomationActionStep | AutomationDelayStep | AutomationConditionStep;
+
+// Minimal automation shape needed to evaluate a rule
+export interface AutomationRule {
+  id: string;
+  name: string;
+  trigger_type: TriggerType;
+  trigger_config: Record<string, unknown>;
+  // Top level conditions are combined with AND
+  conditions: AutomationConditionNode[];
+  // Single action of automations created before multi-step support
+  action_type: ActionType;
+  action_config: Record<string, unknown>;
+  // Ordered steps (empty for single action automations)
+  steps?: AutomationStep[];
+}
+
+// Minimal lead shape needed to evaluate a rule
+export interface AutomationLead {
+  id: string;
+  stage_id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  value: number | null;
+  source: string | null;
+  tags: string[] | null;
+  custom_fields?: Record<string, unknown> | null;
+  is_reentry?: boolean | null;
+  created_at?: string | null;
+  last_contact_at?: string | null;
+  stage_entered_at?: string | null;
+  // Company business hours at evaluation time, set by the runner (unknown counts as open)
+  is_business_hours?: boolean | null;
+}
+
+export interface TriggerContext<L extends AutomationLead = AutomationLead> {
+  event: TriggerEvent;
+  lead: L;
+  previousLead?: L;
+  addedTag?: string;
+  // Reference time for time based triggers (defaults to now)
+  now?: Date;
+}
+
+// Get field value from lead
+export function getFieldValue(lead: AutomationLead, field: string): unknown {
+  if (field.startsWith("custom.")) {
+    return lead.custom_fields?.[field.slice("custom.".length)] ?? null;
+  }
+
+  switch (field) {
+    case "name": return lead.name;
+    case "email": return lead.email;
+    case "phone": return lead.phone;
+    case "value": return lead.value;
+    case "source": return lead.source;
+    case "tags": return lead.tags;
+    case "is_reentry": return lead.is_reentry ?? false;
+    case "created_at": return lead.created_at ?? null;
+    case "last_contact_at": return lead.last_contact_at ?? null;
+    case "stage_entered_at": return lead.stage_entered_at ?? null;
+    case "is_business_hours": return lead.is_business_hours ?? true;
+    default: return null;
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Parse a field value as a date, null when missing or invalid
+function toTime(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const time = new Date(value as string).getTime();
+  return isNaN(time) ? null : time;
+}
+
+// Lowercased items of a list field (arrays or comma separated text)
+function toList(value: unknown): string[] {
+  if (value === null || value === undefined) return [];
+  const items = Array.isArray(value) ? value : String(value).split(",");
+  return items.map((item) => String(item).trim().toLowerCase()).filter(Boolean);
+}
+
+// Evaluate a single condition
+export function evaluateCondition(
+  condition: AutomationCondition,
+  lead: AutomationLead,
+  now: Date = new Date()
+): boolean {
+  const fieldValue = getFieldValue(lead, condition.field);
+  const value = condition.value ?? "";
+
+  switch (condition.operator) {
+    case "equals":
+      return String(fieldValue).toLowerCase() === value.toLowerCase();
+    case "not_equals":
+      return String(fieldValue).toLowerCase() !== value.toLowerCase();
+    case "contains":
+      return String(fieldValue).toLowerCase().includes(value.toLowerCase());
+    case "greater_than":
+      return Number(fieldValue) > Number(value);
+    case "less_than":
+      return Number(fieldValue) < Number(value);
+    case "is_empty":
+      return fieldValue === null || fieldValue === undefined || fieldValue === "" ||
+             (Array.isArray(fieldValue) && fieldValue.length === 0);
+    case "is_not_empty":
+      return fieldValue !== null && fieldValue !== undefined && fieldValue !== "" &&
+             !(Array.isArray(fieldValue) && fieldValue.length === 0);
+    case "older_than_days": {
+      const time = toTime(fieldValue);
+      return time !== null && now.getTime() - time >= Number(value) * DAY_MS;
+    }
+    case "newer_than_days": {
+      const time = toTime(fieldValue);
+      return time !== null && now.getTime() - time < Number(value) * DAY_MS;
+    }
+    case "before_date": {
+      const time = toTime(fieldValue);
+      const limit = toTime(value);
+      return time !== null && limit !== null && time < limit;
+    }
+    case "after_date": {
+      const time = toTime(fieldValue);
+      const limit = toTime(value);
+      return time !== null && limit !== null && time > limit;
+    }
+    case "has_any_of": {
+      const items = toList(fieldValue);
+      return toList(value).some((item) => items.includes(item));
+    }
+    case "has_all_of": {
+      const items = toList(fieldValue);
+      const expected = toList(value);
+      return expected.length > 0 && expected.every((item) => items.includes(item));
+    }
+    default:
+      return false;
+  }
+}
+
+export function isConditionGroup(node: AutomationConditionNode): node is AutomationConditionGroup {
+  return Array.isArray((node as AutomationConditionGroup).conditions);
+}
+
+// Evaluate a condition or a nested group (empty groups always match)
+export function evaluateConditionNode(
+  node: AutomationConditionNode,
+  lead: AutomationLead,
+  now: Date = new Date()
+): boolean {
+  if (!isConditionGroup(node)) return evaluateCondition(node, lead, now);
+  if (node.conditions.length === 0) return true;
+
+  return node.logic === "or"
+    ? node.conditions.some((child) => evaluateConditionNode(child, lead, now))
+    : node.conditions.every((child) => evaluateConditionNode(child, lead, now));
+}
+
+// Check if automation trigger matches the event
+export function matchesTrigger(automation: AutomationRule, context: TriggerContext): boolean {
+  const { event, lead, previousLead, addedTag } = context;
+  const config = automation.trigger_config;
+
+  switch (automation.trigger_type) {
+    case "lead_created":
+      if (event !== "lead_created") return false;
+      // Check if specific stage is configured
+      if (config.stage_id && config.stage_id !== lead.stage_id) return false;
+      return true;
+
+    case "lead_updated":
+      return event === "lead_updated";
+
+    case "tag_added":
+      if (event !== "tag_added") return false;
+      // Check if specific tag is configured
+      if (config.tag && config.tag !== addedTag) return false;
+      return true;
+
+    case "value_changed":
+      // buildTriggerContexts adds a value_changed context next to lead_updated - matching both would run it twice
+      if (event !== "value_changed") return false;
+      if (previousLead && previousLead.value === lead.value) return false;
+      return true;
+
+    case "time_in_stage":
+      // Only evaluated by the scheduled job (automation-scheduler)
+      if (event !== "time_in_stage") return false;
+      return isTimeInStageDue(automation, lead, context.now);
+
+    default:
+      return false;
+  }
+}
+
+// Milliseconds a lead must stay in the stage before a time_in_stage automation fires
+export function getTimeInStageDuration(automation: AutomationRule): number {
+  const hours = Number(automation.trigger_config.hours) || 0;
+  return hours * 60 * 60 * 1000;
+}
+
+// Check if the lead has been in the configured stage long enough
+export function isTimeInStageDue(
+  automation: AutomationRule,
+  lead: AutomationLead,
+  now: Date = new Date()
+): boolean {
+  const stageId = automation.trigger_config.stage_id as string | undefined;
+  const duration = getTimeInStageDuration(automation);
+  if (!stageId || !duration || lead.stage_id !== stageId || !lead.stage_entered_at) return false;
+
+  return now.getTime() - new Date(lead.stage_entered_at).getTime() >= duration;
+}
+
+// Evaluate all conditions for an automation
+export function evaluateConditions(
+  automation: AutomationRule,
+  lead: AutomationLead,
+  now: Date = new Date()
+): boolean {
+  if (!automation.conditions || automation.conditions.length === 0) {
+    return true; // No conditions means always match
+  }
+
+  // Top level conditions must all be true (AND logic), groups decide their own logic
+  return evaluateConditionNode({ logic: "and", conditions: automation.conditions }, lead, now);
+}
+
+// Columns that change on every drag & drop or bookkeeping write and
+// should not count as a lead update on their own
+const BOOKKEEPING_FIELDS = new Set(["position", "updated_at", "automation_depth", "automation_write", "stage_entered_at"]);
+
+// Helper to detect what changed between lead versions
+export function detectChanges(
+  newLead: AutomationLead,
+  oldLead?: AutomationLead
+): { tagsAdded: string[]; valueChanged: boolean; changedFields: string[] } {
+  if (!oldLead) {
+    return { tagsAdded: newLead.tags || [], valueChanged: false, changedFields: [] };
+  }
+
+  const oldTags = oldLead.tags || [];
+  const newTags = newLead.tags || [];
+  const tagsAdded = newTags.filter(tag => !oldTags.includes(tag));
+  const valueChanged = Number(oldLead.value || 0) !== Number(newLead.value || 0);
+
+  const oldRecord = oldLead as unknown as Record<string, unknown>;
+  const newRecord = newLead as unknown as Record<string, unknown>;
+  const changedFields = Object.keys(newRecord).filter(
+    (key) =>
+      !BOOKKEEPING_FIELDS.has(key) &&
+      JSON.stringify(newRecord[key]) !== JSON.stringify(oldRecord[key])
+  );
+
+  return { tagsAdded, valueChanged, changedFields };
+}
+
+// Build the list of trigger contexts produced by a lead insert/update
+export function buildTriggerContexts<L extends AutomationLead>(
+  lead: L,
+  previousLead?: L
+): TriggerContext<L>[] {
+  if (!previousLead) {
+    return [{ event: "lead_created", lead }];
+  }
+
+  const changes = detectChanges(lead, previousLead);
+  if (changes.changedFields.length === 0) return [];
+
+  const contexts: TriggerContext<L>[] = [{ event: "lead_updated", lead, previousLead }];
+
+  for (const tag of changes.tagsAdded) {
+    contexts.push({ event: "tag_added", lead, addedTag: tag });
+  }
+
+  if (changes.valueChanged) {
+    contexts.push({ event: "value_changed", lead, previousLead });
+  }
+
+  return contexts;
+}
+
+// Placeholders available in notification and WhatsApp texts
+export const LEAD_TEMPLATE_VARIABLES: { key: string; label: string }[] = [
+  { key: "{lead_name}", label: "Nome do lead" },
+  { key: "{lead_first_name}", label: "Primeiro nome" },
+  { key: "{lead_email}", label: "Email" },
+  { key: "{lead_phone}", label: "Telefone" },
+  { key: "{lead_value}", label: "Valor" },
+  { key: "{lead_source}", label: "Origem" },
+  { key: "{custom.campo}", label: "Campo personalizado" },
+];
+
+// Replace lead placeholders in notification and message texts
+export function renderLeadTemplate(text: string, lead: AutomationLead): string {
+  const values: Record<string, string> = {
+    lead_name: lead.name || "",
+    lead_first_name: (lead.name || "").split(" ")[0],
+    lead_email: lead.email || "",
+    lead_phone: lead.phone || "",
+    lead_value: lead.value !== null && lead.value !== undefined ? String(lead.value) : "",
+    lead_source: lead.source || "",
+  };
+
+  return text
+    .replace(/\{custom\.([\w-]+)\}/g, (_, key: string) => {
+      const value = lead.custom_fields?.[key];
+      return value === null || value === undefined ? "" : String(value);
+    })
+    .replace(/\{(lead_\w+)\}/g, (match, key: string) => (key in values ? values[key] : match));
+}
+
+// Id of the implicit step wrapping the single action of legacy automations
+export const LEGACY_ACTION_STEP_ID = "action";
+
+// Steps executed by an automation (single action automations become a one step list)
+export function getAutomationSteps(automation: AutomationRule): AutomationStep[] {
+  if (automation.steps && automation.steps.length > 0) return automation.steps;
+
+  return [{
+    id: LEGACY_ACTION_STEP_ID,
+    type: "action",
+    action_type: automation.action_type,
+    action_config: automation.action_config,
+  }];
+}
+
+// Path (list + index at every nesting level) from the root list to a step
+function findStepPath(
+  steps: AutomationStep[],
+  stepId: string
+): { list: AutomationStep[]; index: number }[] | null {
+  for (let index = 0; index < steps.length; index++) {
+    const step = steps[index];
+    if (step.id === stepId) return [{ list: steps, index }];
+
+    if (step.type === "condition") {
+      const childPath = findStepPath(step.then_steps, stepId) || findStepPath(step.else_steps, stepId);
+      if (childPath) return [{ list: steps, index }, ...childPath];
+    }
+  }
+  return null;
+}
+
+export function findStep(steps: AutomationStep[], stepId: string): AutomationStep | null {
+  const path = findStepPath(steps, stepId);
+  if (!path) return null;
+  const last = path[path.length - 1];
+  return last.list[last.index];
+}
+
+// Step that runs after the given one - branches enter their then/else list,
+// and the end of a branch continues after the condition step
+export function getNextStepId(steps: AutomationStep[], stepId: string, branchMatched?: boolean): string | null {
+  const step = findStep(steps, stepId);
+  if (!step) return null;
+
+  if (step.type === "condition") {
+    const branch = branchMatched ? step.then_steps : step.else_steps;
+    if (branch.length > 0) return branch[0].id;
+  }
+
+  const path = findStepPath(steps, stepId) || [];
+  for (let level = path.length - 1; level >= 0; level--) {
+    const { list, index } = path[level];
+    if (index + 1 < list.length) return list[index + 1].id;
+  }
+  return null;
+}
+
+// All steps in execution order, including the ones inside branches
+export function flattenSteps(steps: AutomationStep[]): AutomationStep[] {
+  return steps.flatMap((step) =>
+    step.type === "condition"
+      ? [step, ...flattenSteps(step.then_steps), ...flattenSteps(step.else_steps)]
+      : [step]
+  );
+}
+
+// ===== Dry run (no writes) =====
+
+// Result of a condition or group, with the lead value that was compared
+export interface ConditionTrace {
+  node: AutomationConditionNode;
+  passed: boolean;
+  actual?: unknown;
+  children?: ConditionTrace[];
+}
+
+export function traceConditionNode(
+  node: AutomationConditionNode,
+  lead: AutomationLead,
+  now: Date = new Date()
+): ConditionTrace {
+  if (!isConditionGroup(node)) {
+    return { node, passed: evaluateCondition(node, lead, now), actual: getFieldValue(lead, node.field) };
+  }
+
+  const children = node.conditions.map((child) => traceConditionNode(child, lead, now));
+  const passed = children.length === 0 ||
+    (node.logic === "or" ? children.some((c) => c.passed) : children.every((c) => c.passed));
+  return { node, passed, children };
+}
+
+// Trace of the automation conditions as the top level AND group
+export function traceConditions(
+  automation: AutomationRule,
+  lead: AutomationLead,
+  now: Date = new Date()
+): ConditionTrace {
+  return traceConditionNode({ logic: "and", conditions: automation.conditions || [] }, lead, now);
+}
+
+export interface StepPreview {
+  step: AutomationStep;
+  // Branch taken by condition steps
+  matched?: boolean;
+}
+
+// Lead as it would look after the action (only actions that change the lead row)
+function applyActionPreview<L extends AutomationLead>(lead: L, step: AutomationActionStep): L {
+  const config = step.action_config;
+  const tags = lead.tags || [];
+
+  switch (step.action_type) {
+    case "move_to_stage":
+      return config.target_stage_id ? { ...lead, stage_id: config.target_stage_id as string } : lead;
+    case "add_tag":
+      return config.tag && !tags.includes(config.tag as string)
+        ? { ...lead, tags: [...tags, config.tag as string] }
+        : lead;
+    case "remove_tag":
+      return { ...lead, tags: tags.filter((tag) => tag !== config.tag) };
+    default:
+      return lead;
+  }
+}
+
+// Steps that would run for the lead, following branches the same way the runner does.
+// Delays are not waited for - conditions after a delay use the lead as it is now.
+export function previewSteps(
+  automation: AutomationRule,
+  lead: AutomationLead,
+  now: Date = new Date()
+): StepPreview[] {
+  const steps = getAutomationSteps(automation);
+  const preview: StepPreview[] = [];
+  let currentLead = lead;
+  let currentStepId: string | null = steps[0]?.id || null;
+
+  while (currentStepId && preview.length < 50) {
+    const step = findStep(steps, currentStepId);
+    if (!step) break;
+
+    if (step.type === "condition") {
+      const matched = evaluateConditionNode({ logic: "and", conditions: step.conditions }, currentLead, now);
+      preview.push({ step, matched });
+      currentStepId = getNextStepId(steps, step.id, matched);
+      continue;
+    }
+
+    if (step.type === "action") {
+      currentLead = applyActionPreview(currentLead, step);
+    }
+    preview.push({ step });
+    currentStepId = getNextStepId(steps, step.id);
+  }
+
+  return preview;
+}
+
+// Trigger context used to test an automation against a lead outside of a real event
+export function buildDryRunContext<L extends AutomationLead>(
+  automation: AutomationRule,
+  lead: L,
+  now: Date = new Date()
+): TriggerContext<L> {
+  switch (automation.trigger_type) {
+    case "tag_added": {
+      const tag = automation.trigger_config.tag as string | undefined;
+      // The configured tag counts as "just added" only if the lead has it
+      return { event: "tag_added", lead, addedTag: tag && (lead.tags || []).includes(tag) ? tag : undefined, now };
+    }
+    case "value_changed":
+      return { event: "value_changed", lead, now };
+    default:
+      return { event: automation.trigger_type, lead, now };
+  }
+}
+
+// ===== Loop protection =====
+
+// Automations triggered by changes made by other automations form a chain;
+// runs deeper than this are skipped (and logged)
+export const MAX_CHAIN_DEPTH = 3;
+
+// Default minimum interval between two runs of the same automation for the same lead
+export const DEFAULT_COOLDOWN_MINUTES = 1;
+
+// Whether an action of `source` can fire the trigger of `target` on the same lead
+export function canTriggerAutomation(source: AutomationRule, target: AutomationRule): boolean {
+  const actions = flattenSteps(getAutomationSteps(source)).filter(
+    (step): step is AutomationActionStep => step.type === "action"
+  );
+
+  return actions.some((action) => {
+    switch (target.trigger_type) {
+      case "lead_updated":
+        return ["move_to_stage", "add_tag", "remove_tag"].includes(action.action_type);
+      case "tag_added":
+        return action.action_type === "add_tag" &&
+          (!target.trigger_config.tag || target.trigger_config.tag === action.action_config.tag);
+      default:
+        return false;
+    }
+  });
+}
+
+// Cycle of automations (ids, starting and ending at `candidate`) that could keep
+// triggering each other, or null. `automations` may contain an older version of the candidate.
+export function findAutomationCycle(automations: AutomationRule[], candidate: AutomationRule): string[] | null {
+  const all = [candidate, ...automations.filter((a) => a.id !== candidate.id)];
+
+  const visit = (current: AutomationRule, path: string[], visited: Set<string>): string[] | null => {
+    for (const next of all) {
+      if (!canTriggerAutomation(current, next)) continue;
+      if (next.id === candidate.id) return [...path, next.id];
+      if (visited.has(next.id)) continue;
+
+      visited.add(next.id);
+      const cycle = visit(next, [...path, next.id], visited);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+
+  return visit(candidate, [candidate.id], new Set([candidate.id]));
+}
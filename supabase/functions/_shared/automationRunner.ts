@@ -0,0 +1,589 @@
+/**
+ * Server-side execution of funnel automations, shared by the
+ * funnel-automations (database changes) and automation-scheduler
+ * (time based triggers and delayed steps) edge functions.
+ *
+ * Every trigger creates an automation_runs row and its steps are
+ * executed in order, logging one automation_logs row per step.
+ * Delay steps park the run as "waiting" until the scheduler resumes it.
+ *
+ * Runs deeper than MAX_CHAIN_DEPTH in a chain of automations, or started
+ * again for the same lead within the automation cooldown, are recorded as
+ * "skipped" instead of executed.
+ */
+
+import {
+  AutomationConditionNode,
+  AutomationLead,
+  AutomationRule,
+  AutomationStep,
+  DEFAULT_COOLDOWN_MINUTES,
+  MAX_CHAIN_DEPTH,
+  TriggerEvent,
+  evaluateConditionNode,
+  findStep,
+  getAutomationSteps,
+  getNextStepId,
+  renderLeadTemplate,
+} from "./automationRules.ts";
+import { getCompanyBusinessHours, isWithinBusinessHours } from "./businessHours.ts";
+
+export interface LeadRow extends AutomationLead {
+  company_id: string;
+  automation_depth?: number | null;
+}
+
+export interface AutomationRow extends AutomationRule {
+  company_id: string;
+  funnel_id: string;
+  cooldown_minutes?: number | null;
+}
+
+export interface ActionResult {
+  success: boolean;
+  details?: Record<string, unknown>;
+}
+
+export type RunStatus = "running" | "waiting" | "completed" | "failed" | "cancelled" | "skipped";
+
+export interface AutomationRunRow {
+  id: string;
+  automation_id: string;
+  lead_id: string;
+  company_id: string;
+  status: RunStatus;
+  trigger_event: TriggerEvent;
+  context: Record<string, unknown>;
+  current_step_id: string | null;
+  chain_depth: number;
+}
+
+export interface StartRunOptions {
+  context?: Record<string, unknown>;
+  // Number of automations that led to this run (0 = change made by a user, integration or the scheduler)
+  chainDepth?: number;
+}
+
+interface SkipReason {
+  reason: "max_chain_depth" | "cooldown";
+  message: string;
+}
+
+// Safety net against malformed step lists
+const MAX_STEPS_PER_RUN = 50;
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function mapAutomation(row: any): AutomationRow {
+  return {
+    ...row,
+    trigger_config: row.trigger_config || {},
+    conditions: (Array.isArray(row.conditions) ? row.conditions : []) as AutomationConditionNode[],
+    action_config: row.action_config || {},
+    steps: Array.isArray(row.steps) ? row.steps : [],
+  };
+}
+
+// Find the WhatsApp contact for the lead phone, creating it when the lead never talked to us
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export async function findOrCreateContact(supabase: any, lead: LeadRow): Promise<string | null> {
+  if (!lead.phone) return null;
+
+  const { data: normalizedPhone } = await supabase.rpc("normalize_whatsapp_phone", { input: lead.phone });
+  if (!normalizedPhone) return null;
+
+  const { data: existing } = await supabase
+    .from("whatsapp_contacts")
+    .select("id")
+    .eq("company_id", lead.company_id)
+    .eq("normalized_phone", normalizedPhone)
+    .maybeSingle();
+
+  if (existing) return existing.id;
+
+  const { data: created, error } = await supabase
+    .from("whatsapp_contacts")
+    .insert({
+      company_id: lead.company_id,
+      phone: normalizedPhone,
+      normalized_phone: normalizedPhone,
+      name: lead.name,
+    })
+    .select("id")
+    .single();
+
+  if (error) throw error;
+  return created.id;
+}
+
+// Call another edge function with the service role key
+export async function invokeFunction(name: string, body: Record<string, unknown>): Promise<Record<string, unknown>> {
+  const response = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/${name}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `${name} returned ${response.status}`);
+  }
+  return data;
+}
+
+// Execute the automation action
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export async function executeAction(supabase: any, automation: AutomationRow, lead: LeadRow): Promise<ActionResult> {
+  const config = automation.action_config;
+  // Writes made here trigger the next automations one level deeper in the chain. The
+  // automation_write mark tells the reset_funnel_lead_automation_depth trigger to keep
+  // the depth (any other update resets it to 0)
+  const automationWrite = { automation_depth: (lead.automation_depth || 0) + 1, automation_write: true };
+
+  try {
+    switch (automation.action_type) {
+      case "move_to_stage": {
+        const targetStageId = config.target_stage_id as string;
+        if (!targetStageId || targetStageId === lead.stage_id) return { success: false };
+
+        const { error } = await supabase
+          .from("funnel_leads")
+          .update({ stage_id: targetStageId, position: 0, ...automationWrite })
+          .eq("id", lead.id);
+
+        if (error) throw error;
+        return { success: true, details: { target_stage_id: targetStageId } };
+      }
+
+      case "add_tag": {
+        const tag = config.tag as string;
+        if (!tag) return { success: false };
+
+        const currentTags = lead.tags || [];
+        if (currentTags.includes(tag)) return { success: false };
+
+        const { error } = await supabase
+          .from("funnel_leads")
+          .update({ tags: [...currentTags, tag], ...automationWrite })
+          .eq("id", lead.id);
+
+        if (error) throw error;
+        return { success: true, details: { tag } };
+      }
+
+      case "remove_tag": {
+        const tag = config.tag as string;
+        if (!tag) return { success: false };
+
+        const currentTags = lead.tags || [];
+        if (!currentTags.includes(tag)) return { success: false };
+
+        const { error } = await supabase
+          .from("funnel_leads")
+          .update({ tags: currentTags.filter((t) => t !== tag), ...automationWrite })
+          .eq("id", lead.id);
+
+        if (error) throw error;
+        return { success: true, details: { tag } };
+      }
+
+      case "send_notification": {
+        const message = config.message as string;
+        if (!message) return { success: false };
+
+        // The CRM picks these up from automation_logs (useNotifications)
+        return { success: true, details: { notification: renderLeadTemplate(message, lead) } };
+      }
+
+      case "send_whatsapp_message": {
+        const message = config.message as string;
+        if (!message) return { success: false };
+
+        const contactId = await findOrCreateContact(supabase, lead);
+        if (!contactId) return { success: false, details: { error: "Lead sem telefone válido" } };
+
+        const content = renderLeadTemplate(message, lead);
+        const result = await invokeFunction("whatsapp-cloud-send", {
+          company_id: lead.company_id,
+          contact_id: contactId,
+          content,
+        });
+
+        return { success: true, details: { contact_id: contactId, message_id: result.message_id, content } };
+      }
+
+      case "send_whatsapp_template": {
+        const templateName = config.template_name as string;
+        const templateLanguage = config.template_language as string;
+        if (!templateName || !templateLanguage) return { success: false };
+
+        const contactId = await findOrCreateContact(supabase, lead);
+        if (!contactId) return { success: false, details: { error: "Lead sem telefone válido" } };
+
+        // Body variables ({{1}}, {{2}}...) in order, filled from the lead
+        const bodyParams = ((config.body_params as string[]) || []).map((param) => renderLeadTemplate(param, lead));
+        const components = bodyParams.length > 0
+          ? [{ type: "body", parameters: bodyParams.map((text) => ({ type: "text", text })) }]
+          : [];
+
+        const result = await invokeFunction("whatsapp-cloud-send", {
+          company_id: lead.company_id,
+          contact_id: contactId,
+          message_type: "template",
+          template_name: templateName,
+          template_language: templateLanguage,
+          template_components: components,
+        });
+
+        return {
+          success: true,
+          details: { contact_id: contactId, message_id: result.message_id, template_name: templateName },
+        };
+      }
+
+      case "start_chatbot_flow": {
+        const flowId = config.flow_id as string;
+        if (!flowId) return { success: false };
+
+        const contactId = await findOrCreateContact(supabase, lead);
+        if (!contactId) return { success: false, details: { error: "Lead sem telefone válido" } };
+
+        const result = await invokeFunction("flow-executor", {
+          trigger_type: "start_flow",
+          company_id: lead.company_id,
+          contact_id: contactId,
+          flow_id: flowId,
+        });
+
+        // Blocked (human takeover) or skipped (active execution) runs are not a success
+        return {
+          success: result.status === "started",
+          details: { contact_id: contactId, flow_id: flowId, status: result.status, reason: result.reason },
+        };
+      }
+
+      default:
+        return { success: false };
+    }
+  } catch (error) {
+    console.error(`[Automations] Error executing automation ${automation.name}:`, error);
+    return { success: false, details: { error: error instanceof Error ? error.message : String(error) } };
+  }
+}
+
+// Log a step of a run
+async function logStep(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  run: AutomationRunRow,
+  step: AutomationStep,
+  result: ActionResult
+): Promise<void> {
+  const { error } = await supabase.from("automation_logs").insert({
+    automation_id: run.automation_id,
+    lead_id: run.lead_id,
+    company_id: run.company_id,
+    run_id: run.id,
+    step_id: step.id,
+    success: result.success,
+    details: {
+      event: run.trigger_event,
+      step_type: step.type,
+      ...(step.type === "action" ? { action: step.action_type } : {}),
+      ...run.context,
+      ...result.details,
+    },
+  });
+
+  if (error) {
+    console.error("[Automations] Error logging automation step:", error);
+  }
+}
+
+// Whether the company is within its business hours ("is_business_hours" conditions)
+export async function isCompanyOpen(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  companyId: string,
+  now: Date = new Date()
+): Promise<boolean> {
+  const { hours, timezone } = await getCompanyBusinessHours(supabase, companyId);
+  return isWithinBusinessHours(hours, timezone, now);
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function updateRun(supabase: any, run: AutomationRunRow, updates: Record<string, unknown>): Promise<void> {
+  const { error } = await supabase.from("automation_runs").update(updates).eq("id", run.id);
+  if (error) {
+    console.error(`[Automations] Error updating run ${run.id}:`, error);
+  }
+}
+
+// Execute steps starting at `stepId` until the run finishes, fails or waits on a delay
+async function executeSteps(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  automation: AutomationRow,
+  run: AutomationRunRow,
+  initialLead: LeadRow,
+  stepId: string | null
+): Promise<RunStatus> {
+  const steps = getAutomationSteps(automation);
+  // Writes made by the actions carry the depth of the chain to the next automations
+  let lead: LeadRow = { ...initialLead, automation_depth: run.chain_depth };
+  let currentStepId = stepId;
+  let executedSteps = 0;
+
+  while (currentStepId) {
+    if (++executedSteps > MAX_STEPS_PER_RUN) {
+      await updateRun(supabase, run, { status: "failed", error: "Limite de etapas excedido", completed_at: new Date().toISOString() });
+      return "failed";
+    }
+
+    const step = findStep(steps, currentStepId);
+    if (!step) {
+      await updateRun(supabase, run, { status: "failed", error: `Etapa ${currentStepId} não encontrada`, completed_at: new Date().toISOString() });
+      return "failed";
+    }
+
+    switch (step.type) {
+      case "action": {
+        const result = await executeAction(
+          supabase,
+          { ...automation, action_type: step.action_type, action_config: step.action_config },
+          lead
+        );
+        await logStep(supabase, run, step, result);
+
+        // Actions that did nothing (e.g. tag already present) don't stop the run, errors do
+        if (!result.success && result.details?.error) {
+          await updateRun(supabase, run, {
+            status: "failed",
+            current_step_id: step.id,
+            error: String(result.details.error),
+            completed_at: new Date().toISOString(),
+          });
+          return "failed";
+        }
+
+        // Following steps must see the changes made by this one
+        const { data: freshLead } = await supabase
+          .from("funnel_leads")
+          .select("*")
+          .eq("id", lead.id)
+          .maybeSingle();
+
+        if (!freshLead) {
+          await updateRun(supabase, run, { status: "cancelled", error: "Lead removido", completed_at: new Date().toISOString() });
+          return "cancelled";
+        }
+        lead = { ...(freshLead as LeadRow), automation_depth: lead.automation_depth };
+        currentStepId = getNextStepId(steps, step.id);
+        break;
+      }
+
+      case "delay": {
+        const nextStepId = getNextStepId(steps, step.id);
+        const resumeAt = new Date(Date.now() + (Number(step.delay_minutes) || 0) * 60 * 1000).toISOString();
+
+        if (!nextStepId) {
+          currentStepId = null;
+          break;
+        }
+
+        await logStep(supabase, run, step, { success: true, details: { resume_at: resumeAt } });
+        await updateRun(supabase, run, { status: "waiting", current_step_id: nextStepId, resume_at: resumeAt });
+        return "waiting";
+      }
+
+      case "condition": {
+        const isBusinessHours = await isCompanyOpen(supabase, lead.company_id);
+        const matched = evaluateConditionNode(
+          { logic: "and", conditions: step.conditions },
+          { ...lead, is_business_hours: isBusinessHours }
+        );
+        await logStep(supabase, run, step, { success: true, details: { matched } });
+        currentStepId = getNextStepId(steps, step.id, matched);
+        break;
+      }
+    }
+  }
+
+  await updateRun(supabase, run, {
+    status: "completed",
+    current_step_id: null,
+    resume_at: null,
+    completed_at: new Date().toISOString(),
+  });
+  return "completed";
+}
+
+// Loop protection - whether a new run of the automation for the lead must be skipped
+async function getSkipReason(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  automation: AutomationRow,
+  lead: LeadRow,
+  chainDepth: number
+): Promise<SkipReason | null> {
+  if (chainDepth >= MAX_CHAIN_DEPTH) {
+    return {
+      reason: "max_chain_depth",
+      message: `Limite de ${MAX_CHAIN_DEPTH} automações encadeadas atingido`,
+    };
+  }
+
+  const cooldownMinutes = automation.cooldown_minutes ?? DEFAULT_COOLDOWN_MINUTES;
+  if (cooldownMinutes <= 0) return null;
+
+  const since = new Date(Date.now() - cooldownMinutes * 60 * 1000).toISOString();
+  const { count, error } = await supabase
+    .from("automation_runs")
+    .select("id", { count: "exact", head: true })
+    .eq("automation_id", automation.id)
+    .eq("lead_id", lead.id)
+    .neq("status", "skipped")
+    .gte("started_at", since);
+
+  if (error) {
+    console.error(`[Automations] Error checking cooldown of automation ${automation.name}:`, error);
+    return null;
+  }
+
+  if (count && count > 0) {
+    return {
+      reason: "cooldown",
+      message: `Já executada para este lead nos últimos ${cooldownMinutes} min`,
+    };
+  }
+
+  return null;
+}
+
+// Record a run that was not executed, with the reason in automation_logs
+async function logSkippedRun(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  automation: AutomationRow,
+  lead: LeadRow,
+  event: TriggerEvent,
+  context: Record<string, unknown>,
+  chainDepth: number,
+  skip: SkipReason
+): Promise<void> {
+  console.log(`[Automations] Skipping automation ${automation.name} for lead ${lead.id}: ${skip.reason}`);
+  const now = new Date().toISOString();
+
+  const { data: run, error } = await supabase
+    .from("automation_runs")
+    .insert({
+      automation_id: automation.id,
+      lead_id: lead.id,
+      company_id: lead.company_id,
+      status: "skipped",
+      trigger_event: event,
+      context,
+      chain_depth: chainDepth,
+      error: skip.message,
+      completed_at: now,
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    console.error(`[Automations] Error creating skipped run for automation ${automation.name}:`, error);
+  }
+
+  const { error: logError } = await supabase.from("automation_logs").insert({
+    automation_id: automation.id,
+    lead_id: lead.id,
+    company_id: lead.company_id,
+    run_id: run?.id || null,
+    success: false,
+    details: {
+      event,
+      skipped: true,
+      reason: skip.reason,
+      message: skip.message,
+      chain_depth: chainDepth,
+      ...context,
+    },
+  });
+
+  if (logError) {
+    console.error("[Automations] Error logging skipped run:", logError);
+  }
+}
+
+// Start a new run of the automation for the lead
+export async function startAutomationRun(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  automation: AutomationRow,
+  lead: LeadRow,
+  event: TriggerEvent,
+  { context = {}, chainDepth = 0 }: StartRunOptions = {}
+): Promise<RunStatus> {
+  const skip = await getSkipReason(supabase, automation, lead, chainDepth);
+  if (skip) {
+    await logSkippedRun(supabase, automation, lead, event, context, chainDepth, skip);
+    return "skipped";
+  }
+
+  const steps = getAutomationSteps(automation);
+
+  const { data: run, error } = await supabase
+    .from("automation_runs")
+    .insert({
+      automation_id: automation.id,
+      lead_id: lead.id,
+      company_id: lead.company_id,
+      status: "running",
+      trigger_event: event,
+      context,
+      chain_depth: chainDepth,
+      current_step_id: steps[0]?.id || null,
+    })
+    .select("*")
+    .single();
+
+  if (error || !run) {
+    console.error(`[Automations] Error creating run for automation ${automation.name}:`, error);
+    return "failed";
+  }
+
+  return executeSteps(supabase, automation, run as AutomationRunRow, lead, steps[0]?.id || null);
+}
+
+// Resume a run parked on a delay step (already claimed by the caller)
+export async function resumeAutomationRun(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  run: AutomationRunRow
+): Promise<RunStatus> {
+  const { data: automationRow } = await supabase
+    .from("funnel_automations")
+    .select("*")
+    .eq("id", run.automation_id)
+    .maybeSingle();
+
+  if (!automationRow || !automationRow.is_active) {
+    await updateRun(supabase, run, { status: "cancelled", error: "Automação desativada", completed_at: new Date().toISOString() });
+    return "cancelled";
+  }
+
+  const { data: lead } = await supabase
+    .from("funnel_leads")
+    .select("*")
+    .eq("id", run.lead_id)
+    .maybeSingle();
+
+  if (!lead) {
+    await updateRun(supabase, run, { status: "cancelled", error: "Lead removido", completed_at: new Date().toISOString() });
+    return "cancelled";
+  }
+
+  return executeSteps(supabase, mapAutomation(automationRow), run, lead as LeadRow, run.current_step_id);
+}
@@ -0,0 +1,180 @@
+/**
+ * Company business hours shared by Settings (browser), the chatbot
+ * flow-executor and the funnel automation edge functions.
+ *
+ * Times are wall-clock times in the company timezone (companies.timezone).
+ * Keep this module free of Deno/browser specific APIs so it can be
+ * imported from both runtimes.
+ */
+
+export const DEFAULT_TIMEZONE = "America/Sao_Paulo";
+
+export interface BusinessDay {
+  enabled: boolean;
+  // "HH:mm"
+  start: string;
+  end: string;
+}
+
+export interface BusinessHoliday {
+  // "YYYY-MM-DD"
+  date: string;
+  name?: string;
+  // Same day every year (e.g. Christmas)
+  recurring?: boolean;
+}
+
+export interface BusinessHours {
+  enabled: boolean;
+  // Index is the weekday, 0 = Sunday
+  days: BusinessDay[];
+  holidays: BusinessHoliday[];
+}
+
+export const WEEKDAY_LABELS = ["Domingo", "Segunda", "Terça", "Quarta", "Quinta", "Sexta", "Sábado"];
+
+export const DEFAULT_BUSINESS_HOURS: BusinessHours = {
+  enabled: false,
+  days: WEEKDAY_LABELS.map((_, weekday) => ({
+    enabled: weekday >= 1 && weekday <= 5,
+    start: "09:00",
+    end: "18:00",
+  })),
+  holidays: [],
+};
+
+// Value of the "is open" check in conditions
+export const BUSINESS_HOURS_OPEN = "aberto";
+export const BUSINESS_HOURS_CLOSED = "fechado";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How far ahead the next opening is searched
+const MAX_DAYS_AHEAD = 370;
+
+interface ZonedParts {
+  date: string;
+  weekday: number;
+  minutes: number;
+}
+
+const toMinutes = (time: string) => {
+  const match = time.match(/^(\d{1,2}):(\d{2})$/);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : NaN;
+};
+
+// Date, weekday and minutes of the day of `date` in the timezone
+export function getZonedParts(date: Date, timezone: string = DEFAULT_TIMEZONE): ZonedParts {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    weekday: "short",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value || "";
+
+  return {
+    date: `${part("year")}-${part("month")}-${part("day")}`,
+    weekday: WEEKDAYS.indexOf(part("weekday")),
+    minutes: Number(part("hour")) * 60 + Number(part("minute")),
+  };
+}
+
+// UTC instant of a wall-clock time in the timezone
+function zonedTimeToDate(date: string, minutes: number, timezone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const guess = Date.UTC(year, month - 1, day, Math.floor(minutes / 60), minutes % 60);
+  const offsetAt = (time: number) => {
+    const zoned = getZonedParts(new Date(time), timezone);
+    const [y, m, d] = zoned.date.split("-").map(Number);
+    return Date.UTC(y, m - 1, d, Math.floor(zoned.minutes / 60), zoned.minutes % 60) - time;
+  };
+  // Second pass fixes times next to a DST change
+  const first = guess - offsetAt(guess);
+  return new Date(guess - offsetAt(first));
+}
+
+const addDays = (date: string, days: number) => new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+export function isHoliday(hours: BusinessHours, date: string): boolean {
+  return (hours.holidays || []).some((holiday) =>
+    holiday.recurring ? holiday.date.slice(5) === date.slice(5) : holiday.date === date
+  );
+}
+
+// Opening interval of a local date in minutes, null when closed all day
+function getOpeningInterval(hours: BusinessHours, date: string, weekday: number): [number, number] | null {
+  const day = hours.days?.[weekday];
+  if (!day?.enabled || isHoliday(hours, date)) return null;
+  const start = toMinutes(day.start);
+  const end = toMinutes(day.end);
+  return isNaN(start) || isNaN(end) || start >= end ? null : [start, end];
+}
+
+// Without a configured schedule the company is always open
+export function isWithinBusinessHours(
+  hours: BusinessHours | null | undefined,
+  timezone: string = DEFAULT_TIMEZONE,
+  now: Date = new Date()
+): boolean {
+  if (!hours?.enabled) return true;
+  const zoned = getZonedParts(now, timezone);
+  const interval = getOpeningInterval(hours, zoned.date, zoned.weekday);
+  return !!interval && zoned.minutes >= interval[0] && zoned.minutes < interval[1];
+}
+
+// Next moment the company opens (now when it's open), null when it never opens
+export function getNextOpeningTime(
+  hours: BusinessHours | null | undefined,
+  timezone: string = DEFAULT_TIMEZONE,
+  now: Date = new Date()
+): Date | null {
+  if (!hours?.enabled) return now;
+  const zoned = getZonedParts(now, timezone);
+
+  for (let offset = 0; offset <= MAX_DAYS_AHEAD; offset++) {
+    const date = addDays(zoned.date, offset);
+    const interval = getOpeningInterval(hours, date, (zoned.weekday + offset) % 7);
+    if (!interval) continue;
+
+    if (offset === 0) {
+      if (zoned.minutes >= interval[1]) continue;
+      if (zoned.minutes >= interval[0]) return now;
+    }
+    return zonedTimeToDate(date, interval[0], timezone);
+  }
+
+  return null;
+}
+
+export function validateBusinessHours(hours: BusinessHours): string[] {
+  const errors: string[] = [];
+  hours.days.forEach((day, weekday) => {
+    if (!day.enabled) return;
+    const start = toMinutes(day.start);
+    const end = toMinutes(day.end);
+    if (isNaN(start) || isNaN(end)) errors.push(`${WEEKDAY_LABELS[weekday]}: horário inválido`);
+    else if (start >= end) errors.push(`${WEEKDAY_LABELS[weekday]}: o fechamento deve ser depois da abertura`);
+  });
+  if (hours.enabled && !hours.days.some((day) => day.enabled)) errors.push("Ative ao menos um dia da semana");
+  if (hours.holidays.some((holiday) => !/^\d{4}-\d{2}-\d{2}$/.test(holiday.date))) errors.push("Feriado com data inválida");
+  return errors;
+}
+
+// Schedule and timezone of a company
+export async function getCompanyBusinessHours(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  companyId: string
+): Promise<{ hours: BusinessHours | null; timezone: string }> {
+  const { data } = await supabase
+    .from("companies")
+    .select("business_hours, timezone")
+    .eq("id", companyId)
+    .single();
+  return { hours: (data?.business_hours as BusinessHours) || null, timezone: data?.timezone || DEFAULT_TIMEZONE };
+}
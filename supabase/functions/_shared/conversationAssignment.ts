@@ -0,0 +1,157 @@
+/**
+ * Distribution of conversations handed over to humans. A transfer node points
+ * to a department queue (chat_queues); the conversation goes to an online
+ * member of the queue, by round-robin or to the one with fewer open chats.
+ */
+
+export type AssignmentStrategy = "round_robin" | "least_busy";
+
+export const ASSIGNMENT_STRATEGIES: { value: AssignmentStrategy; label: string }[] = [
+  { value: "round_robin", label: "Rodízio (round-robin)" },
+  { value: "least_busy", label: "Menos ocupado" },
+];
+
+// Agents count as online while the app sends heartbeats (profiles.last_seen_at)
+export const AGENT_ONLINE_WINDOW_MS = 5 * 60 * 1000;
+
+// Tag of the contacts a human is handling (also blocks the bot)
+export const HUMAN_TAKEOVER_TAG = "em_atendimento";
+
+export interface AssignmentAgent {
+  user_id: string;
+  is_available: boolean;
+  last_seen_at: string | null;
+  // Conversations in human takeover already assigned to the agent
+  open_conversations: number;
+}
+
+export function isAgentOnline(
+  agent: Pick<AssignmentAgent, "is_available" | "last_seen_at">,
+  now: Date = new Date()
+): boolean {
+  if (!agent.is_available || !agent.last_seen_at) return false;
+  return now.getTime() - new Date(agent.last_seen_at).getTime() <= AGENT_ONLINE_WINDOW_MS;
+}
+
+/**
+ * Agent that gets the next conversation. `agents` are in queue order; round-robin
+ * continues after `lastAssignedUserId`, least-busy breaks ties the same way.
+ * The current assignee keeps the conversation while online.
+ */
+export function pickAgent(
+  agents: AssignmentAgent[],
+  strategy: AssignmentStrategy,
+  options: { lastAssignedUserId?: string | null; currentAssigneeId?: string | null; now?: Date } = {}
+): string | null {
+  const online = agents.filter((agent) => isAgentOnline(agent, options.now));
+  if (online.length === 0) return null;
+
+  if (options.currentAssigneeId && online.some((agent) => agent.user_id === options.currentAssigneeId)) {
+    return options.currentAssigneeId;
+  }
+
+  // Queue order starting right after the last agent that got a conversation
+  const lastIndex = agents.findIndex((agent) => agent.user_id === options.lastAssignedUserId);
+  const rotated = [...agents.slice(lastIndex + 1), ...agents.slice(0, lastIndex + 1)].filter((agent) =>
+    online.includes(agent)
+  );
+
+  if (strategy === "least_busy") {
+    const fewest = Math.min(...rotated.map((agent) => agent.open_conversations));
+    return rotated.find((agent) => agent.open_conversations === fewest)!.user_id;
+  }
+  return rotated[0].user_id;
+}
+
+/**
+ * Put the contact in the queue and assign it to the picked agent. Without an
+ * online agent the conversation waits unassigned in the queue.
+ */
+export async function assignConversation(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  params: { companyId: string; contactId: string; queueId: string }
+): Promise<string | null> {
+  const { companyId, contactId, queueId } = params;
+
+  const { data: queue } = await supabase
+    .from("chat_queues")
+    .select("id, distribution, last_assigned_user_id")
+    .eq("id", queueId)
+    .eq("company_id", companyId)
+    .maybeSingle();
+
+  if (!queue) {
+    console.log(`⚠️ Queue ${queueId} not found - conversation left unassigned`);
+    return null;
+  }
+
+  const { data: members } = await supabase
+    .from("chat_queue_members")
+    .select("user_id")
+    .eq("queue_id", queueId)
+    .order("created_at", { ascending: true });
+  const memberIds: string[] = (members || []).map((member: { user_id: string }) => member.user_id);
+
+  let agents: AssignmentAgent[] = [];
+  if (memberIds.length > 0) {
+    const { data: profiles } = await supabase
+      .from("profiles")
+      .select("user_id, is_available, last_seen_at")
+      .eq("company_id", companyId)
+      .in("user_id", memberIds);
+
+    const { data: openContacts } = await supabase
+      .from("whatsapp_contacts")
+      .select("id, assigned_to")
+      .eq("company_id", companyId)
+      .contains("tags", [HUMAN_TAKEOVER_TAG])
+      .in("assigned_to", memberIds);
+
+    const openCounts = new Map<string, number>();
+    for (const contact of openContacts || []) {
+      if (contact.id === contactId) continue;
+      openCounts.set(contact.assigned_to, (openCounts.get(contact.assigned_to) || 0) + 1);
+    }
+
+    agents = memberIds
+      .map((userId) => (profiles || []).find((profile: { user_id: string }) => profile.user_id === userId))
+      .filter(Boolean)
+      .map((profile: { user_id: string; is_available: boolean; last_seen_at: string | null }) => ({
+        user_id: profile.user_id,
+        is_available: profile.is_available,
+        last_seen_at: profile.last_seen_at,
+        open_conversations: openCounts.get(profile.user_id) || 0,
+      }));
+  }
+
+  const { data: contact } = await supabase
+    .from("whatsapp_contacts")
+    .select("assigned_to")
+    .eq("id", contactId)
+    .maybeSingle();
+
+  const assigneeId = pickAgent(agents, queue.distribution as AssignmentStrategy, {
+    lastAssignedUserId: queue.last_assigned_user_id,
+    currentAssigneeId: contact?.assigned_to,
+  });
+
+  await supabase
+    .from("whatsapp_contacts")
+    .update({
+      queue_id: queueId,
+      assigned_to: assigneeId,
+      assigned_at: assigneeId ? new Date().toISOString() : null,
+    })
+    .eq("id", contactId);
+
+  if (assigneeId && assigneeId !== contact?.assigned_to) {
+    await supabase
+      .from("chat_queues")
+      .update({ last_assigned_user_id: assigneeId })
+      .eq("id", queueId);
+  }
+
+  console.log(assigneeId ? `👤 Conversation assigned to ${assigneeId}` : `📥 No online agent - conversation waits in queue ${queueId}`);
+  return assigneeId;
+}
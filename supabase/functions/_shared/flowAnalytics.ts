@@ -0,0 +1,110 @@
+/**
+ * Per-node analytics of a chatbot flow, computed from chatbot_flow_executions
+ * and chatbot_flow_logs. The flow-executor writes the logs; the flow builder
+ * aggregates them for the heatmap overlay.
+ */
+
+// chatbot_flow_logs.action of a node run, and of the answer to a question/pause
+export const FLOW_LOG_EXECUTED = "executed";
+export const FLOW_LOG_RESPONDED = "responded";
+
+const ACTIVE_STATUSES = ["running", "waiting_response", "paused"];
+
+export interface FlowAnalyticsExecution {
+  id: string;
+  status: string;
+  started_at: string;
+  completed_at: string | null;
+}
+
+export interface FlowAnalyticsLog {
+  execution_id: string;
+  node_id: string | null;
+  node_type: string | null;
+  action: string;
+  details: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface NodeAnalytics {
+  // Executions that ran the node
+  reached: number;
+  // Share of all executions that ran the node (0-1)
+  reachRate: number;
+  // Executions that failed or were cancelled with this as the last node
+  dropOffs: number;
+  // Executions still on the node (waiting for an answer, a delay or business hours)
+  waiting: number;
+  // Answers per output handle (question options, "invalid")
+  choices: Record<string, number>;
+}
+
+export interface FlowAnalytics {
+  executions: number;
+  completed: number;
+  completionRate: number;
+  // Executions that reached a transfer node
+  transferred: number;
+  averageCompletionMs: number | null;
+  nodes: Record<string, NodeAnalytics>;
+}
+
+export function computeFlowAnalytics(executions: FlowAnalyticsExecution[], logs: FlowAnalyticsLog[]): FlowAnalytics {
+  const executionIds = new Set(executions.map((execution) => execution.id));
+  const nodes: Record<string, NodeAnalytics> = {};
+  const nodeStats = (nodeId: string) =>
+    nodes[nodeId] || (nodes[nodeId] = { reached: 0, reachRate: 0, dropOffs: 0, waiting: 0, choices: {} });
+
+  const reachedBy = new Map<string, Set<string>>();
+  const lastNode = new Map<string, { nodeId: string; at: string }>();
+  const transferred = new Set<string>();
+
+  for (const log of logs) {
+    if (!log.node_id || !executionIds.has(log.execution_id)) continue;
+
+    if (log.action === FLOW_LOG_RESPONDED) {
+      const handle = (log.details?.source_handle as string) || "default";
+      const choices = nodeStats(log.node_id).choices;
+      choices[handle] = (choices[handle] || 0) + 1;
+      continue;
+    }
+    if (log.action !== FLOW_LOG_EXECUTED) continue;
+
+    if (!reachedBy.has(log.node_id)) reachedBy.set(log.node_id, new Set());
+    reachedBy.get(log.node_id)!.add(log.execution_id);
+    if (log.node_type === "transfer") transferred.add(log.execution_id);
+
+    const last = lastNode.get(log.execution_id);
+    if (!last || log.created_at >= last.at) lastNode.set(log.execution_id, { nodeId: log.node_id, at: log.created_at });
+  }
+
+  reachedBy.forEach((ids, nodeId) => {
+    const stats = nodeStats(nodeId);
+    stats.reached = ids.size;
+    stats.reachRate = executions.length > 0 ? ids.size / executions.length : 0;
+  });
+
+  const durations: number[] = [];
+  for (const execution of executions) {
+    if (execution.status === "completed" && execution.completed_at) {
+      durations.push(new Date(execution.completed_at).getTime() - new Date(execution.started_at).getTime());
+      continue;
+    }
+
+    const last = lastNode.get(execution.id);
+    if (!last) continue;
+    if (ACTIVE_STATUSES.includes(execution.status)) nodeStats(last.nodeId).waiting++;
+    else nodeStats(last.nodeId).dropOffs++;
+  }
+
+  const completed = executions.filter((execution) => execution.status === "completed").length;
+
+  return {
+    executions: executions.length,
+    completed,
+    completionRate: executions.length > 0 ? completed / executions.length : 0,
+    transferred: transferred.size,
+    averageCompletionMs: durations.length > 0 ? durations.reduce((sum, ms) => sum + ms, 0) / durations.length : null,
+    nodes,
+  };
+}
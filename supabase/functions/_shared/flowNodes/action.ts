@@ -0,0 +1,218 @@
+import { continueToNext, findContactLead, renderText, setLeadField } from "./helpers.ts";
+import { FlowNodeDefinition, NodeExecutionContext } from "./types.ts";
+import { normalizeVariableName } from "./variables.ts";
+
+const ACTION_TYPES = ["add_tag", "remove_tag", "set_variable", "update_lead", "move_stage", "notify_team"];
+
+// "name=value" of a set_variable action
+function parseVariableAssignment(actionValue: string): { name: string; value: string } {
+  const separatorIndex = actionValue.indexOf("=");
+  if (separatorIndex < 0) return { name: normalizeVariableName(actionValue), value: "" };
+  return {
+    name: normalizeVariableName(actionValue.slice(0, separatorIndex)),
+    value: actionValue.slice(separatorIndex + 1).trim(),
+  };
+}
+
+async function getContact(context: NodeExecutionContext) {
+  const { data: contact } = await context.supabase
+    .from("whatsapp_contacts")
+    .select("phone, normalized_phone, name")
+    .eq("id", context.contactId)
+    .single();
+
+  return contact as { phone: string; normalized_phone: string | null; name: string | null } | null;
+}
+
+// Move the lead of the contact to the stage, creating the lead when the contact has none
+async function moveToStage(context: NodeExecutionContext, stageId: string): Promise<void> {
+  const contact = await getContact(context);
+  if (!contact) return;
+
+  const phoneToSearch = contact.normalized_phone || contact.phone;
+  // Extract last 9 digits for flexible matching
+  const phoneSuffix = phoneToSearch.replace(/\D/g, "").slice(-9);
+  console.log(`📱 Looking for lead with phone: ${phoneToSearch} (suffix: ${phoneSuffix})`);
+
+  // Find ALL leads matching this phone (to detect duplicates)
+  const { data: leads } = await context.supabase
+    .from("funnel_leads")
+    .select("id, name, stage_id, phone, created_at")
+    .eq("company_id", context.companyId)
+    .ilike("phone", `%${phoneSuffix}`)
+    .order("created_at", { ascending: true });
+
+  console.log(`📋 Found ${leads?.length || 0} leads with matching phone`);
+
+  if (leads && leads.length > 0) {
+    // IMPORTANT: Use OLDEST lead to avoid working with duplicates
+    const leadToMove = leads[0];
+    console.log(`📦 Moving lead "${leadToMove.name}" (${leadToMove.id}) to stage ${stageId}`);
+
+    const { error: moveError } = await context.supabase
+      .from("funnel_leads")
+      .update({ stage_id: stageId, updated_at: new Date().toISOString() })
+      .eq("id", leadToMove.id);
+
+    if (moveError) {
+      console.error("❌ Error moving lead:", moveError);
+    } else {
+      console.log(`✅ Lead moved successfully to stage ${stageId}`);
+    }
+
+    // If there are duplicate leads, log a warning
+    if (leads.length > 1) {
+      console.warn(`⚠️ WARNING: ${leads.length} duplicate leads found for phone ${phoneSuffix}. IDs: ${leads.map((l: { id: string }) => l.id).join(", ")}`);
+    }
+    return;
+  }
+
+  console.log(`⚠️ No lead found with phone ${phoneToSearch} - checking again before creating`);
+
+  // DOUBLE CHECK: Search with exact phone match before creating
+  const { data: exactMatch } = await context.supabase
+    .from("funnel_leads")
+    .select("id")
+    .eq("company_id", context.companyId)
+    .eq("phone", contact.phone)
+    .limit(1)
+    .maybeSingle();
+
+  if (exactMatch) {
+    console.log(`✅ Found existing lead with exact phone match, moving it instead`);
+    await context.supabase
+      .from("funnel_leads")
+      .update({ stage_id: stageId, updated_at: new Date().toISOString() })
+      .eq("id", exactMatch.id);
+    return;
+  }
+
+  // Create a new lead in the target stage
+  const { error: createError } = await context.supabase
+    .from("funnel_leads")
+    .insert({
+      company_id: context.companyId,
+      stage_id: stageId,
+      name: contact.name || contact.phone,
+      phone: contact.phone,
+      source: "whatsapp_chatbot",
+      position: 0,
+    });
+
+  if (createError) {
+    console.error("❌ Error creating lead:", createError);
+  } else {
+    console.log(`✅ New lead created in stage ${stageId}`);
+  }
+}
+
+// Add or remove a tag on the lead of the contact
+async function updateLeadTags(
+  context: NodeExecutionContext,
+  tag: string,
+  change: (tags: string[]) => string[] | null
+): Promise<void> {
+  const lead = await findContactLead(context);
+  if (!lead) return;
+
+  const tags = change(lead.tags || []);
+  if (!tags) return;
+
+  await context.supabase
+    .from("funnel_leads")
+    .update({ tags, updated_at: new Date().toISOString() })
+    .eq("id", lead.id);
+
+  console.log(`✅ Tags of lead updated (${tag})`);
+}
+
+export const actionNode: FlowNodeDefinition = {
+  type: "action",
+  label: "Ação",
+  menuLabel: "Ação",
+  description: "Tags, funis, webhooks",
+  addable: true,
+  configSchema: {
+    action_type: { type: "string", label: "Tipo de ação", required: true, default: "add_tag", options: ACTION_TYPES },
+    action_value: { type: "string", label: "Valor" },
+    funnel_id: { type: "string", label: "Funil" },
+    stage_id: { type: "string", label: "Etapa" },
+    lead_field: { type: "string", label: "Campo do lead" },
+  },
+  validate: (config) => {
+    switch (config.action_type) {
+      case "move_stage":
+        return config.stage_id ? [] : ["Etapa é obrigatória"];
+      case "add_tag":
+      case "remove_tag":
+        return (config.action_value as string)?.trim() ? [] : ["Tag é obrigatória"];
+      case "set_variable":
+        return parseVariableAssignment((config.action_value as string) || "").name
+          ? []
+          : ["Informe a variável no formato variavel=valor"];
+      case "update_lead": {
+        const leadField = (config.lead_field as string) || "";
+        return leadField && leadField !== "custom." ? [] : ["Campo do lead é obrigatório"];
+      }
+      default:
+        return [];
+    }
+  },
+  execute: async (node, context) => {
+    const config = node.config || {};
+    const actionType = (config.action_type as string) || "";
+    const actionValue = renderText(context, (config.action_value as string) || "").trim();
+    const stageId = (config.stage_id as string) || "";
+
+    console.log(`🎬 Executing action: ${actionType}`, { actionValue, funnelId: config.funnel_id, stageId });
+
+    try {
+      switch (actionType) {
+        case "move_stage":
+          if (stageId) {
+            await moveToStage(context, stageId);
+          } else {
+            console.log(`⚠️ No stage_id configured for move_stage action`);
+          }
+          break;
+
+        case "add_tag":
+          if (actionValue) {
+            await updateLeadTags(context, actionValue, (tags) =>
+              tags.includes(actionValue) ? null : [...tags, actionValue]
+            );
+          }
+          break;
+
+        case "remove_tag":
+          if (actionValue) {
+            await updateLeadTags(context, actionValue, (tags) =>
+              tags.includes(actionValue) ? tags.filter((t) => t !== actionValue) : null
+            );
+          }
+          break;
+
+        case "set_variable": {
+          // Render only the value - the name stays as typed
+          const { name } = parseVariableAssignment((config.action_value as string) || "");
+          const { value } = parseVariableAssignment(actionValue);
+          if (name) await context.setVariable(name, value);
+          break;
+        }
+
+        case "update_lead":
+          if (config.lead_field) {
+            await setLeadField(context, config.lead_field as string, actionValue);
+          }
+          break;
+
+        default:
+          console.log(`⚠️ Action type "${actionType}" not implemented yet`);
+      }
+    } catch (actionError) {
+      console.error(`❌ Error executing action ${actionType}:`, actionError);
+    }
+
+    return continueToNext(context, node);
+  },
+};
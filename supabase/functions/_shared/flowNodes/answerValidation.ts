@@ -0,0 +1,131 @@
+// Validation of the answers given to question nodes
+
+export type AnswerValidationType = "none" | "text" | "email" | "phone" | "cpf_cnpj" | "number" | "date" | "option";
+
+export interface AnswerValidationOptions {
+  // text: minimum length, number: range
+  min?: number | null;
+  max?: number | null;
+  options?: string[];
+}
+
+export type AnswerValidationResult = { valid: true; value: string } | { valid: false };
+
+export const ANSWER_VALIDATION_TYPES: { value: AnswerValidationType; label: string; errorMessage: string }[] = [
+  { value: "none", label: "Sem validação", errorMessage: "" },
+  { value: "text", label: "Texto (tamanho mínimo)", errorMessage: "Sua resposta está muito curta. Pode detalhar um pouco mais?" },
+  { value: "email", label: "E-mail", errorMessage: "Esse e-mail não parece válido. Pode enviar novamente?" },
+  { value: "phone", label: "Telefone", errorMessage: "Esse telefone não parece válido. Envie com DDD, por favor." },
+  { value: "cpf_cnpj", label: "CPF/CNPJ", errorMessage: "CPF/CNPJ inválido. Confira os números e envie novamente." },
+  { value: "number", label: "Número", errorMessage: "Por favor, responda com um número válido." },
+  { value: "date", label: "Data", errorMessage: "Data inválida. Use o formato DD/MM/AAAA." },
+  { value: "option", label: "Uma das opções", errorMessage: "Por favor, escolha uma das opções." },
+];
+
+// Retries before following the fallback output
+export const DEFAULT_MAX_RETRIES = 2;
+
+export const getDefaultValidationMessage = (type: string) =>
+  ANSWER_VALIDATION_TYPES.find((t) => t.value === type)?.errorMessage || "Resposta inválida. Tente novamente.";
+
+const onlyDigits = (value: string) => value.replace(/\D/g, "");
+
+// Check digits of CPF (11 digits) and CNPJ (14 digits)
+function isValidCpf(cpf: string): boolean {
+  if (cpf.length !== 11 || /^(\d)\1+$/.test(cpf)) return false;
+  const digit = (length: number) => {
+    let sum = 0;
+    for (let i = 0; i < length; i++) sum += Number(cpf[i]) * (length + 1 - i);
+    const rest = (sum * 10) % 11;
+    return rest === 10 ? 0 : rest;
+  };
+  return digit(9) === Number(cpf[9]) && digit(10) === Number(cpf[10]);
+}
+
+function isValidCnpj(cnpj: string): boolean {
+  if (cnpj.length !== 14 || /^(\d)\1+$/.test(cnpj)) return false;
+  const digit = (length: number) => {
+    const weights = length === 12 ? [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2] : [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+    const sum = weights.reduce((total, weight, i) => total + Number(cnpj[i]) * weight, 0);
+    const rest = sum % 11;
+    return rest < 2 ? 0 : 11 - rest;
+  };
+  return digit(12) === Number(cnpj[12]) && digit(13) === Number(cnpj[13]);
+}
+
+// "1.500,50" or "1500.50"
+function parseNumber(value: string): number {
+  const normalized = value.includes(",") ? value.replace(/\./g, "").replace(",", ".") : value;
+  return /^-?\d+(\.\d+)?$/.test(normalized) ? Number(normalized) : NaN;
+}
+
+// DD/MM/AAAA (also with - or .) or AAAA-MM-DD, kept as DD/MM/AAAA
+function parseDate(value: string): string | null {
+  const br = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const [day, month, year] = br
+    ? [Number(br[1]), Number(br[2]), Number(br[3])]
+    : iso
+      ? [Number(iso[3]), Number(iso[2]), Number(iso[1])]
+      : [0, 0, 0];
+  if (!year) return null;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${String(day).padStart(2, "0")}/${String(month).padStart(2, "0")}/${year}`;
+}
+
+/**
+ * Checks an answer and returns the value to keep: trimmed text, lower case
+ * e-mail, digits only for phone and CPF/CNPJ, the option as written in the
+ * question and DD/MM/AAAA dates.
+ */
+export function validateAnswer(
+  type: string,
+  answer: string,
+  options: AnswerValidationOptions = {}
+): AnswerValidationResult {
+  const value = answer.trim();
+
+  switch (type) {
+    case "text": {
+      const min = Number(options.min) || 1;
+      return value.length >= min ? { valid: true, value } : { valid: false };
+    }
+    case "email":
+      return /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/.test(value) ? { valid: true, value: value.toLowerCase() } : { valid: false };
+    case "phone": {
+      const digits = onlyDigits(value);
+      const looksLikePhone = /^[\d\s()+.-]+$/.test(value) && digits.length >= 10 && digits.length <= 13;
+      return looksLikePhone ? { valid: true, value: digits } : { valid: false };
+    }
+    case "cpf_cnpj": {
+      const digits = onlyDigits(value);
+      return isValidCpf(digits) || isValidCnpj(digits) ? { valid: true, value: digits } : { valid: false };
+    }
+    case "number": {
+      const number = parseNumber(value);
+      if (isNaN(number)) return { valid: false };
+      const hasMin = options.min !== undefined && options.min !== null && String(options.min) !== "";
+      const hasMax = options.max !== undefined && options.max !== null && String(options.max) !== "";
+      if (hasMin && number < Number(options.min)) return { valid: false };
+      if (hasMax && number > Number(options.max)) return { valid: false };
+      return { valid: true, value: String(number) };
+    }
+    case "date": {
+      const date = parseDate(value);
+      return date ? { valid: true, value: date } : { valid: false };
+    }
+    case "option": {
+      const list = options.options || [];
+      const byNumber = parseInt(value);
+      if (String(byNumber) === value && byNumber >= 1 && byNumber <= list.length) {
+        return { valid: true, value: list[byNumber - 1] };
+      }
+      const match = list.find((opt) => opt.trim().toLowerCase() === value.toLowerCase());
+      return match ? { valid: true, value: match } : { valid: false };
+    }
+    default:
+      return value ? { valid: true, value } : { valid: false };
+  }
+}
@@ -0,0 +1,297 @@
+import {
+  BUSINESS_HOURS_CLOSED,
+  BUSINESS_HOURS_OPEN,
+  BusinessHours,
+  getCompanyBusinessHours,
+  isWithinBusinessHours,
+} from "../businessHours.ts";
+import { ContactLead, findContactLead, renderText } from "./helpers.ts";
+import { FlowNodeDefinition, NodeExecutionContext } from "./types.ts";
+import { parseVariableReference } from "./variables.ts";
+
+export interface ConditionRule {
+  // What is checked: "last_message", "var.<name>", "lead.<field>", "lead.custom.<key>",
+  // "time.hour", "time.weekday" or "time.business_hours"
+  variable?: string;
+  operator?: string;
+  value?: string;
+}
+
+// Output of a condition in "switch" mode - the flow follows the first branch that matches
+export interface ConditionBranch extends ConditionRule {
+  id: string;
+  label?: string;
+}
+
+export const CONDITION_SUBJECTS = [
+  { value: "last_message", label: "Última mensagem" },
+  { value: "lead.stage", label: "Etapa do lead" },
+  { value: "lead.tags", label: "Tags do lead" },
+  { value: "lead.value", label: "Valor do lead" },
+  { value: "lead.name", label: "Nome do lead" },
+  { value: "lead.email", label: "E-mail do lead" },
+  { value: "lead.custom", label: "Campo personalizado do lead" },
+  { value: "time.hour", label: "Horário atual" },
+  { value: "time.weekday", label: "Dia da semana" },
+  { value: "time.business_hours", label: "Horário de atendimento" },
+];
+
+export const CONDITION_OPERATORS = [
+  { value: "equals", label: "é igual a" },
+  { value: "not_equals", label: "não é igual a" },
+  { value: "contains", label: "contém" },
+  { value: "not_contains", label: "não contém" },
+  { value: "starts_with", label: "começa com" },
+  { value: "ends_with", label: "termina com" },
+  { value: "greater_than", label: "é maior que" },
+  { value: "less_than", label: "é menor que" },
+  { value: "between", label: "está entre" },
+  { value: "in_list", label: "é um de" },
+  { value: "matches_regex", label: "corresponde à expressão" },
+  { value: "is_empty", label: "está vazio" },
+  { value: "is_not_empty", label: "não está vazio" },
+];
+
+const OPERATORS = CONDITION_OPERATORS.map((op) => op.value);
+const OPERATORS_WITHOUT_VALUE = ["is_empty", "is_not_empty"];
+
+export const conditionNeedsValue = (operator: string) => !OPERATORS_WITHOUT_VALUE.includes(operator);
+
+// Handle followed when no branch matches in "switch" mode
+export const CONDITION_ELSE_HANDLE = "else";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// "HH:mm" is compared as minutes of the day, anything else as a number ("1.500,50" or "1500.50")
+function toNumber(value: string): number {
+  const time = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (time) return Number(time[1]) * 60 + Number(time[2]);
+  const normalized = value.includes(",") ? value.replace(/\./g, "").replace(",", ".") : value;
+  return parseFloat(normalized.replace(/[^\d.-]/g, ""));
+}
+
+const splitList = (value: string) =>
+  value.split(",").map((item) => item.trim().toLowerCase()).filter(Boolean);
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Compare a single value (text, number or time)
+function compareText(subject: string, operator: string, expected: string): boolean {
+  const subjectLower = subject.toLowerCase().trim();
+  const expectedLower = expected.toLowerCase().trim();
+
+  switch (operator) {
+    case "equals":
+      return subjectLower === expectedLower;
+    case "not_equals":
+      return subjectLower !== expectedLower;
+    case "contains":
+      return subjectLower.includes(expectedLower);
+    case "not_contains":
+      return !subjectLower.includes(expectedLower);
+    case "starts_with":
+      return subjectLower.startsWith(expectedLower);
+    case "ends_with":
+      return subjectLower.endsWith(expectedLower);
+    case "greater_than":
+      return toNumber(subject) > toNumber(expected);
+    case "less_than":
+      return toNumber(subject) < toNumber(expected);
+    case "between": {
+      const [min, max] = expected.split(",").map(toNumber);
+      const current = toNumber(subject);
+      if ([min, max, current].some(isNaN)) return false;
+      // "22:00,06:00" wraps around midnight
+      return min <= max ? current >= min && current <= max : current >= min || current <= max;
+    }
+    case "in_list":
+      return splitList(expected).includes(subjectLower);
+    case "matches_regex":
+      return isValidRegex(expected) && new RegExp(expected, "i").test(subject);
+    case "is_empty":
+      return !subjectLower;
+    case "is_not_empty":
+      return !!subjectLower;
+    default:
+      return false;
+  }
+}
+
+// Lists (lead tags) match when any item does - negative operators when none does
+function compareList(subject: string[], operator: string, expected: string): boolean {
+  switch (operator) {
+    case "is_empty":
+      return subject.length === 0;
+    case "is_not_empty":
+      return subject.length > 0;
+    case "not_equals":
+    case "not_contains":
+      return !subject.some((item) => compareText(item, operator === "not_equals" ? "equals" : "contains", expected));
+    default:
+      return subject.some((item) => compareText(item, operator, expected));
+  }
+}
+
+// Lazy lookups shared by all the rules of a node
+function createSubjectResolver(context: NodeExecutionContext) {
+  let leadPromise: Promise<ContactLead | null> | null = null;
+  let companyPromise: Promise<{ hours: BusinessHours | null; timezone: string }> | null = null;
+
+  const getLead = () => {
+    if (!leadPromise) leadPromise = findContactLead(context);
+    return leadPromise;
+  };
+
+  const getCompany = () => {
+    if (!companyPromise) companyPromise = getCompanyBusinessHours(context.supabase, context.companyId);
+    return companyPromise;
+  };
+
+  const getNowParts = async () => {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: (await getCompany()).timezone,
+      hour: "2-digit",
+      minute: "2-digit",
+      weekday: "short",
+      hourCycle: "h23",
+    }).formatToParts(new Date());
+    const part = (type: string) => parts.find((p) => p.type === type)?.value || "";
+    return { time: `${part("hour")}:${part("minute")}`, weekday: String(WEEKDAYS.indexOf(part("weekday"))) };
+  };
+
+  return async (subject: string): Promise<string | string[]> => {
+    const variableName = parseVariableReference(subject);
+    if (variableName) return context.variables[variableName] || "";
+
+    if (subject === "time.business_hours") {
+      const { hours, timezone } = await getCompany();
+      return isWithinBusinessHours(hours, timezone) ? BUSINESS_HOURS_OPEN : BUSINESS_HOURS_CLOSED;
+    }
+
+    if (subject.startsWith("time.")) {
+      const now = await getNowParts();
+      return subject === "time.weekday" ? now.weekday : now.time;
+    }
+
+    if (subject.startsWith("lead.")) {
+      const lead = await getLead();
+      if (!lead) return "";
+
+      if (subject.startsWith("lead.custom.")) {
+        const value = lead.custom_fields?.[subject.slice("lead.custom.".length)];
+        return value === undefined || value === null ? "" : String(value);
+      }
+
+      switch (subject) {
+        case "lead.stage": {
+          if (!lead.stage_id) return "";
+          const { data: stage } = await context.supabase
+            .from("funnel_stages")
+            .select("name")
+            .eq("id", lead.stage_id)
+            .single();
+          return stage?.name || "";
+        }
+        case "lead.tags":
+          return lead.tags || [];
+        case "lead.value":
+          return lead.value === null ? "" : String(lead.value);
+        case "lead.name":
+          return lead.name || "";
+        case "lead.email":
+          return lead.email || "";
+        default:
+          return "";
+      }
+    }
+
+    // Anything else (including legacy free text subjects) is the last message of the contact
+    return context.lastUserMessage || "";
+  };
+}
+
+async function evaluateRule(
+  rule: ConditionRule,
+  context: NodeExecutionContext,
+  resolveSubject: (subject: string) => Promise<string | string[]>
+): Promise<boolean> {
+  const operator = rule.operator || "contains";
+  const subject = await resolveSubject(rule.variable || "last_message");
+  const expected = renderText(context, rule.value || "");
+
+  return Array.isArray(subject)
+    ? compareList(subject, operator, expected)
+    : compareText(subject, operator, expected);
+}
+
+function validateRule(rule: ConditionRule, prefix = ""): string[] {
+  if (rule.variable === "lead.custom.") return [`${prefix}Campo personalizado é obrigatório`];
+
+  const operator = rule.operator || "equals";
+  if (!conditionNeedsValue(operator)) return [];
+
+  const value = rule.value?.trim() || "";
+  if (!value) return [`${prefix}Valor é obrigatório`];
+  if (operator === "matches_regex" && !isValidRegex(value)) return [`${prefix}Expressão regular inválida`];
+  if (operator === "between" && value.split(",").length !== 2) return [`${prefix}Use "mínimo,máximo" para "está entre"`];
+  return [];
+}
+
+// Branches on the last message, flow variables, lead fields or the current time -
+// "true"/"false" outputs, or one output per branch plus "else" when branches are set
+export const conditionNode: FlowNodeDefinition = {
+  type: "condition",
+  label: "Condição",
+  menuLabel: "Condição",
+  description: "Crie ramificações com regras",
+  addable: true,
+  configSchema: {
+    variable: { type: "string", label: "Variável" },
+    operator: { type: "string", label: "Operador", default: "equals", options: OPERATORS },
+    value: { type: "string", label: "Valor" },
+    branches: { type: "object[]", label: "Saídas" },
+  },
+  validate: (config) => {
+    const branches = (config.branches as ConditionBranch[]) || [];
+    if (branches.length === 0) return validateRule(config as ConditionRule);
+
+    return branches.flatMap((branch, index) => {
+      const prefix = `Saída ${branch.label || index + 1}: `;
+      if (branch.operator && !OPERATORS.includes(branch.operator)) return [`${prefix}Operador inválido`];
+      return validateRule(branch, prefix);
+    });
+  },
+  execute: async (node, context) => {
+    const config = node.config || {};
+    const branches = (config.branches as ConditionBranch[]) || [];
+    const resolveSubject = createSubjectResolver(context);
+
+    let sourceHandle: string;
+    if (branches.length > 0) {
+      sourceHandle = CONDITION_ELSE_HANDLE;
+      for (const branch of branches) {
+        if (await evaluateRule(branch, context, resolveSubject)) {
+          sourceHandle = branch.id;
+          break;
+        }
+      }
+    } else {
+      const conditionMet = await evaluateRule(config as ConditionRule, context, resolveSubject);
+      sourceHandle = conditionMet ? "true" : "false";
+    }
+
+    console.log(`🔀 Condition result: ${sourceHandle}`);
+
+    // Get next node based on condition result
+    const nextNode = await context.getNextNode(node, sourceHandle);
+
+    return { shouldContinue: true, nextNode, sourceHandle };
+  },
+};
@@ -0,0 +1,46 @@
+import { continueToNext, updateExecution } from "./helpers.ts";
+import { FlowNodeDefinition } from "./types.ts";
+
+const UNIT_SECONDS: Record<string, number> = {
+  seconds: 1,
+  minutes: 60,
+  hours: 3600,
+  days: 86400,
+};
+
+// Delays up to this long are waited inline, longer ones pause the execution
+const INLINE_DELAY_SECONDS = 30;
+
+export const delayNode: FlowNodeDefinition = {
+  type: "delay",
+  label: "Delay",
+  menuLabel: "Delay",
+  description: "Aguarde antes de continuar",
+  addable: true,
+  configSchema: {
+    delay_value: { type: "number", label: "Tempo", required: true, default: 5 },
+    delay_unit: { type: "string", label: "Unidade", default: "seconds", options: Object.keys(UNIT_SECONDS) },
+  },
+  validate: (config) => ((config.delay_value as number) > 0 ? [] : ["Tempo deve ser maior que zero"]),
+  execute: async (node, context) => {
+    const config = node.config || {};
+    const delayValue = (config.delay_value as number) || 1;
+    const delayUnit = (config.delay_unit as string) || "seconds";
+    const delaySeconds = delayValue * (UNIT_SECONDS[delayUnit] || 1);
+
+    // For short delays, just wait
+    if (delaySeconds <= INLINE_DELAY_SECONDS) {
+      await context.wait(delaySeconds * 1000);
+      return continueToNext(context, node);
+    }
+
+    // For longer delays, schedule and pause execution
+    await updateExecution(context, {
+      current_node_id: node.id,
+      status: "paused",
+      next_action_at: new Date(Date.now() + delaySeconds * 1000).toISOString(),
+    });
+
+    return { shouldContinue: false, nextNode: null, delaySeconds };
+  },
+};
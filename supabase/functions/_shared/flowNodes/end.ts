@@ -0,0 +1,19 @@
+import { updateExecution } from "./helpers.ts";
+import { FlowNodeDefinition } from "./types.ts";
+
+export const endNode: FlowNodeDefinition = {
+  type: "end",
+  label: "Fim",
+  menuLabel: "Encerrar",
+  description: "Finalize o fluxo",
+  addable: true,
+  configSchema: {},
+  execute: async (_node, context) => {
+    await updateExecution(context, {
+      status: "completed",
+      completed_at: new Date().toISOString(),
+    });
+
+    return { shouldContinue: false, nextNode: null };
+  },
+};
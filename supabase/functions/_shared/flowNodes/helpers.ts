@@ -0,0 +1,161 @@
+import { isServiceWindowOpen } from "../serviceWindow.ts";
+import { FlowNode, NodeExecutionContext, NodeExecutionResult } from "./types.ts";
+import { replaceMessageVariables } from "./variables.ts";
+
+// Message text with contact, owner and flow variables replaced
+export function renderText(context: NodeExecutionContext, text: string): string {
+  return replaceMessageVariables(text, context);
+}
+
+// Plain-text version of a list of choices, answered with the number of the option
+export function formatNumberedOptions(options: string[]): string {
+  return options.map((opt, idx) => `${idx + 1}. ${opt}\n`).join("");
+}
+
+// Plain-text version of a CTA URL button
+export function formatLinkText(text: string, buttonText: string, url: string): string {
+  return [text, `${buttonText}: ${url}`].filter(Boolean).join("\n\n");
+}
+
+// Persist a message sent by the bot in the conversation
+export async function saveOutgoingMessage(
+  context: NodeExecutionContext,
+  message: { content: string; message_type: string; media_url?: string }
+): Promise<void> {
+  await context.supabase.from("whatsapp_messages").insert({
+    company_id: context.companyId,
+    contact_id: context.contactId,
+    ...message,
+    is_from_me: true,
+    status: "sent",
+    sent_at: new Date().toISOString(),
+  });
+}
+
+// Whether free-form messages still reach the contact (always on connections without the 24h window)
+export async function isContactWindowOpen(context: NodeExecutionContext): Promise<boolean> {
+  if (!context.whatsapp.serviceWindow) return true;
+
+  const { data: contact } = await context.supabase
+    .from("whatsapp_contacts")
+    .select("last_inbound_at")
+    .eq("id", context.contactId)
+    .maybeSingle();
+
+  return isServiceWindowOpen(contact?.last_inbound_at);
+}
+
+const DEFAULT_TEMPLATE_LANGUAGE = "pt_BR";
+
+// Outside the 24h window only a template reaches the contact: send the node's fallback
+// template, or fail the execution when the node has none or the template is rejected.
+// Returns whether the template went out.
+export async function sendWindowTemplate(context: NodeExecutionContext, node: FlowNode): Promise<boolean> {
+  const config = node.config || {};
+  const templateName = (config.window_template as string) || "";
+  const fail = async (reason: string) => {
+    console.log(`❌ 24h window closed for contact ${context.contactId} and ${reason} - execution failed`);
+    await updateExecution(context, {
+      current_node_id: node.id,
+      status: "failed",
+      completed_at: new Date().toISOString(),
+    });
+    return false;
+  };
+
+  if (!templateName) return fail(`node ${node.id} has no template`);
+
+  const bodyParams = ((config.window_template_params as string[]) || []).map((param) => renderText(context, param));
+  const sent = await context.whatsapp.sendTemplate(
+    context.contactPhone,
+    templateName,
+    (config.window_template_language as string) || DEFAULT_TEMPLATE_LANGUAGE,
+    bodyParams
+  );
+  if (!sent) return fail(`template ${templateName} was not sent`);
+
+  await saveOutgoingMessage(context, { content: `[TEMPLATE: ${templateName}]`, message_type: "template" });
+  return true;
+}
+
+// Update the execution row - a new context keeps the flow variables
+export async function updateExecution(context: NodeExecutionContext, updates: Record<string, unknown>): Promise<void> {
+  const values = updates.context
+    ? { ...updates, context: { ...(updates.context as Record<string, unknown>), variables: context.variables } }
+    : updates;
+
+  await context.supabase
+    .from("chatbot_flow_executions")
+    .update(values)
+    .eq("id", context.executionId);
+}
+
+export interface ContactLead {
+  id: string;
+  name: string | null;
+  email: string | null;
+  value: number | null;
+  stage_id: string | null;
+  tags: string[] | null;
+  custom_fields: Record<string, unknown> | null;
+  assigned_to: string | null;
+}
+
+// Lead of the contact (matched by phone)
+export async function findContactLead(
+  context: NodeExecutionContext
+): Promise<ContactLead | null> {
+  const { data: contact } = await context.supabase
+    .from("whatsapp_contacts")
+    .select("phone, normalized_phone")
+    .eq("id", context.contactId)
+    .single();
+
+  if (!contact) return null;
+
+  const phoneToSearch = contact.normalized_phone || contact.phone;
+  const { data: leads } = await context.supabase
+    .from("funnel_leads")
+    .select("id, name, email, value, stage_id, tags, custom_fields, assigned_to")
+    .eq("company_id", context.companyId)
+    .or(`phone.eq.${phoneToSearch},phone.ilike.%${phoneToSearch.slice(-9)}%`);
+
+  return leads?.[0] || null;
+}
+
+// Write a value to a lead field: "name", "email" or "custom.<key>" (custom_fields)
+export async function setLeadField(context: NodeExecutionContext, field: string, value: string): Promise<boolean> {
+  const lead = await findContactLead(context);
+  if (!lead) {
+    console.log(`⚠️ No lead found for contact ${context.contactId} - ${field} not saved`);
+    return false;
+  }
+
+  let updates: Record<string, unknown>;
+  if (field === "name" || field === "email") {
+    if (!value) return false;
+    updates = { [field]: value };
+  } else if (field.startsWith("custom.") && field.length > "custom.".length) {
+    updates = { custom_fields: { ...(lead.custom_fields || {}), [field.slice("custom.".length)]: value } };
+  } else {
+    return false;
+  }
+
+  const { error } = await context.supabase
+    .from("funnel_leads")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("id", lead.id);
+
+  if (error) {
+    console.error(`❌ Error saving ${field} on lead:`, error);
+    return false;
+  }
+
+  console.log(`✅ Lead ${field} updated`);
+  return true;
+}
+
+// Next node through the default output
+export async function continueToNext(context: NodeExecutionContext, node: FlowNode): Promise<NodeExecutionResult> {
+  return { shouldContinue: true, nextNode: await context.getNextNode(node) };
+}
@@ -0,0 +1,130 @@
+/**
+ * Registry of chatbot flow node types.
+ *
+ * Each node type lives in its own module with its config schema,
+ * validation and executor. The flow-executor edge function runs nodes
+ * through this registry and the flow builder canvas reads it for the
+ * block menu, default configs and validation.
+ */
+
+import { actionNode } from "./action.ts";
+import { conditionNode } from "./condition.ts";
+import { delayNode } from "./delay.ts";
+import { endNode } from "./end.ts";
+import { messageNode } from "./message.ts";
+import { pauseNode } from "./pause.ts";
+import { questionNode } from "./question.ts";
+import { startNode } from "./start.ts";
+import { transferNode } from "./transfer.ts";
+import { FlowNodeDefinition } from "./types.ts";
+
+export type {
+  FlowNode,
+  FlowNodeConfigField,
+  FlowNodeDefinition,
+  NodeExecutionContext,
+  NodeExecutionResult,
+  NodeResponseInput,
+  NodeResumeResult,
+  WhatsAppListSection,
+  WhatsAppMediaType,
+  WhatsAppSender,
+} from "./types.ts";
+export {
+  CONDITION_ELSE_HANDLE,
+  CONDITION_OPERATORS,
+  CONDITION_SUBJECTS,
+  conditionNeedsValue,
+} from "./condition.ts";
+export type { ConditionBranch, ConditionRule } from "./condition.ts";
+export {
+  MAX_LIST_OPTIONS,
+  QUESTION_INVALID_HANDLE,
+  WAITING_FOR_SERVICE_WINDOW,
+  buildQuestionListSections,
+} from "./question.ts";
+export type { QuestionListSection } from "./question.ts";
+export { WAITING_FOR_BUSINESS_HOURS } from "./transfer.ts";
+export {
+  ANSWER_VALIDATION_TYPES,
+  DEFAULT_MAX_RETRIES,
+  getDefaultValidationMessage,
+  validateAnswer,
+} from "./answerValidation.ts";
+export type { AnswerValidationType } from "./answerValidation.ts";
+export {
+  BUILTIN_FLOW_VARIABLES,
+  LEAD_FIELD_TARGETS,
+  getAvailableFlowVariables,
+  normalizeVariableName,
+  parseVariableReference,
+  replaceMessageVariables,
+} from "./variables.ts";
+
+// Order is the order of the block menu
+export const flowNodeRegistry = {
+  start: startNode,
+  message: messageNode,
+  question: questionNode,
+  condition: conditionNode,
+  action: actionNode,
+  delay: delayNode,
+  pause: pauseNode,
+  transfer: transferNode,
+  end: endNode,
+} satisfies Record<string, FlowNodeDefinition>;
+
+export type FlowNodeType = keyof typeof flowNodeRegistry;
+
+export function getFlowNodeDefinition(nodeType: string): FlowNodeDefinition | null {
+  return (flowNodeRegistry as Record<string, FlowNodeDefinition>)[nodeType] || null;
+}
+
+// Node types that can be added from the block menu
+export function getAddableNodeTypes(): FlowNodeType[] {
+  return (Object.keys(flowNodeRegistry) as FlowNodeType[]).filter((type) => flowNodeRegistry[type].addable);
+}
+
+// Config of a newly created node, from the schema defaults
+export function getDefaultNodeConfig(nodeType: string): Record<string, unknown> {
+  const definition = getFlowNodeDefinition(nodeType);
+  const config: Record<string, unknown> = {};
+  Object.entries(definition?.configSchema || {}).forEach(([key, field]) => {
+    if (field.default !== undefined) config[key] = field.default;
+  });
+  return config;
+}
+
+const isEmptyValue = (value: unknown) =>
+  value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0);
+
+// Problems with the node config (empty when the node is ready to run)
+export function validateNodeConfig(nodeType: string, config: Record<string, unknown>): string[] {
+  const definition = getFlowNodeDefinition(nodeType);
+  if (!definition) return ["Tipo de bloco desconhecido"];
+
+  const errors: string[] = [];
+
+  Object.entries(definition.configSchema).forEach(([key, field]) => {
+    const value = config[key];
+    if (isEmptyValue(value)) {
+      if (field.required) errors.push(`${field.label} é obrigatório`);
+      return;
+    }
+
+    const validType =
+      field.type === "string[]"
+        ? Array.isArray(value) && value.every((item) => typeof item === "string")
+        : field.type === "object[]"
+          ? Array.isArray(value) && value.every((item) => typeof item === "object" && item !== null)
+          : typeof value === field.type;
+
+    if (!validType) {
+      errors.push(`${field.label} inválido`);
+    } else if (field.options && !field.options.includes(value as string)) {
+      errors.push(`${field.label} inválido`);
+    }
+  });
+
+  return [...errors, ...(definition.validate?.(config) || [])];
+}
@@ -0,0 +1,98 @@
+import {
+  continueToNext,
+  formatLinkText,
+  isContactWindowOpen,
+  renderText,
+  saveOutgoingMessage,
+  sendWindowTemplate,
+} from "./helpers.ts";
+import { FlowNodeDefinition, WhatsAppMediaType } from "./types.ts";
+
+const MEDIA_TYPES: WhatsAppMediaType[] = ["image", "audio", "video", "document"];
+const MAX_CTA_TEXT_LENGTH = 20;
+
+export const messageNode: FlowNodeDefinition = {
+  type: "message",
+  label: "Mensagem",
+  menuLabel: "Enviar Mensagem",
+  description: "Envie texto, imagem ou botões",
+  addable: true,
+  configSchema: {
+    message: { type: "string", label: "Mensagem" },
+    mediaType: { type: "string", label: "Tipo de mídia", default: "text", options: ["text", ...MEDIA_TYPES] },
+    mediaUrl: { type: "string", label: "Arquivo" },
+    mediaFilename: { type: "string", label: "Nome do arquivo" },
+    cta_text: { type: "string", label: "Texto do botão de link" },
+    cta_url: { type: "string", label: "Link do botão" },
+    // Sent instead of the message when a delayed follow-up lands after the 24h window
+    window_template: { type: "string", label: "Template fora da janela de 24h" },
+    window_template_language: { type: "string", label: "Idioma do template" },
+    window_template_params: { type: "string[]", label: "Variáveis do template" },
+  },
+  validate: (config) => {
+    const mediaType = (config.mediaType as string) || "text";
+    if (mediaType === "text" && !(config.message as string)?.trim()) return ["Mensagem é obrigatória"];
+    if (mediaType !== "text" && !config.mediaUrl) return ["Arquivo é obrigatório"];
+
+    const ctaText = ((config.cta_text as string) || "").trim();
+    const ctaUrl = ((config.cta_url as string) || "").trim();
+    if (!ctaText && !ctaUrl) return [];
+
+    const errors: string[] = [];
+    if (mediaType !== "text") errors.push("Botão de link só pode ser usado em mensagens de texto");
+    if (!ctaText) errors.push("Texto do botão de link é obrigatório");
+    if (ctaText.length > MAX_CTA_TEXT_LENGTH) errors.push(`Texto do botão de link deve ter até ${MAX_CTA_TEXT_LENGTH} caracteres`);
+    // A variable may hold the whole link
+    if (!/^(https?:\/\/|\{\{)\S+$/.test(ctaUrl)) errors.push("Link do botão deve começar com http:// ou https://");
+    return errors;
+  },
+  execute: async (node, context) => {
+    const config = node.config || {};
+    const mediaType = (config.mediaType as string) || "text";
+    const mediaUrl = (config.mediaUrl as string) || "";
+
+    if (!(await isContactWindowOpen(context))) {
+      if (!(await sendWindowTemplate(context, node))) return { shouldContinue: false, nextNode: null };
+      return continueToNext(context, node);
+    }
+
+    // Replace template variables with actual values
+    const message = renderText(context, (config.message as string) || "");
+
+    // Check if this is a media message
+    if (mediaType !== "text" && mediaUrl) {
+      if (MEDIA_TYPES.includes(mediaType as WhatsAppMediaType)) {
+        await context.whatsapp.sendMedia(
+          context.contactPhone,
+          mediaType as WhatsAppMediaType,
+          mediaUrl,
+          message || undefined // caption
+        );
+
+        await saveOutgoingMessage(context, {
+          content: message || `[${mediaType}]`,
+          message_type: mediaType,
+          media_url: mediaUrl,
+        });
+      }
+    } else if (message && config.cta_url && config.cta_text) {
+      // Text with a CTA URL button - plain text with the link on text-only connections
+      const ctaText = config.cta_text as string;
+      const ctaUrl = renderText(context, config.cta_url as string);
+      if (context.whatsapp.interactive) {
+        await context.whatsapp.sendCtaUrl(context.contactPhone, message, ctaText, ctaUrl);
+        await saveOutgoingMessage(context, { content: `${message}\n\n[Link: ${ctaText} - ${ctaUrl}]`, message_type: "text" });
+      } else {
+        const text = formatLinkText(message, ctaText, ctaUrl);
+        await context.whatsapp.sendText(context.contactPhone, text);
+        await saveOutgoingMessage(context, { content: text, message_type: "text" });
+      }
+    } else if (message) {
+      // Text-only message
+      await context.whatsapp.sendText(context.contactPhone, message);
+      await saveOutgoingMessage(context, { content: message, message_type: "text" });
+    }
+
+    return continueToNext(context, node);
+  },
+};
@@ -0,0 +1,27 @@
+import { updateExecution } from "./helpers.ts";
+import { FlowNodeDefinition } from "./types.ts";
+
+// Wait for any message from the contact before continuing
+export const pauseNode: FlowNodeDefinition = {
+  type: "pause",
+  label: "Pausa",
+  menuLabel: "Pausa",
+  description: "Aguarde mensagem do contato",
+  addable: true,
+  configSchema: {},
+  execute: async (node, context) => {
+    console.log(`⏸️ Pause node: waiting for message from contact`);
+
+    await updateExecution(context, {
+      current_node_id: node.id,
+      status: "waiting_response",
+      context: { waiting_for: "pause_message" },
+    });
+
+    return { shouldContinue: false, nextNode: null, waitForResponse: true };
+  },
+  resume: async () => {
+    console.log(`⏸️ Pause node received message - continuing flow`);
+    return { status: "continue" };
+  },
+};
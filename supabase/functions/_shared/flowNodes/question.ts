@@ -0,0 +1,383 @@
+import {
+  ANSWER_VALIDATION_TYPES,
+  DEFAULT_MAX_RETRIES,
+  getDefaultValidationMessage,
+  validateAnswer,
+} from "./answerValidation.ts";
+import {
+  formatNumberedOptions,
+  isContactWindowOpen,
+  renderText,
+  saveOutgoingMessage,
+  sendWindowTemplate,
+  setLeadField,
+  updateExecution,
+} from "./helpers.ts";
+import {
+  FlowNode,
+  FlowNodeDefinition,
+  NodeExecutionContext,
+  NodeResponseInput,
+  NodeResumeResult,
+  WhatsAppListSection,
+  WhatsAppSender,
+} from "./types.ts";
+import { normalizeVariableName } from "./variables.ts";
+
+// WhatsApp allows at most 3 reply buttons - more options are sent as a numbered list
+const MAX_BUTTONS = 3;
+// Rows of an interactive list, and the length WhatsApp shows of each one
+export const MAX_LIST_OPTIONS = 10;
+const MAX_LIST_OPTION_LENGTH = 24;
+const DEFAULT_LIST_BUTTON = "Ver opções";
+
+// Output followed when the contact runs out of retries
+export const QUESTION_INVALID_HANDLE = "invalid";
+
+// Waiting for the contact to answer the fallback template before the question is asked
+export const WAITING_FOR_SERVICE_WINDOW = "service_window";
+
+const VALIDATION_TYPES = ANSWER_VALIDATION_TYPES.map((t) => t.value);
+
+// Heading of the list section that begins at option `start`
+export interface QuestionListSection {
+  title: string;
+  start: number;
+}
+
+// How the options reached the contact - decides which answers are accepted
+type QuestionDisplay = "buttons" | "list" | "text";
+
+// Options grouped in the sections of a list message (options before the first heading go untitled)
+export function buildQuestionListSections(options: string[], sections: QuestionListSection[] = []): WhatsAppListSection[] {
+  const headings = sections
+    .filter((section) => section.start >= 0 && section.start < options.length)
+    .sort((a, b) => a.start - b.start);
+  const result: WhatsAppListSection[] = headings[0]?.start === 0 ? [] : [{ rows: [] }];
+
+  options.forEach((option, idx) => {
+    const heading = headings.find((section) => section.start === idx);
+    if (heading) result.push({ title: heading.title, rows: [] });
+    result[result.length - 1].rows.push({ id: `option-${idx}`, title: option });
+  });
+  return result;
+}
+
+function getQuestionDisplay(config: Record<string, unknown>, sender: WhatsAppSender): QuestionDisplay {
+  const options = (config.options as string[]) || [];
+  if (options.length === 0 || !sender.interactive) return "text";
+  if (config.display === "list" && options.length <= MAX_LIST_OPTIONS) return "list";
+  return options.length <= MAX_BUTTONS ? "buttons" : "text";
+}
+
+// Executions started before the display was saved used buttons for up to 3 options
+function getSentDisplay(config: Record<string, unknown>, input: NodeResponseInput): QuestionDisplay {
+  const options = (config.options as string[]) || [];
+  const saved = input.state?.sent_as as QuestionDisplay | undefined;
+  if (saved) return saved;
+  return options.length > 0 && options.length <= MAX_BUTTONS ? "buttons" : "text";
+}
+
+// Invalid answer - repeat the error message until the retries run out, then follow the fallback output
+async function handleInvalidAnswer(
+  node: FlowNode,
+  context: NodeExecutionContext,
+  input: NodeResponseInput,
+  sentAs: QuestionDisplay
+): Promise<NodeResumeResult> {
+  const config = node.config || {};
+  const options = (config.options as string[]) || [];
+  const attempts = Number(input.state?.invalid_attempts || 0) + 1;
+  const maxRetries = config.max_retries === undefined ? DEFAULT_MAX_RETRIES : Number(config.max_retries);
+
+  if (attempts > maxRetries) {
+    console.log(`❌ Invalid answer after ${maxRetries} retries - following fallback output`);
+    return { status: "continue", sourceHandle: QUESTION_INVALID_HANDLE };
+  }
+
+  let message = renderText(
+    context,
+    (config.validation_message as string) || getDefaultValidationMessage(config.validation as string)
+  );
+  if (sentAs === "text" && options.length > 0) message += "\n\n" + formatNumberedOptions(options);
+
+  console.log(`⚠️ Invalid answer (attempt ${attempts}/${maxRetries})`);
+  await context.whatsapp.sendText(context.contactPhone, message);
+  await saveOutgoingMessage(context, { content: message, message_type: "text" });
+  await updateExecution(context, {
+    context: { ...config, waiting_for: "question_response", sent_as: sentAs, invalid_attempts: attempts },
+  });
+  return { status: "wait" };
+}
+
+// Send the question and wait for the answer
+async function askQuestion(node: FlowNode, context: NodeExecutionContext): Promise<void> {
+  const config = node.config || {};
+  const options = (config.options as string[]) || [];
+
+  // Replace template variables in question
+  const question = renderText(context, (config.question as string) || "");
+  const display = getQuestionDisplay(config, context.whatsapp);
+
+  // Use interactive buttons if we have 1-3 options (WhatsApp limit)
+  if (display === "buttons") {
+    const buttons = options.map((opt, idx) => ({
+      id: `option-${idx}`,
+      title: opt,
+    }));
+
+    await context.whatsapp.sendButtons(context.contactPhone, question, buttons);
+
+    // Persist in DB using an allowed message_type.
+    // The whatsapp_messages table has a CHECK constraint that only allows:
+    // text | image | audio | video | document | sticker | template
+    await saveOutgoingMessage(context, {
+      content: `${question}\n\n[Botões: ${options.join(" | ")}]`,
+      message_type: "text",
+    });
+  } else if (display === "list") {
+    const sections = buildQuestionListSections(options, config.list_sections as QuestionListSection[]);
+    await context.whatsapp.sendList(
+      context.contactPhone,
+      question,
+      (config.list_button as string) || DEFAULT_LIST_BUTTON,
+      sections
+    );
+    await saveOutgoingMessage(context, {
+      content: `${question}\n\n[Lista: ${options.join(" | ")}]`,
+      message_type: "text",
+    });
+  } else {
+    // Fallback to text with numbered options (4+ options, no options or a text-only connection)
+    let fullMessage = question;
+    if (options.length > 0) {
+      fullMessage += "\n\n" + formatNumberedOptions(options);
+    }
+
+    if (fullMessage) {
+      await context.whatsapp.sendText(context.contactPhone, fullMessage);
+      await saveOutgoingMessage(context, { content: fullMessage, message_type: "text" });
+    }
+  }
+
+  // Update execution to wait for response
+  await updateExecution(context, {
+    current_node_id: node.id,
+    status: "waiting_response",
+    context: { ...config, waiting_for: "question_response", sent_as: display },
+  });
+}
+
+// Keep the answer in the flow variable and/or the lead field configured on the question
+async function saveAnswer(context: NodeExecutionContext, config: Record<string, unknown>, answer: string) {
+  const variableName = normalizeVariableName((config.save_to_variable as string) || "");
+  if (variableName) {
+    await context.setVariable(variableName, answer);
+    console.log(`💾 Answer saved to variable "${variableName}"`);
+  }
+
+  const leadField = (config.save_to_lead_field as string) || "";
+  if (leadField) {
+    await setLeadField(context, leadField, answer);
+  }
+}
+
+export const questionNode: FlowNodeDefinition = {
+  type: "question",
+  label: "Pergunta",
+  menuLabel: "Fazer Pergunta",
+  description: "Aguarde resposta do usuário",
+  addable: true,
+  configSchema: {
+    question: { type: "string", label: "Pergunta", required: true },
+    options: { type: "string[]", label: "Opções", default: [] },
+    variable: { type: "string", label: "Variável" },
+    save_to_variable: { type: "string", label: "Salvar resposta na variável" },
+    save_to_lead_field: { type: "string", label: "Salvar resposta no lead" },
+    display: { type: "string", label: "Exibir opções como", default: "buttons", options: ["buttons", "list"] },
+    list_button: { type: "string", label: "Botão da lista", default: DEFAULT_LIST_BUTTON },
+    list_sections: { type: "object[]", label: "Seções da lista", default: [] },
+    validation: { type: "string", label: "Validação", default: "none", options: VALIDATION_TYPES },
+    validation_min: { type: "number", label: "Mínimo" },
+    validation_max: { type: "number", label: "Máximo" },
+    validation_message: { type: "string", label: "Mensagem de erro" },
+    max_retries: { type: "number", label: "Tentativas", default: DEFAULT_MAX_RETRIES },
+    // Sent before the question when it's reached after the 24h window
+    window_template: { type: "string", label: "Template fora da janela de 24h" },
+    window_template_language: { type: "string", label: "Idioma do template" },
+    window_template_params: { type: "string[]", label: "Variáveis do template" },
+  },
+  validate: (config) => {
+    const errors: string[] = [];
+    const options = (config.options as string[]) || [];
+    if (options.some((opt) => !opt.trim())) errors.push("Opções não podem ficar vazias");
+
+    if (config.display === "list") {
+      const sections = (config.list_sections as QuestionListSection[]) || [];
+      if (options.length === 0) errors.push("Adicione opções para exibir a lista");
+      if (options.length > MAX_LIST_OPTIONS) errors.push(`Listas aceitam até ${MAX_LIST_OPTIONS} opções`);
+      if (options.some((opt) => opt.length > MAX_LIST_OPTION_LENGTH)) {
+        errors.push(`Opções da lista devem ter até ${MAX_LIST_OPTION_LENGTH} caracteres`);
+      }
+      if (((config.list_button as string) || DEFAULT_LIST_BUTTON).length > 20) {
+        errors.push("Botão da lista deve ter até 20 caracteres");
+      }
+      if (sections.some((section) => !section.title?.trim())) errors.push("Seções da lista precisam de título");
+      if (sections.length > 0 && !sections.some((section) => section.start === 0)) {
+        errors.push("A primeira opção da lista precisa de uma seção");
+      }
+    }
+
+    const variableName = (config.save_to_variable as string) || "";
+    if (variableName && normalizeVariableName(variableName) !== variableName) {
+      errors.push("Nome da variável deve ter apenas letras minúsculas, números e _");
+    }
+    if (config.save_to_lead_field === "custom.") errors.push("Campo personalizado é obrigatório");
+
+    const validation = (config.validation as string) || "none";
+    if (options.length > 0 && !["none", "option"].includes(validation)) {
+      errors.push('Perguntas com opções só podem usar a validação "Uma das opções"');
+    }
+    if (options.length === 0 && validation === "option") errors.push("Adicione opções para validar a resposta");
+    if (validation === "number") {
+      const { validation_min: min, validation_max: max } = config;
+      if (typeof min === "number" && typeof max === "number" && min > max) errors.push("Mínimo maior que o máximo");
+    }
+    if (config.max_retries !== undefined && (Number(config.max_retries) < 0 || !Number.isInteger(config.max_retries))) {
+      errors.push("Tentativas deve ser um número inteiro positivo");
+    }
+    return errors;
+  },
+  execute: async (node, context) => {
+    if (!(await isContactWindowOpen(context))) {
+      if (!(await sendWindowTemplate(context, node))) return { shouldContinue: false, nextNode: null };
+
+      // The question goes out once the contact answers the template and reopens the window
+      await updateExecution(context, {
+        current_node_id: node.id,
+        status: "waiting_response",
+        context: { ...(node.config || {}), waiting_for: WAITING_FOR_SERVICE_WINDOW },
+      });
+      return { shouldContinue: false, nextNode: null, waitForResponse: true };
+    }
+
+    await askQuestion(node, context);
+    return { shouldContinue: false, nextNode: null, waitForResponse: true };
+  },
+  resume: async (node, context, input) => {
+    if (input.state?.waiting_for === WAITING_FOR_SERVICE_WINDOW) {
+      await askQuestion(node, context);
+      return { status: "wait" };
+    }
+
+    const config = node.config || {};
+    const options = (config.options as string[]) || [];
+    const sentAs = getSentDisplay(config, input);
+    const hasInteractiveButtons = sentAs === "buttons";
+    const validation = (config.validation as string) || "none";
+    const hasValidation = validation !== "none";
+
+    console.log(`🤔 Question options: ${JSON.stringify(options)}, buttonId: "${input.buttonId}", Response: "${input.text}", hasButtons: ${hasInteractiveButtons}`);
+
+    // CRITICAL: If we have interactive buttons (1-3 options), ONLY accept button_id responses
+    // Do NOT accept text responses for button-based questions
+    if (hasInteractiveButtons) {
+      if (input.buttonId && input.buttonId.startsWith("option-")) {
+        console.log(`✅ Button clicked: ${input.buttonId}`);
+        const optionIndex = parseInt(input.buttonId.replace("option-", ""));
+        await saveAnswer(context, config, options[optionIndex] ?? input.text ?? "");
+        return { status: "continue", sourceHandle: input.buttonId };
+      }
+
+      // With validation, a typed option counts and anything else uses up a retry
+      if (hasValidation) {
+        const answer = validateAnswer("option", input.text || "", { options });
+        if (answer.valid) {
+          await saveAnswer(context, config, answer.value);
+          return { status: "continue", sourceHandle: `option-${options.indexOf(answer.value)}` };
+        }
+        return handleInvalidAnswer(node, context, input, sentAs);
+      }
+
+      // NÃO reenviar botões para evitar spam/duplicação - apenas aguardar silenciosamente
+      console.log(`⚠️ Text response received but question requires button click. Waiting silently for button.`);
+      return { status: "wait" };
+    }
+
+    // Row picked in a list message
+    if (sentAs === "list" && input.buttonId?.startsWith("option-")) {
+      const optionIndex = parseInt(input.buttonId.replace("option-", ""));
+      if (options[optionIndex] !== undefined) {
+        console.log(`✅ List row selected: ${input.buttonId}`);
+        await saveAnswer(context, config, options[optionIndex]);
+        return { status: "continue", sourceHandle: input.buttonId };
+      }
+    }
+
+    // Numbered text (or a typed answer to a list), accept text matching
+    if (options.length > 0 && input.text) {
+      const responseLower = input.text.toLowerCase().trim();
+      const responseNum = parseInt(responseLower);
+
+      if (!isNaN(responseNum) && responseNum >= 1 && responseNum <= options.length) {
+        console.log(`✅ Matched by number: ${responseNum}`);
+        await saveAnswer(context, config, options[responseNum - 1]);
+        return { status: "continue", sourceHandle: `option-${responseNum - 1}` };
+      }
+
+      // Try to match by content
+      const matchedIndex = options.findIndex((opt) =>
+        responseLower.includes(opt.toLowerCase()) || opt.toLowerCase().includes(responseLower)
+      );
+      if (matchedIndex >= 0) {
+        console.log(`✅ Matched by content: "${options[matchedIndex]}"`);
+        await saveAnswer(context, config, options[matchedIndex]);
+        return { status: "continue", sourceHandle: `option-${matchedIndex}` };
+      }
+
+      if (hasValidation) return handleInvalidAnswer(node, context, input, sentAs);
+
+      if (sentAs === "list") {
+        console.log(`⚠️ No match for text response. Resending list.`);
+        await context.whatsapp.sendList(
+          context.contactPhone,
+          "Por favor, escolha uma das opções:\n\n" + renderText(context, (config.question as string) || ""),
+          (config.list_button as string) || DEFAULT_LIST_BUTTON,
+          buildQuestionListSections(options, config.list_sections as QuestionListSection[])
+        );
+        return { status: "wait" };
+      }
+
+      // If no match, resend the numbered options
+      console.log(`⚠️ No match for text response. Resending options.`);
+      const fullMessage = "Por favor, responda com o número da opção desejada:\n\n" +
+        renderText(context, (config.question as string) || "") +
+        "\n\n" +
+        formatNumberedOptions(options);
+
+      await context.whatsapp.sendText(context.contactPhone, fullMessage);
+      return { status: "wait" };
+    }
+
+    // Open question with validation - the answer is saved normalized (e.g. digits only for CPF)
+    if (options.length === 0 && hasValidation) {
+      const answer = validateAnswer(validation, input.text || "", {
+        min: config.validation_min as number,
+        max: config.validation_max as number,
+      });
+      if (!answer.valid) return handleInvalidAnswer(node, context, input, sentAs);
+
+      await saveAnswer(context, config, answer.value);
+      return { status: "continue" };
+    }
+
+    // Open question (no options) - any text answer continues through the default output
+    if (options.length === 0 && input.text?.trim()) {
+      await saveAnswer(context, config, input.text.trim());
+      return { status: "continue" };
+    }
+
+    console.log(`❌ No valid response received - staying in waiting_response state`);
+    return { status: "wait" };
+  },
+};
@@ -0,0 +1,13 @@
+import { continueToNext } from "./helpers.ts";
+import { FlowNodeDefinition } from "./types.ts";
+
+// Entry point of the flow - triggers are configured on the flow itself
+export const startNode: FlowNodeDefinition = {
+  type: "start",
+  label: "Início",
+  menuLabel: "Início",
+  description: "Ponto de entrada do fluxo",
+  addable: false,
+  configSchema: {},
+  execute: (node, context) => continueToNext(context, node),
+};
@@ -0,0 +1,107 @@
+import { getCompanyBusinessHours, getNextOpeningTime, isWithinBusinessHours } from "../businessHours.ts";
+import { HUMAN_TAKEOVER_TAG, assignConversation } from "../conversationAssignment.ts";
+import { findContactLead, renderText, saveOutgoingMessage, updateExecution } from "./helpers.ts";
+import { FlowNodeDefinition, NodeExecutionContext } from "./types.ts";
+
+// Execution context of a transfer queued until the company opens
+export const WAITING_FOR_BUSINESS_HOURS = "business_hours";
+
+const DEFAULT_OUT_OF_HOURS_MESSAGE =
+  "Nosso atendimento está fechado agora. Vamos te transferir para um atendente assim que abrirmos!";
+
+// Distribute the conversation in the queue; the lead of the contact follows its agent when it has no owner yet
+async function assignToQueue(context: NodeExecutionContext, queueId: string) {
+  try {
+    const assigneeId = await assignConversation(context.supabase, {
+      companyId: context.companyId,
+      contactId: context.contactId,
+      queueId,
+    });
+    if (!assigneeId) return;
+
+    const lead = await findContactLead(context);
+    if (lead && !lead.assigned_to) {
+      await context.supabase.from("funnel_leads").update({ assigned_to: assigneeId }).eq("id", lead.id);
+    }
+  } catch (assignError) {
+    console.error("Error assigning conversation:", assignError);
+  }
+}
+
+export const transferNode: FlowNodeDefinition = {
+  type: "transfer",
+  label: "Transferir",
+  menuLabel: "Transferir",
+  description: "Passe para atendente humano",
+  addable: true,
+  configSchema: {
+    message: { type: "string", label: "Mensagem" },
+    out_of_hours_message: { type: "string", label: "Mensagem fora do horário" },
+    queue_id: { type: "string", label: "Fila" },
+  },
+  execute: async (node, context) => {
+    // Outside business hours the handoff waits until opening (resumed by the flow scheduler)
+    const { hours, timezone } = await getCompanyBusinessHours(context.supabase, context.companyId);
+    const opensAt = isWithinBusinessHours(hours, timezone) ? null : getNextOpeningTime(hours, timezone);
+
+    if (opensAt) {
+      const outOfHoursMessage = renderText(
+        context,
+        (node.config?.out_of_hours_message as string) || DEFAULT_OUT_OF_HOURS_MESSAGE
+      );
+      await context.whatsapp.sendText(context.contactPhone, outOfHoursMessage);
+      await saveOutgoingMessage(context, { content: outOfHoursMessage, message_type: "text" });
+
+      await updateExecution(context, {
+        current_node_id: node.id,
+        status: "paused",
+        next_action_at: opensAt.toISOString(),
+        context: { waiting_for: WAITING_FOR_BUSINESS_HOURS },
+      });
+      console.log(`🌙 Out of business hours - transfer queued until ${opensAt.toISOString()}`);
+
+      return { shouldContinue: false, nextNode: null };
+    }
+
+    // Mark as human takeover
+    await updateExecution(context, {
+      status: "completed",
+      is_human_takeover: true,
+      completed_at: new Date().toISOString(),
+    });
+
+    // Add "em_atendimento" tag to the contact to block bot execution
+    try {
+      const { data: contactData } = await context.supabase
+        .from("whatsapp_contacts")
+        .select("tags")
+        .eq("id", context.contactId)
+        .single();
+
+      const currentTags = contactData?.tags || [];
+      if (!currentTags.includes(HUMAN_TAKEOVER_TAG)) {
+        await context.supabase
+          .from("whatsapp_contacts")
+          .update({
+            tags: [...currentTags, HUMAN_TAKEOVER_TAG],
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", context.contactId);
+        console.log(`🏷️ Tag "${HUMAN_TAKEOVER_TAG}" added to contact ${context.contactId}`);
+      }
+    } catch (tagError) {
+      console.error(`Error adding ${HUMAN_TAKEOVER_TAG} tag:`, tagError);
+    }
+
+    const queueId = (node.config?.queue_id as string) || "";
+    if (queueId) await assignToQueue(context, queueId);
+
+    const transferMessage = renderText(
+      context,
+      (node.config?.message as string) || "Você será atendido por um humano em breve."
+    );
+    await context.whatsapp.sendText(context.contactPhone, transferMessage);
+
+    return { shouldContinue: false, nextNode: null };
+  },
+};
@@ -0,0 +1,100 @@
+/**
+ * Types shared by the chatbot flow node registry.
+ *
+ * Handlers only talk to the outside world through the execution context
+ * (Supabase client, WhatsApp sender, graph navigation), so they run the
+ * same way in the flow-executor edge function and in unit tests.
+ */
+
+export interface FlowNode {
+  id: string;
+  flow_id: string;
+  company_id: string;
+  node_type: string;
+  position_x: number;
+  position_y: number;
+  config: Record<string, unknown>;
+}
+
+export type WhatsAppMediaType = "image" | "audio" | "video" | "document";
+
+export interface WhatsAppListSection {
+  title?: string;
+  rows: { id: string; title: string; description?: string }[];
+}
+
+export interface WhatsAppSender {
+  // False when the connection only delivers plain text (Baileys/QR) - nodes fall back to numbered lists
+  interactive: boolean;
+  // True when free-form messages need the 24h customer service window (Cloud API)
+  serviceWindow: boolean;
+  sendText(to: string, text: string): Promise<boolean>;
+  sendMedia(to: string, mediaType: WhatsAppMediaType, mediaUrl: string, caption?: string): Promise<boolean>;
+  sendButtons(to: string, bodyText: string, buttons: { id: string; title: string }[]): Promise<boolean>;
+  sendList(to: string, bodyText: string, buttonText: string, sections: WhatsAppListSection[]): Promise<boolean>;
+  sendCtaUrl(to: string, bodyText: string, buttonText: string, url: string): Promise<boolean>;
+  // Approved template with its body variables ({{1}}, {{2}}...) in order
+  sendTemplate(to: string, templateName: string, language: string, bodyParams: string[]): Promise<boolean>;
+}
+
+export interface NodeExecutionContext {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any;
+  whatsapp: WhatsAppSender;
+  companyId: string;
+  contactId: string;
+  contactPhone: string;
+  executionId: string;
+  lastUserMessage?: string;
+  ownerFirstName?: string;
+  contactName?: string;
+  // Flow variables of the execution ({{var.name}})
+  variables: Record<string, string>;
+  setVariable: (name: string, value: string) => Promise<void>;
+  // Node connected to `node` (through `sourceHandle` when the node has several outputs)
+  getNextNode: (node: FlowNode, sourceHandle?: string | null) => Promise<FlowNode | null>;
+  wait: (ms: number) => Promise<void>;
+}
+
+export interface NodeExecutionResult {
+  shouldContinue: boolean;
+  nextNode: FlowNode | null;
+  waitForResponse?: boolean;
+  delaySeconds?: number;
+  sourceHandle?: string;
+}
+
+// Message received while the execution waits on the node
+export interface NodeResponseInput {
+  text?: string;
+  buttonId?: string;
+  // Execution context saved by the node while it waits (e.g. retries already used)
+  state?: Record<string, unknown>;
+}
+
+export type NodeResumeResult =
+  | { status: "continue"; sourceHandle?: string | null }
+  | { status: "wait" };
+
+export interface FlowNodeConfigField {
+  type: "string" | "number" | "boolean" | "string[]" | "object[]";
+  label: string;
+  required?: boolean;
+  default?: unknown;
+  options?: string[];
+}
+
+export interface FlowNodeDefinition {
+  type: string;
+  label: string;
+  menuLabel: string;
+  description: string;
+  // Start nodes are created with the flow and can't be added or removed
+  addable: boolean;
+  configSchema: Record<string, FlowNodeConfigField>;
+  // Checks that depend on more than one field
+  validate?: (config: Record<string, unknown>) => string[];
+  execute: (node: FlowNode, context: NodeExecutionContext) => Promise<NodeExecutionResult>;
+  // Nodes that wait for the contact decide how the flow continues
+  resume?: (node: FlowNode, context: NodeExecutionContext, input: NodeResponseInput) => Promise<NodeResumeResult>;
+}
@@ -0,0 +1,115 @@
+// Flow variables - answers and values saved during an execution
+// (chatbot_flow_executions.context.variables), used in texts as {{var.name}}
+
+export interface FlowTextVariables {
+  ownerFirstName?: string;
+  contactName?: string;
+  variables?: Record<string, string>;
+}
+
+// Built-in placeholders, besides {{var.name}}
+export const BUILTIN_FLOW_VARIABLES = [
+  { key: "cliente", label: "Nome do contato" },
+  { key: "nome", label: "Nome do atendente" },
+];
+
+// Lead fields a variable can be written to ("custom.<key>" for custom_fields)
+export const LEAD_FIELD_TARGETS = [
+  { value: "name", label: "Nome do lead" },
+  { value: "email", label: "E-mail do lead" },
+  { value: "custom", label: "Campo personalizado" },
+];
+
+// Variable names are lowercase identifiers: "Cidade de Origem" -> "cidade_de_origem"
+export function normalizeVariableName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim()
+    .replace(/\s+/g, "_")
+    .replace(/[^a-z0-9_]/g, "");
+}
+
+// Name of the flow variable referenced by "var.name" or "{{var.name}}", if any
+export function parseVariableReference(reference: string): string | null {
+  const match = reference.trim().match(/^(?:\{\{\s*)?var\.([a-z0-9_]+)(?:\s*\}\})?$/i);
+  return match ? match[1].toLowerCase() : null;
+}
+
+// Replace template variables in message text
+export function replaceMessageVariables(text: string, values: FlowTextVariables): string {
+  let result = text;
+
+  // Replace owner/attendant name variables
+  if (values.ownerFirstName) {
+    result = result.replace(/\{\{nome\}\}/gi, values.ownerFirstName);
+    result = result.replace(/\{\{atendente\}\}/gi, values.ownerFirstName);
+    result = result.replace(/\{\{responsavel\}\}/gi, values.ownerFirstName);
+    result = result.replace(/\{\{owner\}\}/gi, values.ownerFirstName);
+  }
+
+  // Replace contact name if available
+  if (values.contactName) {
+    result = result.replace(/\{\{cliente\}\}/gi, values.contactName);
+    result = result.replace(/\{\{contato\}\}/gi, values.contactName);
+    result = result.replace(/\{\{contact\}\}/gi, values.contactName);
+  }
+
+  // Flow variables - unknown ones become empty so placeholders never reach the contact
+  result = result.replace(/\{\{\s*var\.([a-z0-9_]+)\s*\}\}/gi, (_, name: string) =>
+    values.variables?.[name.toLowerCase()] ?? ""
+  );
+
+  return result;
+}
+
+interface VariableGraphNode {
+  id: string;
+  node_type: string;
+  config: Record<string, unknown>;
+}
+
+interface VariableGraphEdge {
+  source_node_id: string;
+  target_node_id: string;
+}
+
+// Variables set by a node (question answers and "set_variable" actions)
+function getNodeVariables(node: VariableGraphNode): string[] {
+  const config = node.config || {};
+  if (node.node_type === "question" && config.save_to_variable) {
+    return [normalizeVariableName(config.save_to_variable as string)];
+  }
+  if (node.node_type === "action" && config.action_type === "set_variable") {
+    const name = normalizeVariableName(String(config.action_value || "").split("=")[0]);
+    return name ? [name] : [];
+  }
+  return [];
+}
+
+// Variables that may already be set when the flow reaches `nodeId` (set by any node before it)
+export function getAvailableFlowVariables(
+  nodes: VariableGraphNode[],
+  edges: VariableGraphEdge[],
+  nodeId: string
+): string[] {
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  const visited = new Set<string>([nodeId]);
+  const queue = [nodeId];
+  const variables = new Set<string>();
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    edges
+      .filter((edge) => edge.target_node_id === current && !visited.has(edge.source_node_id))
+      .forEach((edge) => {
+        visited.add(edge.source_node_id);
+        queue.push(edge.source_node_id);
+        const source = nodesById.get(edge.source_node_id);
+        if (source) getNodeVariables(source).forEach((name) => variables.add(name));
+      });
+  }
+
+  return Array.from(variables).filter(Boolean).sort();
+}
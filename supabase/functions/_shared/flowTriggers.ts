@@ -0,0 +1,221 @@
+/**
+ * Chatbot flow trigger rules shared by the flow builder (browser) and the
+ * flow-executor edge function, so the builder validates and describes rules
+ * with the same logic that picks the flow for an incoming message.
+ *
+ * Keep this module free of Deno/browser specific APIs so it can be
+ * imported from both runtimes.
+ */
+
+export type FlowTriggerType = "keyword" | "first_message" | "inactivity" | "button" | "ad_referral";
+
+export type KeywordMatchMode = "contains" | "exact" | "word" | "regex";
+
+export interface FlowTriggerRule {
+  id: string;
+  type: FlowTriggerType;
+  // keyword: text or pattern, button: button id/payload, ad_referral: optional ad/post id
+  value?: string;
+  match?: KeywordMatchMode;
+  // inactivity: days without messages from the contact
+  days?: number;
+  // Higher priority wins when rules of several flows match the same message
+  priority?: number;
+}
+
+// Click-to-WhatsApp referral sent by Meta with the first message from an ad or post
+export interface FlowTriggerReferral {
+  source_id?: string;
+  source_type?: string;
+  source_url?: string;
+  headline?: string;
+}
+
+export interface FlowTriggerEvent {
+  message: string;
+  buttonId?: string | null;
+  referral?: FlowTriggerReferral | null;
+  // Previous message received from the contact (null when this is the first one)
+  previousMessageAt?: string | null;
+}
+
+export interface TriggerFlow {
+  id: string;
+  name: string;
+  is_default: boolean;
+  trigger_keywords: string[] | null;
+  trigger_rules?: FlowTriggerRule[] | null;
+  created_at?: string;
+}
+
+export interface TriggerMatch<F extends TriggerFlow = TriggerFlow> {
+  flow: F;
+  // null when the default flow answered a greeting
+  rule: FlowTriggerRule | null;
+}
+
+export const FLOW_TRIGGER_TYPES: { value: FlowTriggerType; label: string }[] = [
+  { value: "keyword", label: "Palavra-chave" },
+  { value: "first_message", label: "Primeira mensagem do contato" },
+  { value: "inactivity", label: "Retorno após dias sem conversa" },
+  { value: "button", label: "Botão de template" },
+  { value: "ad_referral", label: "Anúncio (Click-to-WhatsApp)" },
+];
+
+export const KEYWORD_MATCH_MODES: { value: KeywordMatchMode; label: string }[] = [
+  { value: "contains", label: "Contém" },
+  { value: "exact", label: "Exata" },
+  { value: "word", label: "Palavra inteira" },
+  { value: "regex", label: "Expressão regular" },
+];
+
+// The default flow only answers greetings, so the bot doesn't reply to every message
+export const GREETING_PATTERNS = ["oi", "olá", "ola", "bom dia", "boa tarde", "boa noite", "hello", "hi", "hey", "e ai", "eai"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const normalize = (text: string) => text.toLowerCase().trim();
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Flows created before trigger rules only have `trigger_keywords` ("contains" match)
+export function getFlowTriggerRules(flow: Pick<TriggerFlow, "id" | "trigger_keywords" | "trigger_rules">): FlowTriggerRule[] {
+  if (flow.trigger_rules && flow.trigger_rules.length > 0) return flow.trigger_rules;
+  return (flow.trigger_keywords || []).map((keyword, index) => ({
+    id: `${flow.id}-keyword-${index}`,
+    type: "keyword",
+    match: "contains",
+    value: keyword,
+    priority: 0,
+  }));
+}
+
+// Whether the rules need the message history of the contact to be evaluated
+export const needsMessageHistory = (rules: FlowTriggerRule[]) =>
+  rules.some((rule) => rule.type === "first_message" || rule.type === "inactivity");
+
+export function matchesKeyword(message: string, keyword: string, mode: KeywordMatchMode = "contains"): boolean {
+  const text = normalize(message);
+  const expected = normalize(keyword);
+  if (!expected) return false;
+
+  switch (mode) {
+    case "exact":
+      return text === expected;
+    case "word":
+      // \b doesn't handle accented letters, so words are delimited by anything that isn't a letter or digit
+      return new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegex(expected)}($|[^\\p{L}\\p{N}])`, "u").test(text);
+    case "regex":
+      return isValidRegex(keyword) && new RegExp(keyword.trim(), "i").test(message);
+    default:
+      return text.includes(expected);
+  }
+}
+
+export function matchesTriggerRule(rule: FlowTriggerRule, event: FlowTriggerEvent, now = new Date()): boolean {
+  switch (rule.type) {
+    case "keyword":
+      return matchesKeyword(event.message, rule.value || "", rule.match);
+    case "first_message":
+      return event.previousMessageAt === null;
+    case "inactivity": {
+      if (!event.previousMessageAt) return false;
+      const days = Number(rule.days) || 0;
+      return days > 0 && now.getTime() - new Date(event.previousMessageAt).getTime() >= days * DAY_MS;
+    }
+    case "button":
+      return !!event.buttonId && event.buttonId === rule.value?.trim();
+    case "ad_referral":
+      if (!event.referral) return false;
+      return !rule.value?.trim() || event.referral.source_id === rule.value.trim();
+    default:
+      return false;
+  }
+}
+
+export function validateTriggerRule(rule: FlowTriggerRule): string[] {
+  const value = rule.value?.trim() || "";
+  switch (rule.type) {
+    case "keyword":
+      if (!value) return ["Palavra-chave é obrigatória"];
+      if (rule.match === "regex" && !isValidRegex(value)) return ["Expressão regular inválida"];
+      return [];
+    case "inactivity":
+      return Number(rule.days) > 0 ? [] : ["Informe quantos dias sem conversa"];
+    case "button":
+      return value ? [] : ["ID do botão é obrigatório"];
+    case "first_message":
+    case "ad_referral":
+      return [];
+    default:
+      return ["Tipo de gatilho desconhecido"];
+  }
+}
+
+/**
+ * Picks the flow to start for an incoming message. Every matching rule of
+ * every flow is a candidate; the highest priority wins, ties go to the
+ * oldest flow and then to the rule order, so overlapping flows always
+ * resolve the same way. When nothing matches, the default flow answers
+ * greetings.
+ */
+export function selectTriggeredFlow<F extends TriggerFlow>(
+  flows: F[],
+  event: FlowTriggerEvent,
+  now = new Date()
+): TriggerMatch<F> | null {
+  const candidates: { flow: F; rule: FlowTriggerRule; order: number }[] = [];
+
+  for (const flow of flows) {
+    getFlowTriggerRules(flow).forEach((rule, order) => {
+      if (validateTriggerRule(rule).length === 0 && matchesTriggerRule(rule, event, now)) {
+        candidates.push({ flow, rule, order });
+      }
+    });
+  }
+
+  if (candidates.length > 0) {
+    candidates.sort(
+      (a, b) =>
+        (Number(b.rule.priority) || 0) - (Number(a.rule.priority) || 0) ||
+        (a.flow.created_at || "").localeCompare(b.flow.created_at || "") ||
+        a.flow.id.localeCompare(b.flow.id) ||
+        a.order - b.order
+    );
+    return { flow: candidates[0].flow, rule: candidates[0].rule };
+  }
+
+  const message = normalize(event.message);
+  const isGreeting = GREETING_PATTERNS.some((greeting) => message.includes(greeting));
+  const defaultFlow = flows.find((flow) => flow.is_default);
+  if (isGreeting && defaultFlow) return { flow: defaultFlow, rule: null };
+
+  return null;
+}
+
+// Short description of a rule, e.g. for lists and logs
+export function describeTriggerRule(rule: FlowTriggerRule): string {
+  switch (rule.type) {
+    case "keyword": {
+      const mode = KEYWORD_MATCH_MODES.find((m) => m.value === (rule.match || "contains"));
+      return `${mode?.label || "Contém"}: ${rule.value || ""}`;
+    }
+    case "inactivity":
+      return `Retorno após ${rule.days || 0} dia(s)`;
+    case "button":
+      return `Botão: ${rule.value || ""}`;
+    case "ad_referral":
+      return rule.value ? `Anúncio: ${rule.value}` : "Qualquer anúncio";
+    default:
+      return FLOW_TRIGGER_TYPES.find((t) => t.value === rule.type)?.label || rule.type;
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Checks a whole chatbot flow (graph + node configs) before it is published
+ * or activated. Shared by the flow builder (browser) and anything that needs
+ * to know whether a flow can run.
+ *
+ * Errors block publishing/activation; warnings are only shown.
+ */
+
+import {
+  CONDITION_ELSE_HANDLE,
+  ConditionBranch,
+  QUESTION_INVALID_HANDLE,
+  getFlowNodeDefinition,
+  validateNodeConfig,
+} from "./flowNodes/index.ts";
+import type { FlowSnapshot, FlowSnapshotNode } from "./flowVersions.ts";
+
+export type FlowIssueSeverity = "error" | "warning";
+
+export interface FlowValidationIssue {
+  severity: FlowIssueSeverity;
+  // null for problems of the flow as a whole
+  nodeId: string | null;
+  message: string;
+}
+
+// Messages sent after this long without a reply from the contact need an approved template
+export const WHATSAPP_WINDOW_HOURS = 24;
+
+const UNIT_HOURS: Record<string, number> = {
+  seconds: 1 / 3600,
+  minutes: 1 / 60,
+  hours: 1,
+  days: 24,
+};
+
+// Handles a node must have connected, and handles that are optional
+function getOutputs(node: FlowSnapshotNode): { required: string[][]; optional: string[] } {
+  const config = node.config || {};
+
+  switch (node.node_type) {
+    case "start":
+      return { required: [[""]], optional: [] };
+    case "question": {
+      const options = (config.options as string[]) || [];
+      if (options.length === 0) return { required: [[""]], optional: [] };
+      // At least one option must lead somewhere; the others end the flow
+      return { required: [options.map((_, i) => `option-${i}`)], optional: [] };
+    }
+    case "condition": {
+      const branches = (config.branches as ConditionBranch[]) || [];
+      if (branches.length === 0) return { required: [["true"], ["false"]], optional: [] };
+      return { required: branches.map((branch) => [branch.id]), optional: [CONDITION_ELSE_HANDLE] };
+    }
+    default:
+      return { required: [], optional: [] };
+  }
+}
+
+const handleLabel = (node: FlowSnapshotNode, handle: string) => {
+  if (handle === "true") return "Verdadeiro";
+  if (handle === "false") return "Falso";
+  if (handle === CONDITION_ELSE_HANDLE) return "Senão";
+  if (handle.startsWith("option-")) {
+    const options = (node.config?.options as string[]) || [];
+    return `"${options[Number(handle.slice("option-".length))] || handle}"`;
+  }
+  const branches = (node.config?.branches as ConditionBranch[]) || [];
+  const index = branches.findIndex((branch) => branch.id === handle);
+  return index >= 0 ? `"${branches[index].label || `Saída ${index + 1}`}"` : handle;
+};
+
+function getDelayHours(node: FlowSnapshotNode): number {
+  const value = Number(node.config?.delay_value) || 0;
+  return value * (UNIT_HOURS[(node.config?.delay_unit as string) || "seconds"] || 0);
+}
+
+export function validateFlow(flow: FlowSnapshot): FlowValidationIssue[] {
+  const issues: FlowValidationIssue[] = [];
+  const add = (severity: FlowIssueSeverity, nodeId: string | null, message: string) =>
+    issues.push({ severity, nodeId, message });
+
+  const nodeIds = new Set(flow.nodes.map((node) => node.id));
+  const edges = flow.edges.filter((edge) => nodeIds.has(edge.source_node_id) && nodeIds.has(edge.target_node_id));
+  const startNodes = flow.nodes.filter((node) => node.node_type === "start");
+
+  if (startNodes.length === 0) add("error", null, "O fluxo não tem bloco inicial");
+
+  // Nodes reachable from the start
+  const reachable = new Set(startNodes.map((node) => node.id));
+  const queue = [...reachable];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const edge of edges) {
+      if (edge.source_node_id === current && !reachable.has(edge.target_node_id)) {
+        reachable.add(edge.target_node_id);
+        queue.push(edge.target_node_id);
+      }
+    }
+  }
+
+  for (const node of flow.nodes) {
+    const label = getFlowNodeDefinition(node.node_type)?.label || node.node_type;
+    const outgoing = edges.filter((edge) => edge.source_node_id === node.id);
+    const handles = new Set(outgoing.map((edge) => edge.source_handle || ""));
+    const hasIncoming = edges.some((edge) => edge.target_node_id === node.id);
+
+    validateNodeConfig(node.node_type, node.config || {}).forEach((message) => add("error", node.id, `${label}: ${message}`));
+
+    if (node.node_type !== "start" && !hasIncoming) {
+      add("error", node.id, `${label}: bloco solto, nenhuma conexão chega até ele`);
+    } else if (!reachable.has(node.id)) {
+      add("warning", node.id, `${label}: bloco inalcançável a partir do início`);
+    }
+
+    const { required, optional } = getOutputs(node);
+    for (const alternatives of required) {
+      if (alternatives.some((handle) => handles.has(handle))) continue;
+      if (node.node_type === "start") add("error", node.id, "O bloco inicial não está conectado a nenhum bloco");
+      else if (alternatives.length === 1 && alternatives[0] === "") add("error", node.id, `${label}: sem saída conectada`);
+      else if (alternatives.length === 1) add("error", node.id, `${label}: saída ${handleLabel(node, alternatives[0])} sem conexão`);
+      else add("error", node.id, `${label}: nenhuma opção está conectada`);
+    }
+
+    // Options of a question that end the flow when chosen
+    if (node.node_type === "question" && required[0]?.length > 1) {
+      required[0]
+        .filter((handle) => !handles.has(handle))
+        .forEach((handle) => add("warning", node.id, `${label}: opção ${handleLabel(node, handle)} encerra o fluxo`));
+    }
+
+    optional
+      .filter((handle) => !handles.has(handle))
+      .forEach((handle) => add("warning", node.id, `${label}: saída ${handleLabel(node, handle)} sem conexão encerra o fluxo`));
+
+    if (node.node_type === "question" && (node.config?.validation as string) && node.config?.validation !== "none" && !handles.has(QUESTION_INVALID_HANDLE)) {
+      add("warning", node.id, `${label}: resposta inválida após as tentativas encerra o fluxo`);
+    }
+
+    if (node.node_type === "delay" && getDelayHours(node) > WHATSAPP_WINDOW_HOURS) {
+      add(
+        "warning",
+        node.id,
+        `${label}: espera maior que ${WHATSAPP_WINDOW_HOURS}h - fora da janela do WhatsApp, mensagens comuns podem não ser entregues`
+      );
+    }
+  }
+
+  return issues;
+}
+
+export const hasBlockingIssues = (issues: FlowValidationIssue[]) => issues.some((issue) => issue.severity === "error");
@@ -0,0 +1,155 @@
+/**
+ * Published versions of chatbot flows, shared by the flow builder (browser)
+ * and the flow-executor edge function.
+ *
+ * The builder edits the draft (chatbot_flow_nodes / chatbot_flow_edges).
+ * Publishing stores an immutable snapshot in chatbot_flow_versions; new
+ * executions run the published snapshot and stay pinned to it, so later
+ * edits never change a conversation that is already running.
+ *
+ * Keep this module free of Deno/browser specific APIs so it can be
+ * imported from both runtimes.
+ */
+
+import { FlowNode, QUESTION_INVALID_HANDLE } from "./flowNodes/index.ts";
+
+export interface FlowSnapshotNode {
+  id: string;
+  node_type: string;
+  position_x: number;
+  position_y: number;
+  config: Record<string, unknown>;
+}
+
+export interface FlowSnapshotEdge {
+  id: string;
+  source_node_id: string;
+  target_node_id: string;
+  source_handle: string | null;
+  label: string | null;
+}
+
+export interface FlowSnapshot {
+  nodes: FlowSnapshotNode[];
+  edges: FlowSnapshotEdge[];
+}
+
+export interface FlowVersion extends FlowSnapshot {
+  id: string;
+  flow_id: string;
+  company_id: string;
+  version_number: number;
+  notes: string | null;
+  published_by: string | null;
+  created_at: string;
+}
+
+export interface FlowSnapshotDiff {
+  addedNodes: FlowSnapshotNode[];
+  removedNodes: FlowSnapshotNode[];
+  // Same node with a different configuration
+  changedNodes: { before: FlowSnapshotNode; after: FlowSnapshotNode }[];
+  // Only the position on the canvas changed
+  movedNodes: FlowSnapshotNode[];
+  addedEdges: FlowSnapshotEdge[];
+  removedEdges: FlowSnapshotEdge[];
+}
+
+// Navigation over a published snapshot, used by the flow-executor
+export interface FlowGraph {
+  getStartNode: () => FlowNode | null;
+  getNode: (nodeId: string) => FlowNode | null;
+  getNextNode: (nodeId: string, sourceHandle?: string | null) => FlowNode | null;
+}
+
+// Snapshot of draft rows (extra columns such as flow_id or created_at are dropped)
+export function createFlowSnapshot(
+  nodes: Pick<FlowSnapshotNode, "id" | "node_type" | "position_x" | "position_y" | "config">[],
+  edges: Pick<FlowSnapshotEdge, "id" | "source_node_id" | "target_node_id" | "source_handle" | "label">[]
+): FlowSnapshot {
+  return {
+    nodes: nodes.map((node) => ({
+      id: node.id,
+      node_type: node.node_type,
+      position_x: Number(node.position_x) || 0,
+      position_y: Number(node.position_y) || 0,
+      config: node.config || {},
+    })),
+    edges: edges.map((edge) => ({
+      id: edge.id,
+      source_node_id: edge.source_node_id,
+      target_node_id: edge.target_node_id,
+      source_handle: edge.source_handle || null,
+      label: edge.label || null,
+    })),
+  };
+}
+
+// Key order doesn't matter for JSONB, so configs are compared with sorted keys
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Connections are compared by what they connect, so re-creating the same link isn't a change
+const edgeKey = (edge: FlowSnapshotEdge) => `${edge.source_node_id}:${edge.source_handle || ""}->${edge.target_node_id}`;
+
+export function diffFlowSnapshots(before: FlowSnapshot | null, after: FlowSnapshot): FlowSnapshotDiff {
+  const beforeNodes = new Map((before?.nodes || []).map((node) => [node.id, node]));
+  const afterNodes = new Map(after.nodes.map((node) => [node.id, node]));
+  const beforeEdges = new Map((before?.edges || []).map((edge) => [edgeKey(edge), edge]));
+  const afterEdges = new Map(after.edges.map((edge) => [edgeKey(edge), edge]));
+
+  const diff: FlowSnapshotDiff = {
+    addedNodes: after.nodes.filter((node) => !beforeNodes.has(node.id)),
+    removedNodes: (before?.nodes || []).filter((node) => !afterNodes.has(node.id)),
+    changedNodes: [],
+    movedNodes: [],
+    addedEdges: after.edges.filter((edge) => !beforeEdges.has(edgeKey(edge))),
+    removedEdges: (before?.edges || []).filter((edge) => !afterEdges.has(edgeKey(edge))),
+  };
+
+  for (const node of after.nodes) {
+    const previous = beforeNodes.get(node.id);
+    if (!previous) continue;
+    if (previous.node_type !== node.node_type || stableStringify(previous.config) !== stableStringify(node.config)) {
+      diff.changedNodes.push({ before: previous, after: node });
+    } else if (Number(previous.position_x) !== Number(node.position_x) || Number(previous.position_y) !== Number(node.position_y)) {
+      diff.movedNodes.push(node);
+    }
+  }
+
+  return diff;
+}
+
+export const hasFlowChanges = (diff: FlowSnapshotDiff) =>
+  Object.values(diff).some((items) => items.length > 0);
+
+export function createFlowGraph(snapshot: FlowSnapshot, flowId: string, companyId: string): FlowGraph {
+  const nodes = new Map<string, FlowNode>(
+    snapshot.nodes.map((node) => [node.id, { ...node, flow_id: flowId, company_id: companyId }])
+  );
+
+  const getNode = (nodeId: string) => nodes.get(nodeId) || null;
+
+  return {
+    getNode,
+    getStartNode: () => [...nodes.values()].find((node) => node.node_type === "start") || null,
+    getNextNode: (nodeId, sourceHandle) => {
+      const edge = snapshot.edges.find(
+        (e) =>
+          e.source_node_id === nodeId &&
+          // The fallback output of a question is never the default path
+          (sourceHandle ? e.source_handle === sourceHandle : e.source_handle !== QUESTION_INVALID_HANDLE)
+      );
+      return edge ? getNode(edge.target_node_id) : null;
+    },
+  };
+}
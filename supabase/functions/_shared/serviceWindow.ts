@@ -0,0 +1,29 @@
+/**
+ * WhatsApp customer service window. With the Cloud API, free-form messages
+ * (text, media, interactive) are only delivered up to 24h after the contact's
+ * last message (whatsapp_contacts.last_inbound_at); after that only approved
+ * templates go through. Baileys/QR connections have no window.
+ */
+
+export const SERVICE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Error code returned by whatsapp-cloud-send when the window is closed
+export const SERVICE_WINDOW_CLOSED = "service_window_closed";
+
+// Graph API error of a free-form message sent outside the window
+export const META_WINDOW_CLOSED_ERROR = 131047;
+
+export function getServiceWindowExpiry(lastInboundAt: string | null | undefined): Date | null {
+  if (!lastInboundAt) return null;
+  return new Date(new Date(lastInboundAt).getTime() + SERVICE_WINDOW_MS);
+}
+
+// Milliseconds left in the window (0 when closed or the contact never wrote)
+export function getServiceWindowRemainingMs(lastInboundAt: string | null | undefined, now: Date = new Date()): number {
+  const expiry = getServiceWindowExpiry(lastInboundAt);
+  return expiry ? Math.max(0, expiry.getTime() - now.getTime()) : 0;
+}
+
+export function isServiceWindowOpen(lastInboundAt: string | null | undefined, now: Date = new Date()): boolean {
+  return getServiceWindowRemainingMs(lastInboundAt, now) > 0;
+}
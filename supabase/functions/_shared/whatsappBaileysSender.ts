@@ -0,0 +1,53 @@
+import { formatLinkText, formatNumberedOptions } from "./flowNodes/helpers.ts";
+import { WhatsAppSender } from "./flowNodes/types.ts";
+
+// Sender of the Baileys/QR connection. The whatsapp-server only delivers text, so media
+// go as links and interactive messages as numbered lists
+export function createWhatsAppBaileysSender(serverUrl: string, serverSecret: string, companyId: string): WhatsAppSender {
+  const sendText = async (to: string, text: string): Promise<boolean> => {
+    try {
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (serverSecret) headers["x-server-token"] = serverSecret;
+
+      const response = await fetch(serverUrl + "/send", {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ company_id: companyId, phone: to, content: text, message_type: "text" }),
+      });
+
+      if (!response.ok) {
+        console.error("WhatsApp server error:", await response.text());
+        return false;
+      }
+
+      console.log(`✅ text sent to ${to} (baileys)`);
+      return true;
+    } catch (error) {
+      console.error("Error sending WhatsApp text (baileys):", error);
+      return false;
+    }
+  };
+
+  return {
+    interactive: false,
+    serviceWindow: false,
+
+    sendText,
+
+    sendMedia: (to, _mediaType, mediaUrl, caption) => sendText(to, [caption, mediaUrl].filter(Boolean).join("\n\n")),
+
+    sendButtons: (to, bodyText, buttons) =>
+      sendText(to, bodyText + "\n\n" + formatNumberedOptions(buttons.map((btn) => btn.title))),
+
+    sendList: (to, bodyText, _buttonText, sections) =>
+      sendText(to, bodyText + "\n\n" + formatNumberedOptions(sections.flatMap((section) => section.rows.map((row) => row.title)))),
+
+    sendCtaUrl: (to, bodyText, buttonText, url) => sendText(to, formatLinkText(bodyText, buttonText, url)),
+
+    // Templates only exist on the Cloud API (and QR connections have no 24h window to reopen)
+    sendTemplate: async (_to, templateName) => {
+      console.error(`Template ${templateName} not sent: templates require the WhatsApp Cloud API`);
+      return false;
+    },
+  };
+}
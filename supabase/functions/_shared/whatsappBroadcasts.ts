@@ -0,0 +1,68 @@
+/**
+ * Bulk template campaigns (whatsapp_broadcasts). The CRM queues one recipient
+ * per lead; the whatsapp-broadcast function sends them in batches every minute,
+ * within the messaging limit of the WhatsApp Business Account tier.
+ */
+
+import { AutomationLead, renderLeadTemplate } from "./automationRules.ts";
+import {
+  TemplateComponent,
+  TemplateParams,
+  TemplateSendComponent,
+  buildTemplateComponents,
+  validateTemplateComponents,
+} from "./whatsappTemplates.ts";
+
+export type BroadcastStatus = "draft" | "scheduled" | "sending" | "paused" | "completed" | "cancelled";
+
+export type MessagingTier = "TIER_250" | "TIER_1K" | "TIER_10K" | "TIER_100K" | "TIER_UNLIMITED";
+
+export interface BroadcastRateLimit {
+  // Business-initiated conversations allowed in a rolling 24h
+  dailyLimit: number;
+  // Messages sent on each scheduler tick (one per minute)
+  perMinute: number;
+}
+
+const RATE_LIMITS: Record<MessagingTier, BroadcastRateLimit> = {
+  TIER_250: { dailyLimit: 250, perMinute: 10 },
+  TIER_1K: { dailyLimit: 1000, perMinute: 30 },
+  TIER_10K: { dailyLimit: 10000, perMinute: 60 },
+  TIER_100K: { dailyLimit: 100000, perMinute: 120 },
+  TIER_UNLIMITED: { dailyLimit: Infinity, perMinute: 200 },
+};
+
+// Unknown tiers get the limits of a new account
+export function getBroadcastRateLimit(tier: string | null | undefined): BroadcastRateLimit {
+  return RATE_LIMITS[tier as MessagingTier] || RATE_LIMITS.TIER_250;
+}
+
+// Recipients to send now, given what the company sent in the last 24h
+export function getBroadcastBatchSize(tier: string | null | undefined, sentLast24h: number): number {
+  const { dailyLimit, perMinute } = getBroadcastRateLimit(tier);
+  return Math.max(0, Math.min(perMinute, dailyLimit - sentLast24h));
+}
+
+/**
+ * Template components for one lead: the campaign variables use the lead
+ * placeholders of the automations ({lead_first_name}...). Errors mean the lead
+ * lacks data the template needs (e.g. an empty {lead_email}).
+ */
+export function buildBroadcastComponents(
+  templateComponents: TemplateComponent[],
+  params: TemplateParams,
+  lead: AutomationLead
+): { components: TemplateSendComponent[]; errors: string[] } {
+  const render = (text: string | undefined) => renderLeadTemplate(text || "", lead);
+  const buttons = Object.fromEntries(Object.entries(params.buttons || {}).map(([index, value]) => [index, render(value)]));
+
+  const components = buildTemplateComponents(templateComponents, {
+    header: render(params.header),
+    headerFilename: params.headerFilename,
+    // Templates without variables are saved without body params
+    body: (params.body || []).map(render),
+    buttons,
+  });
+
+  return { components, errors: validateTemplateComponents(templateComponents, components) };
+}
@@ -0,0 +1,135 @@
+import { WhatsAppListSection, WhatsAppMediaType, WhatsAppSender } from "./flowNodes/types.ts";
+
+// WhatsApp limits of interactive lists
+export const MAX_LIST_ROWS = 10;
+export const MAX_LIST_ROW_TITLE = 24;
+export const MAX_INTERACTIVE_BUTTON_TEXT = 20;
+
+// `interactive` object of a list message (also used by whatsapp-cloud-send)
+export function buildListInteractive(bodyText: string, buttonText: string, sections: WhatsAppListSection[]) {
+  let remaining = MAX_LIST_ROWS;
+  const validSections = sections
+    .map((section) => {
+      const rows = section.rows.slice(0, Math.max(remaining, 0)).map((row) => ({
+        id: row.id,
+        title: row.title.substring(0, MAX_LIST_ROW_TITLE),
+        description: row.description ? row.description.substring(0, 72) : undefined,
+      }));
+      remaining -= rows.length;
+      return { title: section.title ? section.title.substring(0, 24) : undefined, rows };
+    })
+    .filter((section) => section.rows.length > 0);
+
+  return {
+    type: "list",
+    body: { text: bodyText.substring(0, 4096) },
+    action: { button: buttonText.substring(0, MAX_INTERACTIVE_BUTTON_TEXT), sections: validSections },
+  };
+}
+
+// `interactive` object of a message with a CTA URL button
+export function buildCtaUrlInteractive(bodyText: string, buttonText: string, url: string) {
+  return {
+    type: "cta_url",
+    body: { text: bodyText.substring(0, 1024) },
+    action: {
+      name: "cta_url",
+      parameters: { display_text: buttonText.substring(0, MAX_INTERACTIVE_BUTTON_TEXT), url },
+    },
+  };
+}
+
+// WhatsApp Cloud API implementation of the sender used by flow nodes
+export function createWhatsAppCloudSender(phoneNumberId: string, accessToken: string): WhatsAppSender {
+  const post = async (payload: Record<string, unknown>, label: string): Promise<boolean> => {
+    try {
+      const response = await fetch(`https://graph.facebook.com/v18.0/${phoneNumberId}/messages`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify(payload),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        console.error(`WhatsApp API error (${label}):`, error);
+        return false;
+      }
+
+      console.log(`✅ ${label} sent to ${payload.to}`);
+      return true;
+    } catch (error) {
+      console.error(`Error sending WhatsApp ${label}:`, error);
+      return false;
+    }
+  };
+
+  const postInteractive = (to: string, interactive: Record<string, unknown>) => {
+    const payload = { messaging_product: "whatsapp", recipient_type: "individual", to, type: "interactive", interactive };
+    console.log(`📤 Sending interactive ${interactive.type}:`, JSON.stringify(payload, null, 2));
+    return post(payload, "interactive");
+  };
+
+  return {
+    interactive: true,
+    serviceWindow: true,
+
+    sendText: (to, text) =>
+      post({ messaging_product: "whatsapp", to, type: "text", text: { body: text } }, "text"),
+
+    sendMedia: (to, mediaType: WhatsAppMediaType, mediaUrl, caption) => {
+      const payload: Record<string, unknown> = { messaging_product: "whatsapp", to, type: mediaType };
+
+      // Different media types have different structures
+      if (mediaType === "audio") {
+        payload.audio = { link: mediaUrl };
+      } else {
+        payload[mediaType] = { link: mediaUrl, caption: caption || undefined };
+      }
+
+      console.log(`📤 Sending ${mediaType}:`, JSON.stringify(payload, null, 2));
+      return post(payload, mediaType);
+    },
+
+    sendButtons: (to, bodyText, buttons) => {
+      // WhatsApp limits: max 3 buttons, max 20 chars per button title
+      const validButtons = buttons.slice(0, 3).map((btn, idx) => ({
+        type: "reply",
+        reply: {
+          id: btn.id || `option-${idx}`,
+          title: btn.title.substring(0, 20),
+        },
+      }));
+
+      const payload = {
+        messaging_product: "whatsapp",
+        recipient_type: "individual",
+        to,
+        type: "interactive",
+        interactive: {
+          type: "button",
+          body: { text: bodyText.substring(0, 1024) }, // Max 1024 chars for body
+          action: { buttons: validButtons },
+        },
+      };
+
+      console.log(`📤 Sending interactive buttons:`, JSON.stringify(payload, null, 2));
+      return post(payload, "interactive");
+    },
+
+    sendList: (to, bodyText, buttonText, sections) =>
+      postInteractive(to, buildListInteractive(bodyText, buttonText, sections)),
+
+    sendCtaUrl: (to, bodyText, buttonText, url) => postInteractive(to, buildCtaUrlInteractive(bodyText, buttonText, url)),
+
+    sendTemplate: (to, templateName, language, bodyParams) => {
+      const template: Record<string, unknown> = { name: templateName, language: { code: language } };
+      if (bodyParams.length > 0) {
+        template.components = [{ type: "body", parameters: bodyParams.map((text) => ({ type: "text", text })) }];
+      }
+      return post({ messaging_product: "whatsapp", to, type: "template", template }, "template");
+    },
+  };
+}
@@ -0,0 +1,217 @@
+/**
+ * Parameters of approved WhatsApp templates. A template declares {{1}}..{{n}}
+ * placeholders in the header text and body, a media header (image, video,
+ * document) and URL buttons with a dynamic suffix; every send must fill them
+ * all, in the component format of the Graph API.
+ */
+
+export type TemplateHeaderFormat = "TEXT" | "IMAGE" | "VIDEO" | "DOCUMENT";
+
+export interface TemplateComponent {
+  type: "HEADER" | "BODY" | "FOOTER" | "BUTTONS";
+  format?: TemplateHeaderFormat;
+  text?: string;
+  example?: { header_text?: string[]; body_text?: string[][] };
+  buttons?: Array<{
+    type: "QUICK_REPLY" | "URL" | "PHONE_NUMBER";
+    text: string;
+    url?: string;
+    phone_number?: string;
+  }>;
+}
+
+export type TemplateMediaType = "image" | "video" | "document";
+
+export interface TemplateSendParameter {
+  type: "text" | TemplateMediaType;
+  text?: string;
+  image?: { link: string };
+  video?: { link: string };
+  document?: { link: string; filename?: string };
+}
+
+// Component of the `template` object sent to the Graph API
+export interface TemplateSendComponent {
+  type: "header" | "body" | "button";
+  parameters?: TemplateSendParameter[];
+  sub_type?: "quick_reply" | "url";
+  index?: string;
+}
+
+// Values typed in the send form
+export interface TemplateParams {
+  // Header text variable, or the link of the header media
+  header?: string;
+  headerFilename?: string;
+  body: string[];
+  // URL suffix per button index
+  buttons?: Record<string, string>;
+}
+
+export interface TemplateUrlButton {
+  index: number;
+  text: string;
+  url: string;
+}
+
+export interface TemplateFields {
+  headerFormat: TemplateHeaderFormat | null;
+  // Header text with a {{1}} variable
+  headerHasParam: boolean;
+  bodyParamCount: number;
+  // Sample values Meta approved, per body variable
+  bodyExamples: string[];
+  // URL buttons ending in {{1}}
+  urlButtons: TemplateUrlButton[];
+}
+
+const PLACEHOLDER = /\{\{(\d+)\}\}/g;
+
+// Highest {{n}} in the text (variables are numbered in order)
+export function getTemplateParamCount(text: string | undefined): number {
+  const indexes = Array.from((text || "").matchAll(PLACEHOLDER), (match) => Number(match[1]));
+  return indexes.length > 0 ? Math.max(...indexes) : 0;
+}
+
+export function getTemplateFields(components: TemplateComponent[]): TemplateFields {
+  const header = components.find((c) => c.type === "HEADER");
+  const body = components.find((c) => c.type === "BODY");
+  const buttons = components.find((c) => c.type === "BUTTONS")?.buttons || [];
+
+  return {
+    headerFormat: header?.format || null,
+    headerHasParam: header?.format === "TEXT" && getTemplateParamCount(header.text) > 0,
+    bodyParamCount: getTemplateParamCount(body?.text),
+    bodyExamples: body?.example?.body_text?.[0] || [],
+    urlButtons: buttons.flatMap((button, index) =>
+      button.type === "URL" && getTemplateParamCount(button.url) > 0 ? [{ index, text: button.text, url: button.url! }] : []
+    ),
+  };
+}
+
+const textParameter = (text: string): TemplateSendParameter => ({ type: "text", text: text.trim() });
+
+const mediaParameter = (mediaType: TemplateMediaType, link: string, filename?: string): TemplateSendParameter => {
+  if (mediaType === "document") return { type: "document", document: filename ? { link, filename } : { link } };
+  return mediaType === "image" ? { type: "image", image: { link } } : { type: "video", video: { link } };
+};
+
+export function buildTemplateComponents(components: TemplateComponent[], params: TemplateParams): TemplateSendComponent[] {
+  const fields = getTemplateFields(components);
+  const result: TemplateSendComponent[] = [];
+
+  if (fields.headerHasParam) {
+    result.push({ type: "header", parameters: [textParameter(params.header || "")] });
+  } else if (fields.headerFormat && fields.headerFormat !== "TEXT") {
+    const mediaType = fields.headerFormat.toLowerCase() as TemplateMediaType;
+    result.push({
+      type: "header",
+      parameters: [mediaParameter(mediaType, (params.header || "").trim(), params.headerFilename)],
+    });
+  }
+
+  if (fields.bodyParamCount > 0) {
+    result.push({
+      type: "body",
+      parameters: Array.from({ length: fields.bodyParamCount }, (_, i) => textParameter(params.body[i] || "")),
+    });
+  }
+
+  for (const button of fields.urlButtons) {
+    result.push({
+      type: "button",
+      sub_type: "url",
+      index: String(button.index),
+      parameters: [textParameter(params.buttons?.[button.index] || "")],
+    });
+  }
+
+  return result;
+}
+
+// Graph API rejects text parameters with line breaks, tabs or more than 4 spaces in a row
+const INVALID_TEXT_PARAM = /[\n\t]| {5,}/;
+
+const checkTextParams = (parameters: TemplateSendParameter[] | undefined, count: number, label: (i: number) => string) => {
+  const errors: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const text = parameters?.[i]?.type === "text" ? parameters[i].text || "" : "";
+    if (!text.trim()) errors.push(`${label(i)} é obrigatória`);
+    else if (INVALID_TEXT_PARAM.test(text)) errors.push(`${label(i)} não pode ter quebras de linha, tabulações ou espaços seguidos`);
+  }
+  if ((parameters?.length || 0) > count) errors.push(`${label(count)} não existe no template`);
+  return errors;
+};
+
+/**
+ * Errors of the components about to be sent, checked against the template
+ * definition. An empty list means the Graph API will accept the parameters.
+ */
+export function validateTemplateComponents(
+  components: TemplateComponent[],
+  sendComponents: TemplateSendComponent[]
+): string[] {
+  const fields = getTemplateFields(components);
+  const header = sendComponents.find((c) => c.type === "header");
+  const body = sendComponents.find((c) => c.type === "body");
+  const errors: string[] = [];
+
+  if (fields.headerFormat && fields.headerFormat !== "TEXT") {
+    const mediaType = fields.headerFormat.toLowerCase() as TemplateMediaType;
+    const parameter = header?.parameters?.[0];
+    const link = parameter?.type === mediaType ? parameter[mediaType]?.link || "" : "";
+    if (!link) errors.push("Mídia do cabeçalho é obrigatória");
+    else if (!/^https:\/\//i.test(link)) errors.push("Mídia do cabeçalho deve ser um link https://");
+  } else if (fields.headerHasParam) {
+    errors.push(...checkTextParams(header?.parameters, 1, () => "Variável do cabeçalho"));
+  } else if (header) {
+    errors.push("O cabeçalho do template não tem variáveis");
+  }
+
+  errors.push(...checkTextParams(body?.parameters, fields.bodyParamCount, (i) => `Variável {{${i + 1}}}`));
+
+  for (const button of fields.urlButtons) {
+    const sent = sendComponents.find((c) => c.type === "button" && c.sub_type === "url" && c.index === String(button.index));
+    errors.push(...checkTextParams(sent?.parameters, 1, () => `Variável do link "${button.text}"`));
+  }
+
+  return errors;
+}
+
+const fillPlaceholders = (text: string, values: (string | undefined)[]) =>
+  text.replace(PLACEHOLDER, (match, index: string) => values[Number(index) - 1]?.trim() || match);
+
+export interface TemplatePreview {
+  headerFormat: TemplateHeaderFormat | null;
+  // Header text, or the media link
+  header: string;
+  body: string;
+  footer: string;
+  buttons: string[];
+}
+
+// Message as the contact will see it; variables without a value stay as {{n}}
+export function renderTemplatePreview(components: TemplateComponent[], params: TemplateParams): TemplatePreview {
+  const header = components.find((c) => c.type === "HEADER");
+  const buttons = components.find((c) => c.type === "BUTTONS")?.buttons || [];
+
+  return {
+    headerFormat: header?.format || null,
+    header: header?.format === "TEXT" ? fillPlaceholders(header.text || "", [params.header]) : (params.header || "").trim(),
+    body: fillPlaceholders(components.find((c) => c.type === "BODY")?.text || "", params.body),
+    footer: components.find((c) => c.type === "FOOTER")?.text || "",
+    buttons: buttons.map((button) => button.text),
+  };
+}
+
+export type TemplateParamField = "name" | "first_name" | "phone" | "email" | "value";
+
+// Contact/lead field that fits a body variable, guessed from its approved example
+export function suggestTemplateParamField(example: string | undefined, index: number): TemplateParamField | null {
+  const sample = (example || "").trim();
+  if (sample.includes("@")) return "email";
+  if (/^R?\$\s*[\d.,]+$/.test(sample)) return "value";
+  if (sample.replace(/\D/g, "").length >= 8 && /^[\d\s()+-]+$/.test(sample)) return "phone";
+  if (index === 0) return sample.includes(" ") ? "name" : "first_name";
+  return null;
+}
@@ -0,0 +1,173 @@
+/**
+ * =====================================================
+ * AGENDADOR DE AUTOMAÇÕES DE FUNIL
+ * =====================================================
+ *
+ * Executado periodicamente pelo pg_cron (job `automation-scheduler`).
+ *
+ * GATILHO "TEMPO NA ETAPA" (time_in_stage):
+ * - Busca leads que estão na etapa configurada há mais tempo que o limite
+ * - Cada lead dispara no máximo uma vez por passagem na etapa
+ *   (controlado por automation_stage_timers + stage_entered_at)
+ * - Leads que ainda não passam nas condições são reavaliados nas próximas
+ *   execuções, enquanto continuarem na etapa
+ *
+ * ETAPAS COM ESPERA (delay):
+ * - Retoma execuções (automation_runs) em "waiting" cujo resume_at já passou
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { evaluateConditions, getTimeInStageDuration, matchesTrigger } from "../_shared/automationRules.ts";
+import {
+  AutomationRunRow,
+  LeadRow,
+  isCompanyOpen,
+  mapAutomation,
+  resumeAutomationRun,
+  startAutomationRun,
+} from "../_shared/automationRunner.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Max leads evaluated per automation on each tick
+const BATCH_SIZE = 200;
+
+// Fire time_in_stage automations for leads that crossed the configured duration
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function runTimeInStageAutomations(supabase: any): Promise<{ evaluated: number; executed: number }> {
+  const now = new Date();
+  let evaluated = 0;
+  let executed = 0;
+
+  const { data: automations, error } = await supabase
+    .from("funnel_automations")
+    .select("*")
+    .eq("trigger_type", "time_in_stage")
+    .eq("is_active", true);
+
+  if (error) throw error;
+
+  for (const row of automations || []) {
+    const automation = mapAutomation(row);
+    const stageId = automation.trigger_config.stage_id as string | undefined;
+    const duration = getTimeInStageDuration(automation);
+    if (!stageId || !duration) continue;
+
+    const cutoff = new Date(now.getTime() - duration).toISOString();
+    const isBusinessHours = await isCompanyOpen(supabase, automation.company_id, now);
+
+    // Leads past the cutoff that were not evaluated yet for this stay in the stage
+    const { data: leads, error: leadsError } = await supabase.rpc("get_time_in_stage_candidates", {
+      p_automation_id: automation.id,
+      p_stage_id: stageId,
+      p_cutoff: cutoff,
+      p_limit: BATCH_SIZE,
+    });
+
+    if (leadsError) {
+      console.error(`[Scheduler] Error fetching leads for automation ${automation.name}:`, leadsError);
+      continue;
+    }
+
+    for (const lead of (leads || []) as LeadRow[]) {
+      if (lead.company_id !== automation.company_id) continue;
+      evaluated++;
+
+      // Leads failing now (e.g. outside business hours) stay unclaimed and are checked again on the next tick
+      const context = { event: "time_in_stage" as const, lead, now };
+      if (!matchesTrigger(automation, context)) continue;
+      if (!evaluateConditions(automation, { ...lead, is_business_hours: isBusinessHours }, now)) continue;
+
+      // Claim this stay in the stage - a concurrent tick loses the insert and skips the lead
+      const { data: claimed, error: claimError } = await supabase
+        .from("automation_stage_timers")
+        .upsert(
+          {
+            automation_id: automation.id,
+            lead_id: lead.id,
+            company_id: lead.company_id,
+            stage_entered_at: lead.stage_entered_at,
+          },
+          { onConflict: "automation_id,lead_id,stage_entered_at", ignoreDuplicates: true }
+        )
+        .select("id");
+
+      if (claimError) {
+        console.error(`[Scheduler] Error claiming lead ${lead.id}:`, claimError);
+        continue;
+      }
+      if (!claimed || claimed.length === 0) continue;
+
+      const status = await startAutomationRun(supabase, automation, lead, "time_in_stage", {
+        context: { stage_entered_at: lead.stage_entered_at },
+      });
+      if (status !== "skipped") executed++;
+    }
+  }
+
+  return { evaluated, executed };
+}
+
+// Continue runs whose delay step has elapsed
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function resumeWaitingRuns(supabase: any): Promise<number> {
+  const { data: runs, error } = await supabase
+    .from("automation_runs")
+    .select("*")
+    .eq("status", "waiting")
+    .lte("resume_at", new Date().toISOString())
+    .order("resume_at", { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) throw error;
+
+  let resumed = 0;
+
+  for (const run of (runs || []) as AutomationRunRow[]) {
+    // Claim the run - a concurrent tick loses the update and skips it
+    const { data: claimed } = await supabase
+      .from("automation_runs")
+      .update({ status: "running" })
+      .eq("id", run.id)
+      .eq("status", "waiting")
+      .select("id");
+
+    if (!claimed || claimed.length === 0) continue;
+
+    await resumeAutomationRun(supabase, run);
+    resumed++;
+  }
+
+  return resumed;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  try {
+    const timeInStage = await runTimeInStageAutomations(supabase);
+    console.log(`[Scheduler] time_in_stage: ${timeInStage.evaluated} lead(s) evaluated, ${timeInStage.executed} automation(s) executed`);
+
+    const resumed = await resumeWaitingRuns(supabase);
+    console.log(`[Scheduler] delayed steps: ${resumed} run(s) resumed`);
+
+    return new Response(JSON.stringify({ status: "ok", time_in_stage: timeInStage, resumed_runs: resumed }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("[Scheduler] Unexpected error:", error);
+    return new Response(JSON.stringify({ error: String(error) }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
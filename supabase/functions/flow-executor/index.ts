@@ -1,4 +1,25 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  FlowNode,
+  NodeExecutionContext,
+  NodeExecutionResult,
+  WAITING_FOR_BUSINESS_HOURS,
+  WAITING_FOR_SERVICE_WINDOW,
+  WhatsAppSender,
+  getFlowNodeDefinition,
+} from "../_shared/flowNodes/index.ts";
+import { createWhatsAppCloudSender } from "../_shared/whatsappCloudSender.ts";
+import { createWhatsAppBaileysSender } from "../_shared/whatsappBaileysSender.ts";
+import {
+  FlowTriggerEvent,
+  FlowTriggerRule,
+  describeTriggerRule,
+  getFlowTriggerRules,
+  needsMessageHistory,
+  selectTriggeredFlow,
+} from "../_shared/flowTriggers.ts";
+import { FlowGraph, FlowVersion, createFlowGraph } from "../_shared/flowVersions.ts";
+import { FLOW_LOG_EXECUTED, FLOW_LOG_RESPONDED } from "../_shared/flowAnalytics.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -9,16 +30,6 @@ const corsHeaders = {
 const RUNNING_TIMEOUT_MS = 2 * 60 * 1000; // 2 minutes (running should be short-lived)
 const WAITING_RESPONSE_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
 
-interface FlowNode {
-  id: string;
-  flow_id: string;
-  company_id: string;
-  node_type: string;
-  position_x: number;
-  position_y: number;
-  config: Record<string, unknown>;
-}
-
 interface ChatbotFlow {
   id: string;
   company_id: string;
@@ -26,6 +37,9 @@ interface ChatbotFlow {
   is_active: boolean;
   is_default: boolean;
   trigger_keywords: string[];
+  trigger_rules: FlowTriggerRule[];
+  published_version_id: string | null;
+  created_at: string;
 }
 
 // Get the first name of the company owner (person responsible for messages)
@@ -55,192 +69,15 @@ async function getOwnerFirstName(supabase: any, companyId: string): Promise<stri
   }
 }
 
-// Replace template variables in message text
-function replaceMessageVariables(text: string, variables: { ownerFirstName?: string; contactName?: string }): string {
-  let result = text;
-  
-  // Replace owner/attendant name variables
-  if (variables.ownerFirstName) {
-    result = result.replace(/\{\{nome\}\}/gi, variables.ownerFirstName);
-    result = result.replace(/\{\{atendente\}\}/gi, variables.ownerFirstName);
-    result = result.replace(/\{\{responsavel\}\}/gi, variables.ownerFirstName);
-    result = result.replace(/\{\{owner\}\}/gi, variables.ownerFirstName);
-  }
-  
-  // Replace contact name if available
-  if (variables.contactName) {
-    result = result.replace(/\{\{cliente\}\}/gi, variables.contactName);
-    result = result.replace(/\{\{contato\}\}/gi, variables.contactName);
-    result = result.replace(/\{\{contact\}\}/gi, variables.contactName);
-  }
-  
-  return result;
-}
-
-// Send text message via WhatsApp Cloud API
-async function sendWhatsAppMessage(
-  phoneNumberId: string,
-  accessToken: string,
-  to: string,
-  text: string
-): Promise<boolean> {
-  try {
-    const response = await fetch(
-      `https://graph.facebook.com/v18.0/${phoneNumberId}/messages`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${accessToken}`,
-        },
-        body: JSON.stringify({
-          messaging_product: "whatsapp",
-          to,
-          type: "text",
-          text: { body: text },
-        }),
-      }
-    );
-
-    if (!response.ok) {
-      const error = await response.text();
-      console.error("WhatsApp API error:", error);
-      return false;
-    }
-
-    console.log(`✅ Message sent to ${to}`);
-    return true;
-  } catch (error) {
-    console.error("Error sending WhatsApp message:", error);
-    return false;
-  }
-}
-
-// Send media message via WhatsApp Cloud API
-async function sendWhatsAppMediaMessage(
-  phoneNumberId: string,
-  accessToken: string,
-  to: string,
-  mediaType: "image" | "audio" | "video" | "document",
-  mediaUrl: string,
-  caption?: string
-): Promise<boolean> {
-  try {
-    const payload: Record<string, unknown> = {
-      messaging_product: "whatsapp",
-      to,
-      type: mediaType,
-    };
-
-    // Different media types have different structures
-    if (mediaType === "image") {
-      payload.image = { link: mediaUrl, caption: caption || undefined };
-    } else if (mediaType === "video") {
-      payload.video = { link: mediaUrl, caption: caption || undefined };
-    } else if (mediaType === "audio") {
-      payload.audio = { link: mediaUrl };
-    } else if (mediaType === "document") {
-      payload.document = { link: mediaUrl, caption: caption || undefined };
-    }
-
-    console.log(`📤 Sending ${mediaType}:`, JSON.stringify(payload, null, 2));
-
-    const response = await fetch(
-      `https://graph.facebook.com/v18.0/${phoneNumberId}/messages`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${accessToken}`,
-        },
-        body: JSON.stringify(payload),
-      }
-    );
-
-    if (!response.ok) {
-      const error = await response.text();
-      console.error(`WhatsApp API error (${mediaType}):`, error);
-      return false;
-    }
-
-    console.log(`✅ ${mediaType} sent to ${to}`);
-    return true;
-  } catch (error) {
-    console.error(`Error sending WhatsApp ${mediaType}:`, error);
-    return false;
-  }
-}
-
-// Send interactive button message via WhatsApp Cloud API
-async function sendWhatsAppInteractiveButtons(
-  phoneNumberId: string,
-  accessToken: string,
-  to: string,
-  bodyText: string,
-  buttons: { id: string; title: string }[]
-): Promise<boolean> {
-  try {
-    // WhatsApp limits: max 3 buttons, max 20 chars per button title
-    const validButtons = buttons.slice(0, 3).map((btn, idx) => ({
-      type: "reply",
-      reply: {
-        id: btn.id || `option-${idx}`,
-        title: btn.title.substring(0, 20), // Max 20 chars
-      },
-    }));
-
-    const payload = {
-      messaging_product: "whatsapp",
-      recipient_type: "individual",
-      to,
-      type: "interactive",
-      interactive: {
-        type: "button",
-        body: {
-          text: bodyText.substring(0, 1024), // Max 1024 chars for body
-        },
-        action: {
-          buttons: validButtons,
-        },
-      },
-    };
-
-    console.log(`📤 Sending interactive buttons:`, JSON.stringify(payload, null, 2));
-
-    const response = await fetch(
-      `https://graph.facebook.com/v18.0/${phoneNumberId}/messages`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${accessToken}`,
-        },
-        body: JSON.stringify(payload),
-      }
-    );
-
-    if (!response.ok) {
-      const error = await response.text();
-      console.error("WhatsApp API error (interactive):", error);
-      return false;
-    }
-
-    console.log(`✅ Interactive buttons sent to ${to}`);
-    return true;
-  } catch (error) {
-    console.error("Error sending WhatsApp interactive message:", error);
-    return false;
-  }
-}
-
-// Find matching flow for a message
+// Find the flow to start for an incoming message using the flows' trigger rules
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 async function findMatchingFlow(
   supabase: any,
   companyId: string,
-  messageContent: string
+  contactId: string,
+  event: FlowTriggerEvent
 ): Promise<ChatbotFlow | null> {
-  console.log(`🔍 Finding flow for company: ${companyId}, message: "${messageContent}"`);
+  console.log(`🔍 Finding flow for company: ${companyId}, message: "${event.message}", button: "${event.buttonId || ""}"`);
   
   // Get all active flows for the company
   const { data: flows, error } = await supabase
@@ -254,9 +91,11 @@ async function findMatchingFlow(
     return null;
   }
 
-  console.log(`📋 Found ${flows?.length || 0} active flows`);
+  // Flows that were never published have nothing to run
+  const publishedFlows = ((flows || []) as ChatbotFlow[]).filter((f) => f.published_version_id);
+  console.log(`📋 Found ${flows?.length || 0} active flows (${publishedFlows.length} published)`);
 
-  if (!flows || flows.length === 0) {
+  if (publishedFlows.length === 0) {
     // Also try without is_active filter to see if flows exist
     const { data: allFlows } = await supabase
       .from("chatbot_flows")
@@ -267,637 +106,236 @@ async function findMatchingFlow(
     return null;
   }
 
-  const messageLower = messageContent.toLowerCase().trim();
-
-  // First, check for keyword matches
-  for (const flow of flows) {
-    const f = flow as ChatbotFlow;
-    console.log(`  - Flow "${f.name}": is_default=${f.is_default}, keywords=${JSON.stringify(f.trigger_keywords)}`);
-    
-    if (f.trigger_keywords && f.trigger_keywords.length > 0) {
-      for (const keyword of f.trigger_keywords) {
-        if (messageLower.includes(keyword.toLowerCase())) {
-          console.log(`✅ Keyword match: "${keyword}" -> Flow: ${f.name}`);
-          return f;
-        }
-      }
-    }
+  // "First message" and "inactivity" rules need the previous message of the contact.
+  // The current message is already saved, so it's the second most recent one.
+  const allRules = publishedFlows.flatMap((f) => getFlowTriggerRules(f));
+  if (needsMessageHistory(allRules)) {
+    const { data: previousMessages } = await supabase
+      .from("whatsapp_messages")
+      .select("sent_at")
+      .eq("contact_id", contactId)
+      .eq("is_from_me", false)
+      .order("sent_at", { ascending: false })
+      .range(1, 1);
+    event.previousMessageAt = previousMessages?.[0]?.sent_at || null;
   }
 
-  // IMPORTANTE: Se não houve match de keyword, verificar se é uma PRIMEIRA mensagem do contato
-  // O fluxo default só deve disparar para primeiras mensagens ou mensagens que explicitamente 
-  // contêm keywords. Isso evita que o bot responda a QUALQUER mensagem.
-  
-  // Por enquanto, remover o fallback para default flow para evitar spam
-  // O default flow só será usado se explicitamente ativado pelo operador
-  // ou se a mensagem contiver uma keyword configurada
-  
-  // If no keyword match, check if there's a default flow
-  // DEFAULT FLOW: Only trigger if this is likely a greeting/first contact
-  const greetingPatterns = ["oi", "olá", "ola", "bom dia", "boa tarde", "boa noite", "hello", "hi", "hey", "e ai", "eai"];
-  const isGreeting = greetingPatterns.some(g => messageLower.includes(g));
-  
-  if (isGreeting) {
-    const defaultFlow = flows.find((f: ChatbotFlow) => f.is_default);
-    if (defaultFlow) {
-      console.log(`✅ Greeting detected + default flow: ${defaultFlow.name}`);
-      return defaultFlow as ChatbotFlow;
-    }
+  const match = selectTriggeredFlow(publishedFlows, event);
+  if (!match) {
+    console.log("❌ No matching flow found (no trigger rule matched and not a greeting)");
+    return null;
   }
 
-  console.log("❌ No matching flow found (no keyword match and not a greeting)");
-  return null;
+  console.log(
+    match.rule
+      ? `✅ Trigger match: ${describeTriggerRule(match.rule)} (priority ${match.rule.priority || 0}) -> Flow: ${match.flow.name}`
+      : `✅ Greeting detected + default flow: ${match.flow.name}`
+  );
+  return match.flow;
 }
 
-// Get the start node and its first connected node
+// Published snapshot an execution runs on
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function getStartNode(
-  supabase: any,
-  flowId: string
-): Promise<{ startNode: FlowNode; firstNode: FlowNode | null } | null> {
-  const { data: nodes } = await supabase
-    .from("chatbot_flow_nodes")
-    .select("*")
-    .eq("flow_id", flowId)
-    .eq("node_type", "start")
-    .limit(1);
-
-  if (!nodes || nodes.length === 0) {
-    console.error("No start node found");
-    return null;
-  }
+async function loadFlowGraph(supabase: any, versionId: string | null): Promise<FlowGraph | null> {
+  if (!versionId) return null;
 
-  const startNode = nodes[0] as FlowNode;
-
-  // Get the first connected node
-  const { data: edges } = await supabase
-    .from("chatbot_flow_edges")
+  const { data: version } = await supabase
+    .from("chatbot_flow_versions")
     .select("*")
-    .eq("flow_id", flowId)
-    .eq("source_node_id", startNode.id)
-    .limit(1);
+    .eq("id", versionId)
+    .maybeSingle();
 
-  if (!edges || edges.length === 0) {
-    return { startNode, firstNode: null };
+  if (!version) {
+    console.error(`Flow version ${versionId} not found`);
+    return null;
   }
 
-  const { data: targetNodes } = await supabase
-    .from("chatbot_flow_nodes")
-    .select("*")
-    .eq("id", edges[0].target_node_id)
-    .limit(1);
-
-  return {
-    startNode,
-    firstNode: targetNodes?.[0] as FlowNode || null,
-  };
+  const { flow_id, company_id, nodes, edges } = version as FlowVersion;
+  return createFlowGraph({ nodes: nodes || [], edges: edges || [] }, flow_id, company_id);
 }
 
-// Get next node after current
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function getNextNode(
+// Max nodes processed in a single pass - prevents infinite loops
+const MAX_ITERATIONS = 50;
+
+// Sender of the company connection: Cloud API, or the Baileys/QR server (text only)
+async function getCompanySender(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
   supabase: any,
-  flowId: string,
-  currentNodeId: string,
-  sourceHandle?: string | null
-): Promise<FlowNode | null> {
-  let query = supabase
-    .from("chatbot_flow_edges")
-    .select("*")
-    .eq("flow_id", flowId)
-    .eq("source_node_id", currentNodeId);
+  companyId: string
+): Promise<WhatsAppSender | null> {
+  const { data: company } = await supabase
+    .from("companies")
+    .select("whatsapp_mode, whatsapp_phone_number_id")
+    .eq("id", companyId)
+    .single();
 
-  if (sourceHandle) {
-    query = query.eq("source_handle", sourceHandle);
+  if (company?.whatsapp_mode === "cloud_api") {
+    if (!company.whatsapp_phone_number_id) {
+      console.log("Company phone_number_id not found");
+      return null;
+    }
+    return createWhatsAppCloudSender(
+      company.whatsapp_phone_number_id,
+      Deno.env.get("WHATSAPP_CLOUD_ACCESS_TOKEN") || ""
+    );
   }
 
-  const { data: edges } = await query.limit(1);
-
-  if (!edges || edges.length === 0) {
+  const serverUrl = Deno.env.get("WHATSAPP_SERVER_URL");
+  if (!serverUrl) {
+    console.log("WHATSAPP_SERVER_URL not configured");
     return null;
   }
-
-  const { data: nodes } = await supabase
-    .from("chatbot_flow_nodes")
-    .select("*")
-    .eq("id", edges[0].target_node_id)
-    .limit(1);
-
-  return nodes?.[0] as FlowNode || null;
+  return createWhatsAppBaileysSender(serverUrl, Deno.env.get("WHATSAPP_SERVER_SECRET") || "", companyId);
 }
 
-// Process a single node
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function processNode(
+// Execution context handed to the node handlers
+function createNodeContext(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
   supabase: any,
-  node: FlowNode,
-  context: {
+  graph: FlowGraph,
+  params: {
     companyId: string;
     contactId: string;
     contactPhone: string;
-    phoneNumberId: string;
-    accessToken: string;
+    whatsapp: WhatsAppSender;
     executionId: string;
     lastUserMessage?: string;
     ownerFirstName?: string;
     contactName?: string;
+    variables?: Record<string, string>;
   }
-): Promise<{
-  shouldContinue: boolean;
-  nextNode: FlowNode | null;
-  waitForResponse?: boolean;
-  delaySeconds?: number;
-  sourceHandle?: string;
-}> {
-  console.log(`📦 Processing node: ${node.node_type} (${node.id})`);
-
-  const config = node.config || {};
-
-  switch (node.node_type) {
-    case "message": {
-      const rawMessage = (config.message as string) || "";
-      const mediaType = (config.mediaType as string) || "text";
-      const mediaUrl = (config.mediaUrl as string) || "";
-      
-      // Replace template variables with actual values
-      const message = replaceMessageVariables(rawMessage, {
-        ownerFirstName: context.ownerFirstName,
-        contactName: context.contactName,
-      });
-
-      // Check if this is a media message
-      if (mediaType !== "text" && mediaUrl) {
-        const validMediaTypes = ["image", "audio", "video", "document"] as const;
-        if (validMediaTypes.includes(mediaType as typeof validMediaTypes[number])) {
-          await sendWhatsAppMediaMessage(
-            context.phoneNumberId,
-            context.accessToken,
-            context.contactPhone,
-            mediaType as "image" | "audio" | "video" | "document",
-            mediaUrl,
-            message || undefined // caption
-          );
-
-          // Save outgoing media message to DB
-          await supabase.from("whatsapp_messages").insert({
-            company_id: context.companyId,
-            contact_id: context.contactId,
-            content: message || `[${mediaType}]`,
-            message_type: mediaType,
-            media_url: mediaUrl,
-            is_from_me: true,
-            status: "sent",
-            sent_at: new Date().toISOString(),
-          });
-        }
-      } else if (message) {
-        // Text-only message
-        await sendWhatsAppMessage(
-          context.phoneNumberId,
-          context.accessToken,
-          context.contactPhone,
-          message
-        );
-
-        // Save outgoing message to DB
-        await supabase.from("whatsapp_messages").insert({
-          company_id: context.companyId,
-          contact_id: context.contactId,
-          content: message,
-          message_type: "text",
-          is_from_me: true,
-          status: "sent",
-          sent_at: new Date().toISOString(),
-        });
-      }
-
-      const nextNode = await getNextNode(supabase, node.flow_id, node.id);
-      return { shouldContinue: true, nextNode };
-    }
-
-    case "question": {
-      const rawQuestion = (config.question as string) || "";
-      const options = (config.options as string[]) || [];
-      
-      // Replace template variables in question
-      const question = replaceMessageVariables(rawQuestion, {
-        ownerFirstName: context.ownerFirstName,
-        contactName: context.contactName,
-      });
-
-      // Use interactive buttons if we have 1-3 options (WhatsApp limit)
-      if (options.length > 0 && options.length <= 3) {
-        const buttons = options.map((opt, idx) => ({
-          id: `option-${idx}`,
-          title: opt,
-        }));
-
-        await sendWhatsAppInteractiveButtons(
-          context.phoneNumberId,
-          context.accessToken,
-          context.contactPhone,
-          question,
-          buttons
-        );
-
-        // Persist in DB using an allowed message_type.
-        // The whatsapp_messages table has a CHECK constraint that only allows:
-        // text | image | audio | video | document | sticker
-        await supabase.from("whatsapp_messages").insert({
-          company_id: context.companyId,
-          contact_id: context.contactId,
-          content: `${question}\n\n[Botões: ${options.join(" | ")}]`,
-          message_type: "text",
-          is_from_me: true,
-          status: "sent",
-          sent_at: new Date().toISOString(),
-        });
-      } else {
-        // Fallback to text with numbered options for 4+ options or no options
-        let fullMessage = question;
-        if (options.length > 0) {
-          fullMessage += "\n\n";
-          options.forEach((opt, idx) => {
-            fullMessage += `${idx + 1}. ${opt}\n`;
-          });
-        }
-
-        if (fullMessage) {
-          await sendWhatsAppMessage(
-            context.phoneNumberId,
-            context.accessToken,
-            context.contactPhone,
-            fullMessage
-          );
-
-          await supabase.from("whatsapp_messages").insert({
-            company_id: context.companyId,
-            contact_id: context.contactId,
-            content: fullMessage,
-            message_type: "text",
-            is_from_me: true,
-            status: "sent",
-            sent_at: new Date().toISOString(),
-          });
-        }
-      }
-
-      // Update execution to wait for response
-      await supabase
+): NodeExecutionContext {
+  const { variables = {}, ...rest } = params;
+  return {
+    ...rest,
+    supabase,
+    variables,
+    // Flow variables live in the execution context so they survive pauses
+    setVariable: async (name, value) => {
+      variables[name] = value;
+      const { data } = await supabase
         .from("chatbot_flow_executions")
-        .update({
-          current_node_id: node.id,
-          status: "waiting_response",
-          context: { ...config, waiting_for: "question_response" },
-        })
-        .eq("id", context.executionId);
-
-      return { shouldContinue: false, nextNode: null, waitForResponse: true };
-    }
-
-    case "delay": {
-      const delayValue = (config.delay_value as number) || 1;
-      const delayUnit = (config.delay_unit as string) || "seconds";
-
-      let delaySeconds = delayValue;
-      if (delayUnit === "minutes") delaySeconds = delayValue * 60;
-      else if (delayUnit === "hours") delaySeconds = delayValue * 3600;
-
-      // For short delays (< 30s), just wait
-      if (delaySeconds <= 30) {
-        await new Promise((resolve) => setTimeout(resolve, delaySeconds * 1000));
-        const nextNode = await getNextNode(supabase, node.flow_id, node.id);
-        return { shouldContinue: true, nextNode };
-      }
-
-      // For longer delays, schedule and pause execution
-      const nextActionAt = new Date(Date.now() + delaySeconds * 1000).toISOString();
+        .select("context")
+        .eq("id", rest.executionId)
+        .single();
       await supabase
         .from("chatbot_flow_executions")
-        .update({
-          current_node_id: node.id,
-          status: "paused",
-          next_action_at: nextActionAt,
-        })
-        .eq("id", context.executionId);
-
-      return { shouldContinue: false, nextNode: null, delaySeconds };
-    }
-
-    case "pause": {
-      // Pause node - wait for any message from the contact before continuing
-      console.log(`⏸️ Pause node: waiting for message from contact`);
+        .update({ context: { ...(data?.context || {}), variables } })
+        .eq("id", rest.executionId);
+    },
+    getNextNode: async (node, sourceHandle) => graph.getNextNode(node.id, sourceHandle),
+    wait: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+  };
+}
 
-      // Update execution to wait for response
-      await supabase
-        .from("chatbot_flow_executions")
-        .update({
-          current_node_id: node.id,
-          status: "waiting_response",
-          context: { waiting_for: "pause_message" },
-        })
-        .eq("id", context.executionId);
-
-      return { shouldContinue: false, nextNode: null, waitForResponse: true };
-    }
+// Context of an existing execution (contact, company sender and saved variables)
+async function loadExecutionContext(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  graph: FlowGraph,
+  execution: { id: string; company_id: string; contact_id: string; context: Record<string, unknown> | null },
+  lastUserMessage?: string
+): Promise<NodeExecutionContext | null> {
+  // Get contact info
+  const { data: contact } = await supabase
+    .from("whatsapp_contacts")
+    .select("phone, normalized_phone, name")
+    .eq("id", execution.contact_id)
+    .single();
 
-    case "condition": {
-      // Simple condition check based on last message
-      const conditionField = (config.field as string) || "last_message";
-      const conditionOperator = (config.operator as string) || "contains";
-      const conditionValue = (config.value as string) || "";
-
-      let conditionMet = false;
-
-      if (conditionField === "last_message" && context.lastUserMessage) {
-        const msgLower = context.lastUserMessage.toLowerCase();
-        const valueLower = conditionValue.toLowerCase();
-
-        switch (conditionOperator) {
-          case "contains":
-            conditionMet = msgLower.includes(valueLower);
-            break;
-          case "equals":
-            conditionMet = msgLower === valueLower;
-            break;
-          case "starts_with":
-            conditionMet = msgLower.startsWith(valueLower);
-            break;
-          case "ends_with":
-            conditionMet = msgLower.endsWith(valueLower);
-            break;
-          default:
-            conditionMet = true;
-        }
-      }
+  if (!contact) {
+    console.log("Contact not found");
+    return null;
+  }
+  
+  // Get owner first name for message personalization
+  const ownerFirstName = await getOwnerFirstName(supabase, execution.company_id);
+  const contactName = contact.name || "";
 
-      // Get next node based on condition result
-      const sourceHandle = conditionMet ? "true" : "false";
-      const nextNode = await getNextNode(supabase, node.flow_id, node.id, sourceHandle);
+  const whatsapp = await getCompanySender(supabase, execution.company_id);
+  if (!whatsapp) return null;
+
+  return createNodeContext(supabase, graph, {
+    companyId: execution.company_id,
+    contactId: execution.contact_id,
+    contactPhone: contact.normalized_phone || contact.phone,
+    whatsapp,
+    executionId: execution.id,
+    lastUserMessage,
+    ownerFirstName,
+    contactName,
+    variables: { ...((execution.context?.variables as Record<string, string>) || {}) },
+  });
+}
 
-      return { shouldContinue: true, nextNode, sourceHandle };
-    }
+// Process a single node through its registered handler
+async function processNode(node: FlowNode, context: NodeExecutionContext): Promise<NodeExecutionResult> {
+  console.log(`📦 Processing node: ${node.node_type} (${node.id})`);
 
-    case "action": {
-      const actionType = (config.action_type as string) || "";
-      const actionValue = (config.action_value as string) || "";
-      const funnelId = (config.funnel_id as string) || "";
-      const stageId = (config.stage_id as string) || "";
-      
-      console.log(`🎬 Executing action: ${actionType}`, { actionValue, funnelId, stageId });
-
-      try {
-        switch (actionType) {
-          case "move_stage": {
-            if (stageId) {
-              // First, find a lead associated with this contact's phone
-              const { data: contact } = await supabase
-                .from("whatsapp_contacts")
-                .select("phone, normalized_phone, name")
-                .eq("id", context.contactId)
-                .single();
-
-              if (contact) {
-                const phoneToSearch = contact.normalized_phone || contact.phone;
-                // Extract last 9 digits for flexible matching
-                const phoneSuffix = phoneToSearch.replace(/\D/g, '').slice(-9);
-                console.log(`📱 Looking for lead with phone: ${phoneToSearch} (suffix: ${phoneSuffix})`);
-
-                // Find ALL leads matching this phone (to detect duplicates)
-                const { data: leads } = await supabase
-                  .from("funnel_leads")
-                  .select("id, name, stage_id, phone, created_at")
-                  .eq("company_id", context.companyId)
-                  .ilike("phone", `%${phoneSuffix}`)
-                  .order("created_at", { ascending: true });
-
-                console.log(`📋 Found ${leads?.length || 0} leads with matching phone`);
-
-                if (leads && leads.length > 0) {
-                  // IMPORTANT: Use OLDEST lead to avoid working with duplicates
-                  const leadToMove = leads[0];
-                  console.log(`📦 Moving lead "${leadToMove.name}" (${leadToMove.id}) to stage ${stageId}`);
-
-                  const { error: moveError } = await supabase
-                    .from("funnel_leads")
-                    .update({ 
-                      stage_id: stageId,
-                      updated_at: new Date().toISOString()
-                    })
-                    .eq("id", leadToMove.id);
-
-                  if (moveError) {
-                    console.error("❌ Error moving lead:", moveError);
-                  } else {
-                    console.log(`✅ Lead moved successfully to stage ${stageId}`);
-                  }
-
-                  // If there are duplicate leads, log a warning
-                  if (leads.length > 1) {
-                    console.warn(`⚠️ WARNING: ${leads.length} duplicate leads found for phone ${phoneSuffix}. IDs: ${leads.map((l: { id: string }) => l.id).join(', ')}`);
-                  }
-                } else {
-                  console.log(`⚠️ No lead found with phone ${phoneToSearch} - checking again before creating`);
-                  
-                  // DOUBLE CHECK: Search with exact phone match before creating
-                  const { data: exactMatch } = await supabase
-                    .from("funnel_leads")
-                    .select("id")
-                    .eq("company_id", context.companyId)
-                    .eq("phone", contact.phone)
-                    .limit(1)
-                    .maybeSingle();
-
-                  if (exactMatch) {
-                    console.log(`✅ Found existing lead with exact phone match, moving it instead`);
-                    await supabase
-                      .from("funnel_leads")
-                      .update({ 
-                        stage_id: stageId,
-                        updated_at: new Date().toISOString()
-                      })
-                      .eq("id", exactMatch.id);
-                  } else {
-                    // Create a new lead in the target stage
-                    const { error: createError } = await supabase
-                      .from("funnel_leads")
-                      .insert({
-                        company_id: context.companyId,
-                        stage_id: stageId,
-                        name: contact.name || contact.phone,
-                        phone: contact.phone,
-                        source: "whatsapp_chatbot",
-                        position: 0,
-                      });
-
-                    if (createError) {
-                      console.error("❌ Error creating lead:", createError);
-                    } else {
-                      console.log(`✅ New lead created in stage ${stageId}`);
-                    }
-                  }
-                }
-              }
-            } else {
-              console.log(`⚠️ No stage_id configured for move_stage action`);
-            }
-            break;
-          }
-
-          case "add_tag": {
-            if (actionValue) {
-              // Find lead by contact phone and add tag
-              const { data: contact } = await supabase
-                .from("whatsapp_contacts")
-                .select("phone, normalized_phone")
-                .eq("id", context.contactId)
-                .single();
-
-              if (contact) {
-                const phoneToSearch = contact.normalized_phone || contact.phone;
-                
-                const { data: leads } = await supabase
-                  .from("funnel_leads")
-                  .select("id, tags")
-                  .eq("company_id", context.companyId)
-                  .or(`phone.eq.${phoneToSearch},phone.ilike.%${phoneToSearch.slice(-9)}%`);
-
-                if (leads && leads.length > 0) {
-                  const lead = leads[0];
-                  const currentTags = lead.tags || [];
-                  
-                  if (!currentTags.includes(actionValue)) {
-                    await supabase
-                      .from("funnel_leads")
-                      .update({ 
-                        tags: [...currentTags, actionValue],
-                        updated_at: new Date().toISOString()
-                      })
-                      .eq("id", lead.id);
-                    
-                    console.log(`✅ Tag "${actionValue}" added to lead`);
-                  }
-                }
-              }
-            }
-            break;
-          }
-
-          case "remove_tag": {
-            if (actionValue) {
-              const { data: contact } = await supabase
-                .from("whatsapp_contacts")
-                .select("phone, normalized_phone")
-                .eq("id", context.contactId)
-                .single();
-
-              if (contact) {
-                const phoneToSearch = contact.normalized_phone || contact.phone;
-                
-                const { data: leads } = await supabase
-                  .from("funnel_leads")
-                  .select("id, tags")
-                  .eq("company_id", context.companyId)
-                  .or(`phone.eq.${phoneToSearch},phone.ilike.%${phoneToSearch.slice(-9)}%`);
-
-                if (leads && leads.length > 0) {
-                  const lead = leads[0];
-                  const currentTags = lead.tags || [];
-                  
-                  if (currentTags.includes(actionValue)) {
-                    await supabase
-                      .from("funnel_leads")
-                      .update({ 
-                        tags: currentTags.filter((t: string) => t !== actionValue),
-                        updated_at: new Date().toISOString()
-                      })
-                      .eq("id", lead.id);
-                    
-                    console.log(`✅ Tag "${actionValue}" removed from lead`);
-                  }
-                }
-              }
-            }
-            break;
-          }
-
-          default:
-            console.log(`⚠️ Action type "${actionType}" not implemented yet`);
-        }
-      } catch (actionError) {
-        console.error(`❌ Error executing action ${actionType}:`, actionError);
-      }
+  const definition = getFlowNodeDefinition(node.node_type);
+  if (!definition) {
+    console.log(`Unknown node type: ${node.node_type}`);
+    const nextNode = await context.getNextNode(node);
+    return { shouldContinue: true, nextNode };
+  }
 
-      const nextNode = await getNextNode(supabase, node.flow_id, node.id);
-      return { shouldContinue: true, nextNode };
-    }
+  return definition.execute(node, context);
+}
 
-    case "transfer": {
-      // Mark as human takeover
-      await supabase
-        .from("chatbot_flow_executions")
-        .update({
-          status: "completed",
-          is_human_takeover: true,
-          completed_at: new Date().toISOString(),
-        })
-        .eq("id", context.executionId);
-
-      // Add "em_atendimento" tag to the contact to block bot execution
-      try {
-        const { data: contactData } = await supabase
-          .from("whatsapp_contacts")
-          .select("tags")
-          .eq("id", context.contactId)
-          .single();
-        
-        const currentTags = contactData?.tags || [];
-        if (!currentTags.includes("em_atendimento")) {
-          await supabase
-            .from("whatsapp_contacts")
-            .update({ 
-              tags: [...currentTags, "em_atendimento"],
-              updated_at: new Date().toISOString()
-            })
-            .eq("id", context.contactId);
-          console.log(`🏷️ Tag "em_atendimento" added to contact ${context.contactId}`);
-        }
-      } catch (tagError) {
-        console.error("Error adding em_atendimento tag:", tagError);
-      }
+// Process nodes starting at `firstNode` until the flow waits, ends or runs out of nodes
+async function runNodes(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  context: NodeExecutionContext,
+  firstNode: FlowNode,
+  logDetails: Record<string, unknown> = {}
+): Promise<void> {
+  let currentNode: FlowNode | null = firstNode;
+  let iterationCount = 0;
+
+  while (currentNode && iterationCount < MAX_ITERATIONS) {
+    iterationCount++;
+
+    // Log node execution
+    await supabase.from("chatbot_flow_logs").insert({
+      execution_id: context.executionId,
+      company_id: context.companyId,
+      node_id: currentNode.id,
+      node_type: currentNode.node_type,
+      action: FLOW_LOG_EXECUTED,
+      details: { iteration: iterationCount, ...logDetails },
+    });
 
-      const rawTransferMessage = (config.message as string) || "Você será atendido por um humano em breve.";
-      const transferMessage = replaceMessageVariables(rawTransferMessage, {
-        ownerFirstName: context.ownerFirstName,
-        contactName: context.contactName,
-      });
-      await sendWhatsAppMessage(
-        context.phoneNumberId,
-        context.accessToken,
-        context.contactPhone,
-        transferMessage
-      );
+    const result = await processNode(currentNode, context);
 
-      return { shouldContinue: false, nextNode: null };
+    if (!result.shouldContinue) {
+      console.log("⏸️ Execution paused or completed");
+      break;
     }
 
-    case "end": {
-      // Complete execution
-      await supabase
-        .from("chatbot_flow_executions")
-        .update({
-          status: "completed",
-          completed_at: new Date().toISOString(),
-        })
-        .eq("id", context.executionId);
+    currentNode = result.nextNode;
 
-      return { shouldContinue: false, nextNode: null };
-    }
+    // Small delay between nodes to avoid rate limits
+    await context.wait(500);
+  }
+
+  if (currentNode && iterationCount >= MAX_ITERATIONS) {
+    console.error("⚠️ Max iterations reached, stopping execution");
+    await supabase
+      .from("chatbot_flow_executions")
+      .update({ status: "failed", completed_at: new Date().toISOString() })
+      .eq("id", context.executionId);
+    return;
+  }
 
-    default:
-      console.log(`Unknown node type: ${node.node_type}`);
-      const nextNode = await getNextNode(supabase, node.flow_id, node.id);
-      return { shouldContinue: true, nextNode };
+  // CRITICAL: If the flow naturally ended (no next node), finalize the execution
+  // Otherwise it can remain as "running" and block new flows.
+  if (!currentNode) {
+    await supabase
+      .from("chatbot_flow_executions")
+      .update({ status: "completed", completed_at: new Date().toISOString() })
+      .eq("id", context.executionId);
+    console.log("✅ Execution completed (no next node)");
   }
 }
 
@@ -908,17 +346,24 @@ async function executeFlow(
   flow: ChatbotFlow,
   contactId: string,
   contactPhone: string,
-  phoneNumberId: string,
-  accessToken: string,
+  whatsapp: WhatsAppSender,
   triggerMessage?: string
 ) {
   console.log(`🚀 Starting flow execution: ${flow.name}`);
 
+  // New executions run the published version and stay on it until they end
+  const graph = await loadFlowGraph(supabase, flow.published_version_id);
+  if (!graph) {
+    console.log(`Flow ${flow.name} has no published version`);
+    return;
+  }
+
   // Create execution record
   const { data: execution, error: execError } = await supabase
     .from("chatbot_flow_executions")
     .insert({
       flow_id: flow.id,
+      flow_version_id: flow.published_version_id,
       company_id: flow.company_id,
       contact_id: contactId,
       status: "running",
@@ -947,8 +392,9 @@ async function executeFlow(
     const contactName = contactData?.name || "";
     
     // Get start node and first connected node
-    const startInfo = await getStartNode(supabase, flow.id);
-    if (!startInfo || !startInfo.firstNode) {
+    const startNode = graph.getStartNode();
+    const firstNode = startNode ? graph.getNextNode(startNode.id) : null;
+    if (!firstNode) {
       console.log("No nodes to execute after start");
       await supabase
         .from("chatbot_flow_executions")
@@ -957,65 +403,18 @@ async function executeFlow(
       return;
     }
 
-    // Process nodes
-    let currentNode: FlowNode | null = startInfo.firstNode;
-    let iterationCount = 0;
-    const maxIterations = 50; // Prevent infinite loops
-
-    while (currentNode && iterationCount < maxIterations) {
-      iterationCount++;
-
-      // Log node execution
-      await supabase.from("chatbot_flow_logs").insert({
-        execution_id: execution.id,
-        company_id: flow.company_id,
-        node_id: currentNode.id,
-        node_type: currentNode.node_type,
-        action: "executed",
-        details: { iteration: iterationCount },
-      });
-
-      const result = await processNode(supabase, currentNode, {
-        companyId: flow.company_id,
-        contactId,
-        contactPhone,
-        phoneNumberId,
-        accessToken,
-        executionId: execution.id,
-        lastUserMessage: triggerMessage,
-        ownerFirstName,
-        contactName,
-      });
-
-      if (!result.shouldContinue) {
-        console.log("⏸️ Execution paused or completed");
-        break;
-      }
-
-      currentNode = result.nextNode;
-
-      // Small delay between nodes to avoid rate limits
-      await new Promise((resolve) => setTimeout(resolve, 500));
-    }
-
-    if (iterationCount >= maxIterations) {
-      console.error("⚠️ Max iterations reached, stopping execution");
-      await supabase
-        .from("chatbot_flow_executions")
-        .update({ status: "failed", completed_at: new Date().toISOString() })
-        .eq("id", execution.id);
-      return;
-    }
+    const context = createNodeContext(supabase, graph, {
+      companyId: flow.company_id,
+      contactId,
+      contactPhone,
+      whatsapp,
+      executionId: execution.id,
+      lastUserMessage: triggerMessage,
+      ownerFirstName,
+      contactName,
+    });
 
-    // CRITICAL: If the flow naturally ended (no next node), finalize the execution
-    // Otherwise it can remain as "running" and block new flows.
-    if (!currentNode) {
-      await supabase
-        .from("chatbot_flow_executions")
-        .update({ status: "completed", completed_at: new Date().toISOString() })
-        .eq("id", execution.id);
-      console.log("✅ Execution completed (no next node)");
-    }
+    await runNodes(supabase, context, firstNode);
   } catch (err) {
     console.error("❌ executeFlow error:", err);
     await supabase
@@ -1055,9 +454,14 @@ async function continueExecution(
 
   // Safety: auto-finalize truly stale executions so they don't block the contact forever
   try {
-    const startedAt = execution.started_at ? new Date(execution.started_at).getTime() : 0;
+    // Executions resumed by the scheduler count from the resume, not from the start
+    const lastStartedAt = execution.resumed_at || execution.started_at;
+    const startedAt = lastStartedAt ? new Date(lastStartedAt).getTime() : 0;
     const ageMs = startedAt ? Date.now() - startedAt : 0;
-    const isStaleWaiting = execution.status === "waiting_response" && ageMs > WAITING_RESPONSE_TIMEOUT_MS;
+    // No timeout while waiting for the answer to a 24h window template - it usually comes hours later
+    const isStaleWaiting = execution.status === "waiting_response" &&
+      execution.context?.waiting_for !== WAITING_FOR_SERVICE_WINDOW &&
+      ageMs > WAITING_RESPONSE_TIMEOUT_MS;
     const isStaleRunning = execution.status === "running" && ageMs > RUNNING_TIMEOUT_MS;
     if (isStaleWaiting || isStaleRunning) {
       console.log(`⚠️ Stale execution detected (${execution.status}, ageMs=${ageMs}). Marking as failed.`);
@@ -1071,270 +475,177 @@ async function continueExecution(
     console.error("Failed stale-execution guard:", e);
   }
 
-  // Get current node
-  const { data: currentNode } = await supabase
-    .from("chatbot_flow_nodes")
-    .select("*")
-    .eq("id", execution.current_node_id)
-    .single();
+  // Get current node from the version the execution started on
+  const graph = await loadFlowGraph(supabase, execution.flow_version_id);
+  const currentNode = graph?.getNode(execution.current_node_id);
 
-  if (!currentNode) {
+  if (!graph || !currentNode) {
     console.log("Current node not found");
     return;
   }
 
   console.log(`📦 Current node type: ${currentNode.node_type}`);
 
-  // Get contact info
-  const { data: contact } = await supabase
-    .from("whatsapp_contacts")
-    .select("phone, normalized_phone, name")
-    .eq("id", execution.contact_id)
-    .single();
+  const context = await loadExecutionContext(supabase, graph, execution, userResponse);
+  if (!context) return;
 
-  if (!contact) {
-    console.log("Contact not found");
+  // Nodes that wait for the contact (question, pause) decide which output to follow
+  const definition = getFlowNodeDefinition(currentNode.node_type);
+  if (!definition?.resume) {
+    console.log(`⚠️ Node ${currentNode.node_type} does not wait for responses`);
     return;
   }
-  
-  // Get owner first name for message personalization
-  const ownerFirstName = await getOwnerFirstName(supabase, execution.company_id);
-  const contactName = contact.name || "";
-
-  // Get company info
-  const { data: company } = await supabase
-    .from("companies")
-    .select("whatsapp_phone_number_id")
-    .eq("id", execution.company_id)
-    .single();
 
-  if (!company?.whatsapp_phone_number_id) {
-    console.log("Company phone_number_id not found");
+  const resumed = await definition.resume(currentNode, context, {
+    text: userResponse,
+    buttonId,
+    state: execution.context || {},
+  });
+  if (resumed.status === "wait") return;
+
+  // Output chosen by the contact (option counts of the flow analytics)
+  await supabase.from("chatbot_flow_logs").insert({
+    execution_id: executionId,
+    company_id: execution.company_id,
+    node_id: currentNode.id,
+    node_type: currentNode.node_type,
+    action: FLOW_LOG_RESPONDED,
+    details: { source_handle: resumed.sourceHandle || null },
+  });
+
+  const nextNode = graph.getNextNode(currentNode.id, resumed.sourceHandle);
+
+  if (!nextNode) {
+    console.log(`❌ No next node found for handle: ${resumed.sourceHandle || "default"}`);
+    await supabase
+      .from("chatbot_flow_executions")
+      .update({ status: "completed", completed_at: new Date().toISOString() })
+      .eq("id", executionId);
     return;
   }
 
-  const accessToken = Deno.env.get("WHATSAPP_CLOUD_ACCESS_TOKEN") || "";
+  console.log(`➡️ Next node found: ${nextNode.node_type} (${nextNode.id})`);
 
-  // If it's a pause node, any message continues the flow
-  if (currentNode.node_type === "pause") {
-    console.log(`⏸️ Pause node received message - continuing flow`);
-    
-    const nextNode = await getNextNode(supabase, currentNode.flow_id, currentNode.id);
-    
-    if (nextNode) {
-      console.log(`➡️ Next node after pause: ${nextNode.node_type} (${nextNode.id})`);
-      
-      // Update execution status
-      await supabase
-        .from("chatbot_flow_executions")
-        .update({ status: "running", current_node_id: nextNode.id })
-        .eq("id", executionId);
+  await supabase
+    .from("chatbot_flow_executions")
+    .update({ status: "running", current_node_id: nextNode.id })
+    .eq("id", executionId);
 
-      // Process the remaining nodes
-      let currentProcessNode: FlowNode | null = nextNode;
-      let iterationCount = 0;
-      const maxIterations = 50;
-
-      while (currentProcessNode && iterationCount < maxIterations) {
-        iterationCount++;
-        console.log(`📦 Processing continued node: ${currentProcessNode.node_type}`);
-
-        // Log node execution
-        await supabase.from("chatbot_flow_logs").insert({
-          execution_id: executionId,
-          company_id: execution.company_id,
-          node_id: currentProcessNode.id,
-          node_type: currentProcessNode.node_type,
-          action: "executed",
-          details: { iteration: iterationCount, continued_from_pause: true },
-        });
+  await runNodes(supabase, context, nextNode, { continued: true });
+}
 
-        const result = await processNode(supabase, currentProcessNode, {
-          companyId: execution.company_id,
-          contactId: execution.contact_id,
-          contactPhone: contact.normalized_phone || contact.phone,
-          phoneNumberId: company.whatsapp_phone_number_id,
-          accessToken,
-          executionId,
-          lastUserMessage: userResponse,
-          ownerFirstName,
-          contactName,
-        });
+// Max paused executions resumed on each scheduler tick
+const RESUME_BATCH_SIZE = 50;
 
-        if (!result.shouldContinue) {
-          if (!result.waitForResponse && !result.delaySeconds) {
-            // Flow has ended
-            await supabase
-              .from("chatbot_flow_executions")
-              .update({ status: "completed", completed_at: new Date().toISOString() })
-              .eq("id", executionId);
-            console.log("✅ Execution completed after pause");
-          }
-          break;
-        }
+// Continue an execution paused by a long delay from the node after the delay
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function resumeDelayedExecution(supabase: any, executionId: string): Promise<void> {
+  const { data: execution } = await supabase
+    .from("chatbot_flow_executions")
+    .select("*")
+    .eq("id", executionId)
+    .single();
 
-        currentProcessNode = result.nextNode;
-      }
-    } else {
-      // No next node - end the flow
-      await supabase
-        .from("chatbot_flow_executions")
-        .update({ status: "completed", completed_at: new Date().toISOString() })
-        .eq("id", executionId);
-      console.log("✅ Execution completed (no next node after pause)");
-    }
+  if (!execution?.current_node_id) {
+    console.log(`Execution ${executionId} has no current node`);
     return;
   }
 
-  // If it's a question node, determine the next path based on response
-  if (currentNode.node_type === "question") {
-    const options = (currentNode.config?.options as string[]) || [];
-    const hasInteractiveButtons = options.length > 0 && options.length <= 3;
+  const finish = (status: string, extraContext: Record<string, unknown> = {}) =>
+    supabase
+      .from("chatbot_flow_executions")
+      .update({
+        status,
+        completed_at: new Date().toISOString(),
+        context: { ...(execution.context || {}), ...extraContext },
+      })
+      .eq("id", executionId);
+
+  // A human took over the conversation while the flow was waiting
+  const { data: contactTags } = await supabase
+    .from("whatsapp_contacts")
+    .select("tags")
+    .eq("id", execution.contact_id)
+    .single();
 
-    console.log(`🤔 Question options: ${JSON.stringify(options)}, buttonId: "${buttonId}", Response: "${userResponse}", hasButtons: ${hasInteractiveButtons}`);
+  if ((contactTags?.tags || []).includes("em_atendimento")) {
+    console.log(`🚫 Contact is with a human - cancelling delayed execution ${executionId}`);
+    await finish("cancelled", { cancel_reason: "human_takeover" });
+    return;
+  }
 
-    let sourceHandle: string | null = null;
+  const graph = await loadFlowGraph(supabase, execution.flow_version_id);
+  if (!graph) {
+    await finish("failed", { error: "missing_flow_version" });
+    return;
+  }
 
-    // CRITICAL: If we have interactive buttons (1-3 options), ONLY accept button_id responses
-    // Do NOT accept text responses for button-based questions
-    if (hasInteractiveButtons) {
-      // ONLY accept buttonId from interactive responses
-      if (buttonId && buttonId.startsWith("option-")) {
-        sourceHandle = buttonId;
-        console.log(`✅ Button clicked: ${sourceHandle}`);
-      } else {
-        // User sent text instead of clicking a button
-        // NÃO reenviar botões para evitar spam/duplicação - apenas aguardar silenciosamente
-        console.log(`⚠️ Text response received but question requires button click. Waiting silently for button.`);
-        // Manter status waiting_response - não fazer nada
-        return;
-      }
-    } else if (options.length > 3) {
-      // For 4+ options (numbered text response), accept text matching
-      if (userResponse) {
-        const responseLower = userResponse.toLowerCase().trim();
-        const responseNum = parseInt(responseLower);
-        
-        if (!isNaN(responseNum) && responseNum >= 1 && responseNum <= options.length) {
-          sourceHandle = `option-${responseNum - 1}`;
-          console.log(`✅ Matched by number: ${responseNum} -> ${sourceHandle}`);
-        } else {
-          // Try to match by content
-          const matchedIndex = options.findIndex((opt: string) =>
-            responseLower.includes(opt.toLowerCase()) || opt.toLowerCase().includes(responseLower)
-          );
-          if (matchedIndex >= 0) {
-            sourceHandle = `option-${matchedIndex}`;
-            console.log(`✅ Matched by content: "${options[matchedIndex]}" -> ${sourceHandle}`);
-          }
-        }
-        
-        // If no match, resend the numbered options
-        if (!sourceHandle) {
-          console.log(`⚠️ No match for text response. Resending options.`);
-          
-          let fullMessage = "Por favor, responda com o número da opção desejada:\n\n";
-          fullMessage += (currentNode.config?.question as string) || "";
-          fullMessage += "\n\n";
-          options.forEach((opt, idx) => {
-            fullMessage += `${idx + 1}. ${opt}\n`;
-          });
-          
-          await sendWhatsAppMessage(
-            company.whatsapp_phone_number_id,
-            accessToken,
-            contact.normalized_phone || contact.phone,
-            fullMessage
-          );
-          
-          console.log(`🔄 Re-sent numbered options - waiting for valid response`);
-          return;
-        }
-      }
-    }
+  const context = await loadExecutionContext(supabase, graph, execution);
+  if (!context) {
+    await finish("failed", { error: "missing_contact_or_whatsapp_config" });
+    return;
+  }
 
-    if (sourceHandle) {
-      console.log(`🔍 Looking for edge with source_handle: ${sourceHandle}`);
-      
-      const nextNode = await getNextNode(supabase, currentNode.flow_id, currentNode.id, sourceHandle);
+  // A transfer queued outside business hours runs again; a delay continues to the next node
+  const isQueuedTransfer = execution.context?.waiting_for === WAITING_FOR_BUSINESS_HOURS;
+  const nextNode = isQueuedTransfer
+    ? graph.getNode(execution.current_node_id)
+    : graph.getNextNode(execution.current_node_id);
+  if (!nextNode) {
+    await finish("completed");
+    console.log("✅ Execution completed (no node after the delay)");
+    return;
+  }
 
-      if (nextNode) {
-        console.log(`➡️ Next node found: ${nextNode.node_type} (${nextNode.id})`);
-        
-        // Update execution status
-        await supabase
-          .from("chatbot_flow_executions")
-          .update({ status: "running", current_node_id: nextNode.id })
-          .eq("id", executionId);
-
-        // IMPORTANT: Actually process the remaining nodes!
-        let currentProcessNode: FlowNode | null = nextNode;
-        let iterationCount = 0;
-        const maxIterations = 50;
-
-        while (currentProcessNode && iterationCount < maxIterations) {
-          iterationCount++;
-          console.log(`📦 Processing continued node: ${currentProcessNode.node_type}`);
-
-          // Log node execution
-          await supabase.from("chatbot_flow_logs").insert({
-            execution_id: executionId,
-            company_id: execution.company_id,
-            node_id: currentProcessNode.id,
-            node_type: currentProcessNode.node_type,
-            action: "executed",
-            details: { iteration: iterationCount, continued: true },
-          });
+  await supabase
+    .from("chatbot_flow_executions")
+    .update({ current_node_id: nextNode.id })
+    .eq("id", executionId);
 
-          const result = await processNode(supabase, currentProcessNode, {
-            companyId: execution.company_id,
-            contactId: execution.contact_id,
-            contactPhone: contact.normalized_phone || contact.phone,
-            phoneNumberId: company.whatsapp_phone_number_id,
-            accessToken,
-            executionId,
-            lastUserMessage: userResponse,
-            ownerFirstName,
-            contactName,
-          });
+  await runNodes(supabase, context, nextNode, { resumed_after_delay: true });
+}
 
-          if (!result.shouldContinue) {
-            console.log("⏸️ Execution paused or completed after continue");
-            break;
-          }
+// Resume the executions whose delay has elapsed (called by pg_cron, job `flow-scheduler`)
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function resumeDueExecutions(supabase: any): Promise<number> {
+  const now = new Date().toISOString();
+  const { data: executions, error } = await supabase
+    .from("chatbot_flow_executions")
+    .select("id")
+    .eq("status", "paused")
+    .eq("is_human_takeover", false)
+    .lte("next_action_at", now)
+    .order("next_action_at", { ascending: true })
+    .limit(RESUME_BATCH_SIZE);
 
-          currentProcessNode = result.nextNode;
+  if (error) throw error;
 
-          // Small delay between nodes
-          await new Promise((resolve) => setTimeout(resolve, 500));
-        }
+  let resumed = 0;
 
-        // If the flow naturally ended (no next node), finalize execution.
-        if (!currentProcessNode) {
-          await supabase
-            .from("chatbot_flow_executions")
-            .update({ status: "completed", completed_at: new Date().toISOString() })
-            .eq("id", executionId);
-          console.log("✅ Continued execution completed (no next node)");
-        } else {
-          console.log(`✅ Continued execution finished after ${iterationCount} nodes`);
-        }
-      } else {
-        console.log(`❌ No next node found for handle: ${sourceHandle}`);
-        
-        // Mark as completed if no next node
-        await supabase
-          .from("chatbot_flow_executions")
-          .update({ status: "completed", completed_at: new Date().toISOString() })
-          .eq("id", executionId);
-      }
-    } else {
-      console.log(`❌ No valid response received - staying in waiting_response state`);
-      // Don't change status - keep waiting for proper response
+  for (const execution of executions || []) {
+    // Claim the execution - a concurrent tick loses the update and skips it, so nothing is sent twice
+    const { data: claimed } = await supabase
+      .from("chatbot_flow_executions")
+      .update({ status: "running", next_action_at: null, resumed_at: now })
+      .eq("id", execution.id)
+      .eq("status", "paused")
+      .select("id");
+
+    if (!claimed || claimed.length === 0) continue;
+
+    try {
+      await resumeDelayedExecution(supabase, execution.id);
+      resumed++;
+    } catch (err) {
+      console.error(`❌ Error resuming execution ${execution.id}:`, err);
+      await supabase
+        .from("chatbot_flow_executions")
+        .update({ status: "failed", completed_at: new Date().toISOString() })
+        .eq("id", execution.id);
     }
-  } else {
-    console.log(`⚠️ Not a question node or no user response`);
   }
+
+  return resumed;
 }
 
 Deno.serve(async (req) => {
@@ -1344,17 +655,19 @@ Deno.serve(async (req) => {
 
   const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
   const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-  const accessToken = Deno.env.get("WHATSAPP_CLOUD_ACCESS_TOKEN") || "";
 
   const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
   try {
     const body = await req.json();
-    const { trigger_type, company_id, contact_id, message_content, execution_id } = body;
+    const { trigger_type, company_id, contact_id, message_content, execution_id, flow_id } = body;
 
     console.log(`📨 Flow executor called: ${trigger_type}`);
 
-    if (trigger_type === "keyword" && company_id && contact_id && message_content) {
+    // "start_flow" is sent by funnel automations to start a specific flow for a contact
+    const isStartFlow = trigger_type === "start_flow" && company_id && contact_id && flow_id;
+
+    if ((trigger_type === "keyword" && company_id && contact_id && message_content) || isStartFlow) {
       // CRITICAL: Check if contact has "em_atendimento" tag - block bot execution
       const { data: contactTags } = await supabase
         .from("whatsapp_contacts")
@@ -1373,7 +686,7 @@ Deno.serve(async (req) => {
       // Check if there's already an active execution for this contact
       const { data: existingExecution } = await supabase
         .from("chatbot_flow_executions")
-        .select("id, status, started_at")
+        .select("id, status, started_at, resumed_at, context")
         .eq("company_id", company_id)
         .eq("contact_id", contact_id)
         .in("status", ["running", "waiting_response"])
@@ -1381,11 +694,13 @@ Deno.serve(async (req) => {
         .maybeSingle();
 
       if (existingExecution) {
-        const startedAt = existingExecution.started_at
-          ? new Date(existingExecution.started_at).getTime()
-          : 0;
+        const lastStartedAt = existingExecution.resumed_at || existingExecution.started_at;
+        const startedAt = lastStartedAt ? new Date(lastStartedAt).getTime() : 0;
         const ageMs = startedAt ? Date.now() - startedAt : 0;
-        const isStaleWaiting = existingExecution.status === "waiting_response" && ageMs > WAITING_RESPONSE_TIMEOUT_MS;
+        // A 24h window template may be answered hours later, that wait has no timeout
+        const isStaleWaiting = existingExecution.status === "waiting_response" &&
+          existingExecution.context?.waiting_for !== WAITING_FOR_SERVICE_WINDOW &&
+          ageMs > WAITING_RESPONSE_TIMEOUT_MS;
         const isStaleRunning = existingExecution.status === "running" && ageMs > RUNNING_TIMEOUT_MS;
 
         if (isStaleWaiting || isStaleRunning) {
@@ -1402,8 +717,41 @@ Deno.serve(async (req) => {
         }
       }
 
-      // Find matching flow
-      const flow = await findMatchingFlow(supabase, company_id, message_content);
+      // A transfer queued until business hours - the contact is waiting for a human, not for a new flow
+      const { data: queuedTransfer } = await supabase
+        .from("chatbot_flow_executions")
+        .select("id")
+        .eq("company_id", company_id)
+        .eq("contact_id", contact_id)
+        .eq("status", "paused")
+        .eq("context->>waiting_for", WAITING_FOR_BUSINESS_HOURS)
+        .limit(1)
+        .maybeSingle();
+
+      if (queuedTransfer) {
+        console.log(`🌙 Transfer queued until business hours (${queuedTransfer.id}), skipping new flow start`);
+        return new Response(JSON.stringify({ status: "skipped", reason: "queued_transfer" }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      // Find matching flow (or load the one requested by the automation)
+      let flow: ChatbotFlow | null;
+      if (isStartFlow) {
+        const { data: requestedFlow } = await supabase
+          .from("chatbot_flows")
+          .select("*")
+          .eq("id", flow_id)
+          .eq("company_id", company_id)
+          .maybeSingle();
+        flow = requestedFlow as ChatbotFlow | null;
+      } else {
+        flow = await findMatchingFlow(supabase, company_id, contact_id, {
+          message: message_content,
+          buttonId: body.button_id || null,
+          referral: body.referral || null,
+        });
+      }
 
       if (!flow) {
         return new Response(JSON.stringify({ status: "no_flow" }), {
@@ -1411,6 +759,21 @@ Deno.serve(async (req) => {
         });
       }
 
+      // Automations keep the flow id after the user deactivates the flow
+      if (!flow.is_active) {
+        console.log(`Flow ${flow.name} is inactive, skipping new flow start`);
+        return new Response(JSON.stringify({ status: "skipped", reason: "flow_inactive", flow_id: flow.id }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      if (!flow.published_version_id) {
+        console.log(`Flow ${flow.name} was never published, nothing to run`);
+        return new Response(JSON.stringify({ status: "not_published", flow_id: flow.id }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
       // Get contact phone
       const { data: contact } = await supabase
         .from("whatsapp_contacts")
@@ -1424,14 +787,8 @@ Deno.serve(async (req) => {
         });
       }
 
-      // Get company phone_number_id
-      const { data: company } = await supabase
-        .from("companies")
-        .select("whatsapp_phone_number_id")
-        .eq("id", company_id)
-        .single();
-
-      if (!company?.whatsapp_phone_number_id) {
+      const whatsapp = await getCompanySender(supabase, company_id);
+      if (!whatsapp) {
         return new Response(JSON.stringify({ status: "no_whatsapp_config" }), {
           headers: { ...corsHeaders, "Content-Type": "application/json" },
         });
@@ -1443,8 +800,7 @@ Deno.serve(async (req) => {
         flow,
         contact_id,
         contact.normalized_phone || contact.phone,
-        company.whatsapp_phone_number_id,
-        accessToken,
+        whatsapp,
         message_content
       );
 
@@ -1453,6 +809,15 @@ Deno.serve(async (req) => {
       });
     }
 
+    if (trigger_type === "scheduler_tick") {
+      const resumed = await resumeDueExecutions(supabase);
+      console.log(`⏰ Scheduler tick: ${resumed} delayed execution(s) resumed`);
+
+      return new Response(JSON.stringify({ status: "ok", resumed }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
     if (trigger_type === "continue_execution" && execution_id) {
       const { button_id, user_response } = body;
       
@@ -0,0 +1,165 @@
+/**
+ * =====================================================
+ * RUNNER DE AUTOMAÇÕES DE FUNIL
+ * =====================================================
+ *
+ * Chamado pelo trigger `funnel_leads_run_automations` (pg_net) a cada
+ * INSERT/UPDATE em funnel_leads, independente de onde a alteração veio
+ * (CRM, lead-webhook, flow-executor...).
+ *
+ * AUTENTICAÇÃO:
+ * - Só aceita chamadas com a service role (Authorization: Bearer <key>),
+ *   enviada pelo trigger a partir do segredo `service_role_key` do Vault
+ *
+ * PAYLOAD:
+ * - type: "INSERT" | "UPDATE"
+ * - table: "funnel_leads"
+ * - record: linha nova
+ * - old_record: linha anterior (apenas UPDATE)
+ *
+ * PROTEÇÃO CONTRA LOOPS:
+ * - Alterações feitas pelas próprias automações incrementam `automation_depth`
+ *   (lido da linha atual, nunca do payload)
+ * - Execuções com profundidade >= MAX_CHAIN_DEPTH ou dentro do intervalo
+ *   mínimo (cooldown_minutes) são registradas como ignoradas
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  TriggerContext,
+  buildTriggerContexts,
+  evaluateConditions,
+  matchesTrigger,
+} from "../_shared/automationRules.ts";
+import { LeadRow, isCompanyOpen, mapAutomation, startAutomationRun } from "../_shared/automationRunner.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface DatabaseChangePayload {
+  type: "INSERT" | "UPDATE" | "DELETE";
+  table: string;
+  record: LeadRow | null;
+  old_record: LeadRow | null;
+}
+
+// Run every matching automation of the lead's funnel for the given contexts
+async function runAutomations(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  contexts: TriggerContext<LeadRow>[],
+  funnelId: string,
+  chainDepth: number
+): Promise<number> {
+  const lead = contexts[0].lead;
+
+  const { data: automations, error } = await supabase
+    .from("funnel_automations")
+    .select("*")
+    .eq("funnel_id", funnelId)
+    .eq("company_id", lead.company_id)
+    .eq("is_active", true);
+
+  if (error) throw error;
+  if (!automations || automations.length === 0) return 0;
+
+  let executed = 0;
+  const isBusinessHours = await isCompanyOpen(supabase, lead.company_id);
+
+  for (const context of contexts) {
+    for (const row of automations) {
+      const automation = mapAutomation(row);
+
+      if (!matchesTrigger(automation, context)) continue;
+      if (!evaluateConditions(automation, { ...context.lead, is_business_hours: isBusinessHours })) continue;
+
+      const status = await startAutomationRun(supabase, automation, context.lead, context.event, { chainDepth });
+      if (status !== "skipped") executed++;
+    }
+  }
+
+  return executed;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  // old_record decides which triggers fire, so only the database trigger may call this
+  if (req.headers.get("Authorization") !== `Bearer ${supabaseServiceKey}`) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  try {
+    const payload: DatabaseChangePayload = await req.json();
+
+    if (payload.table !== "funnel_leads" || !payload.record || payload.type === "DELETE") {
+      return new Response(JSON.stringify({ status: "ignored" }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Always work on the current row, never trust the payload blindly
+    const { data: lead, error: leadError } = await supabase
+      .from("funnel_leads")
+      .select("*")
+      .eq("id", payload.record.id)
+      .maybeSingle();
+
+    if (leadError) throw leadError;
+    if (!lead) {
+      return new Response(JSON.stringify({ status: "lead_not_found" }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const previousLead = payload.type === "UPDATE" ? payload.old_record || undefined : undefined;
+    const contexts = buildTriggerContexts<LeadRow>(lead as LeadRow, previousLead);
+
+    if (contexts.length === 0) {
+      return new Response(JSON.stringify({ status: "no_changes" }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: stage } = await supabase
+      .from("funnel_stages")
+      .select("funnel_id")
+      .eq("id", lead.stage_id)
+      .single();
+
+    if (!stage?.funnel_id) {
+      return new Response(JSON.stringify({ status: "stage_not_found" }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const executed = await runAutomations(
+      supabase,
+      contexts,
+      stage.funnel_id,
+      lead.automation_depth || 0
+    );
+    console.log(`[Automations] Lead ${lead.id}: ${contexts.map((c) => c.event).join(", ")} -> ${executed} automation(s)`);
+
+    return new Response(JSON.stringify({ status: "ok", executed }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("[Automations] Unexpected error:", error);
+    return new Response(JSON.stringify({ error: String(error) }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
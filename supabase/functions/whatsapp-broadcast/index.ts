@@ -0,0 +1,225 @@
+/**
+ * =====================================================
+ * DISPARO DE CAMPANHAS DE TEMPLATES DO WHATSAPP
+ * =====================================================
+ *
+ * Executado a cada minuto pelo pg_cron (job `whatsapp-broadcast`).
+ *
+ * - Inicia as campanhas agendadas cujo scheduled_at já passou
+ * - Envia lotes de destinatários limitados pelo tier de mensagens da conta
+ *   (messaging_limit_tier) e pelo que a empresa já enviou nas últimas 24h;
+ *   o limite por minuto é dividido entre todas as campanhas da empresa
+ * - As variáveis do template são preenchidas com os dados de cada lead
+ * - Entregue/lida são atualizadas pelo whatsapp-cloud-webhook na mensagem
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { LeadRow, findOrCreateContact, invokeFunction } from "../_shared/automationRunner.ts";
+import { buildBroadcastComponents, getBroadcastBatchSize } from "../_shared/whatsappBroadcasts.ts";
+import { renderTemplatePreview } from "../_shared/whatsappTemplates.ts";
+import { renderLeadTemplate } from "../_shared/automationRules.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Max campaigns handled on each tick
+const MAX_BROADCASTS = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Messaging tier of the company number (unknown when the Graph API is unavailable)
+async function getMessagingTier(phoneNumberId: string | null, accessToken: string | undefined): Promise<string | null> {
+  if (!phoneNumberId || !accessToken) return null;
+
+  try {
+    const response = await fetch(`https://graph.facebook.com/v18.0/${phoneNumberId}?fields=messaging_limit_tier`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      console.error("[Broadcast] Meta API error fetching messaging tier:", result);
+      return null;
+    }
+    return result.messaging_limit_tier || null;
+  } catch (error) {
+    console.error("[Broadcast] Error fetching messaging tier:", error);
+    return null;
+  }
+}
+
+interface BroadcastRow {
+  id: string;
+  company_id: string;
+  name: string;
+  template_name: string;
+  template_language: string;
+  template_components: Parameters<typeof buildBroadcastComponents>[0];
+  params: Parameters<typeof buildBroadcastComponents>[1];
+  status: string;
+}
+
+// Send one recipient; returns whether the template went out
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function sendToRecipient(supabase: any, broadcast: BroadcastRow, recipient: { id: string; lead: LeadRow | null }) {
+  const fail = async (error: string) => {
+    await supabase.from("whatsapp_broadcast_recipients").update({ status: "failed", error }).eq("id", recipient.id);
+    return false;
+  };
+
+  const lead = recipient.lead;
+  if (!lead) return fail("Lead removido");
+
+  const { components, errors } = buildBroadcastComponents(broadcast.template_components, broadcast.params, lead);
+  if (errors.length > 0) return fail(errors.join("; "));
+
+  try {
+    const contactId = await findOrCreateContact(supabase, lead);
+    if (!contactId) return fail("Lead sem telefone válido");
+
+    const preview = renderTemplatePreview(broadcast.template_components, {
+      body: (broadcast.params.body || []).map((param) => renderLeadTemplate(param, lead)),
+    });
+
+    const result = await invokeFunction("whatsapp-cloud-send", {
+      company_id: broadcast.company_id,
+      contact_id: contactId,
+      message_type: "template",
+      template_name: broadcast.template_name,
+      template_language: broadcast.template_language,
+      template_components: components,
+      content: preview.body || undefined,
+    });
+
+    await supabase
+      .from("whatsapp_broadcast_recipients")
+      .update({ status: "sent", contact_id: contactId, message_id: result.message_id || null })
+      .eq("id", recipient.id);
+    return true;
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : String(error));
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function runBroadcasts(supabase: any): Promise<{ broadcasts: number; sent: number; failed: number }> {
+  const now = new Date();
+  const accessToken = Deno.env.get("WHATSAPP_CLOUD_ACCESS_TOKEN");
+  // Recipients each company can still send on this tick, shared by all of its campaigns
+  const capacity = new Map<string, number>();
+  const totals = { broadcasts: 0, sent: 0, failed: 0 };
+
+  const { data: broadcasts, error } = await supabase
+    .from("whatsapp_broadcasts")
+    .select("*")
+    .in("status", ["scheduled", "sending"])
+    .lte("scheduled_at", now.toISOString())
+    .order("scheduled_at", { ascending: true })
+    .limit(MAX_BROADCASTS);
+
+  if (error) throw error;
+
+  for (const broadcast of (broadcasts || []) as BroadcastRow[]) {
+    if (broadcast.status === "scheduled") {
+      // Claim the start - a concurrent tick loses the update and skips the campaign
+      const { data: claimed } = await supabase
+        .from("whatsapp_broadcasts")
+        .update({ status: "sending", started_at: now.toISOString() })
+        .eq("id", broadcast.id)
+        .eq("status", "scheduled")
+        .select("id");
+      if (!claimed || claimed.length === 0) continue;
+    }
+
+    const companyId = broadcast.company_id;
+    if (!capacity.has(companyId)) {
+      const { data: company } = await supabase
+        .from("companies")
+        .select("whatsapp_phone_number_id")
+        .eq("id", companyId)
+        .single();
+      const tier = await getMessagingTier(company?.whatsapp_phone_number_id, accessToken);
+
+      const { count: sentLast24h } = await supabase
+        .from("whatsapp_broadcast_recipients")
+        .select("id", { count: "exact", head: true })
+        .eq("company_id", companyId)
+        .gte("sent_at", new Date(now.getTime() - DAY_MS).toISOString());
+      capacity.set(companyId, getBroadcastBatchSize(tier, sentLast24h || 0));
+    }
+
+    const batchSize = capacity.get(companyId) || 0;
+    if (batchSize === 0) {
+      console.log(`[Broadcast] ${broadcast.name}: messaging limit of the company reached - waiting`);
+      continue;
+    }
+
+    const { data: recipients } = await supabase
+      .from("whatsapp_broadcast_recipients")
+      .select("id, funnel_leads(*)")
+      .eq("broadcast_id", broadcast.id)
+      .eq("status", "pending")
+      .is("sent_at", null)
+      .order("created_at", { ascending: true })
+      .limit(batchSize);
+
+    if (!recipients || recipients.length === 0) {
+      await supabase
+        .from("whatsapp_broadcasts")
+        .update({ status: "completed", completed_at: now.toISOString() })
+        .eq("id", broadcast.id)
+        .eq("status", "sending");
+      console.log(`[Broadcast] ${broadcast.name}: completed`);
+      continue;
+    }
+
+    totals.broadcasts++;
+
+    for (const recipient of recipients) {
+      // Claim the recipient (sent_at also counts it in the daily limit)
+      const { data: claimed } = await supabase
+        .from("whatsapp_broadcast_recipients")
+        .update({ sent_at: new Date().toISOString() })
+        .eq("id", recipient.id)
+        .is("sent_at", null)
+        .select("id");
+      if (!claimed || claimed.length === 0) continue;
+
+      // Each send uses up both the per-minute and the daily limit
+      capacity.set(companyId, (capacity.get(companyId) || 0) - 1);
+      const sent = await sendToRecipient(supabase, broadcast, { id: recipient.id, lead: recipient.funnel_leads });
+      if (sent) totals.sent++;
+      else totals.failed++;
+    }
+
+    console.log(`[Broadcast] ${broadcast.name}: batch of ${recipients.length} recipient(s) processed`);
+  }
+
+  return totals;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  try {
+    const result = await runBroadcasts(supabase);
+    console.log(`[Broadcast] ${result.broadcasts} campaign(s): ${result.sent} sent, ${result.failed} failed`);
+
+    return new Response(JSON.stringify({ status: "ok", ...result }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("[Broadcast] Unexpected error:", error);
+    return new Response(JSON.stringify({ error: String(error) }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
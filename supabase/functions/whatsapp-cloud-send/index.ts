@@ -1,4 +1,7 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { WhatsAppListSection } from "../_shared/flowNodes/types.ts";
+import { buildCtaUrlInteractive, buildListInteractive } from "../_shared/whatsappCloudSender.ts";
+import { META_WINDOW_CLOSED_ERROR, SERVICE_WINDOW_CLOSED, isServiceWindowOpen } from "../_shared/serviceWindow.ts";
 
 // Edge runtime helper (lets background tasks continue after the response)
 declare const EdgeRuntime: {
@@ -15,11 +18,23 @@ interface SendMessagePayload {
   phone?: string;
   content?: string;
   action?: "send" | "test" | "check_token";
-  message_type?: "text" | "image" | "audio" | "document" | "video";
+  message_type?: "text" | "image" | "audio" | "document" | "video" | "template" | "interactive";
   media_url?: string;
   media_filename?: string;
   media_caption?: string;
   audio_duration?: number;
+  // Template messages
+  template_name?: string;
+  template_language?: string;
+  template_components?: Array<Record<string, unknown>>;
+  // Interactive messages (content is the body text)
+  interactive_type?: "list" | "cta_url";
+  list_button?: string;
+  list_sections?: WhatsAppListSection[];
+  cta_text?: string;
+  cta_url?: string;
+  // Internal calls only (service role): company to send from
+  company_id?: string;
 }
 
 Deno.serve(async (req) => {
@@ -40,34 +55,49 @@ Deno.serve(async (req) => {
   }
 
   const supabase = createClient(supabaseUrl, supabaseServiceKey);
-  const userClient = createClient(supabaseUrl, supabaseServiceKey, {
-    global: { headers: { Authorization: authHeader } },
-  });
+  const payload: SendMessagePayload = await req.json();
 
-  // Authenticate user
-  const { data: { user }, error: userError } = await userClient.auth.getUser();
-  if (userError || !user) {
-    return new Response(
-      JSON.stringify({ error: "Invalid user token" }),
-      { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
-  }
+  let companyId: string;
 
-  // Get user's company
-  const { data: profile } = await supabase
-    .from("profiles")
-    .select("company_id")
-    .eq("user_id", user.id)
-    .single();
+  // Internal calls (funnel automations) use the service role key and say which company sends
+  if (authHeader === `Bearer ${supabaseServiceKey}`) {
+    if (!payload.company_id) {
+      return new Response(
+        JSON.stringify({ error: "Missing company_id" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    companyId = payload.company_id;
+  } else {
+    const userClient = createClient(supabaseUrl, supabaseServiceKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
 
-  if (!profile?.company_id) {
-    return new Response(
-      JSON.stringify({ error: "User has no company" }),
-      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
-  }
+    // Authenticate user
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid user token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
-  const companyId = profile.company_id;
+    // Get user's company
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("company_id")
+      .eq("user_id", user.id)
+      .single();
+
+    if (!profile?.company_id) {
+      return new Response(
+        JSON.stringify({ error: "User has no company" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    companyId = profile.company_id;
+  }
 
   // Get company's cloud API config
   const { data: company } = await supabase
@@ -76,7 +106,6 @@ Deno.serve(async (req) => {
     .eq("id", companyId)
     .single();
 
-  const payload: SendMessagePayload = await req.json();
   const messageType = payload.message_type || "text";
 
   // Check token action
@@ -155,7 +184,7 @@ Deno.serve(async (req) => {
   if (payload.contact_id) {
     const { data: contact } = await supabase
       .from("whatsapp_contacts")
-      .select("phone, normalized_phone")
+      .select("phone, normalized_phone, last_inbound_at")
       .eq("id", payload.contact_id)
       .eq("company_id", companyId)
       .single();
@@ -167,6 +196,17 @@ Deno.serve(async (req) => {
       );
     }
 
+    // Outside the 24h window Meta only accepts templates - fail before creating the message
+    if (messageType !== "template" && !isServiceWindowOpen(contact.last_inbound_at)) {
+      return new Response(
+        JSON.stringify({
+          error: "24h customer service window is closed - only templates can be sent",
+          code: SERVICE_WINDOW_CLOSED,
+        }),
+        { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     recipientPhone = contact.normalized_phone || contact.phone;
     contactId = payload.contact_id;
   } else if (payload.phone) {
@@ -188,7 +228,30 @@ Deno.serve(async (req) => {
     );
   }
 
-  if (messageType !== "text" && !payload.media_url) {
+  if (messageType === "template" && (!payload.template_name || !payload.template_language)) {
+    return new Response(
+      JSON.stringify({ error: "Missing template_name or template_language for template message" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  if (messageType === "interactive") {
+    const invalid =
+      !payload.content ||
+      (payload.interactive_type === "list"
+        ? !payload.list_button || !payload.list_sections?.some((section) => section.rows?.length > 0)
+        : payload.interactive_type === "cta_url"
+        ? !payload.cta_text || !payload.cta_url
+        : true);
+    if (invalid) {
+      return new Response(
+        JSON.stringify({ error: "Missing content, list_button/list_sections or cta_text/cta_url for interactive message" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+  }
+
+  if (!["text", "template", "interactive"].includes(messageType) && !payload.media_url) {
     return new Response(
       JSON.stringify({ error: "Missing media_url for media message" }),
       { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -198,6 +261,10 @@ Deno.serve(async (req) => {
   // Create pending message in DB
   const messageContent = messageType === "text" 
     ? payload.content 
+    : messageType === "template"
+    ? payload.content || `[TEMPLATE: ${payload.template_name}]`
+    : messageType === "interactive"
+    ? describeInteractive(payload)
     : payload.media_caption || `[${messageType.toUpperCase()}]`;
 
   const messageInsert: Record<string, unknown> = {
@@ -205,7 +272,8 @@ Deno.serve(async (req) => {
     content: messageContent,
     is_from_me: true,
     status: messageType === "audio" ? "processing" : "pending",
-    message_type: messageType,
+    // whatsapp_messages.message_type has no "interactive" - it is kept as text
+    message_type: messageType === "interactive" ? "text" : messageType,
     media_url: payload.media_url || null,
     sent_at: new Date().toISOString(),
   };
@@ -307,6 +375,21 @@ Deno.serve(async (req) => {
 
     if (messageType === "text") {
       metaPayload.text = { body: payload.content };
+    } else if (messageType === "template") {
+      const template: Record<string, unknown> = {
+        name: payload.template_name,
+        language: { code: payload.template_language },
+      };
+      if (payload.template_components && payload.template_components.length > 0) {
+        template.components = payload.template_components;
+      }
+      metaPayload.template = template;
+    } else if (messageType === "interactive") {
+      metaPayload.recipient_type = "individual";
+      metaPayload.interactive =
+        payload.interactive_type === "list"
+          ? buildListInteractive(payload.content!, payload.list_button!, payload.list_sections!)
+          : buildCtaUrlInteractive(payload.content!, payload.cta_text!, payload.cta_url!);
     } else {
       // For image, video, document - use public URL directly (link method)
       const mediaContent: Record<string, unknown> = {
@@ -349,6 +432,7 @@ Deno.serve(async (req) => {
       return new Response(
         JSON.stringify({ 
           error: metaResult.error?.message || "Failed to send message",
+          code: metaResult.error?.code === META_WINDOW_CLOSED_ERROR ? SERVICE_WINDOW_CLOSED : undefined,
           message_id: messageData.id 
         }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -395,6 +479,15 @@ Deno.serve(async (req) => {
   }
 });
 
+// Conversation text of an interactive message, like the flow nodes save it
+function describeInteractive(payload: SendMessagePayload): string {
+  if (payload.interactive_type === "list") {
+    const rows = (payload.list_sections || []).flatMap((section) => section.rows.map((row) => row.title));
+    return `${payload.content}\n\n[Lista: ${rows.join(" | ")}]`;
+  }
+  return `${payload.content}\n\n[Link: ${payload.cta_text} - ${payload.cta_url}]`;
+}
+
 /**
  * Async audio processing function - runs in background after 202 response
  * Downloads audio, uploads to Meta /media, sends message
@@ -1,4 +1,5 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { WAITING_FOR_SERVICE_WINDOW } from "../_shared/flowNodes/index.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -297,7 +298,7 @@ Deno.serve(async (req) => {
 
       // Extract message content and process media
       // NOTE: whatsapp_messages has a CHECK constraint that only allows:
-      // text | image | audio | video | document | sticker
+      // text | image | audio | video | document | sticker | template (outgoing only)
       let content = "";
       let messageType = "text";
       let mediaUrl: string | null = null;
@@ -450,7 +451,7 @@ Deno.serve(async (req) => {
           // Primeiro, verificar se existe execução ativa (running ou waiting_response)
           const { data: activeExecution } = await supabase
             .from("chatbot_flow_executions")
-            .select("id, status, started_at, current_node_id, context")
+            .select("id, status, started_at, resumed_at, current_node_id, context")
             .eq("company_id", companyId)
             .eq("contact_id", contact.id)
             .in("status", ["waiting_response", "running"])
@@ -459,7 +460,8 @@ Deno.serve(async (req) => {
           
           if (activeExecution) {
             // ===== VERIFICAÇÃO DE TIMEOUT - RECUPERAÇÃO AUTOMÁTICA =====
-            const startedAt = new Date(activeExecution.started_at).getTime();
+            // Execuções retomadas pelo agendador contam a partir da retomada
+            const startedAt = new Date(activeExecution.resumed_at || activeExecution.started_at).getTime();
             const now = Date.now();
             const elapsedMinutes = (now - startedAt) / (1000 * 60);
             
@@ -468,7 +470,11 @@ Deno.serve(async (req) => {
             const WAITING_TIMEOUT_MINUTES = 30;     // 30 minutos para "waiting_response"
             
             const isRunningStuck = activeExecution.status === "running" && elapsedMinutes > RUNNING_TIMEOUT_MINUTES;
-            const isWaitingStuck = activeExecution.status === "waiting_response" && elapsedMinutes > WAITING_TIMEOUT_MINUTES;
+            // Pergunta aguardando a resposta ao template da janela de 24h: a resposta costuma vir horas depois
+            const isWaitingForWindow = activeExecution.context?.waiting_for === WAITING_FOR_SERVICE_WINDOW;
+            const isWaitingStuck = activeExecution.status === "waiting_response" &&
+              !isWaitingForWindow &&
+              elapsedMinutes > WAITING_TIMEOUT_MINUTES;
             
             if (isRunningStuck || isWaitingStuck) {
               // Execução travada detectada - marcar como failed e permitir novo fluxo
@@ -503,6 +509,8 @@ Deno.serve(async (req) => {
                     company_id: companyId,
                     contact_id: contact.id,
                     message_content: content,
+                    button_id: buttonId,
+                    referral: message.referral || null,
                   }),
                 });
                 console.log(`[Webhook] 🚀 Novo fluxo iniciado após auto-recovery`);
@@ -544,6 +552,9 @@ Deno.serve(async (req) => {
                   company_id: companyId,
                   contact_id: contact.id,
                   message_content: content,
+                  // Gatilhos por botão de template e por anúncio (Click-to-WhatsApp)
+                  button_id: buttonId,
+                  referral: message.referral || null,
                 }),
               });
               
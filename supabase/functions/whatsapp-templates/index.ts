@@ -1,4 +1,9 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  TemplateSendComponent,
+  renderTemplatePreview,
+  validateTemplateComponents,
+} from "../_shared/whatsappTemplates.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -44,18 +49,7 @@ interface SendTemplatePayload {
   phone?: string;
   template_name: string;
   template_language: string;
-  components?: Array<{
-    type: "header" | "body" | "button";
-    parameters?: Array<{
-      type: "text" | "image" | "video" | "document";
-      text?: string;
-      image?: { link: string };
-      video?: { link: string };
-      document?: { link: string; filename?: string };
-    }>;
-    sub_type?: "quick_reply" | "url";
-    index?: string;
-  }>;
+  components?: TemplateSendComponent[];
 }
 
 type RequestPayload = CreateTemplatePayload | ListTemplatesPayload | DeleteTemplatePayload | SendTemplatePayload;
@@ -299,6 +293,49 @@ Deno.serve(async (req) => {
     }
 
     try {
+      // Check the parameters against the approved template before sending
+      const lookupParams = new URLSearchParams({ name: payload.template_name, fields: "name,status,language,components" });
+      const lookupResponse = await fetch(
+        `https://graph.facebook.com/v18.0/${company.whatsapp_waba_id}/message_templates?${lookupParams}`,
+        { headers: { Authorization: `Bearer ${cloudAccessToken}` } }
+      );
+      const lookupResult = await lookupResponse.json();
+
+      if (!lookupResponse.ok) {
+        console.error("Meta API error fetching template:", lookupResult);
+        return new Response(
+          JSON.stringify({ error: lookupResult.error?.message || "Failed to fetch template" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const template = (lookupResult.data || []).find(
+        (t: { name: string; language: string }) =>
+          t.name === payload.template_name && t.language === payload.template_language
+      );
+
+      if (!template) {
+        return new Response(
+          JSON.stringify({ error: "Template not found" }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (template.status !== "APPROVED") {
+        return new Response(
+          JSON.stringify({ error: `Template is not approved (status: ${template.status})` }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const parameterErrors = validateTemplateComponents(template.components || [], payload.components || []);
+      if (parameterErrors.length > 0) {
+        return new Response(
+          JSON.stringify({ error: "Invalid template parameters", details: parameterErrors }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
       const sendUrl = `https://graph.facebook.com/v18.0/${company.whatsapp_phone_number_id}/messages`;
       
       const messagePayload: Record<string, unknown> = {
@@ -340,8 +377,12 @@ Deno.serve(async (req) => {
 
       const metaMessageId = result.messages?.[0]?.id;
 
-      // Create message record
-      const messageContent = `[TEMPLATE: ${payload.template_name}]`;
+      // Create message record with the text the contact received
+      const bodyParams = (payload.components || [])
+        .find((c) => c.type === "body")
+        ?.parameters?.map((parameter) => parameter.text || "") || [];
+      const preview = renderTemplatePreview(template.components || [], { body: bodyParams });
+      const messageContent = preview.body || `[TEMPLATE: ${payload.template_name}]`;
       
       const messageInsert: Record<string, unknown> = {
         company_id: profile.company_id,
@@ -0,0 +1,64 @@
+-- =====================================================
+-- AUTOMAÇÕES DE FUNIL NO SERVIDOR
+-- =====================================================
+-- Toda alteração em funnel_leads chama a edge function funnel-automations,
+-- independente de onde veio (CRM, lead-webhook, flow-executor...).
+
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+-- Profundidade da cadeia de automações que gerou a última alteração do lead.
+-- 0 = alteração feita por usuário/integração; > 0 = feita por uma automação.
+ALTER TABLE public.funnel_leads
+ADD COLUMN IF NOT EXISTS automation_depth INTEGER NOT NULL DEFAULT 0;
+
+-- Qualquer UPDATE que não defina automation_depth explicitamente volta a 0
+CREATE OR REPLACE FUNCTION public.reset_funnel_lead_automation_depth()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.automation_depth IS NOT DISTINCT FROM OLD.automation_depth THEN
+    NEW.automation_depth := 0;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_funnel_lead_automation_depth
+  BEFORE UPDATE ON public.funnel_leads
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reset_funnel_lead_automation_depth();
+
+-- Envia a alteração para a edge function (assíncrono via pg_net)
+CREATE OR REPLACE FUNCTION public.notify_funnel_automations()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM net.http_post(
+    url := 'https://ysiszrxwbargoyqrrehr.supabase.co/functions/v1/funnel-automations',
+    -- A função só aceita a service role: o payload decide quais automações disparam
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (
+        SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key'
+      )
+    ),
+    body := jsonb_build_object(
+      'type', TG_OP,
+      'table', TG_TABLE_NAME,
+      'record', to_jsonb(NEW),
+      'old_record', CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) ELSE NULL END
+    )
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER funnel_leads_run_automations
+  AFTER INSERT OR UPDATE ON public.funnel_leads
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_funnel_automations();
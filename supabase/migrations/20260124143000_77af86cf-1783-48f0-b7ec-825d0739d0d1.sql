@@ -0,0 +1,96 @@
+-- =====================================================
+-- GATILHO "TEMPO NA ETAPA" (time_in_stage)
+-- =====================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+-- Momento em que o lead entrou na etapa atual
+ALTER TABLE public.funnel_leads
+ADD COLUMN IF NOT EXISTS stage_entered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+-- Leads existentes: melhor estimativa disponível. O backfill não é uma alteração
+-- do lead, então não pode chamar funnel-automations uma vez por linha.
+ALTER TABLE public.funnel_leads DISABLE TRIGGER funnel_leads_run_automations;
+
+UPDATE public.funnel_leads SET stage_entered_at = COALESCE(updated_at, created_at);
+
+ALTER TABLE public.funnel_leads ENABLE TRIGGER funnel_leads_run_automations;
+
+CREATE OR REPLACE FUNCTION public.set_funnel_lead_stage_entered_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.stage_id IS DISTINCT FROM OLD.stage_id THEN
+    NEW.stage_entered_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_funnel_lead_stage_entered_at
+  BEFORE UPDATE ON public.funnel_leads
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_funnel_lead_stage_entered_at();
+
+CREATE INDEX IF NOT EXISTS idx_funnel_leads_stage_entered ON public.funnel_leads(stage_id, stage_entered_at);
+
+-- Controle de disparo: uma linha por automação + lead + passagem na etapa
+CREATE TABLE public.automation_stage_timers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  automation_id UUID NOT NULL REFERENCES public.funnel_automations(id) ON DELETE CASCADE,
+  lead_id UUID NOT NULL REFERENCES public.funnel_leads(id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  stage_entered_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  evaluated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(automation_id, lead_id, stage_entered_at)
+);
+
+ALTER TABLE public.automation_stage_timers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Usuários veem disparos da sua empresa"
+ON public.automation_stage_timers
+FOR SELECT
+USING (company_id = get_user_company_id(auth.uid()));
+
+-- Leads que passaram do limite e ainda não foram avaliados nesta passagem
+CREATE OR REPLACE FUNCTION public.get_time_in_stage_candidates(
+  p_automation_id UUID,
+  p_stage_id UUID,
+  p_cutoff TIMESTAMP WITH TIME ZONE,
+  p_limit INTEGER DEFAULT 200
+)
+RETURNS SETOF public.funnel_leads
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT l.*
+  FROM public.funnel_leads l
+  WHERE l.stage_id = p_stage_id
+    AND l.stage_entered_at <= p_cutoff
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.automation_stage_timers t
+      WHERE t.automation_id = p_automation_id
+        AND t.lead_id = l.id
+        AND t.stage_entered_at = l.stage_entered_at
+    )
+  ORDER BY l.stage_entered_at
+  LIMIT p_limit;
+$$;
+
+-- Executa o agendador a cada 5 minutos
+SELECT cron.schedule(
+  'automation-scheduler',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://ysiszrxwbargoyqrrehr.supabase.co/functions/v1/automation-scheduler',
+    headers := jsonb_build_object('Content-Type', 'application/json'),
+    body := '{}'::jsonb
+  );
+  $$
+);
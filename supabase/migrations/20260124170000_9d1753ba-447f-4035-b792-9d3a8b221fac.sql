@@ -0,0 +1,12 @@
+-- =====================================================
+-- MENSAGENS DE TEMPLATE EM whatsapp_messages
+-- =====================================================
+-- Automações de funil (e o envio manual de templates) gravam
+-- mensagens com message_type = 'template'
+
+ALTER TABLE public.whatsapp_messages
+DROP CONSTRAINT IF EXISTS whatsapp_messages_message_type_check;
+
+ALTER TABLE public.whatsapp_messages
+ADD CONSTRAINT whatsapp_messages_message_type_check
+CHECK (message_type IN ('text', 'image', 'audio', 'video', 'document', 'sticker', 'template'));
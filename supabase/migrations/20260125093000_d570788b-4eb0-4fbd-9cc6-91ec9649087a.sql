@@ -0,0 +1,51 @@
+-- =====================================================
+-- AUTOMAÇÕES COM MÚLTIPLAS ETAPAS (ações, esperas e condições)
+-- =====================================================
+
+-- Lista ordenada de etapas (vazia = automação antiga com uma única ação)
+ALTER TABLE public.funnel_automations
+ADD COLUMN IF NOT EXISTS steps JSONB NOT NULL DEFAULT '[]';
+
+-- Cada disparo de uma automação para um lead
+CREATE TABLE public.automation_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  automation_id UUID NOT NULL REFERENCES public.funnel_automations(id) ON DELETE CASCADE,
+  lead_id UUID NOT NULL REFERENCES public.funnel_leads(id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'waiting', 'completed', 'failed', 'cancelled')),
+  trigger_event TEXT NOT NULL,
+  context JSONB NOT NULL DEFAULT '{}',
+  -- Próxima etapa a executar quando a execução estiver aguardando
+  current_step_id TEXT,
+  resume_at TIMESTAMP WITH TIME ZONE,
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_automation_runs_resume
+ON public.automation_runs (resume_at)
+WHERE status = 'waiting';
+
+CREATE INDEX idx_automation_runs_automation
+ON public.automation_runs (automation_id, started_at DESC);
+
+ALTER TABLE public.automation_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Usuários veem execuções de automações da sua empresa"
+ON public.automation_runs
+FOR SELECT
+USING (company_id = get_user_company_id(auth.uid()));
+
+CREATE TRIGGER update_automation_runs_updated_at
+BEFORE UPDATE ON public.automation_runs
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Um log por etapa executada
+ALTER TABLE public.automation_logs
+ADD COLUMN IF NOT EXISTS run_id UUID REFERENCES public.automation_runs(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS step_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_automation_logs_run
+ON public.automation_logs (run_id, triggered_at);
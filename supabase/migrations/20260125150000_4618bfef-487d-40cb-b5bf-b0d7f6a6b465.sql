@@ -0,0 +1,44 @@
+-- =====================================================
+-- PROTEÇÃO CONTRA LOOPS EM AUTOMAÇÕES
+-- =====================================================
+
+-- Intervalo mínimo entre execuções da mesma automação para o mesmo lead
+ALTER TABLE public.funnel_automations
+ADD COLUMN IF NOT EXISTS cooldown_minutes INTEGER NOT NULL DEFAULT 1;
+
+-- Profundidade da cadeia de automações que originou a execução
+-- (0 = alteração feita por um usuário, integração ou agendador)
+ALTER TABLE public.automation_runs
+ADD COLUMN IF NOT EXISTS chain_depth INTEGER NOT NULL DEFAULT 0;
+
+-- Execuções ignoradas (cadeia longa demais ou dentro do intervalo mínimo)
+ALTER TABLE public.automation_runs
+DROP CONSTRAINT IF EXISTS automation_runs_status_check;
+
+ALTER TABLE public.automation_runs
+ADD CONSTRAINT automation_runs_status_check
+CHECK (status IN ('running', 'waiting', 'completed', 'failed', 'cancelled', 'skipped'));
+
+CREATE INDEX IF NOT EXISTS idx_automation_runs_lead
+ON public.automation_runs (automation_id, lead_id, started_at DESC);
+
+-- Escritas das automações se identificam com automation_write = true; o trigger
+-- mantém a profundidade enviada e limpa a marca. Qualquer outro UPDATE (mesmo
+-- repetindo a profundidade atual) é de usuário/integração e volta a 0.
+ALTER TABLE public.funnel_leads
+ADD COLUMN IF NOT EXISTS automation_write BOOLEAN NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION public.reset_funnel_lead_automation_depth()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.automation_write THEN
+    NEW.automation_write := false;
+  ELSE
+    NEW.automation_depth := 0;
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,7 @@
+-- =====================================================
+-- FUSO HORÁRIO DA EMPRESA
+-- =====================================================
+
+-- Usado pelas condições de horário e dia da semana dos fluxos do chatbot
+ALTER TABLE public.companies
+ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'America/Sao_Paulo';
@@ -0,0 +1,25 @@
+-- =====================================================
+-- AGENDADOR DE FLUXOS DO CHATBOT
+-- =====================================================
+
+-- Momento em que o agendador retomou a execução após uma espera longa
+-- (os limites de execução travada contam a partir daqui)
+ALTER TABLE public.chatbot_flow_executions
+ADD COLUMN IF NOT EXISTS resumed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_chatbot_flow_executions_next_action
+ON public.chatbot_flow_executions (next_action_at)
+WHERE status = 'paused';
+
+-- Retoma as execuções pausadas por esperas longas a cada minuto
+SELECT cron.schedule(
+  'flow-scheduler',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://ysiszrxwbargoyqrrehr.supabase.co/functions/v1/flow-executor',
+    headers := jsonb_build_object('Content-Type', 'application/json'),
+    body := '{"trigger_type": "scheduler_tick"}'::jsonb
+  );
+  $$
+);
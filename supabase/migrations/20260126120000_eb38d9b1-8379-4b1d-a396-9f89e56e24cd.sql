@@ -0,0 +1,33 @@
+-- =====================================================
+-- Regras de gatilho dos fluxos do chatbot
+-- =====================================================
+-- Cada regra: { id, type, value, match, days, priority }
+--   type: keyword | first_message | inactivity | button | ad_referral
+--   match (keyword): contains | exact | word | regex
+-- A regra de maior prioridade vence quando vários fluxos correspondem.
+
+ALTER TABLE public.chatbot_flows
+  ADD COLUMN IF NOT EXISTS trigger_rules JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Converter as palavras-chave existentes em regras "contém" (comportamento atual)
+UPDATE public.chatbot_flows
+SET trigger_rules = (
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'id', gen_random_uuid(),
+      'type', 'keyword',
+      'match', 'contains',
+      'value', keyword,
+      'priority', 0
+    )
+  )
+  FROM unnest(trigger_keywords) AS keyword
+)
+WHERE trigger_keywords IS NOT NULL
+  AND array_length(trigger_keywords, 1) > 0
+  AND trigger_rules = '[]'::jsonb;
+
+-- Histórico de mensagens recebidas por contato (primeira mensagem / inatividade)
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_contact_incoming
+  ON public.whatsapp_messages (contact_id, sent_at DESC)
+  WHERE is_from_me = false;
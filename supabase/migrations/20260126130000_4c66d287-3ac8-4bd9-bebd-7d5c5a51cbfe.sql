@@ -0,0 +1,14 @@
+-- =====================================================
+-- Horário de atendimento e feriados da empresa
+-- =====================================================
+-- Formato: { enabled, days: [{ enabled, start: "HH:mm", end: "HH:mm" }] (0 = domingo),
+--            holidays: [{ date: "YYYY-MM-DD", name, recurring }] }
+-- Horários no fuso de companies.timezone. NULL = sempre aberto.
+
+ALTER TABLE public.companies
+  ADD COLUMN IF NOT EXISTS business_hours JSONB;
+
+-- Transferências fora do horário ficam pausadas até a abertura
+CREATE INDEX IF NOT EXISTS idx_chatbot_flow_executions_queued_transfer
+  ON public.chatbot_flow_executions (company_id, contact_id)
+  WHERE status = 'paused' AND (context->>'waiting_for') = 'business_hours';
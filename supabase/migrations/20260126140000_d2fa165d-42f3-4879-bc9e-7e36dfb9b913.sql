@@ -0,0 +1,99 @@
+-- =====================================================
+-- VERSÕES DOS FLUXOS DO CHATBOT (RASCUNHO / PUBLICADO)
+-- =====================================================
+
+-- Cópias imutáveis dos blocos e conexões de um fluxo no momento da publicação.
+-- O editor continua alterando chatbot_flow_nodes / chatbot_flow_edges (rascunho).
+CREATE TABLE public.chatbot_flow_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  flow_id UUID NOT NULL REFERENCES public.chatbot_flows(id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  nodes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  edges JSONB NOT NULL DEFAULT '[]'::jsonb,
+  notes TEXT,
+  published_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (flow_id, version_number)
+);
+
+ALTER TABLE public.chatbot_flow_versions ENABLE ROW LEVEL SECURITY;
+
+-- Sem políticas de UPDATE/DELETE: versões publicadas não mudam
+CREATE POLICY "Users can view flow versions from their company"
+  ON public.chatbot_flow_versions FOR SELECT
+  USING (company_id = get_user_company_id(auth.uid()));
+
+CREATE POLICY "Users can create flow versions for their company"
+  ON public.chatbot_flow_versions FOR INSERT
+  WITH CHECK (company_id = get_user_company_id(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.prevent_flow_version_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Versões publicadas de fluxos não podem ser alteradas';
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER chatbot_flow_versions_immutable
+BEFORE UPDATE ON public.chatbot_flow_versions
+FOR EACH ROW EXECUTE FUNCTION public.prevent_flow_version_update();
+
+-- Versão em produção do fluxo (novas execuções usam esta)
+ALTER TABLE public.chatbot_flows
+ADD COLUMN IF NOT EXISTS published_version_id UUID REFERENCES public.chatbot_flow_versions(id) ON DELETE SET NULL;
+
+-- Versão usada pela execução do início ao fim
+ALTER TABLE public.chatbot_flow_executions
+ADD COLUMN IF NOT EXISTS flow_version_id UUID REFERENCES public.chatbot_flow_versions(id) ON DELETE SET NULL;
+
+-- Execuções e logs apontam para blocos da versão publicada, que podem já ter
+-- sido removidos do rascunho
+ALTER TABLE public.chatbot_flow_executions DROP CONSTRAINT IF EXISTS chatbot_flow_executions_current_node_id_fkey;
+ALTER TABLE public.chatbot_flow_logs DROP CONSTRAINT IF EXISTS chatbot_flow_logs_node_id_fkey;
+
+CREATE INDEX IF NOT EXISTS idx_chatbot_flow_versions_flow
+ON public.chatbot_flow_versions (flow_id, version_number DESC);
+
+-- Fluxos existentes: o conteúdo atual vira a versão 1 publicada
+INSERT INTO public.chatbot_flow_versions (flow_id, company_id, version_number, nodes, edges, notes)
+SELECT
+  f.id,
+  f.company_id,
+  1,
+  COALESCE((
+    SELECT jsonb_agg(jsonb_build_object(
+      'id', n.id,
+      'node_type', n.node_type,
+      'position_x', n.position_x,
+      'position_y', n.position_y,
+      'config', n.config
+    ) ORDER BY n.created_at)
+    FROM public.chatbot_flow_nodes n
+    WHERE n.flow_id = f.id
+  ), '[]'::jsonb),
+  COALESCE((
+    SELECT jsonb_agg(jsonb_build_object(
+      'id', e.id,
+      'source_node_id', e.source_node_id,
+      'target_node_id', e.target_node_id,
+      'source_handle', e.source_handle,
+      'label', e.label
+    ) ORDER BY e.created_at)
+    FROM public.chatbot_flow_edges e
+    WHERE e.flow_id = f.id
+  ), '[]'::jsonb),
+  'Versão inicial'
+FROM public.chatbot_flows f;
+
+UPDATE public.chatbot_flows f
+SET published_version_id = v.id
+FROM public.chatbot_flow_versions v
+WHERE v.flow_id = f.id AND v.version_number = 1;
+
+-- Execuções em andamento continuam na versão 1
+UPDATE public.chatbot_flow_executions ex
+SET flow_version_id = f.published_version_id
+FROM public.chatbot_flows f
+WHERE ex.flow_id = f.id
+  AND ex.status IN ('running', 'waiting_response', 'paused');
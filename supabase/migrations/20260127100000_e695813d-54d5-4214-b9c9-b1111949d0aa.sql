@@ -0,0 +1,69 @@
+-- =====================================================
+-- FILAS DE ATENDIMENTO E ATRIBUIÇÃO DE CONVERSAS
+-- =====================================================
+
+-- Departamentos (Vendas, Suporte...) que recebem as conversas transferidas pelo chatbot
+CREATE TABLE public.chat_queues (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  distribution TEXT NOT NULL DEFAULT 'round_robin' CHECK (distribution IN ('round_robin', 'least_busy')),
+  -- Ponteiro do rodízio (user_id do último atendente que recebeu uma conversa)
+  last_assigned_user_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (company_id, name)
+);
+
+CREATE TABLE public.chat_queue_members (
+  queue_id UUID NOT NULL REFERENCES public.chat_queues(id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (queue_id, user_id)
+);
+
+ALTER TABLE public.chat_queues ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_queue_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view queues from their company"
+  ON public.chat_queues FOR SELECT
+  USING (company_id = get_user_company_id(auth.uid()));
+
+CREATE POLICY "Admins can manage queues of their company"
+  ON public.chat_queues FOR ALL
+  USING (company_id = get_user_company_id(auth.uid()) AND is_admin_or_owner_safe(auth.uid()))
+  WITH CHECK (company_id = get_user_company_id(auth.uid()) AND is_admin_or_owner_safe(auth.uid()));
+
+CREATE POLICY "Users can view queue members from their company"
+  ON public.chat_queue_members FOR SELECT
+  USING (company_id = get_user_company_id(auth.uid()));
+
+CREATE POLICY "Admins can manage queue members of their company"
+  ON public.chat_queue_members FOR ALL
+  USING (company_id = get_user_company_id(auth.uid()) AND is_admin_or_owner_safe(auth.uid()))
+  WITH CHECK (company_id = get_user_company_id(auth.uid()) AND is_admin_or_owner_safe(auth.uid()));
+
+CREATE TRIGGER update_chat_queues_updated_at
+BEFORE UPDATE ON public.chat_queues
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Disponibilidade do atendente: "online" = disponível e com heartbeat recente do app
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS is_available BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMP WITH TIME ZONE;
+
+-- Responsável (user_id) pela conversa e pelo lead
+ALTER TABLE public.whatsapp_contacts
+ADD COLUMN IF NOT EXISTS assigned_to UUID,
+ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS queue_id UUID REFERENCES public.chat_queues(id) ON DELETE SET NULL;
+
+ALTER TABLE public.funnel_leads
+ADD COLUMN IF NOT EXISTS assigned_to UUID;
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_contacts_assigned_to
+ON public.whatsapp_contacts (company_id, assigned_to);
+
+CREATE INDEX IF NOT EXISTS idx_funnel_leads_assigned_to
+ON public.funnel_leads (company_id, assigned_to);
@@ -0,0 +1,55 @@
+-- =====================================================
+-- RESPOSTAS RÁPIDAS DO CHAT (ATALHOS "/")
+-- =====================================================
+
+CREATE TABLE public.quick_replies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  shortcut TEXT NOT NULL,
+  title TEXT NOT NULL,
+  content TEXT NOT NULL DEFAULT '',
+  media_url TEXT,
+  media_type TEXT CHECK (media_type IN ('image', 'video', 'audio', 'document')),
+  media_filename TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (company_id, shortcut)
+);
+
+-- Favoritas de cada usuário (aparecem primeiro no menu)
+CREATE TABLE public.quick_reply_favorites (
+  quick_reply_id UUID NOT NULL REFERENCES public.quick_replies(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (quick_reply_id, user_id)
+);
+
+ALTER TABLE public.quick_replies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quick_reply_favorites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view quick replies from their company"
+  ON public.quick_replies FOR SELECT
+  USING (company_id = get_user_company_id(auth.uid()));
+
+CREATE POLICY "Users can create quick replies in their company"
+  ON public.quick_replies FOR INSERT
+  WITH CHECK (company_id = get_user_company_id(auth.uid()));
+
+CREATE POLICY "Users can update quick replies from their company"
+  ON public.quick_replies FOR UPDATE
+  USING (company_id = get_user_company_id(auth.uid()));
+
+CREATE POLICY "Users can delete quick replies from their company"
+  ON public.quick_replies FOR DELETE
+  USING (company_id = get_user_company_id(auth.uid()));
+
+CREATE POLICY "Users can manage their own favorite quick replies"
+  ON public.quick_reply_favorites FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid() AND company_id = get_user_company_id(auth.uid()));
+
+CREATE TRIGGER update_quick_replies_updated_at
+BEFORE UPDATE ON public.quick_replies
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,38 @@
+-- =====================================================
+-- JANELA DE ATENDIMENTO DE 24H DO WHATSAPP
+-- =====================================================
+
+-- Última mensagem recebida do contato: a Cloud API só aceita mensagens livres até 24h depois dela
+ALTER TABLE public.whatsapp_contacts
+ADD COLUMN IF NOT EXISTS last_inbound_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.track_whatsapp_inbound_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_from_me = false AND NEW.contact_id IS NOT NULL THEN
+    UPDATE public.whatsapp_contacts
+    SET last_inbound_at = GREATEST(COALESCE(last_inbound_at, NEW.sent_at), NEW.sent_at)
+    WHERE id = NEW.contact_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER track_whatsapp_inbound_message
+AFTER INSERT ON public.whatsapp_messages
+FOR EACH ROW EXECUTE FUNCTION public.track_whatsapp_inbound_message();
+
+-- Contatos existentes
+UPDATE public.whatsapp_contacts c
+SET last_inbound_at = m.last_inbound_at
+FROM (
+  SELECT contact_id, MAX(sent_at) AS last_inbound_at
+  FROM public.whatsapp_messages
+  WHERE is_from_me = false AND contact_id IS NOT NULL
+  GROUP BY contact_id
+) m
+WHERE m.contact_id = c.id;
@@ -0,0 +1,119 @@
+-- =====================================================
+-- CAMPANHAS DE TEMPLATES DO WHATSAPP (DISPARO EM MASSA)
+-- =====================================================
+
+CREATE TABLE public.whatsapp_broadcasts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  template_name TEXT NOT NULL,
+  template_language TEXT NOT NULL,
+  -- Componentes do template aprovado no momento da criação (validação dos parâmetros)
+  template_components JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Variáveis com placeholders do lead ({lead_name}...), preenchidas por destinatário no envio
+  params JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- 'draft' enquanto os destinatários são inseridos: o agendador só pega a campanha completa
+  status TEXT NOT NULL DEFAULT 'scheduled'
+    CHECK (status IN ('draft', 'scheduled', 'sending', 'paused', 'completed', 'cancelled')),
+  scheduled_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Fila de envio: uma linha por lead da campanha
+CREATE TABLE public.whatsapp_broadcast_recipients (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  broadcast_id UUID NOT NULL REFERENCES public.whatsapp_broadcasts(id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  lead_id UUID REFERENCES public.funnel_leads(id) ON DELETE SET NULL,
+  contact_id UUID REFERENCES public.whatsapp_contacts(id) ON DELETE SET NULL,
+  -- Mensagem enviada: entregue/lida vêm dos status que o webhook grava nela
+  message_id UUID REFERENCES public.whatsapp_messages(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  error TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (broadcast_id, lead_id)
+);
+
+CREATE INDEX idx_whatsapp_broadcasts_due ON public.whatsapp_broadcasts(scheduled_at)
+WHERE status IN ('scheduled', 'sending');
+CREATE INDEX idx_whatsapp_broadcast_recipients_queue ON public.whatsapp_broadcast_recipients(broadcast_id, status);
+CREATE INDEX idx_whatsapp_broadcast_recipients_sent ON public.whatsapp_broadcast_recipients(company_id, sent_at);
+
+ALTER TABLE public.whatsapp_broadcasts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.whatsapp_broadcast_recipients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view broadcasts from their company"
+  ON public.whatsapp_broadcasts FOR SELECT
+  USING (company_id = get_user_company_id(auth.uid()));
+
+CREATE POLICY "Users can create broadcasts in their company"
+  ON public.whatsapp_broadcasts FOR INSERT
+  WITH CHECK (company_id = get_user_company_id(auth.uid()));
+
+CREATE POLICY "Users can update broadcasts from their company"
+  ON public.whatsapp_broadcasts FOR UPDATE
+  USING (company_id = get_user_company_id(auth.uid()));
+
+-- Rascunho de uma criação que falhou no meio (os destinatários saem junto, ON DELETE CASCADE)
+CREATE POLICY "Users can delete draft broadcasts from their company"
+  ON public.whatsapp_broadcasts FOR DELETE
+  USING (company_id = get_user_company_id(auth.uid()) AND status = 'draft');
+
+CREATE POLICY "Users can view broadcast recipients from their company"
+  ON public.whatsapp_broadcast_recipients FOR SELECT
+  USING (company_id = get_user_company_id(auth.uid()));
+
+CREATE POLICY "Users can add broadcast recipients in their company"
+  ON public.whatsapp_broadcast_recipients FOR INSERT
+  WITH CHECK (company_id = get_user_company_id(auth.uid()));
+
+CREATE TRIGGER update_whatsapp_broadcasts_updated_at
+BEFORE UPDATE ON public.whatsapp_broadcasts
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Contadores das campanhas (acumulados: lidas também contam como entregues e enviadas)
+CREATE OR REPLACE FUNCTION public.get_whatsapp_broadcast_stats(p_broadcast_ids UUID[])
+RETURNS TABLE (
+  broadcast_id UUID,
+  total BIGINT,
+  pending BIGINT,
+  sent BIGINT,
+  delivered BIGINT,
+  read BIGINT,
+  failed BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    r.broadcast_id,
+    COUNT(*) AS total,
+    COUNT(*) FILTER (WHERE r.status = 'pending') AS pending,
+    COUNT(*) FILTER (WHERE r.status = 'sent' AND COALESCE(m.status, 'sent') IN ('sent', 'delivered', 'read')) AS sent,
+    COUNT(*) FILTER (WHERE r.status = 'sent' AND m.status IN ('delivered', 'read')) AS delivered,
+    COUNT(*) FILTER (WHERE r.status = 'sent' AND m.status = 'read') AS read,
+    COUNT(*) FILTER (WHERE r.status = 'failed' OR m.status = 'failed') AS failed
+  FROM public.whatsapp_broadcast_recipients r
+  LEFT JOIN public.whatsapp_messages m ON m.id = r.message_id
+  WHERE r.broadcast_id = ANY(p_broadcast_ids)
+  GROUP BY r.broadcast_id;
+$$;
+
+-- Envia os lotes das campanhas a cada minuto
+SELECT cron.schedule(
+  'whatsapp-broadcast',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://ysiszrxwbargoyqrrehr.supabase.co/functions/v1/whatsapp-broadcast',
+    headers := jsonb_build_object('Content-Type', 'application/json'),
+    body := '{}'::jsonb
+  );
+  $$
+);